@@ -2,6 +2,9 @@
 import { defineConfig } from 'astro/config';
 import tailwind from '@astrojs/tailwind';
 import vercel from '@astrojs/vercel';
+import { loadEnv } from 'vite';
+import { assertKeywordRegistry } from './src/lib/variations/keyword-registry.ts';
+import { staticPages } from './src/lib/static-pages.ts';
 
 // https://astro.build/config
 // Site URL is set dynamically via PUBLIC_SITE_URL or SITE_URL env variable
@@ -9,10 +12,19 @@ import vercel from '@astrojs/vercel';
 // Use PUBLIC_SITE_URL if available, fallback to SITE_URL, then try to get from site-config
 const siteURL = process.env.PUBLIC_SITE_URL || process.env.SITE_URL || null;
 
+// STATIC_PAGES may live in .env, which process.env does not see here
+const env = loadEnv(process.env.NODE_ENV || 'production', process.cwd(), '');
+
 export default defineConfig({
   output: 'server',
   adapter: vercel(),
-  integrations: [tailwind()],
+  integrations: [
+    tailwind(),
+    // Fail the build when an enabled keyword is missing its module or a required export
+    { name: 'keyword-registry', hooks: { 'astro:config:setup': () => assertKeywordRegistry() } },
+    // Prerender state and city pages when STATIC_PAGES=true (see src/lib/static-pages.ts)
+    staticPages(env),
+  ],
   site: siteURL || 'https://example.com', // Will be replaced during deployment with actual domain
   server: { port: 4321, host: true },
   build: { inlineStylesheets: 'auto' }
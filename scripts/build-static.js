@@ -0,0 +1,40 @@
+/**
+ * Build the site with every state and city page prerendered (STATIC_PAGES=true),
+ * optionally rendering the pages over several chunked builds first
+ *
+ * Usage: node scripts/build-static.js [chunks]   (default: 1 - a single build)
+ *
+ * Each chunk build renders its slice of the changed pages into the page cache. The
+ * final build then only renders what is left and restores everything else, so no
+ * single build renders the whole site.
+ */
+
+import { spawnSync } from 'node:child_process';
+
+const chunks = Number(process.argv[2] || 1);
+
+if (!Number.isInteger(chunks) || chunks < 1) {
+  console.error(`Chunk count must be a positive whole number, got "${process.argv[2]}"`);
+  process.exit(1);
+}
+
+function build(env) {
+  const result = spawnSync('npx', ['astro', 'build'], {
+    stdio: 'inherit',
+    env: { ...process.env, STATIC_PAGES: 'true', ...env },
+  });
+  if (result.status !== 0) {
+    process.exit(result.status ?? 1);
+  }
+}
+
+if (chunks > 1) {
+  for (let index = 1; index <= chunks; index++) {
+    console.log(`\nRendering chunk ${index} of ${chunks}\n`);
+    build({ STATIC_PAGES_CHUNK: `${index}/${chunks}` });
+  }
+}
+
+// STATIC_PAGES_FORCE has already been applied by the chunk builds
+console.log('\nBuilding the site\n');
+build(chunks > 1 ? { STATIC_PAGES_CHUNK: '', STATIC_PAGES_FORCE: '' } : { STATIC_PAGES_CHUNK: '' });
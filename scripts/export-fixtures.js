@@ -0,0 +1,65 @@
+/**
+ * Export the states, cities and providers tables into a fixtures directory
+ * so the site can be built with DATA_SOURCE=fixtures and no database
+ *
+ * Usage: node scripts/export-fixtures.js [dir]   (default: DATA_FIXTURES_DIR or src/data/fixtures)
+ */
+
+import 'dotenv/config';
+import { mkdir, writeFile } from 'node:fs/promises';
+import { join, resolve } from 'node:path';
+import { createClient } from '@supabase/supabase-js';
+
+const PAGE_SIZE = 1000;
+const CITY_COLUMNS = ['id', 'name', 'state_id', 'population', 'latitude', 'longitude', 'county', 'timezone', 'tribal_land', 'tribal_area'];
+
+const url = process.env.PUBLIC_SUPABASE_URL;
+const key = process.env.SUPABASE_SERVICE_ROLE_KEY || process.env.PUBLIC_SUPABASE_ANON_KEY;
+const dir = resolve(process.argv[2] || process.env.DATA_FIXTURES_DIR || 'src/data/fixtures');
+
+if (!url || !key) {
+  console.error('PUBLIC_SUPABASE_URL and a Supabase key must be set');
+  process.exit(1);
+}
+
+const supabase = createClient(url, key);
+
+async function readAll(table, columns = '*') {
+  const rows = [];
+  for (let from = 0; ; from += PAGE_SIZE) {
+    const { data, error } = await supabase
+      .from(table)
+      .select(columns)
+      .order('id')
+      .range(from, from + PAGE_SIZE - 1);
+
+    if (error) throw new Error(`Reading ${table} failed: ${error.message}`);
+    rows.push(...data);
+    if (data.length < PAGE_SIZE) return rows;
+  }
+}
+
+// Text is always quoted so commas, quotes and newlines in it survive
+function csvCell(value) {
+  if (value === null || value === undefined) return '';
+  if (typeof value === 'number' || typeof value === 'boolean') return String(value);
+  const text = typeof value === 'object' ? JSON.stringify(value) : String(value);
+  return `"${text.replace(/"/g, '""')}"`;
+}
+
+function toCSV(rows, columns) {
+  return [columns.join(','), ...rows.map(row => columns.map(column => csvCell(row[column])).join(','))].join('\n') + '\n';
+}
+
+const [states, cities, providers] = await Promise.all([
+  readAll('states', 'id, name, abbreviation, region'),
+  readAll('cities', CITY_COLUMNS.join(', ')),
+  readAll('providers', 'id, name, plans, coverage, contact_info'),
+]);
+
+await mkdir(dir, { recursive: true });
+await writeFile(join(dir, 'states.json'), JSON.stringify(states, null, 2) + '\n');
+await writeFile(join(dir, 'cities.csv'), toCSV(cities, CITY_COLUMNS));
+await writeFile(join(dir, 'providers.json'), JSON.stringify(providers, null, 2) + '\n');
+
+console.log(`Exported ${states.length} states, ${cities.length} cities and ${providers.length} providers to ${dir}`);
@@ -0,0 +1,122 @@
+/**
+ * Load the ip_ranges table from the DB-IP "IP to City Lite" CSV (CC BY 4.0)
+ *
+ * Usage: node scripts/import-ip-ranges.js <dbip-city-lite-YYYY-MM.csv[.gz]>
+ *
+ * Download the CSV from https://db-ip.com/db/download/ip-to-city-lite. Only IPv4
+ * ranges in the 50 states and DC are kept. The table must be empty, since ranges
+ * from an older release would overlap the new ones - run `truncate public.ip_ranges;`
+ * before loading a new month.
+ * Needs the table from supabase/migrations/20261019120200_create_ip_ranges.sql
+ */
+
+import 'dotenv/config';
+import { createReadStream } from 'node:fs';
+import { createInterface } from 'node:readline';
+import { createGunzip } from 'node:zlib';
+import { createClient } from '@supabase/supabase-js';
+import { US_STATES } from './us-states.js';
+
+const BATCH_SIZE = 1000;
+
+const file = process.argv[2];
+const url = process.env.PUBLIC_SUPABASE_URL;
+const key = process.env.SUPABASE_SERVICE_ROLE_KEY;
+
+if (!file) {
+  console.error('Usage: node scripts/import-ip-ranges.js <dbip-city-lite.csv[.gz]>');
+  process.exit(1);
+}
+if (!url || !key) {
+  console.error('PUBLIC_SUPABASE_URL and SUPABASE_SERVICE_ROLE_KEY must be set');
+  process.exit(1);
+}
+
+const supabase = createClient(url, key);
+const abbreviations = new Map(US_STATES.map(state => [state.name, state.abbreviation]));
+
+// Same conversion as ipv4ToNumber in src/lib/ip-location.ts - null for IPv6
+function ipv4ToNumber(ip) {
+  const parts = ip.split('.');
+  if (parts.length !== 4 || parts.some(part => !/^\d{1,3}$/.test(part) || Number(part) > 255)) return null;
+  return parts.reduce((value, part) => value * 256 + Number(part), 0);
+}
+
+// One CSV line - fields may be quoted and contain commas
+function parseLine(line) {
+  const cells = [];
+  let cell = '';
+  let quoted = false;
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i];
+    if (quoted) {
+      if (char === '"' && line[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      cells.push(cell);
+      cell = '';
+    } else {
+      cell += char;
+    }
+  }
+  cells.push(cell);
+  return cells;
+}
+
+// ip_start, ip_end, continent, country, state/province, city, latitude, longitude
+function toRow(line) {
+  const [start, end, , country, stateprov, city, latitude, longitude] = parseLine(line);
+  const region = abbreviations.get(stateprov);
+  const ipStart = ipv4ToNumber(start || '');
+  const ipEnd = ipv4ToNumber(end || '');
+  if (country !== 'US' || !region || ipStart === null || ipEnd === null) return null;
+
+  const lat = Number(latitude);
+  const lon = Number(longitude);
+  if (latitude === '' || longitude === '' || !Number.isFinite(lat) || !Number.isFinite(lon)) return null;
+
+  return { ip_start: ipStart, ip_end: ipEnd, region, city: city || null, latitude: lat, longitude: lon };
+}
+
+async function writeBatch(rows) {
+  const { error } = await supabase.from('ip_ranges').insert(rows);
+  if (error) throw new Error(`Writing IP ranges failed: ${error.message}`);
+}
+
+const { count, error } = await supabase.from('ip_ranges').select('ip_start', { count: 'exact', head: true });
+if (error) throw new Error(`Reading ip_ranges failed: ${error.message}`);
+if (count) {
+  console.error(`ip_ranges already has ${count} rows - run \`truncate public.ip_ranges;\` before loading a new file`);
+  process.exit(1);
+}
+
+const input = createReadStream(file);
+const lines = createInterface({ input: file.endsWith('.gz') ? input.pipe(createGunzip()) : input, crlfDelay: Infinity });
+
+let batch = [];
+let loaded = 0;
+for await (const line of lines) {
+  const row = toRow(line);
+  if (!row) continue;
+
+  batch.push(row);
+  if (batch.length === BATCH_SIZE) {
+    await writeBatch(batch);
+    loaded += batch.length;
+    batch = [];
+  }
+}
+if (batch.length > 0) {
+  await writeBatch(batch);
+  loaded += batch.length;
+}
+
+console.log(`Loaded ${loaded} US IPv4 ranges`);
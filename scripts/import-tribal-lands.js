@@ -0,0 +1,117 @@
+/**
+ * Flag cities on tribal lands (cities.tribal_land / tribal_area) from the Census
+ * 2020 AIANNH to Place relationship file - every place that overlaps an American
+ * Indian, Alaska Native or Native Hawaiian area on land
+ *
+ * Usage: node scripts/import-tribal-lands.js <relationship-file>
+ *
+ * Download tab20_aiannh20_place20_natl.txt from
+ * https://www2.census.gov/geo/docs/maps-data/data/rel2020/aiannh/
+ *
+ * Cities are matched to places by state and name slug. Cities flagged before but no
+ * longer matched are cleared, so the script can be re-run on a newer file.
+ * Needs the columns from supabase/migrations/20261019120000_add_cities_tribal_land.sql
+ */
+
+import 'dotenv/config';
+import { readFile } from 'node:fs/promises';
+import { createClient } from '@supabase/supabase-js';
+import { createCitySlug } from '../src/lib/slug-utils.js';
+import { STATE_BY_FIPS } from './us-states.js';
+
+const PAGE_SIZE = 1000;
+const COLUMNS = ['GEOID_PLACE_20', 'NAMELSAD_PLACE_20', 'NAMELSAD_AIANNH_20', 'AREALAND_PART'];
+
+const file = process.argv[2];
+const url = process.env.PUBLIC_SUPABASE_URL;
+const key = process.env.SUPABASE_SERVICE_ROLE_KEY;
+
+if (!file) {
+  console.error('Usage: node scripts/import-tribal-lands.js <relationship-file>');
+  process.exit(1);
+}
+if (!url || !key) {
+  console.error('PUBLIC_SUPABASE_URL and SUPABASE_SERVICE_ROLE_KEY must be set');
+  process.exit(1);
+}
+
+const supabase = createClient(url, key);
+
+async function readAll(table, columns) {
+  const rows = [];
+  for (let from = 0; ; from += PAGE_SIZE) {
+    const { data, error } = await supabase
+      .from(table)
+      .select(columns)
+      .order('id')
+      .range(from, from + PAGE_SIZE - 1);
+
+    if (error) throw new Error(`Reading ${table} failed: ${error.message}`);
+    rows.push(...data);
+    if (data.length < PAGE_SIZE) return rows;
+  }
+}
+
+// "Window Rock CDP", "Juneau city and borough" -> the place name without its legal description
+function placeName(namelsad) {
+  return namelsad.replace(/(\s+(?:[a-z(][a-z()-]*|CDP))+$/, '');
+}
+
+/**
+ * Tribal area per "<state abbreviation>:<city slug>" - the area covering most of the
+ * place's land when there are several
+ */
+function readTribalPlaces(text) {
+  const [header, ...lines] = text.split(/\r?\n/).filter(line => line.trim());
+  const names = header.split('|');
+  const index = Object.fromEntries(COLUMNS.map(column => [column, names.indexOf(column)]));
+  const missing = COLUMNS.filter(column => index[column] === -1);
+  if (missing.length > 0) {
+    throw new Error(`Not an AIANNH to Place relationship file - missing ${missing.join(', ')}`);
+  }
+
+  const places = new Map();
+  for (const line of lines) {
+    const cells = line.split('|');
+    const geoid = cells[index.GEOID_PLACE_20];
+    const landArea = Number(cells[index.AREALAND_PART]) || 0;
+    const state = STATE_BY_FIPS.get(geoid?.slice(0, 2));
+    // Rows for the parts of an area outside any place, and water-only overlaps
+    if (!geoid || !state || landArea <= 0) continue;
+
+    const placeKey = `${state.abbreviation}:${createCitySlug(placeName(cells[index.NAMELSAD_PLACE_20]))}`;
+    const current = places.get(placeKey);
+    if (!current || landArea > current.landArea) {
+      places.set(placeKey, { area: cells[index.NAMELSAD_AIANNH_20], landArea });
+    }
+  }
+  return places;
+}
+
+const places = readTribalPlaces(await readFile(file, 'utf8'));
+const [states, cities] = await Promise.all([
+  readAll('states', 'id, abbreviation'),
+  readAll('cities', 'id, name, state_id, tribal_land, tribal_area'),
+]);
+const abbreviations = new Map(states.map(state => [state.id, state.abbreviation.toUpperCase()]));
+
+let onTribalLand = 0;
+let flagged = 0;
+let cleared = 0;
+for (const city of cities) {
+  const place = places.get(`${abbreviations.get(city.state_id)}:${createCitySlug(city.name)}`);
+  if (place) onTribalLand++;
+
+  const update = place
+    ? { tribal_land: true, tribal_area: place.area }
+    : { tribal_land: false, tribal_area: null };
+
+  if (city.tribal_land === update.tribal_land && (city.tribal_area || null) === update.tribal_area) continue;
+
+  const { error } = await supabase.from('cities').update(update).eq('id', city.id);
+  if (error) throw new Error(`Updating ${city.name} failed: ${error.message}`);
+  if (place) flagged++;
+  else cleared++;
+}
+
+console.log(`${places.size} places overlap tribal areas; ${onTribalLand} of ${cities.length} cities are on tribal land (${flagged} newly flagged or renamed, ${cleared} cleared)`);
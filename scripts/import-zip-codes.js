@@ -0,0 +1,69 @@
+/**
+ * Load the zip_codes table from the GeoNames US postal code file (CC BY 4.0)
+ *
+ * Usage: node scripts/import-zip-codes.js <US.txt>
+ *
+ * Download https://download.geonames.org/export/zip/US.zip and unzip it. ZIP codes
+ * outside the 50 states and DC (territories, military mail) are skipped.
+ * Needs the table from supabase/migrations/20261019120100_create_zip_codes.sql
+ */
+
+import 'dotenv/config';
+import { readFile } from 'node:fs/promises';
+import { createClient } from '@supabase/supabase-js';
+import { US_STATES } from './us-states.js';
+
+const BATCH_SIZE = 1000;
+
+const file = process.argv[2];
+const url = process.env.PUBLIC_SUPABASE_URL;
+const key = process.env.SUPABASE_SERVICE_ROLE_KEY;
+
+if (!file) {
+  console.error('Usage: node scripts/import-zip-codes.js <US.txt>');
+  process.exit(1);
+}
+if (!url || !key) {
+  console.error('PUBLIC_SUPABASE_URL and SUPABASE_SERVICE_ROLE_KEY must be set');
+  process.exit(1);
+}
+
+const supabase = createClient(url, key);
+const abbreviations = new Set(US_STATES.map(state => state.abbreviation));
+
+function coordinate(value) {
+  const number = Number(value);
+  return value !== '' && Number.isFinite(number) ? number : null;
+}
+
+// Tab-separated: country, postal code, place, state name, state code, county, county code,
+// community, community code, latitude, longitude, accuracy
+function readZipCodes(text) {
+  const rows = new Map();
+  for (const line of text.split(/\r?\n/)) {
+    const [country, zip, city, , state, county, , , , latitude, longitude] = line.split('\t');
+    if (country !== 'US' || !/^\d{5}$/.test(zip || '') || !city || !abbreviations.has(state)) continue;
+
+    rows.set(zip, {
+      zip,
+      city,
+      state,
+      county: county || null,
+      latitude: coordinate(latitude),
+      longitude: coordinate(longitude),
+    });
+  }
+  return [...rows.values()];
+}
+
+const rows = readZipCodes(await readFile(file, 'utf8'));
+
+for (let from = 0; from < rows.length; from += BATCH_SIZE) {
+  const { error } = await supabase
+    .from('zip_codes')
+    .upsert(rows.slice(from, from + BATCH_SIZE), { onConflict: 'zip' });
+
+  if (error) throw new Error(`Writing ZIP codes failed: ${error.message}`);
+}
+
+console.log(`Loaded ${rows.length} ZIP codes`);
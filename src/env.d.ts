@@ -10,10 +10,29 @@ interface ImportMetaEnv {
   readonly PUBLIC_SITE_NAME: string;
   readonly ADMIN_EMAIL: string;
   readonly ADMIN_PASSWORD: string;
+  readonly ADMIN_PASSWORD_HASH?: string;
+  readonly ADMIN_SESSION_SECRET: string;
   readonly RATE_LIMIT_WINDOW_MS: string;
   readonly RATE_LIMIT_MAX_REQUESTS: string;
+  readonly SEEDED_RANDOM_MODE?: 'compat' | 'unified';
+  readonly REDIS_URL?: string;
+  readonly KV_REST_API_URL?: string;
+  readonly KV_REST_API_TOKEN?: string;
+  readonly CACHE_WEBHOOK_SECRET?: string;
+  readonly DATA_SOURCE?: 'supabase' | 'fixtures';
+  readonly DATA_FIXTURES_DIR?: string;
+  readonly STATIC_PAGES?: string;
+  readonly STATIC_PAGES_CHUNK?: string;
+  readonly STATIC_PAGES_FORCE?: string;
+  readonly STATIC_PAGES_CACHE_DIR?: string;
 }
 
 interface ImportMeta {
   readonly env: ImportMetaEnv;
-} 
\ No newline at end of file
+}
+
+declare namespace App {
+  interface Locals {
+    admin?: import('./lib/admin-auth').AdminSession;
+  }
+}
@@ -0,0 +1,202 @@
+/**
+ * Admin Authentication
+ * bcrypt credential checks, HMAC-signed session cookies and login lockout
+ */
+
+import bcrypt from 'bcrypt'
+import { createHmac, timingSafeEqual } from 'node:crypto'
+import { supabaseAdmin } from './supabase'
+import { SSRCache } from './cache'
+
+export const ADMIN_SESSION_COOKIE = 'admin_session'
+
+export const SESSION_TTL = {
+  DEFAULT: 8 * 60 * 60 * 1000,           // 8 hours
+  REMEMBER_ME: 30 * 24 * 60 * 60 * 1000, // 30 days
+}
+
+export const LOCKOUT = {
+  MAX_ATTEMPTS: 5,
+  WINDOW: 15 * 60 * 1000,   // failed attempts counted over 15 minutes
+  DURATION: 15 * 60 * 1000, // locked for 15 minutes
+}
+
+export interface AdminSession {
+  email: string
+  exp: number
+}
+
+export type LoginResult =
+  | { ok: true; session: AdminSession; token: string; maxAge: number }
+  | { ok: false; reason: 'invalid' | 'locked'; retryAfter?: number }
+
+interface AdminUser {
+  email: string
+  password_hash: string
+}
+
+interface AttemptRecord {
+  count: number
+  lockedUntil: number
+}
+
+// Failed attempts per email + client address - kept in the shared tier when one is configured
+const attempts = new SSRCache()
+
+// Hash of a random throwaway password, compared against when the email is unknown
+const DUMMY_HASH = '$2b$12$R2yYbH1AKyS9Nk3JxkRC1.ib3moGDjZEZm2xMp6N96sIJl4NnenDW'
+
+function getSessionSecret(): string {
+  const secret = import.meta.env.ADMIN_SESSION_SECRET
+  if (!secret || secret.length < 32) {
+    throw new Error('ADMIN_SESSION_SECRET must be set to at least 32 characters')
+  }
+  return secret
+}
+
+function sign(payload: string): string {
+  return createHmac('sha256', getSessionSecret()).update(payload).digest('base64url')
+}
+
+/**
+ * Create a signed session token: base64url(JSON payload).signature
+ */
+export function createSessionToken(session: AdminSession): string {
+  const payload = Buffer.from(JSON.stringify(session)).toString('base64url')
+  return `${payload}.${sign(payload)}`
+}
+
+/**
+ * Verify a session token and return its payload if valid and not expired
+ */
+export function verifySessionToken(token: string | undefined): AdminSession | null {
+  if (!token) return null
+
+  const [payload, signature] = token.split('.')
+  if (!payload || !signature) return null
+
+  try {
+    const expected = Buffer.from(sign(payload))
+    const actual = Buffer.from(signature)
+    if (expected.length !== actual.length || !timingSafeEqual(expected, actual)) {
+      return null
+    }
+
+    const session = JSON.parse(Buffer.from(payload, 'base64url').toString('utf8')) as AdminSession
+    if (!session.email || typeof session.exp !== 'number' || session.exp < Date.now()) {
+      return null
+    }
+    return session
+  } catch (err) {
+    console.error('[Auth] Error verifying session token:', err)
+    return null
+  }
+}
+
+/**
+ * Look up an admin user by email
+ * Reads the admin_users table, falling back to ADMIN_EMAIL + ADMIN_PASSWORD_HASH
+ */
+async function findAdminUser(email: string): Promise<AdminUser | null> {
+  if (supabaseAdmin) {
+    try {
+      const { data, error } = await supabaseAdmin
+        .from('admin_users')
+        .select('email, password_hash')
+        .eq('email', email)
+        .maybeSingle()
+
+      if (error) {
+        console.error('[Auth] Error fetching admin user:', error)
+      } else if (data) {
+        return data as AdminUser
+      }
+    } catch (err) {
+      console.error('[Auth] Exception fetching admin user:', err)
+    }
+  }
+
+  const envEmail = import.meta.env.ADMIN_EMAIL?.trim().toLowerCase()
+  const envHash = import.meta.env.ADMIN_PASSWORD_HASH?.trim()
+  if (envEmail && envHash && envEmail === email) {
+    return { email: envEmail, password_hash: envHash }
+  }
+
+  return null
+}
+
+function attemptKey(email: string, clientAddress: string): string {
+  return `admin-login:${email}:${clientAddress}`
+}
+
+/**
+ * Milliseconds until the account is unlocked, or 0 if not locked
+ */
+export async function getLockoutRemaining(email: string, clientAddress: string): Promise<number> {
+  const record = await attempts.get<AttemptRecord>(attemptKey(email.toLowerCase(), clientAddress))
+  if (!record) return 0
+  return Math.max(0, record.lockedUntil - Date.now())
+}
+
+async function recordFailure(email: string, clientAddress: string): Promise<void> {
+  const key = attemptKey(email, clientAddress)
+  const record = await attempts.get<AttemptRecord>(key) || { count: 0, lockedUntil: 0 }
+  record.count++
+  if (record.count >= LOCKOUT.MAX_ATTEMPTS) {
+    record.lockedUntil = Date.now() + LOCKOUT.DURATION
+    await attempts.set(key, record, LOCKOUT.DURATION)
+    console.warn(`[Auth] Admin login locked for ${email} after ${record.count} failed attempts`)
+    return
+  }
+  await attempts.set(key, record, LOCKOUT.WINDOW)
+}
+
+/**
+ * Check credentials and issue a session
+ * Unknown users still run a bcrypt compare so timing does not reveal valid emails
+ */
+export async function login(
+  rawEmail: string,
+  password: string,
+  rememberMe: boolean,
+  clientAddress: string
+): Promise<LoginResult> {
+  const email = rawEmail.trim().toLowerCase()
+
+  const lockedFor = await getLockoutRemaining(email, clientAddress)
+  if (lockedFor > 0) {
+    return { ok: false, reason: 'locked', retryAfter: lockedFor }
+  }
+
+  const user = await findAdminUser(email)
+  const hash = user?.password_hash || DUMMY_HASH
+  const valid = await bcrypt.compare(password, hash).catch(() => false)
+
+  if (!user || !valid) {
+    await recordFailure(email, clientAddress)
+    const remaining = await getLockoutRemaining(email, clientAddress)
+    return remaining > 0
+      ? { ok: false, reason: 'locked', retryAfter: remaining }
+      : { ok: false, reason: 'invalid' }
+  }
+
+  await attempts.invalidate(attemptKey(email, clientAddress))
+
+  const maxAge = rememberMe ? SESSION_TTL.REMEMBER_ME : SESSION_TTL.DEFAULT
+  const session: AdminSession = { email: user.email, exp: Date.now() + maxAge }
+  return { ok: true, session, token: createSessionToken(session), maxAge }
+}
+
+/**
+ * Hash a password for storing in admin_users or ADMIN_PASSWORD_HASH
+ */
+export async function hashPassword(password: string): Promise<string> {
+  return bcrypt.hash(password, 12)
+}
+
+/**
+ * Paths under /admin that do not require a session
+ */
+export function isPublicAdminPath(pathname: string): boolean {
+  return pathname === '/admin/login' || pathname === '/admin/login/'
+}
@@ -0,0 +1,179 @@
+/**
+ * Admin Dashboard Metrics
+ * Application counts by status, coverage totals and a recent activity feed
+ */
+
+import { supabaseAdmin, supabase } from './supabase'
+import { getStates, getTotalCityCount } from './db'
+import { APPLICATION_STATUS, type ApplicationStatus } from './applications'
+
+export type ActivityKind = 'application' | 'provider' | 'city'
+
+export interface ActivityItem {
+  kind: ActivityKind
+  label: string
+  timestamp: string
+}
+
+export interface DashboardMetrics {
+  applications: {
+    total: number
+    byStatus: Record<ApplicationStatus, number>
+  }
+  states: number
+  cities: number
+  activity: ActivityItem[]
+}
+
+const ACTIVITY_PER_SOURCE = 5
+const ACTIVITY_LIMIT = 8
+
+// Applications are usually behind RLS, so prefer the service role client
+const client = () => supabaseAdmin || supabase
+
+/**
+ * Count applications, optionally restricted to a single status
+ */
+async function countApplications(status?: ApplicationStatus): Promise<number> {
+  const db = client()
+  if (!db) return 0
+
+  try {
+    let query = db.from('applications').select('*', { count: 'exact', head: true })
+    if (status) query = query.eq('status', status)
+
+    const { count, error } = await query
+    if (error) {
+      console.error(`[Admin] Error counting ${status || 'all'} applications:`, error)
+      return 0
+    }
+    return count || 0
+  } catch (err) {
+    console.error('[Admin] Exception counting applications:', err)
+    return 0
+  }
+}
+
+/**
+ * Application totals grouped by status
+ */
+export async function getApplicationStatusCounts(): Promise<DashboardMetrics['applications']> {
+  const statuses = Object.values(APPLICATION_STATUS)
+  const [total, ...counts] = await Promise.all([
+    countApplications(),
+    ...statuses.map(status => countApplications(status)),
+  ])
+
+  const byStatus = Object.fromEntries(
+    statuses.map((status, i) => [status, counts[i]])
+  ) as Record<ApplicationStatus, number>
+
+  return { total, byStatus }
+}
+
+/**
+ * Fetch the latest rows of a table ordered by created_at
+ */
+async function fetchRecent<T>(table: 'applications' | 'providers' | 'cities', columns: string): Promise<T[]> {
+  const db = client()
+  if (!db) return []
+
+  try {
+    const { data, error } = await db
+      .from(table)
+      .select(columns)
+      .order('created_at', { ascending: false })
+      .limit(ACTIVITY_PER_SOURCE)
+
+    if (error) {
+      console.error(`[Admin] Error fetching recent ${table}:`, error)
+      return []
+    }
+    return (data || []) as T[]
+  } catch (err) {
+    console.error(`[Admin] Exception fetching recent ${table}:`, err)
+    return []
+  }
+}
+
+/**
+ * Recently created applications, providers and cities merged into one feed, newest first
+ * Providers have no updated_at, so edits to an existing provider do not appear
+ */
+export async function getRecentActivity(): Promise<ActivityItem[]> {
+  const [applications, providers, cities] = await Promise.all([
+    fetchRecent<{ status: string; created_at: string; data: { city?: string; state?: string } | null }>(
+      'applications', 'status, created_at, data'
+    ),
+    fetchRecent<{ name: string; created_at: string }>('providers', 'name, created_at'),
+    fetchRecent<{ name: string; created_at: string; states: { abbreviation: string } | null }>(
+      'cities', 'name, created_at, states(abbreviation)'
+    ),
+  ])
+
+  const items: ActivityItem[] = [
+    ...applications.map(app => ({
+      kind: 'application' as const,
+      label: app.data?.city && app.data?.state
+        ? `Application ${app.status}: ${app.data.city}, ${app.data.state}`
+        : `Application ${app.status}`,
+      timestamp: app.created_at,
+    })),
+    ...providers.map(provider => ({
+      kind: 'provider' as const,
+      label: `Provider added: ${provider.name}`,
+      timestamp: provider.created_at,
+    })),
+    ...cities.map(city => ({
+      kind: 'city' as const,
+      label: city.states?.abbreviation
+        ? `New city added: ${city.name}, ${city.states.abbreviation}`
+        : `New city added: ${city.name}`,
+      timestamp: city.created_at,
+    })),
+  ]
+
+  return items
+    .filter(item => item.timestamp)
+    .sort((a, b) => Date.parse(b.timestamp) - Date.parse(a.timestamp))
+    .slice(0, ACTIVITY_LIMIT)
+}
+
+/**
+ * Everything the dashboard renders, fetched in parallel
+ */
+export async function getDashboardMetrics(): Promise<DashboardMetrics> {
+  const [applications, states, cities, activity] = await Promise.all([
+    getApplicationStatusCounts(),
+    getStates(),
+    getTotalCityCount(),
+    getRecentActivity(),
+  ])
+
+  return {
+    applications,
+    states: states.length,
+    cities,
+    activity,
+  }
+}
+
+/**
+ * Human-readable age of a timestamp ("2 minutes ago")
+ */
+export function formatTimeAgo(timestamp: string, now: number = Date.now()): string {
+  const seconds = Math.max(0, Math.floor((now - Date.parse(timestamp)) / 1000))
+  const units: [number, string][] = [
+    [60 * 60 * 24 * 365, 'year'],
+    [60 * 60 * 24 * 30, 'month'],
+    [60 * 60 * 24, 'day'],
+    [60 * 60, 'hour'],
+    [60, 'minute'],
+  ]
+
+  for (const [size, unit] of units) {
+    const value = Math.floor(seconds / size)
+    if (value >= 1) return `${value} ${unit}${value === 1 ? '' : 's'} ago`
+  }
+  return 'just now'
+}
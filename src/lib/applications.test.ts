@@ -0,0 +1,28 @@
+import { describe, expect, it } from 'vitest'
+import { validateApplication } from './applications'
+import { getApplyFormContent } from './variations/shared/apply-variations'
+
+const incomplete = { firstName: 'Ana', email: 'ana@', phone: '555', zip: '123', state: 'Nowhere', household: '0' }
+
+describe('validateApplication', () => {
+  it('words field errors with the English labels by default', () => {
+    const { fieldLabels } = getApplyFormContent('example.com')
+    const { input, errors } = validateApplication(incomplete, fieldLabels)
+
+    expect(input).toBeNull()
+    expect(errors.lastName).toMatch(/ is required\.$/)
+    expect(errors.phone).toMatch(/^Please enter a 10-digit /)
+    expect(errors.household).toMatch(/ must be between 1 and 20\.$/)
+  })
+
+  it('words field errors in Spanish for the Spanish form', () => {
+    const { fieldLabels } = getApplyFormContent('example.com', 'es')
+    const { errors } = validateApplication(incomplete, fieldLabels, 'es')
+
+    expect(errors.lastName).toMatch(/^El campo .+ es obligatorio\.$/)
+    expect(errors.email).toMatch(/^Revise el campo .+: el valor no es válido\.$/)
+    expect(errors.phone).toMatch(/^Ingrese un .+ de 10 dígitos\.$/)
+    expect(errors.state).toMatch(/^Seleccione un .+ válido\.$/)
+    expect(Object.values(errors).join(' ')).not.toMatch(/required|Please|\(Obligatorio\)/)
+  })
+})
@@ -0,0 +1,284 @@
+/**
+ * Application Intake
+ * Validates /apply submissions, resolves city + provider and writes to the applications table
+ */
+
+import { supabaseAdmin, supabase } from './supabase'
+import { getStates, getCityBySlug, getProviders, type Provider } from './db'
+import { createCitySlug } from './slug-utils.js'
+import { STATE_NAME_TO_ABBR } from './site-config'
+import { getValidationMessages } from './variations/shared/form-variations'
+import type { ApplyPageContent } from './variations/shared/variation-types'
+import type { Locale } from './i18n'
+
+export const APPLICATION_STATUS = {
+  SUBMITTED: 'submitted',
+  PENDING: 'pending',
+  APPROVED: 'approved',
+  REJECTED: 'rejected',
+} as const
+
+export type ApplicationStatus = typeof APPLICATION_STATUS[keyof typeof APPLICATION_STATUS]
+
+export type ApplicationField =
+  | 'firstName'
+  | 'lastName'
+  | 'email'
+  | 'phone'
+  | 'address'
+  | 'city'
+  | 'state'
+  | 'zip'
+  | 'income'
+  | 'household'
+
+export interface ApplicationInput {
+  firstName: string
+  lastName: string
+  email: string
+  phone: string
+  address: string
+  city: string
+  state: string
+  zip: string
+  income?: number
+  household: number
+  provider?: string
+}
+
+export interface ApplicationResult {
+  ok: boolean
+  message: string
+  applicationId?: number
+  // provider has no form field - it is only sent by callers that pick one
+  errors?: Partial<Record<ApplicationField | 'provider', string>>
+}
+
+const REQUIRED_FIELDS: ApplicationField[] = ['firstName', 'lastName', 'email', 'phone', 'address', 'city', 'state', 'zip', 'household']
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/
+const ZIP_PATTERN = /^\d{5}(-\d{4})?$/
+
+/**
+ * Strip decorations like "(Required)" or "Enter" from a varied label
+ * so it reads naturally inside an error message
+ */
+function plainLabel(label: string): string {
+  return label
+    .replace(/\s*\(.*?\)\s*/g, '')
+    .replace(/^(Enter|Your|Select|Seleccione su|Su)\s+/i, '')
+    .trim()
+}
+
+/**
+ * Fill a validation message template - {label} and {lowerLabel} name the field
+ */
+function fillMessage(template: string, label: string, values: Record<string, string> = {}): string {
+  const plain = plainLabel(label)
+  return template
+    .replace(/\{label\}/g, plain)
+    .replace(/\{lowerLabel\}/g, plain.toLowerCase())
+    .replace(/\{(city|state|provider)\}/g, (token, key: string) => values[key] ?? token)
+}
+
+function readString(source: Record<string, unknown>, key: string): string {
+  const value = source[key]
+  return typeof value === 'string' ? value.trim() : ''
+}
+
+/**
+ * Normalize a state field (abbreviation or full name) to a 2-letter abbreviation
+ */
+export function normalizeStateInput(value: string): string | null {
+  const trimmed = value.trim()
+  if (/^[a-z]{2}$/i.test(trimmed)) {
+    return trimmed.toUpperCase()
+  }
+  const abbr = STATE_NAME_TO_ABBR[createCitySlug(trimmed)]
+  return abbr || null
+}
+
+/**
+ * Validate raw form fields against the varied labels for this domain
+ * Returns the normalized input, or per-field errors keyed by field name, worded for the locale
+ */
+export function validateApplication(
+  raw: Record<string, unknown>,
+  labels: ApplyPageContent['fieldLabels'],
+  locale: Locale = 'en'
+): { input: ApplicationInput | null; errors: Partial<Record<ApplicationField, string>> } {
+  const messages = getValidationMessages(locale)
+  const errors: Partial<Record<ApplicationField, string>> = {}
+  const values: Record<string, string> = {}
+
+  for (const field of [...REQUIRED_FIELDS, 'income' as const]) {
+    values[field] = readString(raw, field)
+  }
+
+  for (const field of REQUIRED_FIELDS) {
+    if (!values[field]) {
+      errors[field] = fillMessage(messages.required, labels[field])
+    }
+  }
+
+  if (values.email && !EMAIL_PATTERN.test(values.email)) {
+    errors.email = fillMessage(messages.invalid, labels.email)
+  }
+
+  const phoneDigits = values.phone.replace(/\D/g, '').replace(/^1(?=\d{10}$)/, '')
+  if (values.phone && phoneDigits.length !== 10) {
+    errors.phone = fillMessage(messages.phone, labels.phone)
+  }
+
+  if (values.zip && !ZIP_PATTERN.test(values.zip)) {
+    errors.zip = fillMessage(messages.zip, labels.zip)
+  }
+
+  const stateAbbr = values.state ? normalizeStateInput(values.state) : null
+  if (values.state && !stateAbbr) {
+    errors.state = fillMessage(messages.state, labels.state)
+  }
+
+  const household = parseInt(values.household, 10)
+  if (values.household && (!Number.isInteger(household) || household < 1 || household > 20)) {
+    errors.household = fillMessage(messages.household, labels.household)
+  }
+
+  let income: number | undefined
+  if (values.income) {
+    income = Number(values.income.replace(/[$,\s]/g, ''))
+    if (!Number.isFinite(income) || income < 0) {
+      errors.income = fillMessage(messages.invalid, labels.income)
+    }
+  }
+
+  if (Object.keys(errors).length > 0) {
+    return { input: null, errors }
+  }
+
+  return {
+    input: {
+      firstName: values.firstName,
+      lastName: values.lastName,
+      email: values.email.toLowerCase(),
+      phone: phoneDigits,
+      address: values.address,
+      city: values.city,
+      state: stateAbbr!,
+      zip: values.zip,
+      income,
+      household,
+      provider: readString(raw, 'provider') || undefined,
+    },
+    errors,
+  }
+}
+
+/**
+ * Resolve the city row for a submitted city name + state abbreviation
+ */
+export async function resolveCityId(cityName: string, stateAbbr: string): Promise<number | null> {
+  const states = await getStates()
+  const state = states.find(s => s.abbreviation.toUpperCase() === stateAbbr.toUpperCase())
+  if (!state?.slug) return null
+
+  const city = await getCityBySlug(state.slug, createCitySlug(cityName))
+  return city?.id ?? null
+}
+
+/**
+ * Resolve the provider for an application
+ * Accepts a provider id or name; without one, falls back to the first listed provider.
+ * Null when the named provider is unknown or there are no providers.
+ */
+export async function resolveProviderId(provider?: string): Promise<number | null> {
+  const providers: Provider[] = await getProviders()
+  if (providers.length === 0) return null
+
+  if (provider) {
+    const byId = providers.find(p => String(p.id) === provider)
+    if (byId) return byId.id
+
+    const bySlug = providers.find(p => createCitySlug(p.name) === createCitySlug(provider))
+    return bySlug?.id ?? null
+  }
+
+  return providers[0].id
+}
+
+/**
+ * Validate, resolve and store an application
+ * Messages come from the domain's ApplyPageContent so every site words them differently
+ */
+export async function submitApplication(
+  raw: Record<string, unknown>,
+  content: ApplyPageContent,
+  meta: { domain: string; source?: string | null; locale?: Locale }
+): Promise<ApplicationResult> {
+  const messages = getValidationMessages(meta.locale)
+  const { input, errors } = validateApplication(raw, content.fieldLabels, meta.locale)
+  if (!input) {
+    return { ok: false, message: content.errorMessage, errors }
+  }
+
+  const client = supabaseAdmin || supabase
+  if (!client) {
+    console.error('[Applications] Supabase not available, cannot store application')
+    return { ok: false, message: content.errorMessage }
+  }
+
+  const [cityId, providerId] = await Promise.all([
+    resolveCityId(input.city, input.state),
+    resolveProviderId(input.provider),
+  ])
+
+  if (!cityId) {
+    return {
+      ok: false,
+      message: content.errorMessage,
+      errors: { city: fillMessage(messages.cityNotFound, content.fieldLabels.city, { city: input.city, state: input.state }) },
+    }
+  }
+
+  if (!providerId && input.provider) {
+    return {
+      ok: false,
+      message: content.errorMessage,
+      errors: { provider: fillMessage(messages.providerNotFound, '', { provider: input.provider }) },
+    }
+  }
+
+  if (!providerId) {
+    console.error('[Applications] No providers available to assign application')
+    return { ok: false, message: content.errorMessage }
+  }
+
+  try {
+    const { data, error } = await client
+      .from('applications')
+      .insert({
+        user_id: crypto.randomUUID(),
+        city_id: cityId,
+        provider_id: providerId,
+        status: APPLICATION_STATUS.SUBMITTED,
+        data: {
+          ...input,
+          domain: meta.domain,
+          source: meta.source || null,
+          submitted_at: new Date().toISOString(),
+        },
+      })
+      .select('id')
+      .single()
+
+    if (error) {
+      console.error('[Applications] Error inserting application:', error)
+      return { ok: false, message: content.errorMessage }
+    }
+
+    return { ok: true, message: content.successMessage, applicationId: data?.id }
+  } catch (err) {
+    console.error('[Applications] Exception inserting application:', err)
+    return { ok: false, message: content.errorMessage }
+  }
+}
@@ -0,0 +1,153 @@
+import { afterAll, beforeAll, describe, expect, it } from 'vitest'
+import {
+  signWebhookPayload,
+  verifyWebhookSignature,
+  verifyWebhookSecret,
+  parseRowChangeEvent,
+  planInvalidation,
+  invalidateRowChange,
+  SIGNATURE_TOLERANCE_MS,
+  type RowChangeEvent,
+} from './cache-invalidation'
+import { cache, cacheKeys } from './cache'
+import { getLocalizedCityURL, getLocalizedStateURL } from './i18n'
+import { setDataSource } from './data-source'
+import { FixtureDataSource } from './data-source-fixtures'
+
+const SECRET = 'test-secret'
+const NOW = 1_760_000_000_000
+const TIMESTAMP = String(NOW / 1000)
+
+// Texas is state 2 in the fallback list used when Supabase is not configured
+const cityUpdate = (record: Record<string, unknown>, old_record: Record<string, unknown>): RowChangeEvent => ({
+  type: 'UPDATE',
+  table: 'cities',
+  record,
+  old_record,
+})
+
+describe('verifyWebhookSignature', () => {
+  const body = JSON.stringify({ type: 'UPDATE', table: 'states' })
+  const signature = signWebhookPayload(body, TIMESTAMP, SECRET)
+
+  it('accepts a body signed with the secret', () => {
+    expect(verifyWebhookSignature(body, signature, TIMESTAMP, SECRET, NOW)).toBe(true)
+  })
+
+  it('rejects a changed body, wrong secret or missing headers', () => {
+    expect(verifyWebhookSignature(body + ' ', signature, TIMESTAMP, SECRET, NOW)).toBe(false)
+    expect(verifyWebhookSignature(body, signature, TIMESTAMP, 'other-secret', NOW)).toBe(false)
+    expect(verifyWebhookSignature(body, null, TIMESTAMP, SECRET, NOW)).toBe(false)
+    expect(verifyWebhookSignature(body, signature, null, SECRET, NOW)).toBe(false)
+  })
+
+  it('rejects replays outside the tolerance window', () => {
+    expect(verifyWebhookSignature(body, signature, TIMESTAMP, SECRET, NOW + SIGNATURE_TOLERANCE_MS + 1000)).toBe(false)
+  })
+})
+
+describe('verifyWebhookSecret', () => {
+  it('accepts only the exact secret', () => {
+    expect(verifyWebhookSecret(SECRET, SECRET)).toBe(true)
+    expect(verifyWebhookSecret('test-secre', SECRET)).toBe(false)
+    expect(verifyWebhookSecret(`${SECRET} `, SECRET)).toBe(false)
+    expect(verifyWebhookSecret(null, SECRET)).toBe(false)
+  })
+})
+
+describe('parseRowChangeEvent', () => {
+  it('accepts Supabase webhook payloads on watched tables', () => {
+    const event = parseRowChangeEvent({ type: 'DELETE', table: 'providers', schema: 'public', record: null, old_record: { id: 4 } })
+    expect(event).toEqual({ type: 'DELETE', table: 'providers', record: null, old_record: { id: 4 } })
+  })
+
+  it('ignores other tables and malformed bodies', () => {
+    expect(parseRowChangeEvent({ type: 'UPDATE', table: 'applications', record: { id: 1 } })).toBeNull()
+    expect(parseRowChangeEvent({ type: 'TRUNCATE', table: 'cities', record: null })).toBeNull()
+    expect(parseRowChangeEvent({ type: 'UPDATE', table: 'cities', record: null, old_record: null })).toBeNull()
+    expect(parseRowChangeEvent('cities')).toBeNull()
+  })
+})
+
+describe('planInvalidation', () => {
+  it('maps a city rename to its state, both city URLs and the nearby lists', async () => {
+    const plan = await planInvalidation(cityUpdate(
+      { id: 10, name: 'Round Rock', state_id: 2 },
+      { id: 10, name: 'Roundrock', state_id: 2 }
+    ))
+
+    expect(plan.keys).toEqual([cacheKeys.sitemap(), cacheKeys.cities(2)])
+    expect(plan.prefixes).toEqual(['nearby:', 'city-list:', 'top-cities:2:', 'city:texas:', 'city-page:TX:'])
+    expect(plan.urls).toEqual(expect.arrayContaining([
+      getLocalizedStateURL('TX', 'en'),
+      getLocalizedStateURL('TX', 'es'),
+      getLocalizedCityURL('round-rock', 'TX', 'en'),
+      getLocalizedCityURL('roundrock', 'TX', 'es'),
+    ]))
+  })
+
+  it('maps a state change to the state lists, its cities and the main sitemap', async () => {
+    const plan = await planInvalidation({ type: 'UPDATE', table: 'states', record: { id: 3, name: 'Florida', abbreviation: 'FL' }, old_record: null })
+
+    expect(plan.keys).toEqual([cacheKeys.states(), cacheKeys.sitemap(), cacheKeys.state('florida'), cacheKeys.cities(3), cacheKeys.stateByAbbr('FL')])
+    expect(plan.prefixes).toEqual(['city-list:', 'city:florida:', 'top-cities:3:', 'city-page:FL:'])
+    expect(plan.urls).toContain(getLocalizedStateURL('FL', 'en'))
+    expect(plan.urls.some(url => url.endsWith('/sitemap-main.xml'))).toBe(true)
+  })
+
+  it('recounts cities when one is added', async () => {
+    const plan = await planInvalidation({ type: 'INSERT', table: 'cities', record: { id: 11, name: 'Leander', state_id: 2 }, old_record: null })
+
+    expect(plan.keys).toContain(cacheKeys.cityCount())
+    expect(plan.urls.some(url => url.endsWith('/sitemap.xml'))).toBe(true)
+  })
+
+  it('purges only covered state pages for a regional provider, every state for a nationwide one', async () => {
+    const regional = await planInvalidation({ type: 'INSERT', table: 'providers', record: { id: 1, coverage: { states: ['NY'] } }, old_record: null })
+    expect(regional.keys).toEqual([cacheKeys.providers()])
+    expect(regional.urls).toContain(getLocalizedStateURL('NY', 'en'))
+    expect(regional.urls).not.toContain(getLocalizedStateURL('TX', 'en'))
+
+    const nationwide = await planInvalidation({ type: 'UPDATE', table: 'providers', record: { id: 1, coverage: { nationwide: true } }, old_record: null })
+    expect(nationwide.urls).toContain(getLocalizedStateURL('TX', 'en'))
+    expect(nationwide.urls).toContain(getLocalizedStateURL('CA', 'es'))
+  })
+})
+
+describe('planInvalidation on fixtures', () => {
+  beforeAll(async () => {
+    setDataSource(new FixtureDataSource())
+    await cache.clear()
+  })
+
+  afterAll(async () => {
+    setDataSource(undefined)
+    await cache.clear()
+  })
+
+  it('purges the city pages of the states a provider covers', async () => {
+    const plan = await planInvalidation({ type: 'UPDATE', table: 'providers', record: { id: 1, coverage: { states: ['MO'] } }, old_record: null })
+
+    expect(plan.urls).toContain(getLocalizedCityURL('st-louis', 'MO', 'en'))
+    expect(plan.urls).toContain(getLocalizedCityURL('springfield', 'MO', 'es'))
+    expect(plan.urls).not.toContain(getLocalizedCityURL('springfield', 'IL', 'en'))
+  })
+})
+
+describe('invalidateRowChange', () => {
+  it('clears the cached entries it reports', async () => {
+    await cache.set(cacheKeys.cities(2), ['Austin'], 60_000)
+    await cache.set(cacheKeys.city('texas', 'austin'), { id: 1 }, 60_000)
+    await cache.set(cacheKeys.city('ohio', 'columbus'), { id: 2 }, 60_000)
+    await cache.set(cacheKeys.cityPage('TX', 'austin'), { id: 1 }, 60_000)
+    await cache.set(cacheKeys.topCities(2, 20), ['Houston', 'Austin'], 60_000)
+
+    await invalidateRowChange(cityUpdate({ id: 1, name: 'Austin', state_id: 2 }, { id: 1, name: 'Austin', state_id: 2 }))
+
+    expect(await cache.get(cacheKeys.cities(2))).toBeNull()
+    expect(await cache.get(cacheKeys.city('texas', 'austin'))).toBeNull()
+    expect(await cache.get(cacheKeys.cityPage('TX', 'austin'))).toBeNull()
+    expect(await cache.get(cacheKeys.topCities(2, 20))).toBeNull()
+    expect(await cache.get(cacheKeys.city('ohio', 'columbus'))).toEqual({ id: 2 })
+  })
+})
@@ -0,0 +1,262 @@
+/**
+ * Cache Invalidation from Supabase Row Changes
+ * Maps a database webhook event on states, cities or providers to the SSRCache
+ * keys it makes stale and the page URLs the CDN should purge
+ *
+ * Events arrive in the Supabase database webhook format and must carry CACHE_WEBHOOK_SECRET
+ * in one of two ways:
+ *
+ * - Shared secret, for Supabase Database Webhooks, which can only send fixed headers.
+ *   Add an HTTP header on the webhook (Database > Webhooks > HTTP Headers):
+ *     X-Webhook-Secret: <CACHE_WEBHOOK_SECRET>
+ *   Use a long random secret - the header is the same on every request, so it relies on
+ *   HTTPS to stay private and does not protect against replays.
+ * - Signature, for senders that can compute one per request (an Edge Function or a
+ *   pg_net trigger relaying the event), which also rejects replays:
+ *     X-Webhook-Timestamp: unix seconds
+ *     X-Webhook-Signature: sha256=hex(HMAC-SHA256(CACHE_WEBHOOK_SECRET, `${timestamp}.${body}`))
+ */
+
+import { createHash, createHmac, timingSafeEqual } from 'node:crypto'
+import { cache, cacheKeys, cacheKeyPrefixes } from './cache'
+import { getCitiesByState, getStates, toSlug, type State } from './db'
+import { LOCALES, getLocalizedCityURL, getLocalizedPageURL, getLocalizedStateURL, isLocalizedStaticPage } from './i18n'
+import { getSiteURL } from './site-config'
+import { getSitemapChunkForCity } from './sitemap-utils'
+import { createCitySlug } from './slug-utils.js'
+import { normalizeCoverage } from './providers'
+
+export const WATCHED_TABLES = ['states', 'cities', 'providers'] as const
+export type WatchedTable = typeof WATCHED_TABLES[number]
+
+type Row = Record<string, unknown>
+
+export interface RowChangeEvent {
+  type: 'INSERT' | 'UPDATE' | 'DELETE'
+  table: WatchedTable
+  record: Row | null
+  old_record: Row | null
+}
+
+export interface InvalidationPlan {
+  keys: string[]
+  prefixes: string[]
+  urls: string[]
+}
+
+// Signed events older than this are rejected so a captured request cannot be replayed
+export const SIGNATURE_TOLERANCE_MS = 5 * 60 * 1000
+
+export function signWebhookPayload(body: string, timestamp: string, secret: string): string {
+  return `sha256=${createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex')}`
+}
+
+/**
+ * Check the signature and timestamp headers against the raw request body
+ */
+export function verifyWebhookSignature(
+  body: string,
+  signature: string | null,
+  timestamp: string | null,
+  secret: string,
+  now: number = Date.now()
+): boolean {
+  if (!signature || !timestamp || !/^\d+$/.test(timestamp)) return false
+  if (Math.abs(now - Number(timestamp) * 1000) > SIGNATURE_TOLERANCE_MS) return false
+
+  const expected = Buffer.from(signWebhookPayload(body, timestamp, secret))
+  const actual = Buffer.from(signature)
+  return expected.length === actual.length && timingSafeEqual(expected, actual)
+}
+
+/**
+ * Check a shared-secret header - both sides are hashed first so the comparison takes
+ * the same time whatever the header's length
+ */
+export function verifyWebhookSecret(header: string | null, secret: string): boolean {
+  if (!header) return false
+
+  const expected = createHash('sha256').update(secret).digest()
+  const actual = createHash('sha256').update(header).digest()
+  return timingSafeEqual(expected, actual)
+}
+
+function isRow(value: unknown): value is Row {
+  return typeof value === 'object' && value !== null && !Array.isArray(value)
+}
+
+/**
+ * Validate a webhook body - null when it is not a change on a watched table
+ */
+export function parseRowChangeEvent(value: unknown): RowChangeEvent | null {
+  if (!isRow(value)) return null
+
+  const { type, table, record, old_record } = value
+  if (type !== 'INSERT' && type !== 'UPDATE' && type !== 'DELETE') return null
+  if (!WATCHED_TABLES.includes(table as WatchedTable)) return null
+
+  const event: RowChangeEvent = {
+    type,
+    table: table as WatchedTable,
+    record: isRow(record) ? record : null,
+    old_record: isRow(old_record) ? old_record : null,
+  }
+  return event.record || event.old_record ? event : null
+}
+
+/**
+ * Both versions of the row - a rename or a move makes the old URLs stale too
+ */
+function rowVersions(event: RowChangeEvent): Row[] {
+  return [event.record, event.old_record].filter((row): row is Row => row !== null)
+}
+
+function text(row: Row, column: string): string | null {
+  const value = row[column]
+  return typeof value === 'string' && value.trim() ? value.trim() : null
+}
+
+function int(row: Row, column: string): number | null {
+  const value = Number(row[column])
+  return row[column] !== null && row[column] !== undefined && Number.isInteger(value) ? value : null
+}
+
+function stateURLs(stateAbbr: string): string[] {
+  return LOCALES.map(locale => getLocalizedStateURL(stateAbbr, locale))
+}
+
+function pageURLs(path: string): string[] {
+  return isLocalizedStaticPage(path)
+    ? LOCALES.map(locale => getLocalizedPageURL(path, locale))
+    : [`${getSiteURL()}${path}/`]
+}
+
+function sitemapURL(name: string): string {
+  return `${getSiteURL()}/${name}.xml`
+}
+
+async function planStateChange(event: RowChangeEvent, plan: InvalidationPlan): Promise<void> {
+  plan.keys.push(cacheKeys.states(), cacheKeys.sitemap())
+  // Cross-state city lists carry state names and abbreviations
+  plan.prefixes.push(cacheKeyPrefixes.cityLists())
+  plan.urls.push(...pageURLs('/states'), sitemapURL('sitemap-main'))
+
+  for (const row of rowVersions(event)) {
+    const name = text(row, 'name')
+    const abbreviation = text(row, 'abbreviation')
+    const id = int(row, 'id')
+
+    if (name) {
+      plan.keys.push(cacheKeys.state(toSlug(name)))
+      plan.prefixes.push(cacheKeyPrefixes.citiesOfState(toSlug(name)))
+    }
+    if (id !== null) {
+      plan.keys.push(cacheKeys.cities(id))
+      plan.prefixes.push(cacheKeyPrefixes.topCitiesOfState(id))
+    }
+    if (abbreviation) {
+      plan.keys.push(cacheKeys.stateByAbbr(abbreviation))
+      plan.prefixes.push(cacheKeyPrefixes.cityPagesOfState(abbreviation))
+      plan.urls.push(...stateURLs(abbreviation))
+    }
+  }
+}
+
+async function planCityChange(event: RowChangeEvent, plan: InvalidationPlan, states: State[]): Promise<void> {
+  plan.keys.push(cacheKeys.sitemap())
+  plan.prefixes.push(cacheKeyPrefixes.nearby(), cacheKeyPrefixes.cityLists())
+
+  // Adding or removing a city can change how many sitemap files there are
+  if (event.type !== 'UPDATE') {
+    plan.keys.push(cacheKeys.cityCount())
+    plan.urls.push(sitemapURL('sitemap'))
+  }
+
+  for (const row of rowVersions(event)) {
+    const stateId = int(row, 'state_id')
+    const state = states.find(s => s.id === stateId)
+    const name = text(row, 'name')
+    if (stateId === null) continue
+
+    plan.keys.push(cacheKeys.cities(stateId))
+    plan.prefixes.push(cacheKeyPrefixes.topCitiesOfState(stateId))
+    if (!state) continue
+
+    plan.prefixes.push(
+      cacheKeyPrefixes.citiesOfState(state.slug || toSlug(state.name)),
+      cacheKeyPrefixes.cityPagesOfState(state.abbreviation)
+    )
+    plan.urls.push(...stateURLs(state.abbreviation))
+    if (name) {
+      plan.urls.push(...LOCALES.map(locale => getLocalizedCityURL(createCitySlug(name), state.abbreviation, locale)))
+    }
+
+    const chunk = await getSitemapChunkForCity(int(row, 'population'))
+    if (chunk !== null) {
+      plan.urls.push(sitemapURL(`sitemap-${chunk}`))
+      // Skipped duplicates can only move a city into an earlier file
+      if (chunk > 2) plan.urls.push(sitemapURL(`sitemap-${chunk - 1}`))
+    }
+  }
+}
+
+async function planProviderChange(event: RowChangeEvent, plan: InvalidationPlan, states: State[]): Promise<void> {
+  plan.keys.push(cacheKeys.providers())
+  plan.urls.push(...pageURLs('/providers'))
+
+  // State and city pages list the providers covering them
+  const coverage = rowVersions(event).map(row => normalizeCoverage(row.coverage))
+  const affected = coverage.some(c => c.nationwide)
+    ? states.map(s => s.abbreviation)
+    : coverage.flatMap(c => c.states)
+
+  for (const abbreviation of new Set(affected)) {
+    plan.urls.push(...stateURLs(abbreviation))
+
+    const state = states.find(s => s.abbreviation.toUpperCase() === abbreviation)
+    if (!state) continue
+    for (const city of await getCitiesByState(state.id)) {
+      const slug = createCitySlug(city.name)
+      if (slug) plan.urls.push(...LOCALES.map(locale => getLocalizedCityURL(slug, state.abbreviation, locale)))
+    }
+  }
+}
+
+/**
+ * Keys, key prefixes and URLs made stale by a row change
+ */
+export async function planInvalidation(event: RowChangeEvent): Promise<InvalidationPlan> {
+  const plan: InvalidationPlan = { keys: [], prefixes: [], urls: [] }
+
+  if (event.table === 'states') {
+    await planStateChange(event, plan)
+  } else {
+    // Read before anything is invalidated so the lookup can be served from cache
+    const states = await getStates()
+    if (event.table === 'cities') await planCityChange(event, plan, states)
+    else await planProviderChange(event, plan, states)
+  }
+
+  return {
+    keys: [...new Set(plan.keys)],
+    prefixes: [...new Set(plan.prefixes)],
+    urls: [...new Set(plan.urls)],
+  }
+}
+
+/**
+ * Invalidate everything a row change made stale and return what was cleared
+ */
+export async function invalidateRowChange(event: RowChangeEvent): Promise<InvalidationPlan> {
+  const plan = await planInvalidation(event)
+
+  for (const key of plan.keys) {
+    await cache.invalidate(key)
+  }
+  for (const prefix of plan.prefixes) {
+    await cache.invalidatePrefix(prefix)
+  }
+
+  console.log(`[Cache] ${event.type} on ${event.table}: cleared ${plan.keys.length} keys, ${plan.prefixes.length} prefixes, ${plan.urls.length} URLs to purge`)
+  return plan
+}
@@ -0,0 +1,58 @@
+import { afterAll, describe, expect, it } from 'vitest'
+import { RedisCacheBackend, createRedisCommand } from './cache-redis'
+import { SSRCache } from './cache'
+
+// Runs against a real server: REDIS_URL=redis://localhost:6379 npm test
+const REDIS_URL = process.env.REDIS_URL
+const NAMESPACE = `ssr-test:${process.pid}:`
+
+describe.skipIf(!REDIS_URL)('RedisCacheBackend', () => {
+  const command = createRedisCommand(REDIS_URL!)
+  const backend = new RedisCacheBackend(command, NAMESPACE)
+  const entry = (data: unknown, ttl = 60_000) => ({ data, timestamp: Date.now(), ttl, staleTtl: 0 })
+
+  afterAll(async () => {
+    await backend.clear()
+  })
+
+  it('round-trips entries and expires them with the stale window', async () => {
+    await backend.set('states:all', entry(['Ohio']))
+    expect((await backend.get('states:all'))?.data).toEqual(['Ohio'])
+
+    const ttl = Number(await command(['PTTL', `${NAMESPACE}states:all`]))
+    expect(ttl).toBeGreaterThan(0)
+    expect(ttl).toBeLessThanOrEqual(60_000)
+  })
+
+  it('keeps Maps in cached values', async () => {
+    await backend.set('sitemap:all', entry({ states: [1], cities: new Map([[1, ['Austin']]]) }))
+    const cached = await backend.get<{ cities: Map<number, string[]> }>('sitemap:all')
+    expect(cached?.data.cities.get(1)).toEqual(['Austin'])
+  })
+
+  it('deletes by prefix without touching other keys', async () => {
+    await backend.set('city:texas:austin', entry('Austin'))
+    await backend.set('city:texas:houston', entry('Houston'))
+    await backend.set('city:ohio:columbus', entry('Columbus'))
+    await backend.set('city:t*', entry('literal'))
+
+    await backend.deletePrefix('city:texas:')
+    expect(await backend.get('city:texas:austin')).toBeNull()
+    expect(await backend.get('city:texas:houston')).toBeNull()
+    expect((await backend.get('city:ohio:columbus'))?.data).toBe('Columbus')
+
+    await backend.deletePrefix('city:t*')
+    expect(await backend.get('city:t*')).toBeNull()
+    expect((await backend.get('city:ohio:columbus'))?.data).toBe('Columbus')
+  })
+
+  it('serves a second instance from the shared tier', async () => {
+    const warm = new SSRCache({ shared: backend })
+    const cold = new SSRCache({ shared: backend })
+    let fetches = 0
+
+    await warm.getOrFetch('providers:all', async () => ++fetches, 60_000)
+    expect(await cold.getOrFetch('providers:all', async () => ++fetches, 60_000)).toBe(1)
+    expect(fetches).toBe(1)
+  })
+})
@@ -0,0 +1,140 @@
+/**
+ * Redis / KV Cache Backend
+ * Shared cache tier for SSRCache - one store for every serverless instance
+ *
+ * Configured from env, first match wins:
+ * - REDIS_URL: any Redis server over TCP (redis://localhost:6379 for local testing)
+ * - KV_REST_API_URL + KV_REST_API_TOKEN: Vercel KV / Upstash over HTTPS
+ *
+ * Keys are namespaced per site so several sites can share one store.
+ */
+
+import type { CacheBackend, CacheEntry } from './cache'
+import { getDomain } from './site-config'
+
+/**
+ * Send one Redis command, e.g. ['SET', 'key', 'value', 'PX', '1000']
+ */
+export type RedisCommand = (args: string[]) => Promise<unknown>
+
+const SCAN_BATCH = 500
+
+/**
+ * JSON that keeps Maps - cached values such as the sitemap data hold them
+ */
+function replacer(_key: string, value: unknown): unknown {
+  return value instanceof Map ? { __map: Array.from(value.entries()) } : value
+}
+
+function reviver(_key: string, value: unknown): unknown {
+  return value && typeof value === 'object' && '__map' in value
+    ? new Map((value as { __map: [unknown, unknown][] }).__map)
+    : value
+}
+
+/**
+ * Escape glob characters so a key prefix only matches itself in SCAN MATCH
+ */
+function escapeGlob(value: string): string {
+  return value.replace(/[*?[\]\\]/g, '\\$&')
+}
+
+export class RedisCacheBackend implements CacheBackend {
+  constructor(
+    private command: RedisCommand,
+    private namespace: string,
+    readonly name: string = 'redis'
+  ) {}
+
+  async get<T>(key: string): Promise<CacheEntry<T> | null> {
+    const value = await this.command(['GET', this.namespace + key])
+    return typeof value === 'string' ? JSON.parse(value, reviver) as CacheEntry<T> : null
+  }
+
+  async set<T>(key: string, entry: CacheEntry<T>): Promise<void> {
+    const expiresIn = Math.max(1, Math.ceil(entry.timestamp + entry.ttl + entry.staleTtl - Date.now()))
+    await this.command(['SET', this.namespace + key, JSON.stringify(entry, replacer), 'PX', String(expiresIn)])
+  }
+
+  async delete(key: string): Promise<void> {
+    await this.command(['DEL', this.namespace + key])
+  }
+
+  async deletePrefix(prefix: string): Promise<void> {
+    const match = `${escapeGlob(this.namespace + prefix)}*`
+    let cursor = '0'
+
+    do {
+      const [next, keys] = await this.command(['SCAN', cursor, 'MATCH', match, 'COUNT', String(SCAN_BATCH)]) as [string, string[]]
+      if (keys.length > 0) {
+        await this.command(['DEL', ...keys])
+      }
+      cursor = next
+    } while (cursor !== '0')
+  }
+
+  async clear(): Promise<void> {
+    await this.deletePrefix('')
+  }
+}
+
+/**
+ * Commands over a TCP connection - connects on first use and reuses the
+ * connection for the life of the instance
+ */
+export function createRedisCommand(url: string): RedisCommand {
+  let client: Promise<{ sendCommand(args: string[]): Promise<unknown> }> | null = null
+
+  const connect = async () => {
+    const { createClient } = await import('redis')
+    const redis = createClient({ url })
+    redis.on('error', err => console.error('[Cache] Redis connection error:', err))
+    await redis.connect()
+    return redis
+  }
+
+  return async (args) => {
+    client ??= connect().catch(err => {
+      client = null
+      throw err
+    })
+    return (await client).sendCommand(args)
+  }
+}
+
+/**
+ * Commands over the Upstash REST protocol that Vercel KV speaks
+ */
+export function createRestRedisCommand(url: string, token: string): RedisCommand {
+  return async (args) => {
+    const response = await fetch(url, {
+      method: 'POST',
+      headers: { Authorization: `Bearer ${token}`, 'Content-Type': 'application/json' },
+      body: JSON.stringify(args)
+    })
+    const body = await response.json() as { result?: unknown; error?: string }
+
+    if (!response.ok || body.error) {
+      throw new Error(`KV ${args[0]} failed: ${body.error ?? response.status}`)
+    }
+    return body.result
+  }
+}
+
+/**
+ * Shared backend for the configured store, or null when none is configured
+ */
+export function createSharedBackendFromEnv(): CacheBackend | null {
+  const env = import.meta.env
+  const namespace = `ssr:${getDomain()}:`
+
+  if (env.REDIS_URL) {
+    return new RedisCacheBackend(createRedisCommand(env.REDIS_URL), namespace, 'redis')
+  }
+
+  if (env.KV_REST_API_URL && env.KV_REST_API_TOKEN) {
+    return new RedisCacheBackend(createRestRedisCommand(env.KV_REST_API_URL, env.KV_REST_API_TOKEN), namespace, 'kv')
+  }
+
+  return null
+}
@@ -0,0 +1,122 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import { SSRCache, MemoryCacheBackend } from './cache'
+
+const TTL = 60_000
+
+// Resolves on demand so tests can hold a fetch in flight
+function deferred<T>() {
+  let resolve!: (value: T) => void
+  const promise = new Promise<T>(r => { resolve = r })
+  return { promise, resolve }
+}
+
+describe('SSRCache', () => {
+  beforeEach(() => {
+    vi.useFakeTimers()
+  })
+
+  afterEach(() => {
+    vi.useRealTimers()
+  })
+
+  it('turns 50 concurrent misses into one fetch', async () => {
+    const cache = new SSRCache({ shared: null })
+    const pending = deferred<string[]>()
+    const fetcher = vi.fn(() => pending.promise)
+
+    const reads = Array.from({ length: 50 }, () => cache.getOrFetch('cities:5', fetcher, TTL))
+    pending.resolve(['Austin', 'Houston'])
+
+    expect(await Promise.all(reads)).toEqual(Array(50).fill(['Austin', 'Houston']))
+    expect(fetcher).toHaveBeenCalledOnce()
+  })
+
+  it('serves stale data while one background fetch refreshes it', async () => {
+    const cache = new SSRCache({ shared: null })
+    await cache.getOrFetch('states:all', async () => 'v1', TTL, { staleWhileRevalidate: TTL })
+
+    vi.advanceTimersByTime(TTL + 1)
+    const refresh = deferred<string>()
+    const fetcher = vi.fn(() => refresh.promise)
+
+    expect(await cache.getOrFetch('states:all', fetcher, TTL)).toBe('v1')
+    expect(await cache.getOrFetch('states:all', fetcher, TTL)).toBe('v1')
+    expect(fetcher).toHaveBeenCalledOnce()
+
+    refresh.resolve('v2')
+    await vi.waitFor(async () => expect(await cache.get('states:all')).toBe('v2'))
+  })
+
+  it('keeps serving stale data when the background refresh fails', async () => {
+    const error = vi.spyOn(console, 'error').mockImplementation(() => {})
+    const cache = new SSRCache({ shared: null })
+    await cache.getOrFetch('providers:all', async () => 'v1', TTL)
+
+    vi.advanceTimersByTime(TTL + 1)
+    expect(await cache.getOrFetch('providers:all', () => Promise.reject(new Error('down')), TTL)).toBe('v1')
+    await vi.waitFor(() => expect(error).toHaveBeenCalledOnce())
+    expect(await cache.get('providers:all')).toBe('v1')
+    error.mockRestore()
+  })
+
+  it('fetches again once the stale window has passed', async () => {
+    const cache = new SSRCache({ shared: null })
+    await cache.getOrFetch('zip:90210', async () => 'v1', TTL, { staleWhileRevalidate: 0 })
+
+    vi.advanceTimersByTime(TTL + 1)
+    expect(await cache.getOrFetch('zip:90210', async () => 'v2', TTL)).toBe('v2')
+  })
+
+  it('reads through the shared tier so a cold instance does not fetch', async () => {
+    const shared = new MemoryCacheBackend()
+    const warm = new SSRCache({ shared })
+    const cold = new SSRCache({ shared })
+    const fetcher = vi.fn(async () => 'Texas')
+
+    await warm.getOrFetch('state:texas', fetcher, TTL)
+    expect(await cold.getOrFetch('state:texas', fetcher, TTL)).toBe('Texas')
+    expect(fetcher).toHaveBeenCalledOnce()
+    expect(cold.stats().keys).toEqual(['state:texas'])
+  })
+
+  it('invalidates a prefix on every instance once local copies age out', async () => {
+    const shared = new MemoryCacheBackend()
+    const a = new SSRCache({ shared })
+    const b = new SSRCache({ shared })
+
+    await a.set('city:texas:austin', 'Austin', TTL)
+    await a.set('city:ohio:columbus', 'Columbus', TTL)
+    expect(await b.get('city:texas:austin')).toBe('Austin')
+
+    await a.invalidatePrefix('city:texas:')
+    expect(await a.get('city:texas:austin')).toBeNull()
+    expect(await a.get('city:ohio:columbus')).toBe('Columbus')
+
+    vi.advanceTimersByTime(SSRCache.LOCAL_MAX_AGE + 1)
+    expect(await b.get('city:texas:austin')).toBeNull()
+  })
+
+  it('does not cache a fetch that was running when its key was invalidated', async () => {
+    const cache = new SSRCache({ shared: null })
+    const pending = deferred<string>()
+    const read = cache.getOrFetch('providers:all', () => pending.promise, TTL)
+
+    await cache.invalidate('providers:all')
+    pending.resolve('before edit')
+
+    expect(await read).toBe('before edit')
+    expect(await cache.get('providers:all')).toBeNull()
+  })
+
+  it('falls back to fetching when the shared tier is down', async () => {
+    const error = vi.spyOn(console, 'error').mockImplementation(() => {})
+    const shared = new MemoryCacheBackend()
+    vi.spyOn(shared, 'get').mockRejectedValue(new Error('ECONNREFUSED'))
+    vi.spyOn(shared, 'set').mockRejectedValue(new Error('ECONNREFUSED'))
+    const cache = new SSRCache({ shared })
+
+    expect(await cache.getOrFetch('states:all', async () => 'fresh', TTL)).toBe('fresh')
+    expect(error).toHaveBeenCalled()
+    error.mockRestore()
+  })
+})
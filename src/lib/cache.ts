@@ -1,125 +1,327 @@
 /**
  * SSR Caching Layer
- * In-memory cache with TTL for Vercel Edge/Serverless
+ * Two-tier read-through cache for Vercel Edge/Serverless
+ *
+ * - Local tier: in-memory per instance, always on
+ * - Shared tier: Redis / Vercel KV when configured, survives cold starts and
+ *   is shared by every instance (see cache-redis.ts)
+ *
+ * Entries are served fresh for their TTL, then stale for a second window while
+ * one background fetch refreshes them. Concurrent misses on the same key share
+ * a single fetch.
  */
 
-interface CacheEntry<T> {
+import { createSharedBackendFromEnv } from './cache-redis'
+
+export interface CacheEntry<T> {
   data: T
   timestamp: number
   ttl: number
+  staleTtl: number
+}
+
+/**
+ * Storage behind a cache tier - entries may be dropped once past ttl + staleTtl
+ */
+export interface CacheBackend {
+  readonly name: string
+  get<T>(key: string): Promise<CacheEntry<T> | null>
+  set<T>(key: string, entry: CacheEntry<T>): Promise<void>
+  delete(key: string): Promise<void>
+  deletePrefix(prefix: string): Promise<void>
+  clear(): Promise<void>
+}
+
+export interface CacheOptions {
+  /**
+   * Shared tier behind the local one
+   * undefined = configure from env (REDIS_URL / KV_REST_API_URL), null = local only
+   */
+  shared?: CacheBackend | null
+  /** Longest a local copy of a shared entry is trusted before re-reading the shared tier */
+  localMaxAge?: number
+}
+
+export interface FetchOptions {
+  /** How long an expired entry may still be served while it refreshes (defaults to the TTL) */
+  staleWhileRevalidate?: number
+}
+
+function isFresh(entry: CacheEntry<unknown>, now = Date.now()): boolean {
+  return now - entry.timestamp <= entry.ttl
+}
+
+function isUsable(entry: CacheEntry<unknown>, now = Date.now()): boolean {
+  return now - entry.timestamp <= entry.ttl + entry.staleTtl
+}
+
+/**
+ * In-memory backend - the local tier, and the only tier when nothing shared is configured
+ */
+export class MemoryCacheBackend implements CacheBackend {
+  readonly name = 'memory'
+  private cache = new Map<string, { entry: CacheEntry<unknown>; expiresAt: number }>()
+
+  /**
+   * @param maxAge - Drop entries this long after they were stored here, even if still usable
+   */
+  constructor(private maxAge = Infinity) {}
+
+  async get<T>(key: string): Promise<CacheEntry<T> | null> {
+    const stored = this.cache.get(key)
+    if (!stored) {
+      return null
+    }
+
+    if (Date.now() > stored.expiresAt) {
+      this.cache.delete(key)
+      return null
+    }
+
+    return stored.entry as CacheEntry<T>
+  }
+
+  async set<T>(key: string, entry: CacheEntry<T>): Promise<void> {
+    const expiresAt = Math.min(entry.timestamp + entry.ttl + entry.staleTtl, Date.now() + this.maxAge)
+    this.cache.set(key, { entry, expiresAt })
+
+    // Cleanup old entries periodically
+    if (this.cache.size > 1000) {
+      this.cleanup()
+    }
+  }
+
+  async delete(key: string): Promise<void> {
+    this.cache.delete(key)
+  }
+
+  async deletePrefix(prefix: string): Promise<void> {
+    for (const key of this.cache.keys()) {
+      if (key.startsWith(prefix)) {
+        this.cache.delete(key)
+      }
+    }
+  }
+
+  async clear(): Promise<void> {
+    this.cache.clear()
+  }
+
+  keys(): string[] {
+    return Array.from(this.cache.keys())
+  }
+
+  /**
+   * Cleanup expired entries
+   */
+  private cleanup(): void {
+    const now = Date.now()
+    for (const [key, stored] of this.cache.entries()) {
+      if (now > stored.expiresAt) {
+        this.cache.delete(key)
+      }
+    }
+  }
 }
 
 export class SSRCache {
-  private cache = new Map<string, CacheEntry<unknown>>()
-  
+  private local: MemoryCacheBackend
+  private sharedBackend: CacheBackend | null | undefined
+  private inflight = new Map<string, Promise<unknown>>()
+  // Bumped on every invalidation so fetches that started earlier do not write old data back
+  private generation = 0
+
   // Default TTLs in milliseconds
   static TTL = {
     HOMEPAGE: 5 * 60 * 1000,      // 5 minutes
-    STATE_PAGE: 10 * 60 * 1000,   // 10 minutes  
+    STATE_PAGE: 10 * 60 * 1000,   // 10 minutes
     CITY_PAGE: 15 * 60 * 1000,    // 15 minutes
     STATIC_DATA: 60 * 60 * 1000,  // 1 hour
     SITEMAP: 30 * 60 * 1000,      // 30 minutes
   }
-  
+
+  // Local copies of shared entries are re-read after this long, so invalidations reach every instance
+  static LOCAL_MAX_AGE = 30 * 1000
+
+  constructor(options: CacheOptions = {}) {
+    this.sharedBackend = options.shared
+    this.local = new MemoryCacheBackend(options.shared === null ? Infinity : options.localMaxAge ?? SSRCache.LOCAL_MAX_AGE)
+  }
+
+  /**
+   * Shared tier, configured from env on first use
+   */
+  private get shared(): CacheBackend | null {
+    if (this.sharedBackend === undefined) {
+      this.sharedBackend = createSharedBackendFromEnv()
+    }
+    return this.sharedBackend
+  }
+
   /**
    * Get cached data or fetch fresh
+   * Stale entries are returned immediately and refreshed in the background
    */
   async getOrFetch<T>(
     key: string,
     fetcher: () => Promise<T>,
-    ttl: number = SSRCache.TTL.STATE_PAGE
+    ttl: number = SSRCache.TTL.STATE_PAGE,
+    options: FetchOptions = {}
   ): Promise<T> {
-    const cached = this.get<T>(key)
-    if (cached !== null) {
-      return cached
+    const staleTtl = options.staleWhileRevalidate ?? ttl
+    const generation = this.generation
+    const entry = await this.read<T>(key)
+
+    if (entry) {
+      if (!isFresh(entry)) {
+        this.coalesce(key, () => this.refresh(key, fetcher, ttl, staleTtl, generation)).catch(err => {
+          console.error(`[Cache] Background refresh failed for ${key}, serving stale data:`, err)
+        })
+      }
+      return entry.data
     }
-    
-    const data = await fetcher()
-    this.set(key, data, ttl)
-    return data
+
+    return this.coalesce(key, () => this.refresh(key, fetcher, ttl, staleTtl, generation))
   }
-  
+
   /**
-   * Get from cache
+   * Get from cache - fresh or stale
    */
-  get<T>(key: string): T | null {
-    const entry = this.cache.get(key) as CacheEntry<T> | undefined
-    
-    if (!entry) {
-      return null
-    }
-    
-    // Check if expired
-    if (Date.now() - entry.timestamp > entry.ttl) {
-      this.cache.delete(key)
-      return null
-    }
-    
-    return entry.data
+  async get<T>(key: string): Promise<T | null> {
+    const entry = await this.read<T>(key)
+    return entry ? entry.data : null
   }
-  
+
   /**
    * Set in cache
    */
-  set<T>(key: string, data: T, ttl: number): void {
-    this.cache.set(key, {
-      data,
-      timestamp: Date.now(),
-      ttl
-    })
-    
-    // Cleanup old entries periodically
-    if (this.cache.size > 1000) {
-      this.cleanup()
-    }
+  async set<T>(key: string, data: T, ttl: number, staleTtl: number = 0): Promise<void> {
+    const entry: CacheEntry<T> = { data, timestamp: Date.now(), ttl, staleTtl }
+    await this.local.set(key, entry)
+    await this.onShared(`writing ${key}`, shared => shared.set(key, entry))
   }
-  
+
   /**
    * Invalidate cache entry
    */
-  invalidate(key: string): void {
-    this.cache.delete(key)
+  async invalidate(key: string): Promise<void> {
+    this.generation++
+    this.inflight.delete(key)
+    await this.local.delete(key)
+    await this.onShared(`invalidating ${key}`, shared => shared.delete(key))
   }
-  
+
   /**
    * Invalidate by prefix
    */
-  invalidatePrefix(prefix: string): void {
-    for (const key of this.cache.keys()) {
+  async invalidatePrefix(prefix: string): Promise<void> {
+    this.generation++
+    for (const key of this.inflight.keys()) {
       if (key.startsWith(prefix)) {
-        this.cache.delete(key)
+        this.inflight.delete(key)
       }
     }
+    await this.local.deletePrefix(prefix)
+    await this.onShared(`invalidating ${prefix}*`, shared => shared.deletePrefix(prefix))
   }
-  
+
   /**
    * Clear all cache
    */
-  clear(): void {
-    this.cache.clear()
+  async clear(): Promise<void> {
+    this.generation++
+    this.inflight.clear()
+    await this.local.clear()
+    await this.onShared('clearing', shared => shared.clear())
   }
-  
+
   /**
-   * Cleanup expired entries
+   * Get cache stats - local tier keys only
    */
-  private cleanup(): void {
-    const now = Date.now()
-    for (const [key, entry] of this.cache.entries()) {
-      if (now - entry.timestamp > entry.ttl) {
-        this.cache.delete(key)
+  stats(): { size: number; keys: string[]; shared: string | null; inflight: number } {
+    const keys = this.local.keys()
+    return {
+      size: keys.length,
+      keys,
+      shared: this.shared?.name ?? null,
+      inflight: this.inflight.size
+    }
+  }
+
+  /**
+   * Local tier first, then the shared tier - shared hits are copied locally
+   */
+  private async read<T>(key: string): Promise<CacheEntry<T> | null> {
+    const local = await this.local.get<T>(key)
+    if (local && isUsable(local)) {
+      return local
+    }
+
+    const shared = this.shared
+    if (!shared) {
+      return null
+    }
+
+    try {
+      const entry = await shared.get<T>(key)
+      if (!entry || !isUsable(entry)) {
+        return null
       }
+      await this.local.set(key, entry)
+      return entry
+    } catch (err) {
+      console.error(`[Cache] Error reading ${key} from ${shared.name}:`, err)
+      return null
     }
   }
-  
+
   /**
-   * Get cache stats
+   * Run a shared tier operation - failures are logged, the local tier keeps serving
    */
-  stats(): { size: number; keys: string[] } {
-    return {
-      size: this.cache.size,
-      keys: Array.from(this.cache.keys())
+  private async onShared(action: string, run: (shared: CacheBackend) => Promise<void>): Promise<void> {
+    const shared = this.shared
+    if (!shared) {
+      return
+    }
+
+    try {
+      await run(shared)
+    } catch (err) {
+      console.error(`[Cache] Error ${action} on ${shared.name}:`, err)
     }
   }
+
+  private async refresh<T>(
+    key: string,
+    fetcher: () => Promise<T>,
+    ttl: number,
+    staleTtl: number,
+    generation: number
+  ): Promise<T> {
+    const data = await fetcher()
+    if (generation === this.generation) {
+      await this.set(key, data, ttl, staleTtl)
+    }
+    return data
+  }
+
+  /**
+   * Share one in-flight fetch between every caller asking for the same key
+   */
+  private coalesce<T>(key: string, run: () => Promise<T>): Promise<T> {
+    const pending = this.inflight.get(key) as Promise<T> | undefined
+    if (pending) {
+      return pending
+    }
+
+    const promise = run().finally(() => {
+      if (this.inflight.get(key) === promise) {
+        this.inflight.delete(key)
+      }
+    })
+    this.inflight.set(key, promise)
+    return promise
+  }
 }
 
 // Singleton instance
@@ -132,6 +334,25 @@ export const cacheKeys = {
   cities: (stateId: number) => `cities:${stateId}`,
   city: (stateSlug: string, citySlug: string) => `city:${stateSlug}:${citySlug}`,
   providers: () => 'providers:all',
+  zip: (zip: string) => `zip:${zip}`,
+  nearby: (cityId: number, options: string) => `nearby:${cityId}:${options}`,
   sitemap: () => 'sitemap:all',
+  stateByAbbr: (abbr: string) => `state-abbr:${abbr.toUpperCase()}`,
+  cityPage: (stateAbbr: string, citySlug: string) => `city-page:${stateAbbr.toUpperCase()}:${citySlug}`,
+  topCities: (stateId: number, limit: number) => `top-cities:${stateId}:${limit}`,
+  cityCount: () => 'city-count',
+  // Lists that mix cities from several states
+  similarCities: (excludeStateId: number, min: number, max: number, limit: number) => `city-list:similar:${excludeStateId}:${min}:${max}:${limit}`,
+  largestCityNamed: (name: string) => `city-list:named:${name.toLowerCase()}`,
+  citiesByPopulation: (from: number, to: number) => `city-list:ranked:${from}-${to}`,
+  cityRank: (population: number) => `city-list:rank:${population}`,
 }
 
+// Prefixes covering every key built from one generator above
+export const cacheKeyPrefixes = {
+  citiesOfState: (stateSlug: string) => `city:${stateSlug}:`,
+  cityPagesOfState: (stateAbbr: string) => `city-page:${stateAbbr.toUpperCase()}:`,
+  topCitiesOfState: (stateId: number) => `top-cities:${stateId}:`,
+  cityLists: () => 'city-list:',
+  nearby: () => 'nearby:',
+}
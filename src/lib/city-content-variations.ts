@@ -7,6 +7,11 @@
  * SINGLE SOURCE OF TRUTH for city page content variations
  */
 
+import { seededRandom } from './seeded-random';
+import { getProgramStatusDescription, getProgramStatusBullets, getEnrollingProgramNames } from './variations/shared/program-variations';
+import { ES_CITY_CONTENT_POOLS } from './variations/locales/es/city-content-variations';
+import type { Locale } from './i18n';
+
 // ============================================
 // Type Definitions (moved from legacy content-variations.ts)
 // ============================================
@@ -38,50 +43,25 @@ export interface StateData {
 // Hash Functions - COMPOUND for 99%+ uniqueness
 // ============================================
 
-function hashString(str: string): number {
-  let hash = 5381;
-  for (let i = 0; i < str.length; i++) {
-    const char = str.charCodeAt(i);
-    hash = ((hash << 5) + hash) ^ char;
-  }
-  hash = hash ^ (hash >>> 16);
-  hash = Math.imul(hash, 0x85ebca6b);
-  hash = hash ^ (hash >>> 13);
-  return Math.abs(hash);
+function domainHash(domain: string): number {
+  return seededRandom(domain).stream('domain', 'city').hash();
 }
 
 /**
  * MULTI-PRIME HASH: Enhanced distribution using multiple prime multipliers
  * Reduces collision probability to <10% for 50+ sites
  */
-const PRIME_MULTIPLIERS = [31, 37, 41, 43, 47, 53, 59, 61, 67, 71, 73, 79, 83, 89, 97];
-
 function getCompoundHash(domain: string, location: string, offset: number = 0): number {
-  const domainHash = hashString(domain);
-  const locationHash = hashString(location);
-  
-  // Select prime based on offset for better distribution
-  const prime = PRIME_MULTIPLIERS[offset % PRIME_MULTIPLIERS.length];
-  
-  // Multi-prime mixing for excellent entropy
-  const step1 = (domainHash * prime) >>> 0;
-  const step2 = (locationHash * 73) >>> 0;
-  const combined = (step1 ^ step2) >>> 0;
-  
-  return Math.abs(combined);
+  return seededRandom(domain).stream('city', location, offset).hash();
 }
 
 function pickVariation<T>(domain: string, city: string, variations: T[], offset: number = 0): T {
-  const hash = getCompoundHash(domain, city, offset);
-  const index = hash % variations.length;
-  return variations[index];
+  return seededRandom(domain).stream('city', city, offset).pick(variations);
 }
 
 // Legacy single-hash picker for backward compatibility
 function pickVariationSimple<T>(domain: string, variations: T[], offset: number = 0): T {
-  const hash = hashString(domain);
-  const index = (hash + offset) % variations.length;
-  return variations[index];
+  return seededRandom(domain).stream('domain', 'city', offset).pick(variations);
 }
 
 // ============================================
@@ -142,50 +122,50 @@ export function getCityFacts(
 // ============================================
 
 const INTRO_VARIATIONS = [
-  `{city}, {state} residents can access free smartphone service through the federal Lifeline and ACP programs. With {population} people calling this community home, many households qualify for no-cost devices and monthly wireless plans. These government-backed programs help families stay connected without the burden of expensive phone bills.`,
+  `{city}, {state} residents can access free smartphone service through federal {programs} benefits. With {population} people calling this community home, many households qualify for no-cost devices and monthly wireless plans. These government-backed programs help families stay connected without the burden of expensive phone bills.`,
   
   `Get your free government phone in {city}! This {state} community of {population} residents has multiple pathways to no-cost wireless service. The Lifeline program and Affordable Connectivity Program provide eligible households with free devices, unlimited talk and text, plus monthly data allowances.`,
   
   `Free cell phone programs serve {city}, {state} households every day. With {population} locals potentially eligible, federal benefits deliver smartphones and monthly plans at absolutely zero cost. No credit checks, no contracts, no hidden fees—just reliable communication service for qualifying families.`,
   
-  `{city} residents in {state} deserve affordable communication options. That's why federal programs like Lifeline and ACP exist—to provide {population} community members with free phones and service. Check your eligibility today and join thousands already benefiting from these programs.`,
+  `{city} residents in {state} deserve affordable communication options. That's why federal {programs} benefits exist—to provide {population} community members with free phones and service. Check your eligibility today and join thousands already benefiting from these programs.`,
   
   `Looking for free phone service in {city}, {state}? You're not alone. The {population} residents here have access to multiple government assistance programs offering free smartphones, unlimited calling, texting, and generous data packages without monthly bills or surprise charges.`,
   
-  `The {population} residents of {city}, {state} can take advantage of federal communication assistance programs. Lifeline and ACP benefits provide qualifying households with free mobile devices and ongoing service—helping families stay connected to jobs, healthcare, schools, and loved ones.`,
+  `The {population} residents of {city}, {state} can take advantage of federal communication assistance programs. {programs} benefits provide qualifying households with free mobile devices and ongoing service—helping families stay connected to jobs, healthcare, schools, and loved ones.`,
   
   `Free government phones are available right now in {city}, {state}. Whether you participate in SNAP, Medicaid, or meet income guidelines, the {population} people in this area may qualify for no-cost wireless service through federally-approved programs.`,
   
-  `{city} is home to {population} {state} residents, many of whom qualify for free government phone programs. These federal initiatives—Lifeline and ACP—provide smartphones and monthly service at no charge to eligible households struggling with communication costs.`,
+  `{city} is home to {population} {state} residents, many of whom qualify for free government phone programs. Federal {programs} benefits provide smartphones and monthly service at no charge to eligible households struggling with communication costs.`,
   
   `Stay connected in {city}, {state} without breaking the bank. Federal programs offer free phones and service to qualifying residents among the {population} people living here. No contracts required, no credit checks performed, and absolutely no monthly payments.`,
   
-  `Residents of {city}, {state} have a valuable resource available: free government phone programs. The Lifeline and ACP initiatives help the {population} community members access essential communication services without financial strain.`,
+  `Residents of {city}, {state} have a valuable resource available: free government phone programs. Federal {programs} benefits help the {population} community members access essential communication services without financial strain.`,
   
   `{city}, {state} families can now get connected for free. With {population} residents in the area, many households meet the eligibility requirements for government-sponsored phone programs that include free devices and unlimited monthly service.`,
   
-  `Discover free phone options in {city}! This {state} community serves {population} residents, offering multiple pathways to no-cost wireless through Lifeline and ACP. Eligible families receive smartphones plus talk, text, and data at zero monthly cost.`,
+  `Discover free phone options in {city}! This {state} community serves {population} residents, offering multiple pathways to no-cost wireless through {programs}. Eligible families receive smartphones plus talk, text, and data at zero monthly cost.`,
   
-  `The federal government provides free phone service to qualifying {city}, {state} residents. Among the {population} people here, many can access Lifeline and ACP benefits—free devices, unlimited calls, texts, and monthly data without paying a dime.`,
+  `The federal government provides free phone service to qualifying {city}, {state} residents. Among the {population} people here, many can access {programs} benefits—free devices, unlimited calls, texts, and monthly data without paying a dime.`,
   
   `{city} residents seeking free communication services have options. This {state} community of {population} people can apply for government phone programs that deliver smartphones and monthly plans at no cost to eligible households.`,
   
-  `Free wireless service awaits eligible {city}, {state} households. The {population} residents here can tap into Lifeline and ACP programs for complimentary phones, unlimited talk and text, plus substantial monthly data—all without credit checks or contracts.`,
+  `Free wireless service awaits eligible {city}, {state} households. The {population} residents here can tap into {programs} benefits for complimentary phones, unlimited talk and text, plus substantial monthly data—all without credit checks or contracts.`,
   
   `Government phone programs serve {city}, {state} daily. With {population} potential beneficiaries in this community, federal initiatives provide free smartphones and ongoing service to households meeting income or program participation requirements.`,
   
   `{city} offers free phone access to qualifying residents. This {state} area, home to {population} people, participates in federal programs that deliver no-cost mobile devices and service to families who need communication assistance.`,
   
-  `Eligible {city}, {state} residents can receive free government phones today. The {population} community members here have access to Lifeline and ACP—programs providing complimentary devices and monthly wireless service without financial obligation.`,
+  `Eligible {city}, {state} residents can receive free government phones today. The {population} community members here have access to {programs} benefits, which provide complimentary devices and monthly wireless service without financial obligation.`,
   
   `Connect for free in {city}! {state} residents among the {population} locals can apply for government phone programs offering free smartphones, unlimited calling, texting, and data packages—no monthly bills, no credit requirements.`,
   
-  `{city}, {state} participates in federal free phone initiatives. The {population} residents here can access Lifeline and ACP programs that provide qualifying households with complimentary mobile devices and ongoing wireless service at zero cost.`,
+  `{city}, {state} participates in federal free phone initiatives. The {population} residents here can access {programs} benefits that provide qualifying households with complimentary mobile devices and ongoing wireless service at zero cost.`,
   
   // 3 NEW variations to reach 23 (prime)
-  `Need a phone in {city}? Federal assistance programs help {population} {state} residents get free smartphones and service. Lifeline and ACP cover devices, unlimited talk, text, and data—completely free for qualifying households.`,
+  `Need a phone in {city}? Federal assistance programs help {population} {state} residents get free smartphones and service. {programs} benefits cover devices, unlimited talk, text, and data—completely free for qualifying households.`,
   
-  `{city}, {state} welcomes federal phone programs serving {population} residents. Eligible households receive free devices and monthly wireless service through Lifeline and ACP—no applications fees, no credit checks, no monthly bills.`,
+  `{city}, {state} welcomes federal phone programs serving {population} residents. Eligible households receive free devices and monthly wireless service through {programs}—no applications fees, no credit checks, no monthly bills.`,
   
   `Access free communication in {city} today! The {population} {state} residents here can qualify for government phone programs delivering free smartphones with unlimited calling, texting, and data at absolutely no cost.`,
 ];
@@ -197,7 +177,7 @@ const INTRO_VARIATIONS = [
 const QUALIFIES_INTRO_VARIATIONS = [
   `To qualify for a free government phone in {city}, {state}, you must meet at least one eligibility requirement. Most {city} residents qualify through either income-based criteria or participation in government assistance programs.`,
   
-  `Eligibility for free phones in {city}, {state} is straightforward. If your household income falls below federal guidelines or you participate in qualifying assistance programs, you likely qualify for Lifeline or ACP benefits.`,
+  `Eligibility for free phones in {city}, {state} is straightforward. If your household income falls below federal guidelines or you participate in qualifying assistance programs, you likely qualify for {programsOr} benefits.`,
   
   `{city} residents can qualify for free government phones through two main pathways. Either demonstrate household income at or below 135% of poverty guidelines, or show participation in programs like SNAP, Medicaid, or SSI.`,
   
@@ -221,7 +201,7 @@ const QUALIFIES_INTRO_VARIATIONS = [
   
   `Determining your eligibility in {city} is quick and easy. {state} residents who receive government benefits or meet income requirements can access free phone programs immediately.`,
   
-  `{city} residents qualify for free government phones under federal guidelines. {state} households meeting income thresholds or participating in assistance programs are automatically eligible for Lifeline and ACP.`,
+  `{city} residents qualify for free government phones under federal guidelines. {state} households meeting income thresholds or participating in assistance programs are automatically eligible for {programs}.`,
   
   `Free phone qualification in {city}, {state} is designed to be accessible. If you receive benefits or have limited income, you likely meet the requirements for government phone programs.`,
   
@@ -236,12 +216,12 @@ const QUALIFIES_INTRO_VARIATIONS = [
 // ============================================
 
 const STEP1_VARIATIONS = [
-  `Review the eligibility criteria above to confirm you qualify for Lifeline or ACP in {city}. Most {state} residents can verify their status in under two minutes.`,
+  `Review the eligibility criteria above to confirm you qualify for {programsOr} in {city}. Most {state} residents can verify their status in under two minutes.`,
   `Start by checking if you meet the requirements for free phone service in {city}, {state}. Eligibility verification takes just moments and requires no commitment.`,
   `First, confirm your eligibility for government phone programs. {city} residents can quickly determine qualification status based on income or program participation.`,
   `Begin your application by verifying eligibility. {state} residents in {city} can check qualification requirements online in minutes without providing sensitive information.`,
   `Check your qualification status for free phone service in {city}. The eligibility requirements for {state} residents are straightforward and easy to verify.`,
-  `Verify that you meet Lifeline or ACP requirements before applying. {city}, {state} residents can confirm eligibility through a quick online check.`,
+  `Verify that you meet {programsOr} requirements before applying. {city}, {state} residents can confirm eligibility through a quick online check.`,
   `Your first step is confirming eligibility for free phone programs in {city}. {state} households can verify qualification status instantly online.`,
   `Determine if you qualify for government phone benefits in {city}, {state}. Eligibility checking is free, fast, and doesn't affect your credit.`,
   `Start by reviewing qualification criteria for {city} residents. {state} has clear guidelines that make eligibility verification simple and quick.`,
@@ -253,14 +233,14 @@ const STEP1_VARIATIONS = [
 ];
 
 const STEP2_VARIATIONS = [
-  `Select a participating Lifeline or ACP provider serving {city}, {state}. Compare plans, coverage, and device options to find your best match.`,
+  `Select a participating {programsOr} provider serving {city}, {state}. Compare plans, coverage, and device options to find your best match.`,
   `Browse available providers in {city} and choose one that fits your needs. Each {state} carrier offers different phones and plan features.`,
   `Pick your preferred wireless provider from those serving {city}, {state}. Consider coverage quality, phone selection, and included features.`,
   `Choose a government phone provider operating in {city}. Multiple carriers serve {state} residents with varying plans and device options.`,
   `Select from approved providers serving the {city} area. {state} residents have several carrier options with different benefits and coverage.`,
   `Find a participating provider in {city}, {state} that meets your needs. Compare available phones, data amounts, and coverage maps.`,
   `Review provider options available to {city} residents. Each {state} carrier offers unique benefits, so compare before choosing.`,
-  `Choose your Lifeline or ACP provider carefully. {city}, {state} is served by multiple carriers with different phones and plan structures.`,
+  `Choose your {programsOr} provider carefully. {city}, {state} is served by multiple carriers with different phones and plan structures.`,
   `Select a wireless provider from those approved for {city}. {state} has several participating carriers offering free government phones.`,
   `Pick the provider that best serves your {city} location. {state} residents should compare coverage and features before deciding.`,
   // 3 NEW variations to reach 13 (prime)
@@ -625,7 +605,7 @@ const CTA_VARIATIONS = [
   },
   {
     headline: `{city} residents - get connected free!`,
-    subtext: `{state} Lifeline and ACP programs are accepting applications now.`,
+    subtext: `{state} {programs} applications are open now.`,
     button: `Apply in Minutes`,
   },
   {
@@ -863,6 +843,63 @@ export interface CityContentVariations {
   headingFaq: string;
 }
 
+// Pools behind each field - one set per locale, picked with the same offsets
+export interface CityContentPools {
+  intro: string[];
+  qualifiesIntro: string[];
+  step1: string[];
+  step2: string[];
+  step3: string[];
+  step4: string[];
+  providerAssurance: string[];
+  providerSafelink: string[];
+  providerQlink: string[];
+  providerEntouch: string[];
+  benefitsConnectivity: { title: string; bullets: string[] }[];
+  benefitsNoCost: { title: string; bullets: string[] }[];
+  benefitsEmergency: { title: string; bullets: string[] }[];
+  faqApprovalTime: string[];
+  faqKeepNumber: string[];
+  faqDocuments: string[];
+  faqEveryoneEligible: string[];
+  faqServiceQuality: string[];
+  faqMultiplePhones: string[];
+  cta: { headline: string; subtext: string; button: string }[];
+  headingQualifies: string[];
+  headingHowTo: string[];
+  headingProviders: string[];
+  headingBenefits: string[];
+  headingFaq: string[];
+}
+
+const EN_CITY_CONTENT_POOLS: CityContentPools = {
+  intro: INTRO_VARIATIONS,
+  qualifiesIntro: QUALIFIES_INTRO_VARIATIONS,
+  step1: STEP1_VARIATIONS,
+  step2: STEP2_VARIATIONS,
+  step3: STEP3_VARIATIONS,
+  step4: STEP4_VARIATIONS,
+  providerAssurance: PROVIDER_ASSURANCE_VARIATIONS,
+  providerSafelink: PROVIDER_SAFELINK_VARIATIONS,
+  providerQlink: PROVIDER_QLINK_VARIATIONS,
+  providerEntouch: PROVIDER_ENTOUCH_VARIATIONS,
+  benefitsConnectivity: BENEFITS_CONNECTIVITY_VARIATIONS,
+  benefitsNoCost: BENEFITS_NOCOST_VARIATIONS,
+  benefitsEmergency: BENEFITS_EMERGENCY_VARIATIONS,
+  faqApprovalTime: FAQ_APPROVAL_TIME_VARIATIONS,
+  faqKeepNumber: FAQ_KEEP_NUMBER_VARIATIONS,
+  faqDocuments: FAQ_DOCUMENTS_VARIATIONS,
+  faqEveryoneEligible: FAQ_EVERYONE_ELIGIBLE_VARIATIONS,
+  faqServiceQuality: FAQ_SERVICE_QUALITY_VARIATIONS,
+  faqMultiplePhones: FAQ_MULTIPLE_PHONES_VARIATIONS,
+  cta: CTA_VARIATIONS,
+  headingQualifies: HEADING_QUALIFIES_VARIATIONS,
+  headingHowTo: HEADING_HOWTO_VARIATIONS,
+  headingProviders: HEADING_PROVIDERS_VARIATIONS,
+  headingBenefits: HEADING_BENEFITS_VARIATIONS,
+  headingFaq: HEADING_FAQ_VARIATIONS,
+};
+
 // ============================================
 // Main Export Function - Uses COMPOUND HASH
 // ============================================
@@ -871,49 +908,61 @@ export function getCityContentVariations(
   domain: string,
   city: string,
   state: string,
-  population?: number
+  population?: number,
+  locale: Locale = 'en'
 ): CityContentVariations {
-  const populationStr = population ? population.toLocaleString() : 'many';
+  const pools = locale === 'es' ? ES_CITY_CONTENT_POOLS : EN_CITY_CONTENT_POOLS;
+  const populationStr = population
+    ? population.toLocaleString(locale === 'es' ? 'es-US' : undefined)
+    : (locale === 'es' ? 'muchos' : 'many');
   
+  // {programs} names only the programs still enrolling, per the program registry
+  const programs = getEnrollingProgramNames();
+  const programsOr = getEnrollingProgramNames('or');
+
   // Helper to replace tokens in text
   const replaceTokens = (text: string): string => {
     return text
       .replace(/\{city\}/g, city)
       .replace(/\{state\}/g, state)
-      .replace(/\{population\}/g, populationStr);
+      .replace(/\{population\}/g, populationStr)
+      .replace(/\{programs\}/g, programs)
+      .replace(/\{programsOr\}/g, programsOr);
   };
   
+  const cta = pickVariation(domain, city, pools.cta, 19);
+  
   // Use COMPOUND hash (domain + city) for maximum uniqueness
   return {
-    intro: replaceTokens(pickVariation(domain, city, INTRO_VARIATIONS, 0)),
-    qualifiesIntro: replaceTokens(pickVariation(domain, city, QUALIFIES_INTRO_VARIATIONS, 1)),
-    step1: replaceTokens(pickVariation(domain, city, STEP1_VARIATIONS, 2)),
-    step2: replaceTokens(pickVariation(domain, city, STEP2_VARIATIONS, 3)),
-    step3: replaceTokens(pickVariation(domain, city, STEP3_VARIATIONS, 4)),
-    step4: replaceTokens(pickVariation(domain, city, STEP4_VARIATIONS, 5)),
-    providerAssurance: replaceTokens(pickVariation(domain, city, PROVIDER_ASSURANCE_VARIATIONS, 6)),
-    providerSafelink: replaceTokens(pickVariation(domain, city, PROVIDER_SAFELINK_VARIATIONS, 7)),
-    providerQlink: replaceTokens(pickVariation(domain, city, PROVIDER_QLINK_VARIATIONS, 8)),
-    providerEntouch: replaceTokens(pickVariation(domain, city, PROVIDER_ENTOUCH_VARIATIONS, 9)),
-    benefitsConnectivity: pickVariation(domain, city, BENEFITS_CONNECTIVITY_VARIATIONS, 10),
-    benefitsNoCost: pickVariation(domain, city, BENEFITS_NOCOST_VARIATIONS, 11),
-    benefitsEmergency: pickVariation(domain, city, BENEFITS_EMERGENCY_VARIATIONS, 12),
-    faqApprovalTime: replaceTokens(pickVariation(domain, city, FAQ_APPROVAL_TIME_VARIATIONS, 13)),
-    faqKeepNumber: replaceTokens(pickVariation(domain, city, FAQ_KEEP_NUMBER_VARIATIONS, 14)),
-    faqDocuments: replaceTokens(pickVariation(domain, city, FAQ_DOCUMENTS_VARIATIONS, 15)),
-    faqEveryoneEligible: replaceTokens(pickVariation(domain, city, FAQ_EVERYONE_ELIGIBLE_VARIATIONS, 16)),
-    faqServiceQuality: replaceTokens(pickVariation(domain, city, FAQ_SERVICE_QUALITY_VARIATIONS, 17)),
-    faqMultiplePhones: replaceTokens(pickVariation(domain, city, FAQ_MULTIPLE_PHONES_VARIATIONS, 18)),
+    intro: replaceTokens(pickVariation(domain, city, pools.intro, 0)),
+    qualifiesIntro: replaceTokens(pickVariation(domain, city, pools.qualifiesIntro, 1)),
+    step1: replaceTokens(pickVariation(domain, city, pools.step1, 2)),
+    step2: replaceTokens(pickVariation(domain, city, pools.step2, 3)),
+    step3: replaceTokens(pickVariation(domain, city, pools.step3, 4)),
+    step4: replaceTokens(pickVariation(domain, city, pools.step4, 5)),
+    providerAssurance: replaceTokens(pickVariation(domain, city, pools.providerAssurance, 6)),
+    providerSafelink: replaceTokens(pickVariation(domain, city, pools.providerSafelink, 7)),
+    providerQlink: replaceTokens(pickVariation(domain, city, pools.providerQlink, 8)),
+    providerEntouch: replaceTokens(pickVariation(domain, city, pools.providerEntouch, 9)),
+    benefitsConnectivity: pickVariation(domain, city, pools.benefitsConnectivity, 10),
+    benefitsNoCost: pickVariation(domain, city, pools.benefitsNoCost, 11),
+    benefitsEmergency: pickVariation(domain, city, pools.benefitsEmergency, 12),
+    faqApprovalTime: replaceTokens(pickVariation(domain, city, pools.faqApprovalTime, 13)),
+    faqKeepNumber: replaceTokens(pickVariation(domain, city, pools.faqKeepNumber, 14)),
+    faqDocuments: replaceTokens(pickVariation(domain, city, pools.faqDocuments, 15)),
+    faqEveryoneEligible: replaceTokens(pickVariation(domain, city, pools.faqEveryoneEligible, 16)),
+    faqServiceQuality: replaceTokens(pickVariation(domain, city, pools.faqServiceQuality, 17)),
+    faqMultiplePhones: replaceTokens(pickVariation(domain, city, pools.faqMultiplePhones, 18)),
     cta: {
-      headline: replaceTokens(pickVariation(domain, city, CTA_VARIATIONS, 19).headline),
-      subtext: replaceTokens(pickVariation(domain, city, CTA_VARIATIONS, 19).subtext),
-      button: replaceTokens(pickVariation(domain, city, CTA_VARIATIONS, 19).button),
+      headline: replaceTokens(cta.headline),
+      subtext: replaceTokens(cta.subtext),
+      button: replaceTokens(cta.button),
     },
-    headingQualifies: replaceTokens(pickVariation(domain, city, HEADING_QUALIFIES_VARIATIONS, 20)),
-    headingHowTo: replaceTokens(pickVariation(domain, city, HEADING_HOWTO_VARIATIONS, 21)),
-    headingProviders: replaceTokens(pickVariation(domain, city, HEADING_PROVIDERS_VARIATIONS, 22)),
-    headingBenefits: replaceTokens(pickVariation(domain, city, HEADING_BENEFITS_VARIATIONS, 23)),
-    headingFaq: replaceTokens(pickVariation(domain, city, HEADING_FAQ_VARIATIONS, 24)),
+    headingQualifies: replaceTokens(pickVariation(domain, city, pools.headingQualifies, 20)),
+    headingHowTo: replaceTokens(pickVariation(domain, city, pools.headingHowTo, 21)),
+    headingProviders: replaceTokens(pickVariation(domain, city, pools.headingProviders, 22)),
+    headingBenefits: replaceTokens(pickVariation(domain, city, pools.headingBenefits, 23)),
+    headingFaq: replaceTokens(pickVariation(domain, city, pools.headingFaq, 24)),
   };
 }
 
@@ -1151,7 +1200,7 @@ const TOTAL_TIME_VARIATIONS = [
  * Get HowItWorks variations for a domain
  */
 export function getHowItWorksVariations(domain: string, keyword: string): HowItWorksVariations {
-  const hash = hashString(domain);
+  const hash = domainHash(domain);
   
   const keywordLower = keyword.toLowerCase();
   const keywordDisplay = keywordLower.startsWith('my ') || keywordLower.startsWith('your ') || keywordLower.startsWith('a ') || keywordLower.startsWith('the ')
@@ -1386,7 +1435,7 @@ const PROGRAM_CTAS = [
  * Get ProgramsSection variations for a domain
  */
 export function getProgramsSectionVariations(domain: string, keyword: string): ProgramsSectionVariations {
-  const hash = hashString(domain);
+  const hash = domainHash(domain);
   
   return {
     sectionHeading: PROGRAMS_HEADINGS[hash % PROGRAMS_HEADINGS.length],
@@ -1395,8 +1444,8 @@ export function getProgramsSectionVariations(domain: string, keyword: string): P
     lifelineBullets: LIFELINE_BULLET_SETS[(hash + 3) % LIFELINE_BULLET_SETS.length],
     lifelineCta: PROGRAM_CTAS[(hash + 4) % PROGRAM_CTAS.length],
     acpTitle: ACP_TITLES[(hash + 5) % ACP_TITLES.length],
-    acpDescription: ACP_DESCRIPTIONS[(hash + 6) % ACP_DESCRIPTIONS.length],
-    acpBullets: ACP_BULLET_SETS[(hash + 7) % ACP_BULLET_SETS.length],
+    acpDescription: getProgramStatusDescription(domain, 'acp') ?? ACP_DESCRIPTIONS[(hash + 6) % ACP_DESCRIPTIONS.length],
+    acpBullets: getProgramStatusBullets(domain, 'acp') ?? ACP_BULLET_SETS[(hash + 7) % ACP_BULLET_SETS.length],
     acpCta: PROGRAM_CTAS[(hash + 8) % PROGRAM_CTAS.length],
     tribalTitle: TRIBAL_TITLES[(hash + 9) % TRIBAL_TITLES.length],
     tribalDescription: TRIBAL_DESCRIPTIONS[(hash + 10) % TRIBAL_DESCRIPTIONS.length],
@@ -1556,7 +1605,7 @@ const FEATURE4_DESCRIPTIONS = [
  * Get FeaturesSection variations for a domain
  */
 export function getFeaturesSectionVariations(domain: string, siteName: string): FeaturesSectionVariations {
-  const hash = hashString(domain);
+  const hash = domainHash(domain);
   
   return {
     sectionHeading: FEATURES_HEADINGS[hash % FEATURES_HEADINGS.length].replace('{siteName}', siteName),
@@ -1662,7 +1711,7 @@ const STATES_CTAS = [
  * Get StatesSection variations for a domain
  */
 export function getStatesSectionVariations(domain: string): StatesSectionVariations {
-  const hash = hashString(domain);
+  const hash = domainHash(domain);
   
   return {
     sectionHeading: STATES_HEADINGS[hash % STATES_HEADINGS.length],
@@ -1794,7 +1843,7 @@ const MOBILE_SUBTEXTS = [
  * Get MobileMenu variations for a domain
  */
 export function getMobileMenuVariations(domain: string): MobileMenuVariations {
-  const hash = hashString(domain);
+  const hash = domainHash(domain);
   
   return {
     tagline: MOBILE_TAGLINES[hash % MOBILE_TAGLINES.length],
@@ -1865,7 +1914,7 @@ const TERTIARY_BUTTONS = [
  * Get CTASection variations for a domain
  */
 export function getCTASectionVariations(domain: string, keyword: string): CTASectionVariations {
-  const hash = hashString(domain);
+  const hash = domainHash(domain);
   
   return {
     heading: CTA_HEADINGS[hash % CTA_HEADINGS.length].replace('{keyword}', keyword),
@@ -1953,7 +2002,7 @@ const LEARN_MORE_VARIATIONS = [
  * Get page-level variations for a domain
  */
 export function getPageVariations(domain: string): PageVariations {
-  const hash = hashString(domain);
+  const hash = domainHash(domain);
   
   return {
     checkEligibility: CHECK_ELIGIBILITY_VARIATIONS[hash % CHECK_ELIGIBILITY_VARIATIONS.length],
@@ -1966,7 +2015,7 @@ export function getPageVariations(domain: string): PageVariations {
 }
 
 // Export hash functions for testing
-export { hashString as hashDomain, getCompoundHash };
+export { domainHash as hashDomain, getCompoundHash };
 
 
 // ============================================
@@ -2120,7 +2169,7 @@ const NAV_ORDER_VARIATIONS = [
  * Get navigation variations for a domain
  */
 export function getNavVariations(domain: string): NavVariations {
-  const hash = hashString(domain);
+  const hash = domainHash(domain);
   
   // Pick nav order
   const orderIndex = hash % NAV_ORDER_VARIATIONS.length;
@@ -2432,7 +2481,7 @@ const FOOTER_DISCLAIMER_VARIATIONS = [
  * Get footer variations for a domain
  */
 export function getFooterVariations(domain: string, keyword: string): FooterVariations {
-  const hash = hashString(domain);
+  const hash = domainHash(domain);
   
   const keywordLower = keyword.toLowerCase();
   const keywordDisplay = keywordLower.startsWith('my ') || keywordLower.startsWith('your ') || keywordLower.startsWith('a ') || keywordLower.startsWith('the ')
@@ -3048,7 +3097,7 @@ export function getContentVariations(domain: string): ContentVariations {
  * Get a specific text variation
  */
 export function getTextVariation(domain: string, category: string, index: number = 0): string {
-  const hash = hashString(domain);
+  const hash = domainHash(domain);
   
   const variations: Record<string, string[]> = {
     'approval_text': [
@@ -3095,7 +3144,7 @@ export function getTextVariation(domain: string, category: string, index: number
  * Get a variation index based on domain hash
  */
 export function getDomainVariationIndex(domain: string, maxIndex: number): number {
-  const hash = hashString(domain);
+  const hash = domainHash(domain);
   return hash % maxIndex;
 }
 
@@ -3103,7 +3152,7 @@ export function getDomainVariationIndex(domain: string, maxIndex: number): numbe
  * Shuffle array based on domain for consistent but different ordering
  */
 export function shuffleArrayByDomain<T>(domain: string, arr: T[]): T[] {
-  const hash = hashString(domain);
+  const hash = domainHash(domain);
   const copy = [...arr];
   // Fisher-Yates shuffle with domain seed
   for (let i = copy.length - 1; i > 0; i--) {
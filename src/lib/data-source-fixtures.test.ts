@@ -0,0 +1,103 @@
+import { afterAll, beforeAll, describe, expect, it } from 'vitest'
+import { mkdtemp, rm, writeFile } from 'node:fs/promises'
+import { tmpdir } from 'node:os'
+import { join } from 'node:path'
+import { FixtureDataSource, parseCSV } from './data-source-fixtures'
+import { setDataSource } from './data-source'
+import { getCityInState, getProviders, getStateByAbbreviation, getStates, getTotalCityCount } from './db'
+import { findNearbyCities } from './nearby-cities'
+import { cache } from './cache'
+
+describe('parseCSV', () => {
+  it('reads every cell as text, with missing cells empty', () => {
+    const rows = parseCSV('id,name,population,zip,tribal_land,county\n7,Austin,961855,"78701",false\n')
+    expect(rows).toEqual([{ id: '7', name: 'Austin', population: '961855', zip: '78701', tribal_land: 'false', county: '' }])
+  })
+
+  it('reads commas, newlines and escaped quotes inside quoted cells', () => {
+    const rows = parseCSV('name,coverage,note\r\n"Life, Inc","{""states"":[""TX""]}","line one\nsays ""hi"""\r\n')
+    expect(rows).toEqual([{ name: 'Life, Inc', coverage: '{"states":["TX"]}', note: 'line one\nsays "hi"' }])
+  })
+})
+
+describe('FixtureDataSource', () => {
+  const source = new FixtureDataSource()
+
+  it('lists every bundled state by name', async () => {
+    const states = await source.listStates()
+    expect(states).toHaveLength(51)
+    expect(states[0].name).toBe('Alabama')
+    expect(await source.getStateByAbbreviation('mo')).toMatchObject({ name: 'Missouri', region: 'Midwest' })
+  })
+
+  it('finds a city by any spelling of its name, joined to its state', async () => {
+    const city = await source.findCityInState('mo', ['St Louis', 'st. louis'])
+    expect(city).toMatchObject({ name: 'St. Louis', states: { abbreviation: 'MO', name: 'Missouri' } })
+    expect(await source.findCityInState('IL', ['St. Louis'])).toBeNull()
+  })
+
+  it('filters, orders and pages cities like the database', async () => {
+    const largest = await source.listCities({}, { orderBy: 'population', limit: 3 })
+    expect(largest.map(c => c.name)).toEqual(['New York', 'Los Angeles', 'Chicago'])
+
+    const next = await source.listCities({}, { orderBy: 'population', offset: 1, limit: 2 })
+    expect(next.map(c => c.name)).toEqual(['Los Angeles', 'Chicago'])
+
+    const springfields = await source.listCities({ name: 'Springfield', excludeStateId: 14 }, { orderBy: 'population' })
+    expect(springfields.map(c => c.states?.abbreviation)).toEqual(['MO'])
+
+    expect(await source.countCities({ abovePopulation: 2_500_000 })).toBe(3)
+  })
+
+  it('reads tables from CSV or JSON and reports a missing table', async () => {
+    const dir = await mkdtemp(join(tmpdir(), 'fixtures-'))
+    try {
+      await writeFile(join(dir, 'states.json'), JSON.stringify([{ id: 1, name: 'Ohio', abbreviation: 'OH' }]))
+      const missing = new FixtureDataSource(dir)
+      await expect(missing.listStates()).rejects.toThrow(/No cities\.json or cities\.csv/)
+
+      await writeFile(join(dir, 'cities.csv'), 'id,name,state_id,population,county,tribal_land\n1,Columbus,1,905748,,false\n')
+      const csv = new FixtureDataSource(dir)
+      expect((await csv.listCities({ stateId: 1 }, { orderBy: 'name' }))[0]).toEqual({
+        id: 1, name: 'Columbus', state_id: 1, population: 905748, county: null, tribal_land: false,
+        states: { id: 1, name: 'Ohio', abbreviation: 'OH', region: null },
+      })
+      expect(await csv.listProviders()).toEqual([])
+
+      await writeFile(join(dir, 'cities.csv'), 'id,name,state_id,population\n2,Dayton,1,about 137000\n')
+      await expect(new FixtureDataSource(dir).listStates()).rejects.toThrow(/cities\.population: "about 137000" is not a number/)
+    } finally {
+      await rm(dir, { recursive: true, force: true })
+    }
+  })
+})
+
+describe('db.ts on fixtures', () => {
+  beforeAll(async () => {
+    setDataSource(new FixtureDataSource())
+    await cache.clear()
+  })
+
+  afterAll(async () => {
+    setDataSource(undefined)
+    await cache.clear()
+  })
+
+  it('serves every state instead of the fallback list', async () => {
+    expect(await getStates()).toHaveLength(51)
+    expect(await getStateByAbbreviation('wy')).toMatchObject({ name: 'Wyoming', slug: 'wyoming' })
+    expect(await getTotalCityCount()).toBeGreaterThan(100)
+  })
+
+  it('resolves city pages, nearby cities and providers', async () => {
+    const austin = await getCityInState('tx', 'austin')
+    expect(austin).toMatchObject({ name: 'Austin', county: 'Travis', states: { abbreviation: 'TX' } })
+
+    const nearby = await findNearbyCities({ id: austin!.id, latitude: austin!.latitude, longitude: austin!.longitude }, { radius: 50 })
+    expect(nearby.map(c => c.name)).toEqual(['Round Rock'])
+
+    const providers = await getProviders()
+    expect(providers.map(p => p.name)).toContain('SafeLink Wireless')
+    expect(providers.find(p => p.name === 'SafeLink Wireless')?.coverage.nationwide).toBe(true)
+  })
+})
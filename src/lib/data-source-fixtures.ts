@@ -0,0 +1,281 @@
+/**
+ * Fixture Data Source
+ * Reads states, cities and providers from files so the site renders with no database -
+ * local development, CI rendering tests and static builds
+ *
+ * The directory (DATA_FIXTURES_DIR, default src/data/fixtures) holds one file per table,
+ * <table>.json (an array of rows) or <table>.csv (a header row, then one row per line).
+ * Rows use the database column names, so an export of the live tables drops straight in.
+ * CSV cells are read as text and converted to the column types of the Database rows.
+ * providers is optional; states and cities are required.
+ */
+
+import { readFile } from 'node:fs/promises'
+import { join, resolve } from 'node:path'
+import type { CityFilter, CityListOptions, CityRow, DataSource, ProviderRow } from './data-source'
+import type { City, CityState, State } from './db'
+import type { Database } from './supabase'
+
+export const DEFAULT_FIXTURES_DIR = 'src/data/fixtures'
+
+type CSVRow = Record<string, string>
+
+type FixtureTables = Pick<Database['public']['Tables'], 'states' | 'cities' | 'providers'>
+type FixtureTable = keyof FixtureTables
+type TableRow<T extends FixtureTable> = FixtureTables[T]['Row']
+
+// Columns a fixture row cannot do without - the rest may be left out
+const REQUIRED_COLUMNS = {
+  states: ['id', 'name', 'abbreviation'],
+  cities: ['id', 'name', 'state_id'],
+  providers: ['id', 'name'],
+} as const satisfies { [T in FixtureTable]: ReadonlyArray<keyof TableRow<T>> }
+
+type FixtureRow<T extends FixtureTable> =
+  Partial<TableRow<T>> & Pick<TableRow<T>, Extract<typeof REQUIRED_COLUMNS[T][number], keyof TableRow<T>>>
+
+interface Tables {
+  states: State[]
+  cities: CityRow[]
+  providers: ProviderRow[]
+}
+
+type ColumnType = 'integer' | 'number' | 'boolean' | 'text' | 'json'
+
+// Every column of the fixture tables, so a CSV cell can be turned back into its value
+const COLUMN_TYPES: { [T in FixtureTable]: Record<keyof TableRow<T>, ColumnType> } = {
+  states: { id: 'integer', name: 'text', abbreviation: 'text', region: 'text', created_at: 'text' },
+  cities: {
+    id: 'integer', name: 'text', state_id: 'integer', population: 'number', latitude: 'number', longitude: 'number',
+    county: 'text', timezone: 'text', tribal_land: 'boolean', tribal_area: 'text', stats: 'json', created_at: 'text',
+  },
+  providers: { id: 'integer', name: 'text', plans: 'json', coverage: 'json', contact_info: 'json', created_at: 'text' },
+}
+
+/**
+ * Convert a text cell to its column type - an empty cell is null
+ */
+function convertCell(value: string, type: ColumnType): unknown {
+  if (value.trim() === '') return null
+
+  switch (type) {
+    case 'integer':
+    case 'number': {
+      const number = Number(value)
+      if (!Number.isFinite(number) || (type === 'integer' && !Number.isInteger(number))) {
+        throw new Error(`"${value}" is not ${type === 'integer' ? 'a whole number' : 'a number'}`)
+      }
+      return number
+    }
+    case 'boolean':
+      if (value === 'true' || value === 'false') return value === 'true'
+      throw new Error(`"${value}" is not true or false`)
+    case 'json':
+      return JSON.parse(value)
+    case 'text':
+      return value
+  }
+}
+
+/**
+ * A fixture row with its cells as their column types
+ * JSON files are already typed, so only their text values are converted; columns the
+ * table does not know are kept as they are
+ */
+function toRow<T extends FixtureTable>(table: T, raw: Record<string, unknown>): FixtureRow<T> {
+  const types: Record<string, ColumnType> = COLUMN_TYPES[table]
+  const row: Record<string, unknown> = {}
+
+  for (const [column, value] of Object.entries(raw)) {
+    const type = types[column]
+    if (!type || typeof value !== 'string') {
+      row[column] = value
+      continue
+    }
+    try {
+      row[column] = convertCell(value, type)
+    } catch (err) {
+      throw new Error(`${table}.${column}: ${err instanceof Error ? err.message : err}`)
+    }
+  }
+
+  const missing = REQUIRED_COLUMNS[table].filter(column => row[column] === null || row[column] === undefined)
+  if (missing.length > 0) {
+    throw new Error(`${table} row ${JSON.stringify(raw)} is missing ${missing.join(', ')}`)
+  }
+  return row as FixtureRow<T>
+}
+
+/**
+ * Parse CSV with a header row into text cells - quoted cells may hold commas, newlines
+ * and "" escapes. Missing trailing cells are empty.
+ */
+export function parseCSV(text: string): CSVRow[] {
+  const records: string[][] = []
+  let record: string[] = []
+  let cell = ''
+  let inQuotes = false
+
+  const endCell = () => {
+    record.push(cell)
+    cell = ''
+  }
+  const endRecord = () => {
+    endCell()
+    if (record.length > 1 || record[0].trim() !== '') records.push(record)
+    record = []
+  }
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i]
+
+    if (inQuotes) {
+      if (char === '"' && text[i + 1] === '"') {
+        cell += '"'
+        i++
+      } else if (char === '"') {
+        inQuotes = false
+      } else {
+        cell += char
+      }
+    } else if (char === '"') {
+      inQuotes = true
+    } else if (char === ',') {
+      endCell()
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++
+      endRecord()
+    } else {
+      cell += char
+    }
+  }
+  if (cell !== '' || record.length > 0) endRecord()
+
+  const [header, ...rows] = records
+  if (!header) return []
+
+  const columns = header.map(h => h.trim())
+  return rows.map(cells => Object.fromEntries(columns.map((column, i) => [column, cells[i] ?? ''])))
+}
+
+function matches(city: City, filter: CityFilter): boolean {
+  const population = city.population ?? null
+
+  if (filter.stateId !== undefined && city.state_id !== filter.stateId) return false
+  if (filter.excludeStateId !== undefined && city.state_id === filter.excludeStateId) return false
+  if (filter.excludeCityId !== undefined && city.id === filter.excludeCityId) return false
+  if (filter.name !== undefined && city.name !== filter.name) return false
+  if (filter.minPopulation !== undefined && (population === null || population < filter.minPopulation)) return false
+  if (filter.maxPopulation !== undefined && (population === null || population > filter.maxPopulation)) return false
+  if (filter.abovePopulation !== undefined && (population === null || population <= filter.abovePopulation)) return false
+
+  if (filter.box) {
+    const { latitude, longitude } = city
+    if (typeof latitude !== 'number' || typeof longitude !== 'number') return false
+    if (latitude < filter.box.minLat || latitude > filter.box.maxLat) return false
+    if (longitude < filter.box.minLon || longitude > filter.box.maxLon) return false
+  }
+
+  return true
+}
+
+const byName = (a: { name: string }, b: { name: string }) => a.name.localeCompare(b.name)
+
+// Cities without a population sort last
+const byPopulation = (a: City, b: City) => (b.population ?? -1) - (a.population ?? -1)
+
+export class FixtureDataSource implements DataSource {
+  readonly name = 'fixtures'
+  readonly dir: string
+  private tables: Promise<Tables> | null = null
+
+  constructor(dir: string = DEFAULT_FIXTURES_DIR) {
+    this.dir = resolve(dir)
+  }
+
+  async listStates(): Promise<State[]> {
+    const { states } = await this.load()
+    return [...states].sort(byName)
+  }
+
+  async getStateByAbbreviation(abbreviation: string): Promise<State | null> {
+    const { states } = await this.load()
+    return states.find(s => s.abbreviation === abbreviation.toUpperCase()) || null
+  }
+
+  async findCityInState(stateAbbr: string, names: string[]): Promise<CityRow | null> {
+    const { cities } = await this.load()
+    const abbreviation = stateAbbr.toUpperCase()
+    const wanted = new Set(names.map(name => name.toLowerCase()))
+
+    return cities.find(c => c.states?.abbreviation === abbreviation && wanted.has(c.name.toLowerCase())) || null
+  }
+
+  async listCities(filter: CityFilter, options: CityListOptions): Promise<CityRow[]> {
+    const { cities } = await this.load()
+    const offset = options.offset ?? 0
+    const end = options.limit === undefined ? undefined : offset + options.limit
+
+    return cities
+      .filter(c => matches(c, filter))
+      .sort(options.orderBy === 'name' ? byName : byPopulation)
+      .slice(offset, end)
+  }
+
+  async countCities(filter: CityFilter): Promise<number> {
+    const { cities } = await this.load()
+    return cities.filter(c => matches(c, filter)).length
+  }
+
+  async listProviders(): Promise<ProviderRow[]> {
+    const { providers } = await this.load()
+    return [...providers].sort(byName)
+  }
+
+  /**
+   * Read every table once - a failed read is retried on the next call
+   */
+  private load(): Promise<Tables> {
+    this.tables ??= this.readTables().catch(err => {
+      this.tables = null
+      throw err
+    })
+    return this.tables
+  }
+
+  private async readTables(): Promise<Tables> {
+    const [states, cityRows, providers] = await Promise.all([
+      this.readTable('states'),
+      this.readTable('cities'),
+      this.readTable('providers', true),
+    ])
+
+    const statesById = new Map<number, CityState>(
+      states.map(s => [s.id, { id: s.id, name: s.name, abbreviation: s.abbreviation, region: s.region ?? null }])
+    )
+    const cities = cityRows.map(c => ({ ...c, states: statesById.get(c.state_id) || null }))
+
+    return { states, cities, providers }
+  }
+
+  private async readTable<T extends FixtureTable>(table: T, optional = false): Promise<FixtureRow<T>[]> {
+    for (const format of ['json', 'csv'] as const) {
+      let text: string
+      try {
+        text = await readFile(join(this.dir, `${table}.${format}`), 'utf8')
+      } catch (err: any) {
+        if (err?.code === 'ENOENT') continue
+        throw err
+      }
+
+      const rows: unknown = format === 'json' ? JSON.parse(text) : parseCSV(text)
+      if (!Array.isArray(rows) || rows.some(row => typeof row !== 'object' || row === null || Array.isArray(row))) {
+        throw new Error(`${table}.json in ${this.dir} must hold an array of rows`)
+      }
+      return rows.map((row: Record<string, unknown>) => toRow(table, row))
+    }
+
+    if (optional) return []
+    throw new Error(`No ${table}.json or ${table}.csv in ${this.dir}`)
+  }
+}
@@ -0,0 +1,181 @@
+/**
+ * Data Sources
+ * Where db.ts and the nearby search read states, cities and providers from
+ *
+ * Selected by DATA_SOURCE:
+ * - supabase (default): the live database
+ * - fixtures: bundled JSON/CSV files, no network needed (see data-source-fixtures.ts)
+ *
+ * Sources only read and throw on failure - caching, fallbacks and logging stay in db.ts.
+ */
+
+import { supabase } from './supabase'
+import { FixtureDataSource } from './data-source-fixtures'
+import type { City, CityState, State } from './db'
+
+export type DataSourceKind = 'supabase' | 'fixtures'
+
+/**
+ * A city row joined to its state - null when the state row is missing
+ */
+export type CityRow = City & { states: CityState | null }
+
+export interface CityFilter {
+  stateId?: number
+  excludeStateId?: number
+  excludeCityId?: number
+  name?: string                 // exact match
+  minPopulation?: number
+  maxPopulation?: number
+  abovePopulation?: number      // strictly greater than
+  box?: { minLat: number; maxLat: number; minLon: number; maxLon: number }
+}
+
+export interface CityListOptions {
+  orderBy: 'name' | 'population'  // name ascending, population descending
+  offset?: number
+  limit?: number
+}
+
+/**
+ * A provider row as stored - plans, coverage and contact_info are normalized by the caller
+ */
+export type ProviderRow = { id: number; name: string; [column: string]: unknown }
+
+export interface DataSource {
+  readonly name: DataSourceKind
+  listStates(): Promise<State[]>
+  getStateByAbbreviation(abbreviation: string): Promise<State | null>
+  /** First city in the state whose name matches one of `names`, ignoring case */
+  findCityInState(stateAbbr: string, names: string[]): Promise<CityRow | null>
+  listCities(filter: CityFilter, options: CityListOptions): Promise<CityRow[]>
+  countCities(filter: CityFilter): Promise<number>
+  listProviders(): Promise<ProviderRow[]>
+}
+
+const STATE_COLUMNS = 'id, name, abbreviation, region'
+
+type SupabaseClient = NonNullable<typeof supabase>
+
+function check<T>(result: { data: T; error: { message: string } | null }, what: string): T {
+  if (result.error) {
+    throw new Error(`${what} failed: ${result.error.message}`)
+  }
+  return result.data
+}
+
+export class SupabaseDataSource implements DataSource {
+  readonly name = 'supabase'
+
+  constructor(private client: SupabaseClient) {}
+
+  async listStates(): Promise<State[]> {
+    const result = await this.client
+      .from('states')
+      .select('*')
+      .order('name')
+    return check(result, 'States query') || []
+  }
+
+  async getStateByAbbreviation(abbreviation: string): Promise<State | null> {
+    const result = await this.client
+      .from('states')
+      .select('*')
+      .eq('abbreviation', abbreviation.toUpperCase())
+      .maybeSingle()
+    return check(result, 'State query')
+  }
+
+  async findCityInState(stateAbbr: string, names: string[]): Promise<CityRow | null> {
+    const result = await this.client
+      .from('cities')
+      .select(`*, states!inner(${STATE_COLUMNS})`)
+      .eq('states.abbreviation', stateAbbr.toUpperCase())
+      .or(names.map(name => `name.ilike.${name}`).join(','))
+      .limit(1)
+      .maybeSingle()
+    return check(result, 'City query')
+  }
+
+  async listCities(filter: CityFilter, options: CityListOptions): Promise<CityRow[]> {
+    let query = this.filterCities(this.client.from('cities').select(`*, states(${STATE_COLUMNS})`), filter)
+      .order(options.orderBy, { ascending: options.orderBy === 'name' })
+
+    if (options.offset !== undefined && options.limit !== undefined) {
+      query = query.range(options.offset, options.offset + options.limit - 1)
+    } else if (options.limit !== undefined) {
+      query = query.limit(options.limit)
+    }
+
+    return check(await query, 'Cities query') || []
+  }
+
+  async countCities(filter: CityFilter): Promise<number> {
+    const result = await this.filterCities(
+      this.client.from('cities').select('*', { count: 'exact', head: true }),
+      filter
+    )
+    check(result, 'City count')
+    if (result.count === null) {
+      throw new Error('City count failed: no count returned')
+    }
+    return result.count
+  }
+
+  async listProviders(): Promise<ProviderRow[]> {
+    const result = await this.client
+      .from('providers')
+      .select('*')
+      .order('name')
+    return check(result, 'Providers query') || []
+  }
+
+  private filterCities<Q extends { eq: any; neq: any; gte: any; lte: any; gt: any }>(query: Q, filter: CityFilter): Q {
+    if (filter.stateId !== undefined) query = query.eq('state_id', filter.stateId)
+    if (filter.excludeStateId !== undefined) query = query.neq('state_id', filter.excludeStateId)
+    if (filter.excludeCityId !== undefined) query = query.neq('id', filter.excludeCityId)
+    if (filter.name !== undefined) query = query.eq('name', filter.name)
+    if (filter.minPopulation !== undefined) query = query.gte('population', filter.minPopulation)
+    if (filter.maxPopulation !== undefined) query = query.lte('population', filter.maxPopulation)
+    if (filter.abovePopulation !== undefined) query = query.gt('population', filter.abovePopulation)
+    if (filter.box) {
+      query = query
+        .gte('latitude', filter.box.minLat)
+        .lte('latitude', filter.box.maxLat)
+        .gte('longitude', filter.box.minLon)
+        .lte('longitude', filter.box.maxLon)
+    }
+    return query
+  }
+}
+
+export function getDataSourceKind(): DataSourceKind {
+  return import.meta.env?.DATA_SOURCE === 'fixtures' ? 'fixtures' : 'supabase'
+}
+
+let configured: DataSource | null | undefined
+
+/**
+ * The source selected by DATA_SOURCE, or null when it is Supabase and no client
+ * is configured - db.ts then serves its fallbacks
+ */
+export function getDataSource(): DataSource | null {
+  if (configured === undefined) {
+    if (getDataSourceKind() === 'fixtures') {
+      const fixtures = new FixtureDataSource(import.meta.env?.DATA_FIXTURES_DIR)
+      console.log(`[DB] Reading data from fixtures in ${fixtures.dir}`)
+      configured = fixtures
+    } else {
+      configured = supabase ? new SupabaseDataSource(supabase) : null
+    }
+  }
+  return configured
+}
+
+/**
+ * Replace the configured source - tests and the static build pick one explicitly
+ * undefined goes back to the DATA_SOURCE selection
+ */
+export function setDataSource(source: DataSource | null | undefined): void {
+  configured = source
+}
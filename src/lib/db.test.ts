@@ -0,0 +1,185 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+
+// Stand-in for the Supabase client: records each query's builder calls and
+// answers it from `respond` when awaited
+const fake = vi.hoisted(() => {
+  type Call = [method: string, args: unknown[]]
+  interface Query { table: string; calls: Call[] }
+  type Result = { data?: unknown; error?: unknown; count?: number | null }
+
+  const state = {
+    queries: [] as Query[],
+    respond: (_query: Query): Result => ({ data: [], error: null }),
+  }
+
+  const from = (table: string) => {
+    const query: Query = { table, calls: [] }
+    state.queries.push(query)
+
+    const builder: any = new Proxy({}, {
+      get(_target, method: string) {
+        if (method === 'then') {
+          return (resolve: (value: Result) => void, reject: (err: unknown) => void) =>
+            Promise.resolve().then(() => state.respond(query)).then(resolve, reject)
+        }
+        return (...args: unknown[]) => {
+          query.calls.push([method, args])
+          return builder
+        }
+      },
+    })
+    return builder
+  }
+
+  return { state, from }
+})
+
+vi.mock('./supabase', () => ({ supabase: { from: fake.from } }))
+
+import {
+  getStateByAbbreviation,
+  getCityInState,
+  getCitiesByState,
+  getStateTopCities,
+  getRelatedCities,
+  getSimilarPopulationCities,
+  getNationalTopCities,
+  getCitiesByPopulation,
+  getCityPopulationRank,
+} from './db'
+import { cache } from './cache'
+
+const arg = (method: string, index = 0) => fake.state.queries.at(-1)?.calls.find(([m]) => m === method)?.[1][index]
+
+beforeEach(async () => {
+  await cache.clear()
+  fake.state.queries = []
+  fake.state.respond = () => ({ data: [], error: null })
+})
+
+describe('getCityInState', () => {
+  const austin = { id: 7, name: 'Austin', state_id: 2, population: 961855, states: { id: 2, name: 'Texas', abbreviation: 'TX', region: 'South' } }
+
+  it('joins the state and matches every spelling of the slug', async () => {
+    const stLouis = { id: 9, name: 'St. Louis', state_id: 26, states: { id: 26, name: 'Missouri', abbreviation: 'MO', region: 'Midwest' } }
+    fake.state.respond = () => ({ data: stLouis, error: null })
+
+    const city = await getCityInState('mo', 'st-louis')
+
+    expect(city?.states.name).toBe('Missouri')
+    expect(city?.slug).toBe('st-louis')
+    expect(arg('select')).toContain('states!inner(id, name, abbreviation, region)')
+    expect(fake.state.queries[0].calls).toContainEqual(['eq', ['states.abbreviation', 'MO']])
+    expect(arg('or')).toContain('name.ilike.St. Louis')
+    expect(arg('or')).toContain('name.ilike.Saint Louis')
+  })
+
+  it('serves repeat lookups from cache', async () => {
+    fake.state.respond = () => ({ data: austin, error: null })
+
+    await getCityInState('TX', 'austin')
+    await getCityInState('tx', 'austin')
+
+    expect(fake.state.queries).toHaveLength(1)
+  })
+
+  it('returns null when the city is missing or the query fails', async () => {
+    fake.state.respond = () => ({ data: null, error: null })
+    expect(await getCityInState('TX', 'nowhere')).toBeNull()
+
+    fake.state.respond = () => ({ data: null, error: { message: 'timeout' } })
+    expect(await getCityInState('TX', 'elsewhere')).toBeNull()
+  })
+})
+
+describe('getStateByAbbreviation', () => {
+  it('looks the state up by upper-case abbreviation and adds its slug', async () => {
+    fake.state.respond = () => ({ data: { id: 4, name: 'New York', abbreviation: 'NY' }, error: null })
+
+    expect(await getStateByAbbreviation('ny')).toMatchObject({ id: 4, slug: 'new-york' })
+    expect(arg('eq', 1)).toBe('NY')
+  })
+
+  it('returns null rather than a fallback for an unknown state', async () => {
+    fake.state.respond = () => ({ data: null, error: null })
+    expect(await getStateByAbbreviation('ZZ')).toBeNull()
+  })
+})
+
+describe('state city lists', () => {
+  it('reads every city in a state, past the 1000 row page size', async () => {
+    fake.state.respond = (query) => {
+      const [from] = query.calls.find(([m]) => m === 'range')![1] as number[]
+      const size = from === 0 ? 1000 : 3
+      return { data: Array.from({ length: size }, (_, i) => ({ id: from + i, name: `City ${from + i}`, state_id: 5 })), error: null }
+    }
+
+    const cities = await getCitiesByState(5)
+
+    expect(cities).toHaveLength(1003)
+    expect(fake.state.queries.map(q => q.calls.find(([m]) => m === 'range')![1])).toEqual([[0, 999], [1000, 1999]])
+  })
+
+  it('ranks top cities by population within the state', async () => {
+    await getStateTopCities(2, 25)
+
+    expect(fake.state.queries[0].calls).toEqual(expect.arrayContaining([
+      ['eq', ['state_id', 2]],
+      ['order', ['population', { ascending: false }]],
+      ['limit', [25]],
+    ]))
+  })
+
+  it('drops the page city from its related cities and keeps the limit', async () => {
+    fake.state.respond = () => ({
+      data: [{ id: 1, name: 'Houston' }, { id: 7, name: 'Austin' }, { id: 3, name: 'Dallas' }],
+      error: null,
+    })
+
+    const related = await getRelatedCities(2, 7, 2)
+
+    expect(related.map(c => c.name)).toEqual(['Houston', 'Dallas'])
+    expect(arg('limit')).toBe(3)
+  })
+})
+
+describe('cross-state city lists', () => {
+  const rows = [
+    { id: 1, name: 'Boise', population: 235684, state_id: 13, states: { abbreviation: 'ID', name: 'Idaho' } },
+    { id: 2, name: 'Orphan', population: 230000, state_id: 99, states: null },
+  ]
+
+  it('flattens similar-population cities and skips rows without a state', async () => {
+    fake.state.respond = () => ({ data: rows, error: null })
+
+    const similar = await getSimilarPopulationCities({ excludeStateId: 2, minPopulation: 100000, maxPopulation: 400000 })
+
+    expect(similar).toEqual([{ id: 1, name: 'Boise', population: 235684, state_id: 13, state_abbreviation: 'ID', state_name: 'Idaho' }])
+    expect(fake.state.queries[0].calls).toEqual(expect.arrayContaining([
+      ['neq', ['state_id', 2]],
+      ['gte', ['population', 100000]],
+      ['lte', ['population', 400000]],
+      ['limit', [12]],
+    ]))
+  })
+
+  it('keeps every row of a ranking page so its length marks the end of the table', async () => {
+    fake.state.respond = () => ({ data: rows, error: null })
+
+    expect(await getCitiesByPopulation(1000, 2000)).toHaveLength(2)
+    expect(arg('range')).toBe(1000)
+    expect(arg('range', 1)).toBe(1999)
+
+    expect((await getNationalTopCities(2)).map(c => c.name)).toEqual(['Boise'])
+  })
+
+  it('ranks a population by counting the larger cities', async () => {
+    fake.state.respond = () => ({ count: 12345, error: null })
+
+    expect(await getCityPopulationRank(50000)).toBe(12345)
+    expect(arg('gt', 1)).toBe(50000)
+
+    fake.state.respond = () => ({ count: null, error: { message: 'timeout' } })
+    expect(await getCityPopulationRank(40000)).toBeNull()
+  })
+})
@@ -1,10 +1,21 @@
 /**
  * Database Layer with Connection Pooling & Error Handling
- * Wraps Supabase with caching and graceful fallbacks
+ * Wraps the configured data source (Supabase or fixtures, see data-source.ts)
+ * with caching and graceful fallbacks
  */
 
 import { supabase } from './supabase'
 import { cache, cacheKeys, SSRCache } from './cache'
+import { getDataSource, type CityRow } from './data-source'
+import { generateCityNameVariationsForLookup } from './slug-utils.js'
+import {
+  normalizePlans,
+  normalizeCoverage,
+  normalizeContact,
+  type ProviderPlan,
+  type ProviderCoverage,
+  type ProviderContact
+} from './providers'
 
 // Fallback data for when DB is unavailable
 const FALLBACK_STATES = [
@@ -19,6 +30,7 @@ export interface State {
   id: number
   name: string
   abbreviation: string
+  region?: string | null
   slug?: string
   created_at?: string
 }
@@ -28,24 +40,74 @@ export interface City {
   name: string
   state_id: number
   population?: number
+  latitude?: number | null
+  longitude?: number | null
+  county?: string | null
+  timezone?: string | null
+  tribal_land?: boolean | null
+  tribal_area?: string | null
   slug?: string
   stats?: Record<string, unknown>
   created_at?: string
 }
 
+export type CityState = Pick<State, 'id' | 'name' | 'abbreviation' | 'region'>
+
+export interface CityWithState extends City {
+  states: CityState
+}
+
+/**
+ * A city in a list that mixes states - carries its state's name and abbreviation
+ */
+export interface CitySummary {
+  id: number
+  name: string
+  population?: number
+  state_id: number
+  state_abbreviation: string
+  state_name: string
+}
+
 export interface Provider {
   id: number
   name: string
-  plans?: Record<string, unknown>
-  coverage?: Record<string, unknown>
-  contact_info?: Record<string, unknown>
+  plans: ProviderPlan[]
+  coverage: ProviderCoverage
+  contact_info: ProviderContact
   created_at?: string
 }
 
+// Supabase caps a select at 1000 rows - longer lists are read in pages of this size
+const PAGE_SIZE = 1000
+
+/**
+ * Flatten a city row joined to its state - the state fields are '' when it has none
+ */
+function toCitySummaries(rows: CityRow[]): CitySummary[] {
+  return rows.map(row => ({
+    id: row.id,
+    name: row.name,
+    population: row.population,
+    state_id: row.state_id,
+    state_abbreviation: row.states?.abbreviation || '',
+    state_name: row.states?.name || '',
+  }))
+}
+
+const hasState = (city: CitySummary) => city.state_abbreviation !== ''
+
+/**
+ * A city row without its joined state, plus its slug
+ */
+function toCity({ states: _state, ...city }: CityRow): City {
+  return { ...city, slug: toSlug(city.name) }
+}
+
 /**
  * Convert name to URL slug
  */
-function toSlug(name: string): string {
+export function toSlug(name: string): string {
   return name
     .toLowerCase()
     .replace(/[^a-z0-9]+/g, '-')
@@ -59,28 +121,20 @@ export async function getStates(): Promise<State[]> {
   return cache.getOrFetch(
     cacheKeys.states(),
     async () => {
-      if (!supabase) {
-        console.warn('[DB] Supabase not available, using fallback states')
+      const source = getDataSource()
+      if (!source) {
+        console.warn('[DB] No data source available, using fallback states')
         return FALLBACK_STATES
       }
       
       try {
-        const { data, error } = await supabase
-          .from('states')
-          .select('*')
-          .order('name')
-        
-        if (error) {
-          console.error('[DB] Error fetching states:', error)
-          return FALLBACK_STATES
-        }
-        
-        return (data || []).map(s => ({
+        const states = await source.listStates()
+        return states.map(s => ({
           ...s,
           slug: toSlug(s.name)
         }))
       } catch (err) {
-        console.error('[DB] Exception fetching states:', err)
+        console.error('[DB] Error fetching states:', err)
         return FALLBACK_STATES
       }
     },
@@ -103,36 +157,31 @@ export async function getStateBySlug(slug: string): Promise<State | null> {
 }
 
 /**
- * Get cities for a state
+ * Get every city in a state, alphabetical
  */
 export async function getCitiesByState(stateId: number): Promise<City[]> {
   return cache.getOrFetch(
     cacheKeys.cities(stateId),
     async () => {
-      if (!supabase) {
-        console.warn('[DB] Supabase not available, returning empty cities')
+      const source = getDataSource()
+      if (!source) {
+        console.warn('[DB] No data source available, returning empty cities')
         return []
       }
       
+      const cities: City[] = []
       try {
-        const { data, error } = await supabase
-          .from('cities')
-          .select('*')
-          .eq('state_id', stateId)
-          .order('name')
-        
-        if (error) {
-          console.error('[DB] Error fetching cities:', error)
-          return []
+        for (let offset = 0; ; offset += PAGE_SIZE) {
+          const page = await source.listCities({ stateId }, { orderBy: 'name', offset, limit: PAGE_SIZE })
+          cities.push(...page.map(toCity))
+          
+          if (page.length < PAGE_SIZE) {
+            return cities
+          }
         }
-        
-        return (data || []).map(c => ({
-          ...c,
-          slug: toSlug(c.name)
-        }))
       } catch (err) {
-        console.error('[DB] Exception fetching cities:', err)
-        return []
+        console.error('[DB] Error fetching cities:', err)
+        return cities
       }
     },
     SSRCache.TTL.STATE_PAGE
@@ -156,6 +205,211 @@ export async function getCityBySlug(stateSlug: string, citySlug: string): Promis
   )
 }
 
+/**
+ * Get state by its two-letter abbreviation
+ * Unlike getStates there is no fallback - null means the state page should 404
+ */
+export async function getStateByAbbreviation(abbreviation: string): Promise<State | null> {
+  return cache.getOrFetch(
+    cacheKeys.stateByAbbr(abbreviation),
+    async () => {
+      const source = getDataSource()
+      if (!source) {
+        console.warn('[DB] No data source available, cannot look up state')
+        return null
+      }
+      
+      try {
+        const state = await source.getStateByAbbreviation(abbreviation)
+        return state ? { ...state, slug: toSlug(state.name) } : null
+      } catch (err) {
+        console.error('[DB] Error fetching state:', err)
+        return null
+      }
+    },
+    SSRCache.TTL.STATE_PAGE
+  )
+}
+
+/**
+ * Get the city a page URL points at, joined to its state
+ * The slug is matched case-insensitively against every spelling it could come from
+ * (st-louis → St. Louis, St Louis, Saint Louis)
+ */
+export async function getCityInState(stateAbbr: string, citySlug: string): Promise<CityWithState | null> {
+  return cache.getOrFetch(
+    cacheKeys.cityPage(stateAbbr, citySlug),
+    async () => {
+      const source = getDataSource()
+      if (!source) {
+        console.warn('[DB] No data source available, cannot look up city')
+        return null
+      }
+      
+      try {
+        const city = await source.findCityInState(stateAbbr, generateCityNameVariationsForLookup(citySlug))
+        if (!city?.states) return null
+        
+        return { ...city, states: city.states, slug: toSlug(city.name) }
+      } catch (err) {
+        console.error('[DB] Error fetching city:', err)
+        return null
+      }
+    },
+    SSRCache.TTL.CITY_PAGE
+  )
+}
+
+/**
+ * Get the largest cities in a state, most populous first
+ */
+export async function getStateTopCities(stateId: number, limit: number = 20): Promise<City[]> {
+  return cache.getOrFetch(
+    cacheKeys.topCities(stateId, limit),
+    async () => {
+      const source = getDataSource()
+      if (!source) {
+        console.warn('[DB] No data source available, returning empty cities')
+        return []
+      }
+      
+      try {
+        const cities = await source.listCities({ stateId }, { orderBy: 'population', limit })
+        return cities.map(toCity)
+      } catch (err) {
+        console.error('[DB] Error fetching top cities:', err)
+        return []
+      }
+    },
+    SSRCache.TTL.STATE_PAGE
+  )
+}
+
+/**
+ * Get the largest other cities in a city's state - the related list when there are
+ * no coordinates to search by distance
+ */
+export async function getRelatedCities(stateId: number, excludeCityId: number, limit: number = 9): Promise<City[]> {
+  const cities = await getStateTopCities(stateId, limit + 1)
+  return cities.filter(c => c.id !== excludeCityId).slice(0, limit)
+}
+
+/**
+ * Get cities of a similar size in other states, most populous first
+ */
+export async function getSimilarPopulationCities(options: {
+  excludeStateId: number
+  minPopulation: number
+  maxPopulation: number
+  limit?: number
+}): Promise<CitySummary[]> {
+  const { excludeStateId, minPopulation, maxPopulation, limit = 12 } = options
+  
+  return cache.getOrFetch(
+    cacheKeys.similarCities(excludeStateId, minPopulation, maxPopulation, limit),
+    async () => {
+      const source = getDataSource()
+      if (!source) {
+        console.warn('[DB] No data source available, returning empty cities')
+        return []
+      }
+      
+      try {
+        const cities = await source.listCities(
+          { excludeStateId, minPopulation, maxPopulation },
+          { orderBy: 'population', limit }
+        )
+        return toCitySummaries(cities).filter(hasState)
+      } catch (err) {
+        console.error('[DB] Error fetching similar cities:', err)
+        return []
+      }
+    },
+    SSRCache.TTL.CITY_PAGE
+  )
+}
+
+/**
+ * Get the most populous city with exactly this name, in any state
+ */
+export async function getLargestCityNamed(name: string): Promise<CitySummary | null> {
+  return cache.getOrFetch(
+    cacheKeys.largestCityNamed(name),
+    async () => {
+      const source = getDataSource()
+      if (!source) {
+        console.warn('[DB] No data source available, cannot look up city')
+        return null
+      }
+      
+      try {
+        const cities = await source.listCities({ name }, { orderBy: 'population', limit: 1 })
+        return toCitySummaries(cities).find(hasState) || null
+      } catch (err) {
+        console.error('[DB] Error fetching city by name:', err)
+        return null
+      }
+    },
+    SSRCache.TTL.CITY_PAGE
+  )
+}
+
+/**
+ * Get the most populous cities nationwide
+ */
+export async function getNationalTopCities(limit: number = 20): Promise<CitySummary[]> {
+  const cities = await getCitiesByPopulation(0, limit)
+  return cities.filter(hasState)
+}
+
+/**
+ * Get one page of the nationwide population ranking - rows from..to-1, most populous first
+ * Every row is kept, so a short page means the end of the table
+ */
+export async function getCitiesByPopulation(from: number, to: number): Promise<CitySummary[]> {
+  return cache.getOrFetch(
+    cacheKeys.citiesByPopulation(from, to),
+    async () => {
+      const source = getDataSource()
+      if (!source) {
+        console.warn('[DB] No data source available, returning empty cities')
+        return []
+      }
+      
+      try {
+        const cities = await source.listCities({}, { orderBy: 'population', offset: from, limit: to - from })
+        return toCitySummaries(cities)
+      } catch (err) {
+        console.error('[DB] Error fetching cities by population:', err)
+        return []
+      }
+    },
+    SSRCache.TTL.SITEMAP
+  )
+}
+
+/**
+ * Get how many cities are more populous than this - a city's zero-based place in the
+ * nationwide ranking. Null when the count cannot be read.
+ */
+export async function getCityPopulationRank(population: number): Promise<number | null> {
+  return cache.getOrFetch(
+    cacheKeys.cityRank(population),
+    async () => {
+      const source = getDataSource()
+      if (!source) return null
+      
+      try {
+        return await source.countCities({ abovePopulation: population })
+      } catch (err) {
+        console.error('[DB] Error ranking city by population:', err)
+        return null
+      }
+    },
+    SSRCache.TTL.SITEMAP
+  )
+}
+
 /**
  * Get all providers
  */
@@ -163,25 +417,24 @@ export async function getProviders(): Promise<Provider[]> {
   return cache.getOrFetch(
     cacheKeys.providers(),
     async () => {
-      if (!supabase) {
-        console.warn('[DB] Supabase not available, returning empty providers')
+      const source = getDataSource()
+      if (!source) {
+        console.warn('[DB] No data source available, returning empty providers')
         return []
       }
       
       try {
-        const { data, error } = await supabase
-          .from('providers')
-          .select('*')
-          .order('name')
-        
-        if (error) {
-          console.error('[DB] Error fetching providers:', error)
-          return []
-        }
+        const rows = await source.listProviders()
         
-        return data || []
+        // JSON columns are untyped in the database - coerce them on the way out
+        return rows.map(row => ({
+          ...row,
+          plans: normalizePlans(row.plans),
+          coverage: normalizeCoverage(row.coverage),
+          contact_info: normalizeContact(row.contact_info),
+        }))
       } catch (err) {
-        console.error('[DB] Exception fetching providers:', err)
+        console.error('[DB] Error fetching providers:', err)
         return []
       }
     },
@@ -189,6 +442,14 @@ export async function getProviders(): Promise<Provider[]> {
   )
 }
 
+/**
+ * Get a single provider by id
+ */
+export async function getProviderById(id: number): Promise<Provider | null> {
+  const providers = await getProviders()
+  return providers.find(p => p.id === id) || null
+}
+
 /**
  * Get sitemap data (all states and cities)
  */
@@ -214,26 +475,24 @@ export async function getSitemapData(): Promise<{ states: State[]; cities: Map<n
 }
 
 /**
- * Get total city count
+ * Get total city count - 0 when it cannot be read
  */
 export async function getTotalCityCount(): Promise<number> {
-  if (!supabase) return 0
-  
-  try {
-    const { count, error } = await supabase
-      .from('cities')
-      .select('*', { count: 'exact', head: true })
-    
-    if (error) {
-      console.error('[DB] Error counting cities:', error)
-      return 0
-    }
-    
-    return count || 0
-  } catch (err) {
-    console.error('[DB] Exception counting cities:', err)
-    return 0
-  }
+  return cache.getOrFetch(
+    cacheKeys.cityCount(),
+    async () => {
+      const source = getDataSource()
+      if (!source) return 0
+      
+      try {
+        return await source.countCities({})
+      } catch (err) {
+        console.error('[DB] Error counting cities:', err)
+        return 0
+      }
+    },
+    SSRCache.TTL.SITEMAP
+  )
 }
 
 /**
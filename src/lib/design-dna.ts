@@ -8,6 +8,8 @@
  * - Advanced: Completely different layouts, structures, and visual patterns
  */
 
+import { hashString as hashWith } from './seeded-random';
+
 export type DesignStyle = 'basic' | 'advanced';
 
 export interface DesignDNA {
@@ -307,15 +309,7 @@ const SECTION_ORDER_VARIATIONS = [
  * Generate a hash from a string
  */
 function hashString(str: string): number {
-  let hash = 5381;
-  for (let i = 0; i < str.length; i++) {
-    const char = str.charCodeAt(i);
-    hash = ((hash << 5) + hash) ^ char;
-  }
-  hash = hash ^ (hash >>> 16);
-  hash = Math.imul(hash, 0x85ebca6b);
-  hash = hash ^ (hash >>> 13);
-  return Math.abs(hash);
+  return hashWith(str, 'djb2');
 }
 
 /**
@@ -0,0 +1,395 @@
+/**
+ * Cross-Site Duplicate Content Scoring
+ * Renders the text of city, state and static pages for a fleet of domains and compares
+ * every domain pair on the same page with word-shingle MinHash (estimated Jaccard similarity).
+ * verifyUniqueness and detectCollisions only count hash collisions - this measures what the
+ * rendered pages actually share, section by section, so the pools worth expanding stand out
+ */
+
+import { getCityContentVariations, getContentVariations } from './city-content-variations'
+import { getStateContentVariations } from './state-content-variations'
+import { getStateDisplayName } from './site-config'
+import { hashString } from './variations/shared/hash-utils'
+import { loadKeywordVariations } from './variations/shared/keyword-loader'
+import { DEFAULT_KEYWORD_MODULE } from './variations/keyword-registry'
+
+export interface FleetSite {
+  domain: string
+  keywordId: string
+}
+
+export interface FleetCity {
+  city: string
+  stateAbbr: string
+  stateName: string
+}
+
+export type PageKind = 'city' | 'state' | 'static'
+
+export interface SectionDuplication {
+  kind: PageKind
+  section: string           // 'intro', or 'home.meta' for static pages
+  source: string            // pool(s) the section is drawn from
+  meanSimilarity: number    // 0-1 across every compared pair
+  maxSimilarity: number
+  identicalRate: number     // share of pairs with identical text
+  comparisons: number
+}
+
+export interface PageDuplication {
+  kind: PageKind
+  page: string              // 'Springfield, IL', 'Illinois', 'home'
+  meanSimilarity: number
+  maxSimilarity: number
+}
+
+export interface PairSimilarity {
+  page: string
+  domains: [string, string]
+  similarity: number
+}
+
+export interface DuplicateContentReport {
+  sites: FleetSite[]
+  cities: FleetCity[]
+  comparisons: number
+  overallSimilarity: number
+  sections: SectionDuplication[]   // most duplicated first
+  pages: PageDuplication[]         // most duplicated first
+  topPairs: PairSimilarity[]
+}
+
+// Four-word shingles catch reused phrasing without flagging shared program names
+const SHINGLE_SIZE = 4
+const MINHASH_PERMUTATIONS = 128
+const TOP_PAIRS = 20
+
+export const MAX_FLEET_SITES = 25
+export const MAX_FLEET_CITIES = 25
+
+export const STATIC_PAGE_TYPES = ['home', 'eligibility', 'apply', 'faq', 'providers', 'programs', 'contact'] as const
+type StaticPageType = typeof STATIC_PAGE_TYPES[number]
+
+// ============================================
+// Rendering
+// ============================================
+
+interface RenderedSection {
+  source: string
+  text: string
+}
+
+type RenderedPage = Record<string, RenderedSection>
+
+type KeywordVariations = Awaited<ReturnType<typeof loadKeywordVariations>>
+
+const join = (...parts: (string | string[] | undefined)[]) => parts.flat().filter(Boolean).join(' ')
+
+function renderCityPage(site: FleetSite, variations: KeywordVariations, location: FleetCity): RenderedPage {
+  const { domain } = site
+  const { city, stateAbbr, stateName } = location
+  const content = getCityContentVariations(domain, city, stateAbbr)
+  const meta = variations.getMetaVariations(domain, domain, 'city', stateName, city)
+  const benefits = [content.benefitsConnectivity, content.benefitsNoCost, content.benefitsEmergency]
+
+  return {
+    meta: { source: `keywords/${site.keywordId} meta (city)`, text: join(meta.title, meta.description) },
+    h1: { source: `keywords/${site.keywordId} h1 (city)`, text: variations.getH1Variation(domain, 'city', city, stateAbbr).h1 },
+    h3: { source: `keywords/${site.keywordId} h3 (city)`, text: join([0, 1, 2].map(i => variations.getH3Variation(domain, 'city', i))) },
+    intro: { source: 'city-content intro', text: content.intro },
+    qualifies: { source: 'city-content headingQualifies, qualifiesIntro', text: join(content.headingQualifies, content.qualifiesIntro) },
+    howTo: { source: 'city-content headingHowTo, step1-4', text: join(content.headingHowTo, content.step1, content.step2, content.step3, content.step4) },
+    providers: {
+      source: 'city-content headingProviders, provider*',
+      text: join(content.headingProviders, content.providerAssurance, content.providerSafelink, content.providerQlink, content.providerEntouch),
+    },
+    benefits: {
+      source: 'city-content headingBenefits, benefits*',
+      text: join(content.headingBenefits, benefits.map(b => join(b.title, b.bullets))),
+    },
+    faq: {
+      source: 'city-content headingFaq, faq*',
+      text: join(content.headingFaq, content.faqApprovalTime, content.faqKeepNumber, content.faqDocuments,
+        content.faqEveryoneEligible, content.faqServiceQuality, content.faqMultiplePhones),
+    },
+    cta: { source: 'city-content cta', text: join(content.cta.headline, content.cta.subtext, content.cta.button) },
+  }
+}
+
+function renderStatePage(site: FleetSite, variations: KeywordVariations, stateName: string): RenderedPage {
+  const { domain } = site
+  const content = getStateContentVariations(domain, stateName)
+  const meta = variations.getMetaVariations(domain, domain, 'state', stateName)
+
+  return {
+    meta: { source: `keywords/${site.keywordId} meta (state)`, text: join(meta.title, meta.description) },
+    headings: {
+      source: 'state-content heading*',
+      text: join(content.headingIntro, content.headingEligibility, content.headingHowTo, content.headingCities),
+    },
+    h3: { source: `keywords/${site.keywordId} h3 (state)`, text: join([0, 1, 2].map(i => variations.getH3Variation(domain, 'state', i))) },
+    intro: { source: 'state-content intro', text: content.intro },
+    programsAvailable: { source: 'state-content programsAvailable', text: content.programsAvailable },
+    howToApply: { source: 'state-content howToApply', text: content.howToApply },
+    eligibility: { source: 'state-content eligibility', text: content.eligibility },
+    benefits: { source: 'state-content benefits', text: join(content.benefits.title, content.benefits.benefits) },
+    cta: { source: 'state-content cta', text: join(content.cta.headline, content.cta.subtext, content.cta.button) },
+  }
+}
+
+function renderStaticPage(site: FleetSite, variations: KeywordVariations, pageType: StaticPageType): RenderedPage {
+  const { domain } = site
+  const meta = variations.getMetaVariations(domain, domain, pageType)
+  const page: RenderedPage = {
+    meta: { source: `keywords/${site.keywordId} meta (${pageType})`, text: join(meta.title, meta.description) },
+    h1: { source: `keywords/${site.keywordId} h1 (${pageType})`, text: variations.getH1Variation(domain, pageType).h1 },
+    h2: { source: `keywords/${site.keywordId} h2 (${pageType})`, text: join([0, 1, 2].map(i => variations.getH2Variation(domain, pageType, i))) },
+  }
+
+  if (pageType === 'home') {
+    const content = getContentVariations(domain)
+    page.hero = { source: 'city-content heroTagline, heroSubtext', text: join(content.heroTagline, content.heroSubtext) }
+    page.valueProps = { source: 'city-content valueProps, trustBadges', text: join(content.valueProps, content.trustBadges) }
+  }
+  if (pageType === 'faq') {
+    const faqs = variations.getFAQVariations(domain, 10).faqs
+    page.faqs = { source: `keywords/${site.keywordId} faq`, text: join(faqs.map(faq => join(faq.question, faq.answer))) }
+  }
+
+  return page
+}
+
+// ============================================
+// MinHash
+// ============================================
+
+// Fixed seeds so signatures are comparable between runs
+const PERMUTATION_SEEDS = Array.from({ length: MINHASH_PERMUTATIONS }, (_, i) => hashString(`minhash-${i}`) | 1)
+
+function mix(value: number): number {
+  let h = value
+  h ^= h >>> 16
+  h = Math.imul(h, 0x85ebca6b)
+  h ^= h >>> 13
+  h = Math.imul(h, 0xc2b2ae35)
+  h ^= h >>> 16
+  return h >>> 0
+}
+
+function shingles(text: string): Set<string> {
+  const words = text.toLowerCase().split(/[^\p{L}\p{N}]+/u).filter(Boolean)
+  const result = new Set<string>()
+  if (words.length === 0) return result
+  if (words.length <= SHINGLE_SIZE) {
+    result.add(words.join(' '))
+    return result
+  }
+  for (let i = 0; i + SHINGLE_SIZE <= words.length; i++) {
+    result.add(words.slice(i, i + SHINGLE_SIZE).join(' '))
+  }
+  return result
+}
+
+/**
+ * MinHash signature - null for text with no words, which is never compared
+ */
+function signature(text: string): Uint32Array | null {
+  const set = shingles(text)
+  if (set.size === 0) return null
+
+  const sig = new Uint32Array(MINHASH_PERMUTATIONS).fill(0xffffffff)
+  for (const shingle of set) {
+    const base = hashString(shingle)
+    for (let i = 0; i < MINHASH_PERMUTATIONS; i++) {
+      const value = mix(base ^ PERMUTATION_SEEDS[i])
+      if (value < sig[i]) sig[i] = value
+    }
+  }
+  return sig
+}
+
+/**
+ * Estimated Jaccard similarity of two signatures
+ */
+function similarity(a: Uint32Array, b: Uint32Array): number {
+  let matches = 0
+  for (let i = 0; i < MINHASH_PERMUTATIONS; i++) {
+    if (a[i] === b[i]) matches++
+  }
+  return matches / MINHASH_PERMUTATIONS
+}
+
+// ============================================
+// Scoring
+// ============================================
+
+interface SignedPage {
+  domain: string
+  sections: Record<string, { source: string; text: string; sig: Uint32Array | null }>
+  whole: Uint32Array | null
+}
+
+function signPage(domain: string, page: RenderedPage): SignedPage {
+  const sections: SignedPage['sections'] = {}
+  for (const [name, section] of Object.entries(page)) {
+    sections[name] = { ...section, sig: signature(section.text) }
+  }
+  return { domain, sections, whole: signature(Object.values(page).map(s => s.text).join(' ')) }
+}
+
+interface SectionTally {
+  kind: PageKind
+  section: string
+  sources: Set<string>
+  total: number
+  max: number
+  identical: number
+  comparisons: number
+}
+
+const round = (value: number) => Math.round(value * 1000) / 1000
+
+/**
+ * Score every domain pair on every page. Pages are compared only with the same
+ * page on another domain - the same city, the same state or the same static page
+ */
+export async function scoreDuplicateContent(sites: FleetSite[], cities: FleetCity[]): Promise<DuplicateContentReport> {
+  const fleet = sites.slice(0, MAX_FLEET_SITES)
+  const locations = cities.slice(0, MAX_FLEET_CITIES)
+  const variationsByKeyword = new Map<string, KeywordVariations>()
+  for (const site of fleet) {
+    if (!variationsByKeyword.has(site.keywordId)) {
+      variationsByKeyword.set(site.keywordId, await loadKeywordVariations(site.keywordId))
+    }
+  }
+
+  // Same page across the fleet, keyed by what is being compared
+  const pages: { kind: PageKind; page: string; render: (site: FleetSite, variations: KeywordVariations) => RenderedPage }[] = [
+    ...locations.map(location => ({
+      kind: 'city' as const,
+      page: `${location.city}, ${location.stateAbbr}`,
+      render: (site: FleetSite, variations: KeywordVariations) => renderCityPage(site, variations, location),
+    })),
+    ...[...new Set(locations.map(location => location.stateName))].map(stateName => ({
+      kind: 'state' as const,
+      page: stateName,
+      render: (site: FleetSite, variations: KeywordVariations) => renderStatePage(site, variations, stateName),
+    })),
+    ...STATIC_PAGE_TYPES.map(pageType => ({
+      kind: 'static' as const,
+      page: pageType,
+      render: (site: FleetSite, variations: KeywordVariations) => renderStaticPage(site, variations, pageType),
+    })),
+  ]
+
+  const tallies = new Map<string, SectionTally>()
+  const pageResults: PageDuplication[] = []
+  const pairs: PairSimilarity[] = []
+  let comparisons = 0
+  let overallTotal = 0
+
+  for (const { kind, page, render } of pages) {
+    const signed = fleet.map(site => signPage(site.domain, render(site, variationsByKeyword.get(site.keywordId)!)))
+    let pageTotal = 0
+    let pageMax = 0
+    let pageComparisons = 0
+
+    for (let i = 0; i < signed.length; i++) {
+      for (let j = i + 1; j < signed.length; j++) {
+        const a = signed[i]
+        const b = signed[j]
+
+        if (a.whole && b.whole) {
+          const score = similarity(a.whole, b.whole)
+          pageTotal += score
+          pageMax = Math.max(pageMax, score)
+          pageComparisons++
+          pairs.push({ page: `${kind}: ${page}`, domains: [a.domain, b.domain], similarity: round(score) })
+        }
+
+        for (const [name, section] of Object.entries(a.sections)) {
+          const other = b.sections[name]
+          if (!section.sig || !other?.sig) continue
+
+          // Static pages have their own pools per page type, so their sections are kept apart
+          const sectionName = kind === 'static' ? `${page}.${name}` : name
+          const key = `${kind}:${sectionName}`
+          const tally = tallies.get(key) ?? { kind, section: sectionName, sources: new Set<string>(), total: 0, max: 0, identical: 0, comparisons: 0 }
+          const score = section.text === other.text ? 1 : similarity(section.sig, other.sig)
+          tally.sources.add(section.source).add(other.source)
+          tally.total += score
+          tally.max = Math.max(tally.max, score)
+          if (section.text === other.text) tally.identical++
+          tally.comparisons++
+          tallies.set(key, tally)
+        }
+      }
+    }
+
+    if (pageComparisons > 0) {
+      pageResults.push({ kind, page, meanSimilarity: round(pageTotal / pageComparisons), maxSimilarity: round(pageMax) })
+      comparisons += pageComparisons
+      overallTotal += pageTotal
+    }
+  }
+
+  const sections: SectionDuplication[] = [...tallies.values()]
+    .map(tally => ({
+      kind: tally.kind,
+      section: tally.section,
+      source: [...tally.sources].join('; '),
+      meanSimilarity: round(tally.total / tally.comparisons),
+      maxSimilarity: round(tally.max),
+      identicalRate: round(tally.identical / tally.comparisons),
+      comparisons: tally.comparisons,
+    }))
+    .sort((a, b) => b.meanSimilarity - a.meanSimilarity || b.identicalRate - a.identicalRate)
+
+  return {
+    sites: fleet,
+    cities: locations,
+    comparisons,
+    overallSimilarity: comparisons > 0 ? round(overallTotal / comparisons) : 0,
+    sections,
+    pages: pageResults.sort((a, b) => b.meanSimilarity - a.meanSimilarity),
+    topPairs: pairs.sort((a, b) => b.similarity - a.similarity).slice(0, TOP_PAIRS),
+  }
+}
+
+// ============================================
+// Input parsing (admin form)
+// ============================================
+
+/**
+ * One site per line: "example.com" or "example.com lifeline-program"
+ */
+export function parseFleetSites(input: string): FleetSite[] {
+  const seen = new Set<string>()
+  const sites: FleetSite[] = []
+
+  for (const line of input.split(/\r?\n/)) {
+    const [domain, keywordId] = line.trim().toLowerCase().split(/[\s,]+/)
+    if (!domain || seen.has(domain)) continue
+    seen.add(domain)
+    sites.push({ domain, keywordId: keywordId || DEFAULT_KEYWORD_MODULE })
+  }
+
+  return sites
+}
+
+/**
+ * One city per line: "Springfield, IL" - lines with an unknown state are skipped
+ */
+export function parseFleetCities(input: string): FleetCity[] {
+  const cities: FleetCity[] = []
+
+  for (const line of input.split(/\r?\n/)) {
+    const match = line.trim().match(/^(.+?),\s*([A-Za-z]{2})$/)
+    if (!match) continue
+    const stateAbbr = match[2].toUpperCase()
+    const stateName = getStateDisplayName(stateAbbr)
+    if (stateName) cities.push({ city: match[1].trim(), stateAbbr, stateName })
+  }
+
+  return cities
+}
@@ -0,0 +1,116 @@
+/**
+ * Lifeline Eligibility Rules
+ * Program-based and income-based (135% of Federal Poverty Guidelines) qualification
+ */
+
+import { STATE_ABBR_TO_NAME } from './site-config'
+import {
+  getGuidelineRegion,
+  getGuidelineYear,
+  getLifelineIncomeLimit,
+  type GuidelineRegion,
+} from './poverty-guidelines'
+
+// Guideline data and income limits live in poverty-guidelines; re-exported for existing callers
+export {
+  LIFELINE_FPG_PERCENT,
+  getPovertyGuideline,
+  getLifelineIncomeLimit,
+  getGuidelineRegion as getGuidelineTable,
+} from './poverty-guidelines'
+
+export type QualifyingProgram = 'snap' | 'medicaid' | 'ssi' | 'fpha' | 'veterans-pension' | 'tribal'
+
+export type EligibilityVerdict = 'qualify' | 'likely' | 'not-qualify'
+
+export type EligibilityRule = 'program' | 'income' | 'none'
+
+export interface EligibilityAnswers {
+  householdSize: number
+  state: string
+  programs: QualifyingProgram[]
+  annualIncome?: number
+}
+
+export interface EligibilityDecision {
+  verdict: EligibilityVerdict
+  rule: EligibilityRule
+  matchedPrograms: QualifyingProgram[]
+  incomeLimit: number
+  annualIncome?: number
+  householdSize: number
+  state: string
+  guidelineTable: GuidelineRegion
+  guidelineYear: number
+}
+
+export const QUALIFYING_PROGRAMS: Record<QualifyingProgram, string> = {
+  'snap': 'SNAP (Food Stamps)',
+  'medicaid': 'Medicaid',
+  'ssi': 'Supplemental Security Income (SSI)',
+  'fpha': 'Federal Public Housing Assistance',
+  'veterans-pension': 'Veterans Pension & Survivors Benefit',
+  'tribal': 'Tribal Programs (TTANF, FDPIR, BIA, Tribal Head Start)',
+}
+
+/**
+ * Check whether a value is a known qualifying program id
+ */
+export function isQualifyingProgram(value: string): value is QualifyingProgram {
+  return value in QUALIFYING_PROGRAMS
+}
+
+/**
+ * Validate raw answers from the checker form
+ * Returns a list of problems (empty when the answers can be evaluated)
+ */
+export function validateEligibilityAnswers(answers: Partial<EligibilityAnswers>): string[] {
+  const problems: string[] = []
+
+  if (!answers.householdSize || !Number.isInteger(answers.householdSize) || answers.householdSize < 1 || answers.householdSize > 20) {
+    problems.push('Household size must be a whole number between 1 and 20.')
+  }
+
+  if (!answers.state || !STATE_ABBR_TO_NAME[answers.state.toLowerCase()]) {
+    problems.push('Please choose a valid state.')
+  }
+
+  if (answers.annualIncome !== undefined && (!Number.isFinite(answers.annualIncome) || answers.annualIncome < 0)) {
+    problems.push('Annual income must be a positive number.')
+  }
+
+  return problems
+}
+
+/**
+ * Apply the Lifeline rules to a set of answers
+ * Program participation qualifies outright; income at or below 135% FPG likely qualifies
+ * pending proof of income; anything else does not qualify
+ */
+export function evaluateEligibility(answers: EligibilityAnswers): EligibilityDecision {
+  const state = answers.state.toUpperCase()
+  const matchedPrograms = answers.programs.filter(isQualifyingProgram)
+  const incomeLimit = getLifelineIncomeLimit(answers.householdSize, state)
+
+  const base = {
+    matchedPrograms,
+    incomeLimit,
+    annualIncome: answers.annualIncome,
+    householdSize: answers.householdSize,
+    state,
+    guidelineTable: getGuidelineRegion(state),
+    guidelineYear: getGuidelineYear().year,
+  }
+
+  if (matchedPrograms.length > 0) {
+    return { ...base, verdict: 'qualify', rule: 'program' }
+  }
+
+  if (answers.annualIncome !== undefined) {
+    return answers.annualIncome <= incomeLimit
+      ? { ...base, verdict: 'likely', rule: 'income' }
+      : { ...base, verdict: 'not-qualify', rule: 'income' }
+  }
+
+  return { ...base, verdict: 'not-qualify', rule: 'none' }
+}
@@ -0,0 +1,131 @@
+/**
+ * Locales
+ * English pages live at their existing URLs; Spanish pages live under /es/ on the main
+ * domain (also in subdomain mode, where state subdomains stay English-only).
+ * Only pages listed here have a Spanish version - hreflang and sitemaps read from this file.
+ */
+
+import { getSiteURL, useSubdomains, getStateSubdomainURL, getCitySubdomainURL } from './site-config'
+
+export type Locale = 'en' | 'es'
+
+export const LOCALES: Locale[] = ['en', 'es']
+
+export const DEFAULT_LOCALE: Locale = 'en'
+
+// <html lang> and hreflang values - the audience is US households in both languages
+export const LOCALE_LANG: Record<Locale, string> = {
+  en: 'en-US',
+  es: 'es-US',
+}
+
+export const LOCALE_LABEL: Record<Locale, string> = {
+  en: 'English',
+  es: 'Español',
+}
+
+// Static pages with a Spanish version, as English paths ('' is the homepage)
+export const LOCALIZED_STATIC_PAGES = [
+  '',
+  '/eligibility',
+  '/apply',
+  '/faq',
+  '/programs',
+  '/lifeline-program',
+]
+
+export interface AlternateLink {
+  hreflang: string
+  href: string
+}
+
+export function isLocale(value: string | null | undefined): value is Locale {
+  return !!value && (LOCALES as string[]).includes(value)
+}
+
+/**
+ * Locale of a request path - "/es" and "/es/..." are Spanish, everything else English
+ */
+export function getLocaleFromPath(pathname: string): Locale {
+  return /^\/es(\/|$)/.test(pathname) ? 'es' : DEFAULT_LOCALE
+}
+
+/**
+ * Path without its locale prefix ("/es/faq/" -> "/faq/")
+ */
+export function stripLocalePrefix(pathname: string): string {
+  const stripped = pathname.replace(/^\/es(?=\/|$)/, '')
+  return stripped || '/'
+}
+
+/**
+ * Path for a locale ("/faq/" -> "/es/faq/" for Spanish, unchanged for English)
+ */
+export function localizePath(path: string, locale: Locale): string {
+  const clean = stripLocalePrefix(path.startsWith('/') ? path : `/${path}`)
+  if (locale === DEFAULT_LOCALE) return clean
+  return clean === '/' ? '/es/' : `/es${clean}`
+}
+
+function withTrailingSlash(path: string): string {
+  return path.endsWith('/') ? path : `${path}/`
+}
+
+/**
+ * True when a static page path (English, with or without trailing slash) has a Spanish version
+ */
+export function isLocalizedStaticPage(path: string): boolean {
+  const clean = stripLocalePrefix(path).replace(/\/$/, '')
+  return LOCALIZED_STATIC_PAGES.includes(clean)
+}
+
+/**
+ * Absolute URL of a static page in a locale
+ */
+export function getLocalizedPageURL(path: string, locale: Locale): string {
+  return `${getSiteURL()}${withTrailingSlash(localizePath(path, locale))}`
+}
+
+/**
+ * Absolute URL of a state page in a locale - English follows the subdomain setting
+ */
+export function getLocalizedStateURL(stateAbbr: string, locale: Locale): string {
+  const abbr = stateAbbr.toLowerCase()
+  if (locale === DEFAULT_LOCALE) {
+    return useSubdomains() ? getStateSubdomainURL(abbr) : `${getSiteURL()}/${abbr}/`
+  }
+  return `${getSiteURL()}/${locale}/${abbr}/`
+}
+
+/**
+ * Absolute URL of a city page in a locale - English follows the subdomain setting
+ */
+export function getLocalizedCityURL(citySlug: string, stateAbbr: string, locale: Locale): string {
+  const abbr = stateAbbr.toLowerCase()
+  if (locale === DEFAULT_LOCALE) {
+    return useSubdomains() ? getCitySubdomainURL(citySlug, abbr) : `${getSiteURL()}/${abbr}/${citySlug}/`
+  }
+  return `${getSiteURL()}/${locale}/${abbr}/${citySlug}/`
+}
+
+/**
+ * hreflang set for a page from its URL in each locale, plus x-default (English)
+ */
+export function buildAlternateLinks(urls: Record<Locale, string>): AlternateLink[] {
+  return [
+    ...LOCALES.map(locale => ({ hreflang: LOCALE_LANG[locale], href: urls[locale] })),
+    { hreflang: 'x-default', href: urls[DEFAULT_LOCALE] },
+  ]
+}
+
+/**
+ * hreflang set for a static page path, or [] when the page has no Spanish version
+ */
+export function getStaticPageAlternates(pathname: string): AlternateLink[] {
+  if (!isLocalizedStaticPage(pathname)) return []
+  const path = stripLocalePrefix(pathname)
+  return buildAlternateLinks({
+    en: getLocalizedPageURL(path, 'en'),
+    es: getLocalizedPageURL(path, 'es'),
+  })
+}
@@ -0,0 +1,114 @@
+/**
+ * IP Location
+ * Approximate visitor location from the ip_ranges table (an IPv4 range -> region dataset
+ * loaded into our own database by scripts/import-ip-ranges.js), so no request leaves for
+ * a third-party geo API
+ */
+
+import { supabase } from './supabase'
+import { STATE_ABBR_TO_NAME } from './site-config'
+
+export interface IPLocation {
+  region: string           // uppercase state abbreviation
+  city: string | null
+  latitude: number
+  longitude: number
+}
+
+/**
+ * First client address from the proxy chain, falling back to the socket address
+ */
+export function getClientIP(request: Request, clientAddress?: string): string | null {
+  const forwarded = request.headers.get('x-forwarded-for')
+  if (forwarded) return forwarded.split(',')[0].trim()
+  return request.headers.get('x-real-ip') || clientAddress || null
+}
+
+/**
+ * IPv4 address as an unsigned integer, or null for IPv6 and malformed input
+ * IPv4-mapped IPv6 addresses ("::ffff:1.2.3.4") are unwrapped
+ */
+export function ipv4ToNumber(ip: string): number | null {
+  const parts = ip.replace(/^::ffff:/i, '').split('.')
+  if (parts.length !== 4) return null
+
+  let value = 0
+  for (const part of parts) {
+    if (!/^\d{1,3}$/.test(part)) return null
+    const octet = Number(part)
+    if (octet > 255) return null
+    value = value * 256 + octet
+  }
+  return value
+}
+
+// Private, loopback and link-local ranges never appear in the dataset
+const PRIVATE_RANGES: Array<[number, number]> = [
+  [ipv4ToNumber('10.0.0.0')!, ipv4ToNumber('10.255.255.255')!],
+  [ipv4ToNumber('127.0.0.0')!, ipv4ToNumber('127.255.255.255')!],
+  [ipv4ToNumber('169.254.0.0')!, ipv4ToNumber('169.254.255.255')!],
+  [ipv4ToNumber('172.16.0.0')!, ipv4ToNumber('172.31.255.255')!],
+  [ipv4ToNumber('192.168.0.0')!, ipv4ToNumber('192.168.255.255')!],
+]
+
+function isPrivate(value: number): boolean {
+  return PRIVATE_RANGES.some(([start, end]) => value >= start && value <= end)
+}
+
+/**
+ * Look up the region an IPv4 address belongs to
+ */
+export async function lookupIPLocation(ip: string | null): Promise<IPLocation | null> {
+  if (!ip) return null
+  const value = ipv4ToNumber(ip)
+  if (value === null || isPrivate(value)) return null
+
+  if (!supabase) {
+    console.warn('[IP] Supabase not available, cannot look up IP location')
+    return null
+  }
+
+  try {
+    // Ranges don't overlap, so the last range starting at or below the address is the only candidate
+    const { data, error } = await supabase
+      .from('ip_ranges')
+      .select('ip_start, ip_end, region, city, latitude, longitude')
+      .lte('ip_start', value)
+      .order('ip_start', { ascending: false })
+      .limit(1)
+      .maybeSingle()
+
+    if (error) {
+      console.error('[IP] Error looking up IP location:', error)
+      return null
+    }
+
+    if (!data || data.ip_end < value) return null
+
+    return {
+      region: data.region.toUpperCase(),
+      city: data.city,
+      latitude: data.latitude,
+      longitude: data.longitude,
+    }
+  } catch (err) {
+    console.error('[IP] Exception looking up IP location:', err)
+    return null
+  }
+}
+
+/**
+ * Visitor's state as an uppercase abbreviation - an explicit choice (e.g. ?state=) wins,
+ * then the IP region; null when neither is a known state
+ */
+export async function getVisitorState(
+  request: Request,
+  clientAddress?: string,
+  override?: string | null
+): Promise<string | null> {
+  if (override && STATE_ABBR_TO_NAME[override.toLowerCase()]) return override.toUpperCase()
+
+  const location = await lookupIPLocation(getClientIP(request, clientAddress))
+  if (location && STATE_ABBR_TO_NAME[location.region.toLowerCase()]) return location.region
+  return null
+}
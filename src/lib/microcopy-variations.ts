@@ -4,18 +4,10 @@
  * Each element has 20-50 variations to ensure uniqueness at scale
  */
 
-// Hash function for deterministic variation selection
-function hashString(str: string): number {
-  let hash = 5381;
-  for (let i = 0; i < str.length; i++) {
-    const char = str.charCodeAt(i);
-    hash = ((hash << 5) + hash) ^ char;
-  }
-  hash = hash ^ (hash >>> 16);
-  hash = Math.imul(hash, 0x85ebca6b);
-  hash = hash ^ (hash >>> 13);
-  return Math.abs(hash);
-}
+import { seededRandom } from './seeded-random';
+import { isProgramActive } from './programs';
+import { pickLocalePool, type Locale } from './variations/locales';
+import { ES_MICROCOPY_POOLS } from './variations/locales/es/microcopy-variations';
 
 // ============================================================================
 // URGENCY BADGES - Top of page urgent messaging
@@ -356,6 +348,20 @@ export const ACP_PROGRAM_VARIATIONS = [
   "Government ACP",
 ];
 
+// Link labels for the ACP page once the program has stopped enrolling
+export const ACP_ENDED_PROGRAM_VARIATIONS = [
+  "ACP (Ended)",
+  "ACP Has Ended",
+  "After ACP",
+  "ACP Wind-Down",
+  "Former ACP Benefits",
+  "ACP Closure",
+  "What Happened to ACP",
+  "ACP Is Over",
+  "ACP Ended - Next Steps",
+  "ACP Update",
+];
+
 export const TRIBAL_PROGRAMS_VARIATIONS = [
   "Tribal Programs",
   "Tribal Services",
@@ -761,6 +767,32 @@ export const SEARCH_PLACEHOLDER_VARIATIONS = [
   "Enter your state...",
 ];
 
+export const ZIP_LOOKUP_LABEL_VARIATIONS = [
+  "Find your city by ZIP code",
+  "Enter your ZIP code",
+  "Search by ZIP code",
+  "What's your ZIP code?",
+  "Look up your area by ZIP",
+  "Jump to your city with your ZIP",
+  "Find local service by ZIP code",
+  "Check your ZIP code",
+  "Start with your ZIP code",
+  "Your ZIP code",
+];
+
+export const ZIP_LOOKUP_BUTTON_VARIATIONS = [
+  "Go",
+  "Find My City",
+  "Search",
+  "Look Up",
+  "Find Service",
+  "Show My Area",
+  "Check ZIP",
+  "Find Providers",
+  "Continue",
+  "See My City",
+];
+
 // ============================================================================
 // HELPER FUNCTIONS
 // ============================================================================
@@ -769,189 +801,207 @@ export const SEARCH_PLACEHOLDER_VARIATIONS = [
  * Get variation based on domain hash
  */
 function getVariation<T>(domain: string, variations: T[]): T {
-  const hash = hashString(domain);
-  const index = hash % variations.length;
-  return variations[index];
+  return seededRandom(domain).stream('domain', 'microcopy').pick(variations);
+}
+
+/**
+ * Pool for a locale - Spanish pools are keyed by the English pool name
+ */
+function localize<T>(variations: T[], name: string, locale?: Locale): T[] {
+  return pickLocalePool(locale, variations, { es: ES_MICROCOPY_POOLS[name] as T[] | undefined });
 }
 
 /**
  * Get urgency badge for a domain
  */
-export function getUrgencyBadge(domain: string) {
-  return getVariation(domain, URGENCY_BADGE_VARIATIONS);
+export function getUrgencyBadge(domain: string, locale?: Locale) {
+  return getVariation(domain, localize(URGENCY_BADGE_VARIATIONS, 'URGENCY_BADGE_VARIATIONS', locale));
 }
 
 /**
  * Get secondary headline
  */
-export function getSecondaryHeadline(domain: string) {
-  return getVariation(domain, SECONDARY_HEADLINE_VARIATIONS);
+export function getSecondaryHeadline(domain: string, locale?: Locale) {
+  return getVariation(domain, localize(SECONDARY_HEADLINE_VARIATIONS, 'SECONDARY_HEADLINE_VARIATIONS', locale));
 }
 
 /**
  * Get "Learn More" variant
  */
-export function getLearnMoreText(domain: string) {
-  return getVariation(domain, LEARN_MORE_VARIATIONS);
+export function getLearnMoreText(domain: string, locale?: Locale) {
+  return getVariation(domain, localize(LEARN_MORE_VARIATIONS, 'LEARN_MORE_VARIATIONS', locale));
 }
 
 /**
  * Get "View Programs" variant
  */
-export function getViewProgramsText(domain: string) {
-  return getVariation(domain, VIEW_PROGRAMS_VARIATIONS);
+export function getViewProgramsText(domain: string, locale?: Locale) {
+  return getVariation(domain, localize(VIEW_PROGRAMS_VARIATIONS, 'VIEW_PROGRAMS_VARIATIONS', locale));
 }
 
 /**
  * Get navigation text
  */
-export function getEligibilityNavText(domain: string) {
-  return getVariation(domain, ELIGIBILITY_NAV_VARIATIONS);
+export function getEligibilityNavText(domain: string, locale?: Locale) {
+  return getVariation(domain, localize(ELIGIBILITY_NAV_VARIATIONS, 'ELIGIBILITY_NAV_VARIATIONS', locale));
 }
 
-export function getGetStartedCTAText(domain: string) {
-  return getVariation(domain, GET_STARTED_CTA_VARIATIONS);
+export function getGetStartedCTAText(domain: string, locale?: Locale) {
+  return getVariation(domain, localize(GET_STARTED_CTA_VARIATIONS, 'GET_STARTED_CTA_VARIATIONS', locale));
 }
 
 /**
  * Get program names
  */
-export function getLifelineProgramText(domain: string) {
-  return getVariation(domain, LIFELINE_PROGRAM_VARIATIONS);
+export function getLifelineProgramText(domain: string, locale?: Locale) {
+  return getVariation(domain, localize(LIFELINE_PROGRAM_VARIATIONS, 'LIFELINE_PROGRAM_VARIATIONS', locale));
 }
 
-export function getACPProgramText(domain: string) {
-  return getVariation(domain, ACP_PROGRAM_VARIATIONS);
+export function getACPProgramText(domain: string, locale?: Locale) {
+  if (!isProgramActive('acp')) {
+    return getVariation(domain, localize(ACP_ENDED_PROGRAM_VARIATIONS, 'ACP_ENDED_PROGRAM_VARIATIONS', locale));
+  }
+  return getVariation(domain, localize(ACP_PROGRAM_VARIATIONS, 'ACP_PROGRAM_VARIATIONS', locale));
 }
 
-export function getTribalProgramsText(domain: string) {
-  return getVariation(domain, TRIBAL_PROGRAMS_VARIATIONS);
+export function getTribalProgramsText(domain: string, locale?: Locale) {
+  return getVariation(domain, localize(TRIBAL_PROGRAMS_VARIATIONS, 'TRIBAL_PROGRAMS_VARIATIONS', locale));
 }
 
-export function getStateProgramsText(domain: string) {
-  return getVariation(domain, STATE_PROGRAMS_VARIATIONS);
+export function getStateProgramsText(domain: string, locale?: Locale) {
+  return getVariation(domain, localize(STATE_PROGRAMS_VARIATIONS, 'STATE_PROGRAMS_VARIATIONS', locale));
 }
 
 /**
  * Get footer text
  */
-export function getContactUsText(domain: string) {
-  return getVariation(domain, CONTACT_US_VARIATIONS);
+export function getContactUsText(domain: string, locale?: Locale) {
+  return getVariation(domain, localize(CONTACT_US_VARIATIONS, 'CONTACT_US_VARIATIONS', locale));
 }
 
-export function getAllStatesText(domain: string) {
-  return getVariation(domain, ALL_STATES_VARIATIONS);
+export function getAllStatesText(domain: string, locale?: Locale) {
+  return getVariation(domain, localize(ALL_STATES_VARIATIONS, 'ALL_STATES_VARIATIONS', locale));
 }
 
 /**
  * Get section titles
  */
-export function getSimilarCitiesTitle(domain: string) {
-  return getVariation(domain, SIMILAR_CITIES_VARIATIONS);
+export function getSimilarCitiesTitle(domain: string, locale?: Locale) {
+  return getVariation(domain, localize(SIMILAR_CITIES_VARIATIONS, 'SIMILAR_CITIES_VARIATIONS', locale));
 }
 
-export function getRelatedContentTitle(domain: string) {
-  return getVariation(domain, RELATED_CONTENT_VARIATIONS);
+export function getRelatedContentTitle(domain: string, locale?: Locale) {
+  return getVariation(domain, localize(RELATED_CONTENT_VARIATIONS, 'RELATED_CONTENT_VARIATIONS', locale));
 }
 
-export function getRelatedContentSubtitle(domain: string) {
-  return getVariation(domain, RELATED_CONTENT_SUBTITLE_VARIATIONS);
+export function getRelatedContentSubtitle(domain: string, locale?: Locale) {
+  return getVariation(domain, localize(RELATED_CONTENT_SUBTITLE_VARIATIONS, 'RELATED_CONTENT_SUBTITLE_VARIATIONS', locale));
 }
 
 /**
  * Get state selector text
  */
-export function getStateSelectorSearchText(domain: string) {
-  return getVariation(domain, STATE_SELECTOR_SEARCH_VARIATIONS);
+export function getStateSelectorSearchText(domain: string, locale?: Locale) {
+  return getVariation(domain, localize(STATE_SELECTOR_SEARCH_VARIATIONS, 'STATE_SELECTOR_SEARCH_VARIATIONS', locale));
 }
 
-export function getPopularStatesText(domain: string) {
-  return getVariation(domain, POPULAR_STATES_VARIATIONS);
+export function getPopularStatesText(domain: string, locale?: Locale) {
+  return getVariation(domain, localize(POPULAR_STATES_VARIATIONS, 'POPULAR_STATES_VARIATIONS', locale));
 }
 
-export function getShowAllStatesText(domain: string) {
-  return getVariation(domain, SHOW_ALL_STATES_VARIATIONS);
+export function getShowAllStatesText(domain: string, locale?: Locale) {
+  return getVariation(domain, localize(SHOW_ALL_STATES_VARIATIONS, 'SHOW_ALL_STATES_VARIATIONS', locale));
 }
 
-export function getBrowseCitiesText(domain: string) {
-  return getVariation(domain, BROWSE_CITIES_VARIATIONS);
+export function getBrowseCitiesText(domain: string, locale?: Locale) {
+  return getVariation(domain, localize(BROWSE_CITIES_VARIATIONS, 'BROWSE_CITIES_VARIATIONS', locale));
 }
 
-export function getExploreAllStatesText(domain: string) {
-  return getVariation(domain, EXPLORE_ALL_STATES_VARIATIONS);
+export function getExploreAllStatesText(domain: string, locale?: Locale) {
+  return getVariation(domain, localize(EXPLORE_ALL_STATES_VARIATIONS, 'EXPLORE_ALL_STATES_VARIATIONS', locale));
 }
 
 /**
  * Get miscellaneous UI text
  */
-export function getMostPopularCitiesText(domain: string) {
-  return getVariation(domain, MOST_POPULAR_CITIES_VARIATIONS);
+export function getMostPopularCitiesText(domain: string, locale?: Locale) {
+  return getVariation(domain, localize(MOST_POPULAR_CITIES_VARIATIONS, 'MOST_POPULAR_CITIES_VARIATIONS', locale));
 }
 
-export function getLoadingStatesText(domain: string) {
-  return getVariation(domain, LOADING_STATES_VARIATIONS);
+export function getLoadingStatesText(domain: string, locale?: Locale) {
+  return getVariation(domain, localize(LOADING_STATES_VARIATIONS, 'LOADING_STATES_VARIATIONS', locale));
 }
 
-export function getLimitedTimeStickyText(domain: string) {
-  return getVariation(domain, LIMITED_TIME_STICKY_VARIATIONS);
+export function getLimitedTimeStickyText(domain: string, locale?: Locale) {
+  return getVariation(domain, localize(LIMITED_TIME_STICKY_VARIATIONS, 'LIMITED_TIME_STICKY_VARIATIONS', locale));
 }
 
 /**
  * Get countdown timer text
  */
-export function getCountdownLabelText(domain: string) {
-  return getVariation(domain, COUNTDOWN_LABEL_VARIATIONS);
+export function getCountdownLabelText(domain: string, locale?: Locale) {
+  return getVariation(domain, localize(COUNTDOWN_LABEL_VARIATIONS, 'COUNTDOWN_LABEL_VARIATIONS', locale));
+}
+
+export function getCountdownMessageText(domain: string, locale?: Locale) {
+  return getVariation(domain, localize(COUNTDOWN_MESSAGE_VARIATIONS, 'COUNTDOWN_MESSAGE_VARIATIONS', locale));
+}
+
+export function getCheckEligibilityCTAText(domain: string, locale?: Locale) {
+  return getVariation(domain, localize(CHECK_ELIGIBILITY_CTA_VARIATIONS, 'CHECK_ELIGIBILITY_CTA_VARIATIONS', locale));
 }
 
-export function getCountdownMessageText(domain: string) {
-  return getVariation(domain, COUNTDOWN_MESSAGE_VARIATIONS);
+export function getCheckEligibilityButtonText(domain: string, locale?: Locale) {
+  return getVariation(domain, localize(CHECK_ELIGIBILITY_BUTTON_VARIATIONS, 'CHECK_ELIGIBILITY_BUTTON_VARIATIONS', locale));
 }
 
-export function getCheckEligibilityCTAText(domain: string) {
-  return getVariation(domain, CHECK_ELIGIBILITY_CTA_VARIATIONS);
+export function getSearchPlaceholderText(domain: string, locale?: Locale) {
+  return getVariation(domain, localize(SEARCH_PLACEHOLDER_VARIATIONS, 'SEARCH_PLACEHOLDER_VARIATIONS', locale));
 }
 
-export function getCheckEligibilityButtonText(domain: string) {
-  return getVariation(domain, CHECK_ELIGIBILITY_BUTTON_VARIATIONS);
+export function getZipLookupLabelText(domain: string, locale?: Locale) {
+  return getVariation(domain, localize(ZIP_LOOKUP_LABEL_VARIATIONS, 'ZIP_LOOKUP_LABEL_VARIATIONS', locale));
 }
 
-export function getSearchPlaceholderText(domain: string) {
-  return getVariation(domain, SEARCH_PLACEHOLDER_VARIATIONS);
+export function getZipLookupButtonText(domain: string, locale?: Locale) {
+  return getVariation(domain, localize(ZIP_LOOKUP_BUTTON_VARIATIONS, 'ZIP_LOOKUP_BUTTON_VARIATIONS', locale));
 }
 
 /**
  * Get all microcopy for a domain (convenience function)
  */
-export function getMicrocopy(domain: string) {
+export function getMicrocopy(domain: string, locale?: Locale) {
   return {
-    urgencyBadge: getUrgencyBadge(domain),
-    secondaryHeadline: getSecondaryHeadline(domain),
-    learnMore: getLearnMoreText(domain),
-    viewPrograms: getViewProgramsText(domain),
-    eligibilityNav: getEligibilityNavText(domain),
-    getStartedCTA: getGetStartedCTAText(domain),
-    lifelineProgram: getLifelineProgramText(domain),
-    acpProgram: getACPProgramText(domain),
-    tribalPrograms: getTribalProgramsText(domain),
-    statePrograms: getStateProgramsText(domain),
-    contactUs: getContactUsText(domain),
-    allStates: getAllStatesText(domain),
-    similarCitiesTitle: getSimilarCitiesTitle(domain),
-    relatedContentTitle: getRelatedContentTitle(domain),
-    relatedContentSubtitle: getRelatedContentSubtitle(domain),
-    stateSelectorSearch: getStateSelectorSearchText(domain),
-    popularStates: getPopularStatesText(domain),
-    showAllStates: getShowAllStatesText(domain),
-    browseCities: getBrowseCitiesText(domain),
-    exploreAllStates: getExploreAllStatesText(domain),
-    mostPopularCities: getMostPopularCitiesText(domain),
-    loadingStates: getLoadingStatesText(domain),
-    limitedTimeSticky: getLimitedTimeStickyText(domain),
-    countdownLabel: getCountdownLabelText(domain),
-    countdownMessage: getCountdownMessageText(domain),
-    checkEligibilityCTA: getCheckEligibilityCTAText(domain),
-    checkEligibilityButton: getCheckEligibilityButtonText(domain),
-    searchPlaceholder: getSearchPlaceholderText(domain),
+    urgencyBadge: getUrgencyBadge(domain, locale),
+    secondaryHeadline: getSecondaryHeadline(domain, locale),
+    learnMore: getLearnMoreText(domain, locale),
+    viewPrograms: getViewProgramsText(domain, locale),
+    eligibilityNav: getEligibilityNavText(domain, locale),
+    getStartedCTA: getGetStartedCTAText(domain, locale),
+    lifelineProgram: getLifelineProgramText(domain, locale),
+    acpProgram: getACPProgramText(domain, locale),
+    tribalPrograms: getTribalProgramsText(domain, locale),
+    statePrograms: getStateProgramsText(domain, locale),
+    contactUs: getContactUsText(domain, locale),
+    allStates: getAllStatesText(domain, locale),
+    similarCitiesTitle: getSimilarCitiesTitle(domain, locale),
+    relatedContentTitle: getRelatedContentTitle(domain, locale),
+    relatedContentSubtitle: getRelatedContentSubtitle(domain, locale),
+    stateSelectorSearch: getStateSelectorSearchText(domain, locale),
+    popularStates: getPopularStatesText(domain, locale),
+    showAllStates: getShowAllStatesText(domain, locale),
+    browseCities: getBrowseCitiesText(domain, locale),
+    exploreAllStates: getExploreAllStatesText(domain, locale),
+    mostPopularCities: getMostPopularCitiesText(domain, locale),
+    loadingStates: getLoadingStatesText(domain, locale),
+    limitedTimeSticky: getLimitedTimeStickyText(domain, locale),
+    countdownLabel: getCountdownLabelText(domain, locale),
+    countdownMessage: getCountdownMessageText(domain, locale),
+    checkEligibilityCTA: getCheckEligibilityCTAText(domain, locale),
+    checkEligibilityButton: getCheckEligibilityButtonText(domain, locale),
+    searchPlaceholder: getSearchPlaceholderText(domain, locale),
+    zipLookupLabel: getZipLookupLabelText(domain, locale),
+    zipLookupButton: getZipLookupButtonText(domain, locale),
   };
 }
 
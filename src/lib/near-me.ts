@@ -0,0 +1,55 @@
+/**
+ * Near Me
+ * Nearest city pages to a point, for browser geolocation or an IP-derived location
+ */
+
+import { findCitiesNearPoint } from './nearby-cities'
+import { createCitySlug } from './slug-utils.js'
+import { getCityURL } from './zip-lookup'
+
+export interface NearbyCityResult {
+  id: number
+  name: string
+  state: string            // uppercase state abbreviation
+  stateName: string
+  population: number | null
+  distance: number         // miles, one decimal
+  url: string
+}
+
+// Search radii in miles, widened until enough cities are found
+const SEARCH_RADII = [25, 50, 100, 250]
+
+/**
+ * True when lat/lon are finite and within range
+ */
+export function isValidCoordinate(lat: number, lon: number): boolean {
+  return Number.isFinite(lat) && Number.isFinite(lon) &&
+    Math.abs(lat) <= 90 && Math.abs(lon) <= 180
+}
+
+/**
+ * Nearest city pages to a point, closest first
+ * The search widens through SEARCH_RADII until `limit` cities are found
+ */
+export async function findNearestCityPages(lat: number, lon: number, limit = 6): Promise<NearbyCityResult[]> {
+  if (!isValidCoordinate(lat, lon)) return []
+
+  let cities = await findCitiesNearPoint({ latitude: lat, longitude: lon }, { radius: SEARCH_RADII[0], limit })
+  for (const radius of SEARCH_RADII.slice(1)) {
+    if (cities.length >= limit) break
+    cities = await findCitiesNearPoint({ latitude: lat, longitude: lon }, { radius, limit })
+  }
+
+  return cities
+    .filter(city => city.state_abbreviation)
+    .map(city => ({
+      id: city.id,
+      name: city.name,
+      state: city.state_abbreviation,
+      stateName: city.state_name || city.state_abbreviation,
+      population: city.population ?? null,
+      distance: city.distance,
+      url: getCityURL(createCitySlug(city.name), city.state_abbreviation),
+    }))
+}
@@ -0,0 +1,180 @@
+/**
+ * Nearby Cities
+ * Radius search around a point: a latitude/longitude bounding box narrows the query,
+ * then Haversine distance decides what is actually inside the radius. Crosses state lines.
+ */
+
+import { getDataSource } from './data-source'
+import { cache, cacheKeys, SSRCache } from './cache'
+
+export interface NearbyCity {
+  id: number
+  name: string
+  state_id: number
+  state_abbreviation: string
+  state_name: string
+  population?: number
+  latitude: number
+  longitude: number
+  distance: number          // miles, one decimal
+}
+
+export interface NearbyCitiesOptions {
+  radius?: number           // miles
+  limit?: number
+  excludeCityId?: number
+  excludeStateId?: number   // e.g. only cities across the state line
+  minPopulation?: number
+  maxPopulation?: number
+}
+
+export interface GeoPoint {
+  latitude: number | null | undefined
+  longitude: number | null | undefined
+}
+
+export interface BoundingBox {
+  minLat: number
+  maxLat: number
+  minLon: number
+  maxLon: number
+}
+
+export const NEARBY_DEFAULTS = {
+  radius: 50,
+  limit: 6,
+}
+
+// Searches used by the city page sections - tune radius and count here
+export const NEARBY_PRESETS = {
+  // "Other Cities Near X" - closest cities in any state
+  related: { radius: 50, limit: 9 },
+  // "Similar cities" - similar-sized cities across the state line, so a wider net
+  similar: { radius: 300, limit: 12 },
+}
+
+const EARTH_RADIUS_MILES = 3959
+const MILES_PER_DEGREE_LAT = 69
+// Upper bound on rows pulled from the bounding box before distance filtering
+const MAX_CANDIDATES = 500
+
+function isCoordinate(value: number | null | undefined): value is number {
+  return typeof value === 'number' && Number.isFinite(value)
+}
+
+/**
+ * Distance in miles between two points (Haversine), or null when a coordinate is missing
+ */
+export function calculateDistance(
+  lat1: number | null | undefined,
+  lon1: number | null | undefined,
+  lat2: number | null | undefined,
+  lon2: number | null | undefined
+): number | null {
+  if (!isCoordinate(lat1) || !isCoordinate(lon1) || !isCoordinate(lat2) || !isCoordinate(lon2)) return null
+
+  const dLat = (lat2 - lat1) * Math.PI / 180
+  const dLon = (lon2 - lon1) * Math.PI / 180
+  const a =
+    Math.sin(dLat / 2) * Math.sin(dLat / 2) +
+    Math.cos(lat1 * Math.PI / 180) * Math.cos(lat2 * Math.PI / 180) *
+    Math.sin(dLon / 2) * Math.sin(dLon / 2)
+  const c = 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a))
+  return EARTH_RADIUS_MILES * c
+}
+
+/**
+ * Smallest latitude/longitude box containing every point within radius miles
+ * Longitude degrees shrink toward the poles, so the box widens with latitude
+ */
+export function boundingBox(lat: number, lon: number, radius: number): BoundingBox {
+  const latDelta = radius / MILES_PER_DEGREE_LAT
+  const lonDelta = radius / (MILES_PER_DEGREE_LAT * Math.max(Math.cos(lat * Math.PI / 180), 0.01))
+  return {
+    minLat: lat - latDelta,
+    maxLat: lat + latDelta,
+    minLon: lon - lonDelta,
+    maxLon: lon + lonDelta,
+  }
+}
+
+/**
+ * Cities within `radius` miles of a point, closest first
+ * Returns [] when the point has no coordinates - callers decide on a fallback
+ */
+export async function findCitiesNearPoint(
+  point: GeoPoint,
+  options: NearbyCitiesOptions = {}
+): Promise<NearbyCity[]> {
+  const { latitude: lat, longitude: lon } = point
+  if (!isCoordinate(lat) || !isCoordinate(lon)) return []
+
+  const source = getDataSource()
+  if (!source) {
+    console.warn('[Nearby] No data source available, returning no nearby cities')
+    return []
+  }
+
+  const radius = options.radius ?? NEARBY_DEFAULTS.radius
+  const limit = options.limit ?? NEARBY_DEFAULTS.limit
+  const box = boundingBox(lat, lon, radius)
+
+  try {
+    const data = await source.listCities({
+      box,
+      excludeCityId: options.excludeCityId || undefined,
+      excludeStateId: options.excludeStateId || undefined,
+      minPopulation: options.minPopulation || undefined,
+      maxPopulation: options.maxPopulation || undefined,
+    }, { orderBy: 'population', limit: MAX_CANDIDATES })
+
+    const cities: NearbyCity[] = []
+    for (const city of data) {
+      if (!city.states) continue
+      const distance = calculateDistance(lat, lon, city.latitude, city.longitude)
+      if (distance === null || distance > radius) continue
+
+      cities.push({
+        id: city.id,
+        name: city.name,
+        state_id: city.state_id,
+        state_abbreviation: city.states.abbreviation.toUpperCase(),
+        state_name: city.states.name,
+        population: city.population ?? undefined,
+        latitude: city.latitude!,
+        longitude: city.longitude!,
+        distance: Math.round(distance * 10) / 10,
+      })
+    }
+
+    return cities
+      .sort((a, b) => a.distance - b.distance)
+      .slice(0, limit)
+  } catch (err) {
+    console.error('[Nearby] Error fetching nearby cities:', err)
+    return []
+  }
+}
+
+/**
+ * Cities near a city page, closest first, cached per city and options
+ */
+export async function findNearbyCities(
+  city: GeoPoint & { id: number },
+  options: NearbyCitiesOptions = {}
+): Promise<NearbyCity[]> {
+  const resolved = { excludeCityId: city.id, ...options }
+  const optionsKey = [
+    resolved.radius ?? NEARBY_DEFAULTS.radius,
+    resolved.limit ?? NEARBY_DEFAULTS.limit,
+    resolved.excludeStateId ?? '',
+    resolved.minPopulation ?? '',
+    resolved.maxPopulation ?? '',
+  ].join(':')
+
+  return cache.getOrFetch(
+    cacheKeys.nearby(city.id, optionsKey),
+    () => findCitiesNearPoint(city, resolved),
+    SSRCache.TTL.CITY_PAGE
+  )
+}
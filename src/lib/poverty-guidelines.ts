@@ -0,0 +1,141 @@
+/**
+ * Federal Poverty Guidelines
+ * Yearly HHS poverty guidelines for the 48 contiguous states (plus DC), Alaska and Hawaii.
+ * Every income figure on the site is computed from this table - publishing a new year's
+ * guidelines means adding one entry to POVERTY_GUIDELINES, nothing else.
+ */
+
+export type GuidelineRegion = 'contiguous' | 'alaska' | 'hawaii'
+
+export interface GuidelineTable {
+  base: number        // annual guideline for a household of 1
+  perPerson: number   // added for each additional person
+}
+
+export interface PovertyGuidelineYear {
+  year: number
+  effectiveDate: string    // ISO date HHS published the figures
+  tables: Record<GuidelineRegion, GuidelineTable>
+}
+
+export interface IncomeLimitRow {
+  householdSize: number
+  guideline: number                  // 100% FPG
+  limits: Record<number, number>     // percent -> annual limit
+}
+
+// Lifeline's income test, and the broader 200% test used by ACP and several state programs
+export const LIFELINE_FPG_PERCENT = 135
+export const EXTENDED_FPG_PERCENT = 200
+
+export const POVERTY_GUIDELINES: Record<number, PovertyGuidelineYear> = {
+  2024: {
+    year: 2024,
+    effectiveDate: '2024-01-17',
+    tables: {
+      contiguous: { base: 15060, perPerson: 5380 },
+      alaska: { base: 18810, perPerson: 6730 },
+      hawaii: { base: 17310, perPerson: 6190 },
+    },
+  },
+  2025: {
+    year: 2025,
+    effectiveDate: '2025-01-15',
+    tables: {
+      contiguous: { base: 15650, perPerson: 5500 },
+      alaska: { base: 19550, perPerson: 6880 },
+      hawaii: { base: 17990, perPerson: 6330 },
+    },
+  },
+}
+
+/**
+ * Latest guideline year in effect on a date - falls back to the oldest year on record
+ */
+export function getGuidelineYear(now: Date = new Date()): PovertyGuidelineYear {
+  const years = Object.values(POVERTY_GUIDELINES).sort((a, b) => a.year - b.year)
+  let current = years[0]
+  for (const entry of years) {
+    if (new Date(`${entry.effectiveDate}T00:00:00Z`).getTime() <= now.getTime()) current = entry
+  }
+  return current
+}
+
+function resolveYear(year?: number): PovertyGuidelineYear {
+  return (year !== undefined && POVERTY_GUIDELINES[year]) || getGuidelineYear()
+}
+
+/**
+ * Get the guideline table that applies to a state
+ */
+export function getGuidelineRegion(stateAbbr: string): GuidelineRegion {
+  const abbr = stateAbbr.toUpperCase()
+  if (abbr === 'AK') return 'alaska'
+  if (abbr === 'HI') return 'hawaii'
+  return 'contiguous'
+}
+
+/**
+ * Annual poverty guideline (100% FPG) for a household in a state
+ */
+export function getPovertyGuideline(householdSize: number, stateAbbr: string, year?: number): number {
+  const table = resolveYear(year).tables[getGuidelineRegion(stateAbbr)]
+  const size = Math.max(1, Math.floor(householdSize))
+  return table.base + table.perPerson * (size - 1)
+}
+
+/**
+ * Annual income limit at a percent of FPG, rounded to the nearest dollar
+ */
+export function getIncomeLimit(householdSize: number, stateAbbr: string, percent: number, year?: number): number {
+  return Math.round(getPovertyGuideline(householdSize, stateAbbr, year) * percent / 100)
+}
+
+/**
+ * Lifeline annual income limit (135% FPG)
+ */
+export function getLifelineIncomeLimit(householdSize: number, stateAbbr: string, year?: number): number {
+  return getIncomeLimit(householdSize, stateAbbr, LIFELINE_FPG_PERCENT, year)
+}
+
+/**
+ * Annual income limit at 200% FPG
+ */
+export function getExtendedIncomeLimit(householdSize: number, stateAbbr: string, year?: number): number {
+  return getIncomeLimit(householdSize, stateAbbr, EXTENDED_FPG_PERCENT, year)
+}
+
+/**
+ * Amount each additional household member adds to the limit at a percent of FPG
+ */
+export function getPerPersonIncrement(stateAbbr: string, percent: number, year?: number): number {
+  return Math.round(resolveYear(year).tables[getGuidelineRegion(stateAbbr)].perPerson * percent / 100)
+}
+
+/**
+ * Income limit rows for household sizes 1..maxHouseholdSize
+ */
+export function getIncomeLimitTable(
+  stateAbbr: string,
+  options: { percents?: number[]; maxHouseholdSize?: number; year?: number } = {}
+): IncomeLimitRow[] {
+  const percents = options.percents ?? [LIFELINE_FPG_PERCENT, EXTENDED_FPG_PERCENT]
+  const maxHouseholdSize = options.maxHouseholdSize ?? 8
+  const rows: IncomeLimitRow[] = []
+
+  for (let size = 1; size <= maxHouseholdSize; size++) {
+    const limits: Record<number, number> = {}
+    for (const percent of percents) {
+      limits[percent] = getIncomeLimit(size, stateAbbr, percent, options.year)
+    }
+    rows.push({ householdSize: size, guideline: getPovertyGuideline(size, stateAbbr, options.year), limits })
+  }
+  return rows
+}
+
+/**
+ * "$21,128"
+ */
+export function formatIncome(amount: number): string {
+  return `$${Math.round(amount).toLocaleString('en-US')}`
+}
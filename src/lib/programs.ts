@@ -0,0 +1,237 @@
+/**
+ * Program Registry
+ * Single source of truth for federal connectivity programs - status, dates, benefit amounts
+ * and successors. Copy, CTAs and JSON-LD read from here, so changing a program's status
+ * (or reaching its end date) updates every page that mentions it.
+ */
+
+export type ProgramStatus = 'active' | 'paused' | 'ended'
+
+export type ProgramId = 'lifeline' | 'acp' | 'ebb'
+
+export interface ProgramBenefits {
+  monthly: number           // standard monthly discount, USD
+  tribalMonthly?: number    // enhanced monthly discount on tribal lands
+  device?: number           // one-time device discount
+  linkUp?: number           // one-time connection assistance on tribal lands
+}
+
+export interface Program {
+  id: ProgramId
+  name: string
+  shortName: string
+  status: ProgramStatus
+  startDate: string                  // ISO dates
+  enrollmentEndDate: string | null   // last day new households could enroll
+  endDate: string | null             // last day benefits were paid
+  benefits: ProgramBenefits
+  successor: ProgramId | null
+  administrator: string
+  officialUrl: string
+  pagePath: string | null            // this site's page about the program
+}
+
+export interface ProgramCTA {
+  href: string
+  label: string
+}
+
+export const PROGRAMS: Record<ProgramId, Program> = {
+  lifeline: {
+    id: 'lifeline',
+    name: 'Lifeline',
+    shortName: 'Lifeline',
+    status: 'active',
+    startDate: '1985-01-01',
+    enrollmentEndDate: null,
+    endDate: null,
+    benefits: { monthly: 9.25, tribalMonthly: 34.25, linkUp: 100 },
+    successor: null,
+    administrator: 'Universal Service Administrative Company (USAC)',
+    officialUrl: 'https://www.lifelinesupport.org/',
+    pagePath: '/lifeline-program',
+  },
+  acp: {
+    id: 'acp',
+    name: 'Affordable Connectivity Program',
+    shortName: 'ACP',
+    status: 'ended',
+    startDate: '2021-12-31',
+    enrollmentEndDate: '2024-02-07',
+    endDate: '2024-06-01',
+    benefits: { monthly: 30, tribalMonthly: 75, device: 100 },
+    successor: 'lifeline',
+    administrator: 'Universal Service Administrative Company (USAC)',
+    officialUrl: 'https://www.fcc.gov/acp',
+    pagePath: '/acp-program',
+  },
+  ebb: {
+    id: 'ebb',
+    name: 'Emergency Broadband Benefit',
+    shortName: 'EBB',
+    status: 'ended',
+    startDate: '2021-05-12',
+    enrollmentEndDate: '2021-12-30',
+    endDate: '2022-03-01',
+    benefits: { monthly: 50, tribalMonthly: 75, device: 100 },
+    successor: 'acp',
+    administrator: 'Universal Service Administrative Company (USAC)',
+    officialUrl: 'https://www.fcc.gov/broadbandbenefit',
+    pagePath: '/emergency-broadband',
+  },
+}
+
+function isPast(date: string | null, now: Date): boolean {
+  return !!date && new Date(`${date}T00:00:00Z`).getTime() <= now.getTime()
+}
+
+export function getProgram(id: ProgramId): Program {
+  return PROGRAMS[id]
+}
+
+/**
+ * Current status - the declared status, overridden once the enrollment or end date has passed
+ */
+export function getProgramStatus(id: ProgramId, now: Date = new Date()): ProgramStatus {
+  const program = PROGRAMS[id]
+  if (program.status === 'ended' || isPast(program.endDate, now)) return 'ended'
+  if (program.status === 'paused' || isPast(program.enrollmentEndDate, now)) return 'paused'
+  return 'active'
+}
+
+export function isProgramActive(id: ProgramId, now: Date = new Date()): boolean {
+  return getProgramStatus(id, now) === 'active'
+}
+
+export function getActivePrograms(now: Date = new Date()): Program[] {
+  return Object.values(PROGRAMS).filter(program => isProgramActive(program.id, now))
+}
+
+/**
+ * First active program down the successor chain (EBB -> ACP -> Lifeline)
+ */
+export function getActiveSuccessor(id: ProgramId, now: Date = new Date()): Program | null {
+  const seen = new Set<ProgramId>([id])
+  let next = PROGRAMS[id].successor
+
+  while (next && !seen.has(next)) {
+    if (isProgramActive(next, now)) return PROGRAMS[next]
+    seen.add(next)
+    next = PROGRAMS[next].successor
+  }
+  return null
+}
+
+/**
+ * "June 1, 2024" from an ISO date
+ */
+export function formatProgramDate(date: string): string {
+  return new Date(`${date}T00:00:00Z`).toLocaleDateString('en-US', {
+    year: 'numeric',
+    month: 'long',
+    day: 'numeric',
+    timeZone: 'UTC',
+  })
+}
+
+/**
+ * "$9.25" or "$30" - cents only when there are any
+ */
+export function formatBenefitAmount(amount: number): string {
+  return Number.isInteger(amount) ? `$${amount}` : `$${amount.toFixed(2)}`
+}
+
+/**
+ * "up to $9.25/month ($34.25/month on tribal lands)"
+ */
+export function describeMonthlyBenefit(id: ProgramId): string {
+  const { monthly, tribalMonthly } = PROGRAMS[id].benefits
+  const tribal = tribalMonthly ? ` (${formatBenefitAmount(tribalMonthly)}/month on tribal lands)` : ''
+  return `up to ${formatBenefitAmount(monthly)}/month${tribal}`
+}
+
+/**
+ * Plain-language status line for programs that are not enrolling, null for active ones
+ */
+export function getProgramStatusNotice(id: ProgramId, now: Date = new Date()): string | null {
+  const program = PROGRAMS[id]
+  const status = getProgramStatus(id, now)
+  if (status === 'active') return null
+
+  const label = `The ${program.name} (${program.shortName})`
+  const successor = getActiveSuccessor(id, now)
+  const successorLine = successor
+    ? ` ${successor.name} is still available and provides ${describeMonthlyBenefit(successor.id)}.`
+    : ''
+
+  if (status === 'paused') {
+    return `${label} is not accepting new enrollments right now.${successorLine}`
+  }
+
+  const stopped = program.enrollmentEndDate
+    ? ` stopped accepting new enrollments on ${formatProgramDate(program.enrollmentEndDate)} and`
+    : ''
+  const ended = program.endDate ? ` ended on ${formatProgramDate(program.endDate)}` : ' has ended'
+  return `${label}${stopped}${ended}.${successorLine}`
+}
+
+/**
+ * Where a program's call to action should send visitors - the application for active programs,
+ * otherwise the nearest active successor
+ */
+export function getProgramCTA(id: ProgramId, now: Date = new Date()): ProgramCTA {
+  const program = PROGRAMS[id]
+  if (isProgramActive(id, now)) {
+    return { href: '/apply', label: `Apply for ${program.shortName}` }
+  }
+
+  const successor = getActiveSuccessor(id, now)
+  if (successor) {
+    return { href: '/eligibility', label: `Check ${successor.shortName} Eligibility` }
+  }
+  return { href: '/programs', label: 'See Available Programs' }
+}
+
+/**
+ * GovernmentService JSON-LD for a program; ended programs drop the application channel
+ * and point to their successor instead
+ */
+export function getProgramSchema(id: ProgramId, siteURL: string, now: Date = new Date()): Record<string, unknown> {
+  const program = PROGRAMS[id]
+  const status = getProgramStatus(id, now)
+  const successor = status === 'active' ? null : getActiveSuccessor(id, now)
+
+  const schema: Record<string, unknown> = {
+    '@type': 'GovernmentService',
+    name: program.name,
+    alternateName: program.shortName,
+    description: getProgramStatusNotice(id, now) ||
+      `Federal program providing ${describeMonthlyBenefit(id)} toward phone or internet service for eligible low-income households.`,
+    serviceType: 'Telecommunications Assistance',
+    areaServed: { '@type': 'Country', name: 'United States' },
+    provider: {
+      '@type': 'GovernmentOrganization',
+      name: 'Federal Communications Commission',
+      url: 'https://www.fcc.gov/',
+    },
+    url: program.officialUrl,
+    audience: { '@type': 'Audience', audienceType: 'Low-income households' },
+  }
+
+  if (status === 'active') {
+    schema.availableChannel = {
+      '@type': 'ServiceChannel',
+      serviceUrl: `${siteURL}/apply`,
+    }
+  }
+
+  if (successor) {
+    schema.isRelatedTo = {
+      '@type': 'GovernmentService',
+      name: successor.name,
+      url: successor.pagePath ? `${siteURL}${successor.pagePath}` : successor.officialUrl,
+    }
+  }
+
+  return schema
+}
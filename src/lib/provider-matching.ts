@@ -0,0 +1,121 @@
+/**
+ * Provider Matching
+ * Filters providers by coverage for a location and ranks them by plan value
+ */
+
+import { getProviders, type Provider } from './db'
+import { countyKey, type ProviderPlan } from './providers'
+
+export type CoverageMatch = 'zip' | 'county' | 'state' | 'nationwide'
+
+export interface ProviderLocation {
+  state: string            // state abbreviation
+  county?: string | null
+  zip?: string | null
+}
+
+export interface MatchedProvider {
+  provider: Provider
+  matchedBy: CoverageMatch
+  bestPlan: ProviderPlan | null
+  score: number
+}
+
+export interface ProviderMatchResult {
+  providers: MatchedProvider[]
+  // False when no provider has any coverage data - the page should show the fallback message
+  hasCoverageData: boolean
+}
+
+// Stand-in amounts for "Unlimited" when scoring plans
+const UNLIMITED_DATA_GB = 50
+const UNLIMITED_MINUTES = 3000
+const UNLIMITED_TEXTS = 3000
+
+// More specific coverage ranks ahead when plan value ties
+const MATCH_PRIORITY: Record<CoverageMatch, number> = {
+  zip: 3,
+  county: 2,
+  state: 1,
+  nationwide: 0,
+}
+
+function parseAllowance(value: string, unlimited: number): number {
+  if (/^unlimited$/i.test(value)) return unlimited
+  const amount = parseFloat(value)
+  if (!Number.isFinite(amount)) return 0
+  return /mb$/i.test(value.trim()) ? amount / 1024 : amount
+}
+
+/**
+ * Value score for a plan - data weighs most, then talk and text, minus monthly price
+ * A smartphone adds a fixed bonus
+ */
+export function scorePlan(plan: ProviderPlan): number {
+  const dataGB = parseAllowance(plan.data, UNLIMITED_DATA_GB)
+  const minutes = parseAllowance(plan.minutes, UNLIMITED_MINUTES)
+  const texts = parseAllowance(plan.texts, UNLIMITED_TEXTS)
+  const smartphone = /smart ?phone|android|iphone/i.test(plan.device) ? 5 : 0
+
+  return dataGB * 2 + minutes / 100 + texts / 200 + smartphone - plan.price * 3
+}
+
+/**
+ * How a provider's coverage reaches a location, or null if it does not
+ */
+export function matchCoverage(provider: Provider, location: ProviderLocation): CoverageMatch | null {
+  const { coverage } = provider
+  const state = location.state.toUpperCase()
+
+  if (location.zip && coverage.zips.includes(location.zip)) return 'zip'
+  if (location.county && coverage.counties.includes(countyKey(location.county, state))) return 'county'
+  if (coverage.states.includes(state)) return 'state'
+  if (coverage.nationwide) return 'nationwide'
+  return null
+}
+
+function hasCoverage(provider: Provider): boolean {
+  const { nationwide, states, counties, zips } = provider.coverage
+  return nationwide || states.length > 0 || counties.length > 0 || zips.length > 0
+}
+
+/**
+ * Rank a set of providers for a location
+ */
+export function rankProviders(providers: Provider[], location: ProviderLocation): ProviderMatchResult {
+  const matched: MatchedProvider[] = []
+
+  for (const provider of providers) {
+    const matchedBy = matchCoverage(provider, location)
+    if (!matchedBy) continue
+
+    const ranked = provider.plans
+      .map(plan => ({ plan, score: scorePlan(plan) }))
+      .sort((a, b) => b.score - a.score)
+
+    matched.push({
+      provider,
+      matchedBy,
+      bestPlan: ranked[0]?.plan || null,
+      score: ranked[0]?.score ?? 0,
+    })
+  }
+
+  matched.sort((a, b) =>
+    b.score - a.score ||
+    MATCH_PRIORITY[b.matchedBy] - MATCH_PRIORITY[a.matchedBy] ||
+    a.provider.name.localeCompare(b.provider.name)
+  )
+
+  return {
+    providers: matched,
+    hasCoverageData: providers.some(hasCoverage),
+  }
+}
+
+/**
+ * Providers serving a location, best plan value first
+ */
+export async function getProvidersForLocation(location: ProviderLocation): Promise<ProviderMatchResult> {
+  return rankProviders(await getProviders(), location)
+}
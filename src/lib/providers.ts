@@ -0,0 +1,316 @@
+/**
+ * Provider Management
+ * Typed plan, coverage and contact schemas plus validated create/update/delete for the providers table
+ */
+
+import { supabaseAdmin } from './supabase'
+import { cache, cacheKeys } from './cache'
+import { STATE_ABBR_TO_NAME } from './site-config'
+
+export interface ProviderPlan {
+  name: string
+  data: string      // e.g. "4.5GB", "Unlimited"
+  minutes: string   // number or "Unlimited"
+  texts: string     // number or "Unlimited"
+  device: string    // e.g. "Free Android smartphone"
+  price: number     // monthly cost after benefit, 0 = free
+}
+
+export interface ProviderCoverage {
+  nationwide: boolean
+  states: string[]    // uppercase state abbreviations
+  counties: string[]  // "TX:harris" - state abbreviation and lowercase county name
+  zips: string[]      // 5-digit ZIP codes
+}
+
+export interface ProviderContact {
+  phone?: string
+  url?: string
+  enrollmentUrl?: string
+}
+
+export interface ProviderInput {
+  name: string
+  plans: ProviderPlan[]
+  coverage: ProviderCoverage
+  contact_info: ProviderContact
+}
+
+export interface ProviderSaveResult {
+  ok: boolean
+  id?: number
+  errors?: string[]
+}
+
+const UNLIMITED = /^unlimited$/i
+const DATA_AMOUNT = /^\d+(\.\d+)?\s?(MB|GB)$/i
+const WHOLE_NUMBER = /^\d+$/
+const ZIP = /^\d{5}$/
+
+const EMPTY_COVERAGE: ProviderCoverage = { nationwide: false, states: [], counties: [], zips: [] }
+
+function asString(value: unknown): string {
+  return typeof value === 'string' ? value.trim() : typeof value === 'number' ? String(value) : ''
+}
+
+function asList(value: unknown): string[] {
+  if (Array.isArray(value)) return value.map(asString).filter(Boolean)
+  if (typeof value === 'string') return value.split(/[\s,]+/).map(v => v.trim()).filter(Boolean)
+  return []
+}
+
+/**
+ * Coerce a stored plans blob into typed plans, dropping entries without a name
+ */
+export function normalizePlans(raw: unknown): ProviderPlan[] {
+  if (!Array.isArray(raw)) return []
+  return raw
+    .filter((plan): plan is Record<string, unknown> => !!plan && typeof plan === 'object')
+    .map(plan => ({
+      name: asString(plan.name),
+      data: asString(plan.data),
+      minutes: asString(plan.minutes),
+      texts: asString(plan.texts),
+      device: asString(plan.device),
+      price: Number(plan.price) || 0,
+    }))
+    .filter(plan => plan.name)
+}
+
+/**
+ * Coerce a stored coverage blob into typed coverage
+ */
+export function normalizeCoverage(raw: unknown): ProviderCoverage {
+  if (!raw || typeof raw !== 'object') return { ...EMPTY_COVERAGE }
+  const coverage = raw as Record<string, unknown>
+  return {
+    nationwide: coverage.nationwide === true,
+    states: asList(coverage.states).map(s => s.toUpperCase()),
+    counties: Array.isArray(coverage.counties) ? coverage.counties.map(asString).filter(Boolean) : [],
+    zips: asList(coverage.zips),
+  }
+}
+
+/**
+ * Coerce a stored contact blob into typed contact details
+ */
+export function normalizeContact(raw: unknown): ProviderContact {
+  if (!raw || typeof raw !== 'object') return {}
+  const contact = raw as Record<string, unknown>
+  return {
+    phone: asString(contact.phone) || undefined,
+    url: asString(contact.url) || undefined,
+    enrollmentUrl: asString(contact.enrollmentUrl) || undefined,
+  }
+}
+
+/**
+ * Coverage key for a county: "TX:harris" from ("Harris County", "tx")
+ */
+export function countyKey(county: string, stateAbbr: string): string {
+  const name = county.trim().toLowerCase().replace(/\s+(county|parish|borough)$/, '')
+  return `${stateAbbr.trim().toUpperCase()}:${name}`
+}
+
+/**
+ * Parse admin county input ("Harris, TX" or "Harris County, TX") into a coverage key
+ */
+function parseCountyEntry(entry: string): string {
+  const match = entry.match(/^(.+?),\s*([A-Za-z]{2})$/)
+  return match ? countyKey(match[1], match[2]) : entry.trim()
+}
+
+/**
+ * Display a county coverage key as "Harris, TX"
+ */
+export function formatCountyKey(key: string): string {
+  const [state, name] = key.split(':')
+  if (!name) return key
+  return `${name.replace(/\b\w/g, c => c.toUpperCase())}, ${state}`
+}
+
+function isHttpURL(value: string): boolean {
+  try {
+    const url = new URL(value)
+    return url.protocol === 'https:' || url.protocol === 'http:'
+  } catch {
+    return false
+  }
+}
+
+/**
+ * Validate a provider before saving
+ * Returns a list of problems (empty when the provider can be stored)
+ */
+export function validateProviderInput(input: ProviderInput): string[] {
+  const problems: string[] = []
+
+  if (!input.name || input.name.length < 2 || input.name.length > 100) {
+    problems.push('Provider name must be between 2 and 100 characters.')
+  }
+
+  input.plans.forEach((plan, i) => {
+    const label = plan.name || `Plan ${i + 1}`
+    if (!plan.name) problems.push(`Plan ${i + 1} needs a name.`)
+    if (!UNLIMITED.test(plan.data) && !DATA_AMOUNT.test(plan.data)) {
+      problems.push(`${label}: data must be an amount like "4.5GB" or "Unlimited".`)
+    }
+    if (!UNLIMITED.test(plan.minutes) && !WHOLE_NUMBER.test(plan.minutes)) {
+      problems.push(`${label}: minutes must be a whole number or "Unlimited".`)
+    }
+    if (!UNLIMITED.test(plan.texts) && !WHOLE_NUMBER.test(plan.texts)) {
+      problems.push(`${label}: texts must be a whole number or "Unlimited".`)
+    }
+    if (!plan.device) problems.push(`${label}: device is required.`)
+    if (!Number.isFinite(plan.price) || plan.price < 0) {
+      problems.push(`${label}: price must be zero or more.`)
+    }
+  })
+
+  const unknownStates = input.coverage.states.filter(s => !STATE_ABBR_TO_NAME[s.toLowerCase()])
+  if (unknownStates.length > 0) {
+    problems.push(`Unknown state codes: ${unknownStates.join(', ')}.`)
+  }
+
+  const badCounties = input.coverage.counties.filter(key => {
+    const [state, name] = key.split(':')
+    return !name || !STATE_ABBR_TO_NAME[state.toLowerCase()]
+  })
+  if (badCounties.length > 0) {
+    problems.push(`Counties must be written as "County, ST": ${badCounties.join(', ')}.`)
+  }
+
+  const badZips = input.coverage.zips.filter(z => !ZIP.test(z))
+  if (badZips.length > 0) {
+    problems.push(`ZIP codes must be 5 digits: ${badZips.join(', ')}.`)
+  }
+
+  const { nationwide, states, counties, zips } = input.coverage
+  if (!nationwide && states.length === 0 && counties.length === 0 && zips.length === 0) {
+    problems.push('Coverage needs at least one state, county or ZIP code, or mark the provider as nationwide.')
+  }
+
+  const { phone, url, enrollmentUrl } = input.contact_info
+  if (phone && phone.replace(/\D/g, '').length !== 10) {
+    problems.push('Phone number must have 10 digits.')
+  }
+  if (url && !isHttpURL(url)) problems.push('Website must be a full URL.')
+  if (enrollmentUrl && !isHttpURL(enrollmentUrl)) problems.push('Enrollment link must be a full URL.')
+
+  return problems
+}
+
+/**
+ * Build provider input from the admin form
+ * Plans are submitted as parallel plan-* fields, one entry per table row
+ */
+export function parseProviderForm(form: FormData): ProviderInput {
+  const column = (name: string) => form.getAll(name).map(asString)
+  const names = column('plan-name')
+  const data = column('plan-data')
+  const minutes = column('plan-minutes')
+  const texts = column('plan-texts')
+  const devices = column('plan-device')
+  const prices = column('plan-price')
+
+  const plans: ProviderPlan[] = names
+    .map((name, i) => ({
+      name,
+      data: data[i] || '',
+      minutes: minutes[i] || '',
+      texts: texts[i] || '',
+      device: devices[i] || '',
+      price: prices[i] ? Number(prices[i]) : 0,
+    }))
+    // Blank rows are spare slots in the form, not plans
+    .filter(plan => plan.name || plan.data || plan.minutes || plan.texts || plan.device)
+
+  return {
+    name: asString(form.get('name')),
+    plans,
+    coverage: {
+      nationwide: form.get('nationwide') === 'on',
+      states: Array.from(new Set(asList(form.getAll('states')).map(s => s.toUpperCase()))),
+      counties: Array.from(new Set(
+        asString(form.get('counties')).split(/\n|;/).map(parseCountyEntry).filter(Boolean)
+      )),
+      zips: Array.from(new Set(asList(form.get('zips')))),
+    },
+    contact_info: normalizeContact({
+      phone: form.get('phone'),
+      url: form.get('url'),
+      enrollmentUrl: form.get('enrollmentUrl'),
+    }),
+  }
+}
+
+/**
+ * Insert a new provider or update an existing one, then drop the cached provider list
+ */
+export async function saveProvider(input: ProviderInput, id?: number): Promise<ProviderSaveResult> {
+  const errors = validateProviderInput(input)
+  if (errors.length > 0) return { ok: false, errors }
+
+  if (!supabaseAdmin) {
+    console.error('[Providers] Cannot save provider: service role client not configured')
+    return { ok: false, errors: ['Saving requires SUPABASE_SERVICE_ROLE_KEY to be configured.'] }
+  }
+
+  try {
+    const query = id
+      ? supabaseAdmin.from('providers').update(input).eq('id', id).select('id').single()
+      : supabaseAdmin.from('providers').insert(input).select('id').single()
+
+    const { data, error } = await query
+    if (error) {
+      console.error('[Providers] Error saving provider:', error)
+      return { ok: false, errors: ['Could not save the provider. Please try again.'] }
+    }
+
+    await cache.invalidate(cacheKeys.providers())
+    return { ok: true, id: data.id }
+  } catch (err) {
+    console.error('[Providers] Exception saving provider:', err)
+    return { ok: false, errors: ['Could not save the provider. Please try again.'] }
+  }
+}
+
+/**
+ * Delete a provider and drop the cached provider list
+ */
+export async function deleteProvider(id: number): Promise<boolean> {
+  if (!supabaseAdmin) {
+    console.error('[Providers] Cannot delete provider: service role client not configured')
+    return false
+  }
+
+  try {
+    const { error } = await supabaseAdmin.from('providers').delete().eq('id', id)
+    if (error) {
+      console.error('[Providers] Error deleting provider:', error)
+      return false
+    }
+
+    await cache.invalidate(cacheKeys.providers())
+    return true
+  } catch (err) {
+    console.error('[Providers] Exception deleting provider:', err)
+    return false
+  }
+}
+
+/**
+ * Display label for an amount that may be "Unlimited"
+ */
+export function formatAllowance(value: string, unit: string): string {
+  if (!value) return '-'
+  if (UNLIMITED.test(value)) return 'Unlimited'
+  return WHOLE_NUMBER.test(value) ? `${Number(value).toLocaleString('en-US')} ${unit}` : value
+}
+
+/**
+ * Display label for a monthly plan price
+ */
+export function formatPlanPrice(price: number): string {
+  return price > 0 ? `$${price.toFixed(2)}/mo` : 'Free'
+}
@@ -0,0 +1,126 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { seededRandom, hashString, shuffleWith, createLegacyGenerator, getSeededRandomMode } from './seeded-random';
+import {
+  syntheticDomains,
+  bucketCounts,
+  chiSquare,
+  chiSquareCritical,
+  DISTRIBUTION_POOL_SIZES,
+} from '../test/synthetic-domains';
+
+const DOMAINS = syntheticDomains(10_000);
+const pool = (size: number) => Array.from({ length: size }, (_, i) => i);
+
+// The formulas each module carried before the service existed - compat mode must match them exactly
+const legacy = {
+  variation(domain: string, context: string, salt = '') {
+    const saltHash = salt ? hashString(salt) : 0;
+    return Math.abs(hashString(domain) * 7919 + hashString(context) * 6421 + saltHash * 5381);
+  },
+  city(domain: string, location: string, offset = 0) {
+    const primes = [31, 37, 41, 43, 47, 53, 59, 61, 67, 71, 73, 79, 83, 89, 97];
+    const step1 = (hashString(domain, 'djb2') * primes[offset % primes.length]) >>> 0;
+    const step2 = (hashString(location, 'djb2') * 73) >>> 0;
+    return (step1 ^ step2) >>> 0;
+  },
+  state(domain: string, state: string, offset = 0) {
+    return ((hashString(domain, 'djb2') ^ (hashString(state, 'djb2') * 31)) >>> 0) + offset * 7;
+  },
+};
+
+describe('compat mode', () => {
+  const site = (domain: string) => seededRandom(domain, { mode: 'compat' });
+
+  it('reproduces the keyword variation hashes', () => {
+    for (const domain of DOMAINS.slice(0, 500)) {
+      expect(site(domain).stream('variation', 'h1-home', 'salt').hash()).toBe(legacy.variation(domain, 'h1-home', 'salt'));
+      expect(site(domain).stream('variation', 'meta-faq', domain).hash()).toBe(legacy.variation(domain, 'meta-faq', domain));
+    }
+  });
+
+  it('reproduces the city and state hashes', () => {
+    for (const domain of DOMAINS.slice(0, 500)) {
+      for (const offset of [0, 3, 16]) {
+        expect(site(domain).stream('city', 'Houston', offset).hash()).toBe(legacy.city(domain, 'Houston', offset));
+        expect(site(domain).stream('state', 'Texas', offset).hash()).toBe(legacy.state(domain, 'Texas', offset));
+      }
+    }
+  });
+
+  it('reproduces domain-only picks regardless of owner', () => {
+    const entries = pool(53);
+    for (const domain of DOMAINS.slice(0, 500)) {
+      const expected = entries[(hashString(domain, 'djb2') + 2) % entries.length];
+      expect(site(domain).stream('domain', 'city', 2).pick(entries)).toBe(expected);
+      expect(site(domain).stream('domain', 'microcopy', 2).pick(entries)).toBe(expected);
+    }
+  });
+
+  it('reproduces the sitemap orderings', () => {
+    const entries = pool(30);
+    expect(site('example.com').stream('sitemap', 'cities').shuffle(entries))
+      .toEqual(shuffleWith(entries, createLegacyGenerator('example.com')));
+    expect(site('example.com').stream('sitemap', 'states').shuffle(entries))
+      .toEqual(shuffleWith(entries, createLegacyGenerator('example.com-states')));
+  });
+});
+
+describe('unified mode', () => {
+  const site = (domain: string) => seededRandom(domain, { mode: 'unified' });
+
+  it('is deterministic', () => {
+    const entries = pool(20);
+    expect(site('example.com').stream('city', 'Houston', 'intro').pick(entries))
+      .toBe(site('example.com').stream('city', 'Houston', 'intro').pick(entries));
+    expect(site('example.com').stream('sitemap', 'cities').shuffle(entries))
+      .toEqual(site('example.com').stream('sitemap', 'cities').shuffle(entries));
+  });
+
+  it('keeps 32-bit hashes and values in [0, 1)', () => {
+    for (const domain of DOMAINS.slice(0, 500)) {
+      const stream = site(domain).stream('home', 'hero');
+      expect(stream.hash()).toBeGreaterThanOrEqual(0);
+      expect(stream.hash()).toBeLessThan(2 ** 32);
+      expect(stream.value()).toBeLessThan(1);
+    }
+  });
+
+  it('addresses streams by path, not by how they were built', () => {
+    expect(site('example.com').stream('state').stream('CA').hash()).toBe(site('example.com').stream('state', 'CA').hash());
+    expect(site('example.com').stream('state', 'CA').hash()).not.toBe(site('example.com').stream('stateCA').hash());
+  });
+
+  it.each(DISTRIBUTION_POOL_SIZES)('spreads 10k domains evenly over %i entries', (size) => {
+    const counts = bucketCounts(DOMAINS.map(domain => site(domain).stream('home', 'h1').index(size)), size);
+    expect(chiSquare(counts)).toBeLessThan(chiSquareCritical(size));
+  });
+
+  it('does not collapse when the salt is the domain', () => {
+    // The legacy variation hash reduces to domainHash * 13300 here, so pools of 7, 10, 20 and 50 pick one entry
+    const counts = bucketCounts(DOMAINS.map(domain => site(domain).stream('variation', 'h1-home', domain).index(10)), 10);
+    expect(chiSquare(counts)).toBeLessThan(chiSquareCritical(10));
+  });
+
+  it('picks independently per entity', () => {
+    const same = DOMAINS.filter(domain =>
+      site(domain).stream('state', 'Texas').index(20) === site(domain).stream('state', 'Ohio').index(20)
+    ).length;
+    expect(same / DOMAINS.length).toBeLessThan(0.1);
+  });
+
+  it('rejects an empty pool', () => {
+    expect(() => site('example.com').stream('home', 'hero').pick([])).toThrow(RangeError);
+  });
+});
+
+describe('getSeededRandomMode', () => {
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  it('defaults to compat and opts in with SEEDED_RANDOM_MODE=unified', () => {
+    expect(getSeededRandomMode()).toBe('compat');
+    vi.stubEnv('SEEDED_RANDOM_MODE', 'unified');
+    expect(getSeededRandomMode()).toBe('unified');
+  });
+});
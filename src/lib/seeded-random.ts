@@ -0,0 +1,247 @@
+/**
+ * Seeded Random Service
+ * One deterministic source of randomness for every per-site selection.
+ *
+ * Selections are addressed by a namespace path under the site's domain -
+ * page type first, then the entity (state, city, slot) - so each stream is
+ * independent of every other:
+ *
+ *   seededRandom(domain).stream('state', 'CA').pick(STATE_INTROS)
+ *
+ * Two modes:
+ * - compat (default): namespaces that existed before this module reproduce
+ *   the exact hashes the old per-file implementations produced, so live
+ *   sites keep their content
+ * - unified: every namespace is hashed the same well-mixed way - opt in per
+ *   deployment with SEEDED_RANDOM_MODE=unified (this changes site content)
+ */
+
+export type HashAlgorithm = 'fnv1a' | 'djb2' | 'java';
+
+export type SeededRandomMode = 'compat' | 'unified';
+
+export type NamespaceSegment = string | number;
+
+export interface SeededRandomOptions {
+  mode?: SeededRandomMode;
+}
+
+export interface RandomStream {
+  readonly domain: string;
+  readonly namespace: readonly NamespaceSegment[];
+  /** Child stream one level further down the namespace */
+  stream(...namespace: NamespaceSegment[]): RandomStream;
+  /** Non-negative integer hash for this stream (legacy variation hashes exceed 32 bits) */
+  hash(): number;
+  /** Value in [0, 1) */
+  value(): number;
+  /** Index in [0, length) */
+  index(length: number): number;
+  pick<T>(items: readonly T[]): T;
+  /** Fisher-Yates shuffle driven by generator() - returns a copy */
+  shuffle<T>(items: readonly T[]): T[];
+  /** Sequence of values in [0, 1) - a fresh generator restarts the sequence */
+  generator(): () => number;
+}
+
+// ============================================
+// Hash Functions
+// ============================================
+
+/**
+ * String hash - all three algorithms the templates have shipped with
+ * - fnv1a: keyword variation pools (shared/hash-utils)
+ * - djb2: city, state, microcopy and design DNA selections (djb2 with an avalanche step)
+ * - java: sitemap ordering seeds
+ */
+export function hashString(input: string, algorithm: HashAlgorithm = 'fnv1a'): number {
+  switch (algorithm) {
+    case 'fnv1a': {
+      let hash = 2166136261; // FNV offset basis
+      for (let i = 0; i < input.length; i++) {
+        hash ^= input.charCodeAt(i);
+        hash = Math.imul(hash, 16777619); // FNV prime
+      }
+      return Math.abs(hash);
+    }
+    case 'djb2': {
+      let hash = 5381;
+      for (let i = 0; i < input.length; i++) {
+        hash = ((hash << 5) + hash) ^ input.charCodeAt(i);
+      }
+      hash = hash ^ (hash >>> 16);
+      hash = Math.imul(hash, 0x85ebca6b);
+      hash = hash ^ (hash >>> 13);
+      return Math.abs(hash);
+    }
+    case 'java': {
+      let hash = 0;
+      for (let i = 0; i < input.length; i++) {
+        hash = ((hash << 5) - hash) + input.charCodeAt(i);
+        hash = hash & hash; // Convert to 32bit integer
+      }
+      return Math.abs(hash);
+    }
+  }
+}
+
+/**
+ * Murmur3 finalizer - spreads every input bit across the whole output
+ */
+function mix(hash: number): number {
+  hash ^= hash >>> 16;
+  hash = Math.imul(hash, 0x85ebca6b);
+  hash ^= hash >>> 13;
+  hash = Math.imul(hash, 0xc2b2ae35);
+  hash ^= hash >>> 16;
+  return hash >>> 0;
+}
+
+function unifiedHash(domain: string, namespace: readonly NamespaceSegment[]): number {
+  return mix(hashString([domain, ...namespace].join('\u0000')));
+}
+
+// ============================================
+// Generators
+// ============================================
+
+/**
+ * Mulberry32 - small, fast and passes the usual statistical batteries
+ */
+function mulberry32(seed: number): () => number {
+  let state = seed >>> 0;
+  return function(): number {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/**
+ * Linear congruential generator seeded by the Java-style hash of a string
+ * Sitemap ordering has always been built on this sequence
+ */
+export function createLegacyGenerator(seed: string): () => number {
+  let state = hashString(seed, 'java') || 1;
+  return function(): number {
+    state = (state * 1664525 + 1013904223) % 4294967296;
+    return state / 4294967296;
+  };
+}
+
+/**
+ * Fisher-Yates shuffle from the end of the array - returns a copy
+ */
+export function shuffleWith<T>(items: readonly T[], random: () => number): T[] {
+  const shuffled = [...items];
+  for (let i = shuffled.length - 1; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1));
+    [shuffled[i], shuffled[j]] = [shuffled[j], shuffled[i]];
+  }
+  return shuffled;
+}
+
+// ============================================
+// Compatibility Schemes
+// ============================================
+
+interface CompatScheme {
+  hash(domain: string, args: readonly NamespaceSegment[]): number;
+  generator?(domain: string, args: readonly NamespaceSegment[]): () => number;
+}
+
+const CITY_PRIME_MULTIPLIERS = [31, 37, 41, 43, 47, 53, 59, 61, 67, 71, 73, 79, 83, 89, 97];
+
+/**
+ * How each pre-existing namespace was hashed, keyed by its first segment
+ * Namespaces not listed here hash the unified way in both modes
+ */
+const COMPAT_SCHEMES: Record<string, CompatScheme> = {
+  // Keyword variation pools: stream('variation', context, salt)
+  variation: {
+    hash(domain, [context = '', salt = '']) {
+      const domainHash = hashString(domain);
+      const contextHash = hashString(String(context));
+      const saltHash = salt ? hashString(String(salt)) : 0;
+      return Math.abs((domainHash * 7919) + (contextHash * 6421) + (saltHash * 5381));
+    },
+  },
+  // City pages: stream('city', location, offset)
+  city: {
+    hash(domain, [location = '', offset = 0]) {
+      const prime = CITY_PRIME_MULTIPLIERS[Number(offset) % CITY_PRIME_MULTIPLIERS.length];
+      const step1 = (hashString(domain, 'djb2') * prime) >>> 0;
+      const step2 = (hashString(String(location), 'djb2') * 73) >>> 0;
+      return (step1 ^ step2) >>> 0;
+    },
+  },
+  // State pages: stream('state', state, offset)
+  state: {
+    hash(domain, [state = '', offset = 0]) {
+      const combined = (hashString(domain, 'djb2') ^ (hashString(String(state), 'djb2') * 31)) >>> 0;
+      return combined + Number(offset) * 7;
+    },
+  },
+  // Domain-only picks: stream('domain', owner, offset) - owner only separates unified streams
+  domain: {
+    hash(domain, [, offset = 0]) {
+      return hashString(domain, 'djb2') + Number(offset);
+    },
+  },
+  // Sitemap ordering: stream('sitemap', 'cities' | 'states' | 'pages')
+  sitemap: {
+    hash(domain, [entity = 'cities']) {
+      return hashString(entity === 'cities' ? domain : `${domain}-${entity}`, 'java');
+    },
+    generator(domain, [entity = 'cities']) {
+      return createLegacyGenerator(entity === 'cities' ? domain : `${domain}-${entity}`);
+    },
+  },
+};
+
+/**
+ * Deployment-wide mode - read lazily so modules loaded from astro.config stay importable
+ */
+export function getSeededRandomMode(): SeededRandomMode {
+  return import.meta.env?.SEEDED_RANDOM_MODE === 'unified' ? 'unified' : 'compat';
+}
+
+// ============================================
+// Streams
+// ============================================
+
+function createStream(domain: string, namespace: readonly NamespaceSegment[], mode: SeededRandomMode): RandomStream {
+  const [scheme, ...args] = namespace;
+  const compat = mode === 'compat' && typeof scheme === 'string' ? COMPAT_SCHEMES[scheme] : undefined;
+
+  const hash = () => compat ? compat.hash(domain, args) : unifiedHash(domain, namespace);
+  const generator = () => compat?.generator ? compat.generator(domain, args) : mulberry32(hash());
+
+  const index = (length: number) => {
+    if (length <= 0) {
+      throw new RangeError(`Cannot pick from an empty pool in stream: ${[domain, ...namespace].join('/')}`);
+    }
+    return hash() % length;
+  };
+
+  return {
+    domain,
+    namespace,
+    stream: (...child) => createStream(domain, [...namespace, ...child], mode),
+    hash,
+    value: () => (hash() % 4294967296) / 4294967296,
+    index,
+    pick: (items) => items[index(items.length)],
+    shuffle: (items) => shuffleWith(items, generator()),
+    generator,
+  };
+}
+
+/**
+ * Root stream for a site - branch with .stream(pageType, entity, ...)
+ */
+export function seededRandom(domain: string, options: SeededRandomOptions = {}): RandomStream {
+  return createStream(domain, [], options.mode ?? getSeededRandomMode());
+}
@@ -0,0 +1,220 @@
+/**
+ * SEO Overrides
+ * Per-page meta stored from /admin/seo, applied by Layout.astro ahead of hash-selected variations
+ */
+
+import { supabaseAdmin, supabase } from './supabase'
+import { cache, SSRCache } from './cache'
+
+export const SEO_PAGE_TYPES = {
+  'homepage': 'Homepage',
+  'state-page': 'State Pages',
+  'city-page': 'City Pages',
+  'compare': 'Provider Compare',
+  'apply': 'Application Form',
+  'eligibility': 'Eligibility Checker',
+  'programs': 'Programs',
+  'lifeline-program': 'Lifeline Program',
+  'faq': 'FAQ',
+  'contact': 'Contact',
+  'near-me': 'Near Me',
+} as const
+
+export type SeoPageType = keyof typeof SEO_PAGE_TYPES
+
+// Fixed routes whose page type can be inferred from the path
+const PATH_PAGE_TYPES: Record<string, SeoPageType> = {
+  '/': 'homepage',
+  '/providers': 'compare',
+  '/apply': 'apply',
+  '/eligibility': 'eligibility',
+  '/programs': 'programs',
+  '/lifeline-program': 'lifeline-program',
+  '/faq': 'faq',
+  '/contact': 'contact',
+  '/free-government-phone-near-me': 'near-me',
+}
+
+export interface SeoScope {
+  page: SeoPageType
+  state?: string | null  // lowercase state abbreviation
+  city?: string | null   // city slug
+}
+
+export interface SeoOverride {
+  page_type: SeoPageType
+  state: string | null
+  city: string | null
+  title: string | null
+  description: string | null
+  og_title: string | null
+  og_description: string | null
+  keywords: string | null
+  canonical_url: string | null
+  json_ld: string | null
+  updated_at?: string
+}
+
+export type SeoOverrideFields = Pick<
+  SeoOverride,
+  'title' | 'description' | 'og_title' | 'og_description' | 'keywords' | 'canonical_url' | 'json_ld'
+>
+
+const SEO_CACHE_KEY = 'seo:overrides'
+
+/**
+ * Check whether a string is a known page type
+ */
+export function isSeoPageType(value: string): value is SeoPageType {
+  return value in SEO_PAGE_TYPES
+}
+
+/**
+ * Infer the page type of a fixed route from its pathname
+ */
+export function getPageTypeForPath(pathname: string): SeoPageType | null {
+  const normalized = pathname.length > 1 ? pathname.replace(/\/$/, '') : pathname
+  return PATH_PAGE_TYPES[normalized] || null
+}
+
+function normalizeScope(scope: SeoScope): { page: SeoPageType; state: string | null; city: string | null } {
+  const state = scope.state?.trim().toLowerCase() || null
+  return {
+    page: scope.page,
+    state,
+    city: state ? scope.city?.trim().toLowerCase() || null : null,
+  }
+}
+
+/**
+ * All stored overrides (small table, cached as a whole)
+ */
+export async function getAllSeoOverrides(): Promise<SeoOverride[]> {
+  return cache.getOrFetch(
+    SEO_CACHE_KEY,
+    async () => {
+      if (!supabase) return []
+
+      try {
+        const { data, error } = await supabase
+          .from('seo_overrides')
+          .select('page_type, state, city, title, description, og_title, og_description, keywords, canonical_url, json_ld, updated_at')
+
+        if (error) {
+          console.error('[SEO] Error fetching overrides:', error)
+          return []
+        }
+        return (data || []) as SeoOverride[]
+      } catch (err) {
+        console.error('[SEO] Exception fetching overrides:', err)
+        return []
+      }
+    },
+    SSRCache.TTL.STATIC_DATA
+  )
+}
+
+/**
+ * The override stored for exactly this scope, if any
+ */
+export async function getSeoOverride(scope: SeoScope): Promise<SeoOverride | null> {
+  const { page, state, city } = normalizeScope(scope)
+  const overrides = await getAllSeoOverrides()
+  return overrides.find(o => o.page_type === page && o.state === state && o.city === city) || null
+}
+
+/**
+ * Resolve the effective overrides for a page
+ * Fields from the most specific match win: city, then state, then the page type as a whole
+ */
+export async function resolveSeoOverrides(scope: SeoScope): Promise<Partial<SeoOverrideFields>> {
+  const { page, state, city } = normalizeScope(scope)
+  const overrides = await getAllSeoOverrides()
+
+  const layers = [
+    overrides.find(o => o.page_type === page && !o.state && !o.city),
+    state ? overrides.find(o => o.page_type === page && o.state === state && !o.city) : undefined,
+    state && city ? overrides.find(o => o.page_type === page && o.state === state && o.city === city) : undefined,
+  ]
+
+  const resolved: Partial<SeoOverrideFields> = {}
+  for (const layer of layers) {
+    if (!layer) continue
+    for (const field of ['title', 'description', 'og_title', 'og_description', 'keywords', 'canonical_url', 'json_ld'] as const) {
+      const value = layer[field]?.trim()
+      if (value) resolved[field] = value
+    }
+  }
+  return resolved
+}
+
+/**
+ * Validate override fields before saving
+ * Returns a list of problems (empty when the fields can be stored)
+ */
+export function validateSeoOverride(fields: SeoOverrideFields): string[] {
+  const problems: string[] = []
+
+  if (fields.canonical_url) {
+    try {
+      const url = new URL(fields.canonical_url)
+      if (url.protocol !== 'https:' && url.protocol !== 'http:') {
+        problems.push('Canonical URL must start with http:// or https://.')
+      }
+    } catch {
+      problems.push('Canonical URL must be an absolute URL.')
+    }
+  }
+
+  if (fields.json_ld) {
+    try {
+      const parsed = JSON.parse(fields.json_ld)
+      if (!parsed || typeof parsed !== 'object') {
+        problems.push('Structured data must be a JSON object or array.')
+      }
+    } catch {
+      problems.push('Structured data is not valid JSON.')
+    }
+  }
+
+  return problems
+}
+
+/**
+ * Insert or update the override for a scope and refresh the cache
+ * Empty fields are stored as null so the hash-selected variation is used instead
+ */
+export async function saveSeoOverride(scope: SeoScope, fields: SeoOverrideFields): Promise<{ ok: boolean; errors?: string[] }> {
+  const errors = validateSeoOverride(fields)
+  if (errors.length > 0) return { ok: false, errors }
+
+  if (!supabaseAdmin) {
+    console.error('[SEO] Cannot save overrides: service role client not configured')
+    return { ok: false, errors: ['Saving requires SUPABASE_SERVICE_ROLE_KEY to be configured.'] }
+  }
+
+  const { page, state, city } = normalizeScope(scope)
+  const clean = Object.fromEntries(
+    Object.entries(fields).map(([key, value]) => [key, value?.trim() || null])
+  ) as SeoOverrideFields
+
+  try {
+    const { error } = await supabaseAdmin
+      .from('seo_overrides')
+      .upsert(
+        { page_type: page, state, city, ...clean, updated_at: new Date().toISOString() },
+        { onConflict: 'page_type,state,city' }
+      )
+
+    if (error) {
+      console.error('[SEO] Error saving override:', error)
+      return { ok: false, errors: ['Could not save the override. Please try again.'] }
+    }
+  } catch (err) {
+    console.error('[SEO] Exception saving override:', err)
+    return { ok: false, errors: ['Could not save the override. Please try again.'] }
+  }
+
+  await cache.invalidate(SEO_CACHE_KEY)
+  return { ok: true }
+}
@@ -0,0 +1,85 @@
+/**
+ * SERP Snippet Preview
+ * Length limits and truncation matching how search results display titles and descriptions
+ * Pure functions - safe to import from client scripts
+ */
+
+export const SERP_LIMITS = {
+  TITLE_MIN: 50,
+  TITLE_MAX: 60,
+  DESCRIPTION_MIN: 150,
+  DESCRIPTION_MAX: 160,
+}
+
+export type SerpField = 'title' | 'description'
+
+export interface SerpWarning {
+  field: SerpField
+  message: string
+}
+
+export interface SerpSnippet {
+  title: string
+  url: string
+  description: string
+  warnings: SerpWarning[]
+}
+
+/**
+ * Cut text at the last word boundary that fits, adding an ellipsis
+ */
+export function truncateForSerp(text: string, max: number): string {
+  const clean = text.trim().replace(/\s+/g, ' ')
+  if (clean.length <= max) return clean
+
+  const cut = clean.slice(0, max - 1)
+  const lastSpace = cut.lastIndexOf(' ')
+  return `${(lastSpace > max * 0.6 ? cut.slice(0, lastSpace) : cut).replace(/[\s,;:.-]+$/, '')}…`
+}
+
+/**
+ * Length warnings for a title and meta description
+ */
+export function getSerpWarnings(title: string, description: string): SerpWarning[] {
+  const warnings: SerpWarning[] = []
+  const titleLength = title.trim().length
+  const descriptionLength = description.trim().length
+
+  if (titleLength === 0) {
+    warnings.push({ field: 'title', message: 'Title is empty.' })
+  } else if (titleLength < SERP_LIMITS.TITLE_MIN) {
+    warnings.push({ field: 'title', message: `Title is ${titleLength} characters - aim for ${SERP_LIMITS.TITLE_MIN}-${SERP_LIMITS.TITLE_MAX}.` })
+  } else if (titleLength > SERP_LIMITS.TITLE_MAX) {
+    warnings.push({ field: 'title', message: `Title is ${titleLength} characters and will be cut off after ${SERP_LIMITS.TITLE_MAX}.` })
+  }
+
+  if (descriptionLength === 0) {
+    warnings.push({ field: 'description', message: 'Meta description is empty.' })
+  } else if (descriptionLength < SERP_LIMITS.DESCRIPTION_MIN) {
+    warnings.push({ field: 'description', message: `Meta description is ${descriptionLength} characters - aim for ${SERP_LIMITS.DESCRIPTION_MIN}-${SERP_LIMITS.DESCRIPTION_MAX}.` })
+  } else if (descriptionLength > SERP_LIMITS.DESCRIPTION_MAX) {
+    warnings.push({ field: 'description', message: `Meta description is ${descriptionLength} characters and will be cut off after ${SERP_LIMITS.DESCRIPTION_MAX}.` })
+  }
+
+  return warnings
+}
+
+/**
+ * Build the snippet as it would appear in search results
+ */
+export function buildSerpSnippet(title: string, url: string, description: string): SerpSnippet {
+  let displayURL = url
+  try {
+    const parsed = new URL(url)
+    displayURL = `${parsed.hostname}${parsed.pathname === '/' ? '' : parsed.pathname.replace(/\/$/, '').split('/').join(' › ')}`
+  } catch {
+    // Not an absolute URL - show as entered
+  }
+
+  return {
+    title: truncateForSerp(title, SERP_LIMITS.TITLE_MAX),
+    url: displayURL,
+    description: truncateForSerp(description, SERP_LIMITS.DESCRIPTION_MAX),
+    warnings: getSerpWarnings(title, description),
+  }
+}
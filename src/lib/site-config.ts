@@ -267,6 +267,18 @@ export const STATE_ABBR_TO_NAME: Record<string, string> = Object.fromEntries(
   Object.entries(STATE_NAME_TO_ABBR).map(([name, abbr]) => [abbr.toLowerCase(), name])
 );
 
+/**
+ * Display name for a state abbreviation ("NY" -> "New York"), or null when unknown
+ */
+export function getStateDisplayName(stateAbbr: string): string | null {
+  const slug = STATE_ABBR_TO_NAME[stateAbbr.toLowerCase()];
+  if (!slug) return null;
+  return slug
+    .split('-')
+    .map(word => (word === 'of' ? word : word.charAt(0).toUpperCase() + word.slice(1)))
+    .join(' ');
+}
+
 /**
  * Parse subdomain to extract state only
  * NEW Format: {state-name}.free-government-phone.org
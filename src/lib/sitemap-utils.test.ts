@@ -0,0 +1,48 @@
+import { describe, expect, it } from 'vitest';
+import { seededShuffle } from './sitemap-utils';
+import { syntheticDomains, bucketCounts, chiSquare, chiSquareCritical } from '../test/synthetic-domains';
+
+const DOMAINS = syntheticDomains(10_000);
+const CITIES = Array.from({ length: 10 }, (_, i) => i);
+
+describe('seededShuffle', () => {
+  it('returns the same order for the same seed', () => {
+    for (const domain of DOMAINS.slice(0, 100)) {
+      expect(seededShuffle(CITIES, domain)).toEqual(seededShuffle(CITIES, domain));
+    }
+  });
+
+  it('keeps every item and leaves the input untouched', () => {
+    const input = [...CITIES];
+    const shuffled = seededShuffle(input, 'example.com');
+    expect([...shuffled].sort((a, b) => a - b)).toEqual(CITIES);
+    expect(input).toEqual(CITIES);
+  });
+
+  it('gives different domains different orders', () => {
+    const orders = new Set(DOMAINS.slice(0, 1000).map(domain => seededShuffle(CITIES, domain).join(',')));
+    expect(orders.size).toBeGreaterThan(990);
+  });
+
+  it.each([0, 5, 9])('puts each item at position %i about equally often across 10k domains', (position) => {
+    const counts = bucketCounts(DOMAINS.map(domain => seededShuffle(CITIES, domain)[position]), CITIES.length);
+    expect(chiSquare(counts)).toBeLessThan(chiSquareCritical(CITIES.length));
+  });
+
+  it('keeps the sitemap order existing sites were published with', () => {
+    expect(seededShuffle(CITIES, 'example.com')).toMatchInlineSnapshot(`
+      [
+        4,
+        3,
+        1,
+        0,
+        7,
+        5,
+        8,
+        6,
+        9,
+        2,
+      ]
+    `);
+  });
+});
@@ -1,44 +1,17 @@
-import { supabase } from './supabase';
+import { getCitiesByPopulation, getCityPopulationRank } from './db';
 import { getSiteURL, useSubdomains, getCitySubdomainURL, getDomain } from './site-config';
 import { createCitySlug } from './slug-utils.js';
+import { seededRandom, shuffleWith, createLegacyGenerator } from './seeded-random';
+import { LOCALES, buildAlternateLinks, getLocalizedCityURL, type Locale } from './i18n';
 
-const URLS_PER_SITEMAP = 10000;
-
-/**
- * Generate a seeded random number generator based on domain
- * This ensures each site has consistent but unique ordering
- */
-function createSeededRandom(seed: string): () => number {
-  // Simple hash function to convert string to number
-  let hash = 0;
-  for (let i = 0; i < seed.length; i++) {
-    const char = seed.charCodeAt(i);
-    hash = ((hash << 5) - hash) + char;
-    hash = hash & hash; // Convert to 32bit integer
-  }
-  
-  // Use the hash as seed for a simple LCG (Linear Congruential Generator)
-  let state = Math.abs(hash) || 1;
-  return function(): number {
-    state = (state * 1664525 + 1013904223) % 4294967296;
-    return state / 4294967296;
-  };
-}
+export const URLS_PER_SITEMAP = 10000;
 
 /**
  * Shuffle array using Fisher-Yates algorithm with seeded random
- * Each domain gets a unique but consistent shuffle
+ * Same seed, same order - the legacy sequence the sitemap streams reproduce in compat mode
  */
-function seededShuffle<T>(array: T[], seed: string): T[] {
-  const shuffled = [...array];
-  const random = createSeededRandom(seed);
-  
-  for (let i = shuffled.length - 1; i > 0; i--) {
-    const j = Math.floor(random() * (i + 1));
-    [shuffled[i], shuffled[j]] = [shuffled[j], shuffled[i]];
-  }
-  
-  return shuffled;
+export function seededShuffle<T>(array: T[], seed: string): T[] {
+  return shuffleWith(array, createLegacyGenerator(seed));
 }
 
 /**
@@ -51,10 +24,6 @@ export async function getCitiesForSitemap(offset: number, limit: number): Promis
   const cityUrls = new Set<string>();
   const deduplicatedCities: Array<{ name: string; state_abbr: string }> = [];
   
-  if (!supabase) {
-    return deduplicatedCities;
-  }
-
   try {
     const pageSize = 1000; // Fetch 1000 cities at a time
     let page = 0;
@@ -62,28 +31,16 @@ export async function getCitiesForSitemap(offset: number, limit: number): Promis
     
     // Fetch cities in batches until we have enough unique cities
     while (deduplicatedCities.length < offset + limit && page < maxPages) {
-      const rangeStart = page * pageSize;
-      const rangeEnd = (page + 1) * pageSize - 1;
+      const data = await getCitiesByPopulation(page * pageSize, (page + 1) * pageSize);
       
-      const { data, error } = await supabase
-        .from('cities')
-        .select('name, states(abbreviation)')
-        .order('population', { ascending: false })
-        .range(rangeStart, rangeEnd);
-      
-      if (error) {
-        console.error(`[Sitemap] Error fetching cities page ${page}:`, error);
-        break;
-      }
-      
-      if (!data || data.length === 0) {
-        break; // No more data
+      if (data.length === 0) {
+        break; // No more data (or the page could not be read)
       }
       
       // Process cities and deduplicate by URL
       for (const city of data) {
         const cityName = city.name;
-        const stateAbbr = city.states?.abbreviation || '';
+        const stateAbbr = city.state_abbreviation;
         
         if (!cityName || !stateAbbr) continue;
         
@@ -119,44 +76,82 @@ export async function getCitiesForSitemap(offset: number, limit: number): Promis
   }
 }
 
+/**
+ * Number of the city sitemap file (sitemap-N.xml) a city with this population is listed in
+ * Cities are ranked by population, so this counts the cities ranked above it. The sitemap
+ * also skips duplicate URLs, which can move a city into the file before - callers that
+ * need certainty should include both. Returns null when it cannot be worked out.
+ */
+export async function getSitemapChunkForCity(population: number | null | undefined): Promise<number | null> {
+  if (population === null || population === undefined) {
+    return null;
+  }
+
+  const rank = await getCityPopulationRank(population);
+  return rank === null ? null : Math.floor(rank / URLS_PER_SITEMAP) + 2;
+}
+
+/**
+ * Opening <urlset> with the xhtml namespace needed for hreflang alternates
+ */
+export const URLSET_OPEN = `<?xml version="1.0" encoding="UTF-8"?>
+<urlset xmlns="http://www.sitemaps.org/schemas/sitemap/0.9" xmlns:xhtml="http://www.w3.org/1999/xhtml">
+`;
+
+/**
+ * One <url> entry per locale for a page that exists in every locale.
+ * Each entry lists all versions (and x-default) so the alternates are reciprocal.
+ */
+export function generateLocalizedURLEntries(
+  urls: Record<Locale, string>,
+  lastmod: string,
+  changefreq: string,
+  priority: string
+): string {
+  const alternates = buildAlternateLinks(urls)
+    .map(link => `    <xhtml:link rel="alternate" hreflang="${link.hreflang}" href="${link.href}"/>`)
+    .join('\n');
+
+  return LOCALES.map(locale => `  <url>
+    <loc>${urls[locale]}</loc>
+${alternates}
+    <lastmod>${lastmod}</lastmod>
+    <changefreq>${changefreq}</changefreq>
+    <priority>${priority}</priority>
+  </url>
+`).join('');
+}
+
 /**
  * Generate XML for city sitemap
  * Cities are shuffled based on domain to create unique sitemaps per site
  */
 export function generateCitySitemapXML(cities: Array<{ name: string; state_abbr: string }>): string {
-  const SITE_URL = getSiteURL();
   const domain = getDomain();
   const today = new Date().toISOString().split('T')[0];
-  const useSubdomainMode = useSubdomains();
 
   // Shuffle cities based on domain for unique ordering per site
-  const shuffledCities = seededShuffle(cities, domain);
+  const shuffledCities = seededRandom(domain).stream('sitemap', 'cities').shuffle(cities);
 
-  let xml = `<?xml version="1.0" encoding="UTF-8"?>
-<urlset xmlns="http://www.sitemaps.org/schemas/sitemap/0.9">
-`;
+  let xml = URLSET_OPEN;
 
   // Add city pages - match reference site: changefreq=weekly, priority=0.8
+  // Each city is listed in English (subdomain or path URL) and Spanish (/es/) with hreflang alternates
   const cityUrls = new Set<string>();
   for (const city of shuffledCities) {
     const citySlug = createCitySlug(city.name);
-    const cityUrl = useSubdomainMode 
-      ? getCitySubdomainURL(citySlug, city.state_abbr.toLowerCase())
-      : `${SITE_URL}/${city.state_abbr.toLowerCase()}/${citySlug}/`;
-    
+    const cityUrl = getLocalizedCityURL(citySlug, city.state_abbr, 'en');
+
     // Skip duplicates (shouldn't happen, but safety check)
     if (cityUrls.has(cityUrl)) {
       continue;
     }
     cityUrls.add(cityUrl);
-    
-    xml += `  <url>
-    <loc>${cityUrl}</loc>
-    <lastmod>${today}</lastmod>
-    <changefreq>weekly</changefreq>
-    <priority>0.8</priority>
-  </url>
-`;
+
+    xml += generateLocalizedURLEntries({
+      en: cityUrl,
+      es: getLocalizedCityURL(citySlug, city.state_abbr, 'es'),
+    }, today, 'weekly', '0.8');
   }
 
   xml += `</urlset>`;
@@ -167,8 +162,7 @@ export function generateCitySitemapXML(cities: Array<{ name: string; state_abbr:
  * Shuffle states based on domain for unique ordering per site
  */
 export function shuffleStates(states: Array<{ name: string; abbreviation: string }>): Array<{ name: string; abbreviation: string }> {
-  const domain = getDomain();
-  return seededShuffle(states, domain + '-states'); // Different seed suffix for states
+  return seededRandom(getDomain()).stream('sitemap', 'states').shuffle(states);
 }
 
 /**
@@ -176,10 +170,9 @@ export function shuffleStates(states: Array<{ name: string; abbreviation: string
  * Note: Homepage always stays first for SEO reasons
  */
 export function shuffleStaticPages(pages: string[]): string[] {
-  const domain = getDomain();
   // Keep homepage first, shuffle the rest
   const homepage = pages.find(p => p === '');
   const otherPages = pages.filter(p => p !== '');
-  const shuffledOthers = seededShuffle(otherPages, domain + '-pages');
+  const shuffledOthers = seededRandom(getDomain()).stream('sitemap', 'pages').shuffle(otherPages);
   return homepage !== undefined ? ['', ...shuffledOthers] : shuffledOthers;
 }
@@ -0,0 +1,56 @@
+import { describe, expect, it } from 'vitest';
+import { hashDomain, getCompoundHash, getStateContentVariations } from './state-content-variations';
+import {
+  syntheticDomains,
+  bucketCounts,
+  chiSquare,
+  chiSquareCritical,
+  DISTRIBUTION_POOL_SIZES,
+} from '../test/synthetic-domains';
+
+const DOMAINS = syntheticDomains(10_000);
+
+describe('hashDomain', () => {
+  it('is deterministic and non-negative', () => {
+    for (const domain of DOMAINS.slice(0, 100)) {
+      expect(hashDomain(domain)).toBe(hashDomain(domain));
+      expect(hashDomain(domain)).toBeGreaterThanOrEqual(0);
+    }
+  });
+
+  it('keeps the values existing state pages were built with', () => {
+    expect([hashDomain(''), hashDomain('example.com'), hashDomain('free-government-phone.org')]).toMatchInlineSnapshot(`
+      [
+        181267782,
+        1119674576,
+        2125905782,
+      ]
+    `);
+  });
+
+  it.each(DISTRIBUTION_POOL_SIZES)('spreads 10k domains evenly over %i entries', (size) => {
+    const counts = bucketCounts(DOMAINS.map(domain => hashDomain(domain) % size), size);
+    expect(chiSquare(counts)).toBeLessThan(chiSquareCritical(size));
+  });
+});
+
+describe('getCompoundHash', () => {
+  it('spreads a state across 10k domains', () => {
+    const counts = bucketCounts(DOMAINS.map(domain => getCompoundHash(domain, 'Texas') % 20), 20);
+    expect(chiSquare(counts)).toBeLessThan(chiSquareCritical(20));
+  });
+});
+
+describe('getStateContentVariations', () => {
+  it('returns the same content for the same domain and state', () => {
+    expect(getStateContentVariations('example.com', 'Ohio', 'Columbus', 250))
+      .toEqual(getStateContentVariations('example.com', 'Ohio', 'Columbus', 250));
+  });
+
+  it('fills every token', () => {
+    for (const domain of DOMAINS.slice(0, 200)) {
+      const text = JSON.stringify(getStateContentVariations(domain, 'Ohio', 'Columbus', 250));
+      expect(text).not.toMatch(/\{(state|capital|cityCount)\}/);
+    }
+  });
+});
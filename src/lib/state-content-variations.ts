@@ -5,36 +5,27 @@
  * Zero API cost - all variations are pre-written
  */
 
+import { hashString as hashWith, seededRandom } from './seeded-random';
+import { getEnrollingProgramNames } from './variations/shared/program-variations';
+import { isProgramActive } from './programs';
+
 // ============================================
 // Hash Functions - COMPOUND for 99%+ uniqueness
 // ============================================
 
 function hashString(domain: string): number {
-  let hash = 5381;
-  for (let i = 0; i < domain.length; i++) {
-    const char = domain.charCodeAt(i);
-    hash = ((hash << 5) + hash) ^ char;
-  }
-  hash = hash ^ (hash >>> 16);
-  hash = Math.imul(hash, 0x85ebca6b);
-  hash = hash ^ (hash >>> 13);
-  return Math.abs(hash);
+  return hashWith(domain, 'djb2');
 }
 
 /**
  * COMPOUND HASH: Combines domain + state for maximum uniqueness
  */
 function getCompoundHash(domain: string, state: string): number {
-  const domainHash = hashString(domain);
-  const stateHash = hashString(state);
-  const combined = (domainHash ^ (stateHash * 31)) >>> 0;
-  return Math.abs(combined);
+  return seededRandom(domain).stream('state', state).hash();
 }
 
 function pickVariation<T>(domain: string, state: string, variations: T[], offset: number = 0): T {
-  const hash = getCompoundHash(domain, state);
-  const index = (hash + offset * 7) % variations.length;
-  return variations[index];
+  return seededRandom(domain).stream('state', state, offset).pick(variations);
 }
 
 // ============================================
@@ -43,64 +34,64 @@ function pickVariation<T>(domain: string, state: string, variations: T[], offset
 
 const STATE_INTRO_VARIATIONS = [
   // V1
-  `{state} residents have access to free government phone programs through Lifeline and ACP. These federal initiatives provide qualifying households with free smartphones and monthly service at no cost. Whether you live in {capital} or any of the {cityCount} cities across {state}, you can apply for these valuable benefits.`,
+  `{state} residents have access to free government phone programs through {programs}. These federal benefits provide qualifying households with free smartphones and monthly service at no cost. Whether you live in {capital} or any of the {cityCount} cities across {state}, you can apply for these valuable benefits.`,
   
   // V2
-  `Looking for a free government phone in {state}? You're in the right place. The Lifeline and Affordable Connectivity Programs serve eligible households throughout all {cityCount} cities in the state, from {capital} to small rural communities. Get connected without monthly bills.`,
+  `Looking for a free government phone in {state}? You're in the right place. Federal {programs} benefits serve eligible households throughout all {cityCount} cities in the state, from {capital} to small rural communities. Get connected without monthly bills.`,
   
   // V3
-  `Free phone programs are available across all of {state}. Federal Lifeline and ACP benefits reach households in every corner of the state—serving {cityCount} communities with free devices and monthly wireless service. No contracts, no credit checks required.`,
+  `Free phone programs are available across all of {state}. Federal {programs} benefits reach households in every corner of the state—serving {cityCount} communities with free devices and monthly wireless service. No contracts, no credit checks required.`,
   
   // V4
-  `{state} participates fully in federal free phone programs. Residents throughout the state's {cityCount} cities can access Lifeline and ACP benefits, receiving free smartphones and comprehensive monthly plans at absolutely no cost to qualifying households.`,
+  `{state} participates fully in federal free phone programs. Residents throughout the state's {cityCount} cities can access {programs} benefits, receiving free smartphones and comprehensive monthly plans at absolutely no cost to qualifying households.`,
   
   // V5
   `Get your free government phone anywhere in {state}! From {capital} to communities across all {cityCount} cities, federal programs provide free devices and service to eligible households. The application process is quick and easy.`,
   
   // V6
-  `{state}'s {cityCount} cities are served by federal free phone programs. Lifeline and ACP benefits provide qualifying residents with free smartphones, unlimited talk and text, and monthly data—no matter where you live in the state.`,
+  `{state}'s {cityCount} cities are served by federal free phone programs. {programs} benefits provide qualifying residents with free smartphones, unlimited talk and text, and monthly data—no matter where you live in the state.`,
   
   // V7
-  `Free government phones reach every corner of {state}. Whether you're in the capital {capital} or any of the {cityCount} communities statewide, Lifeline and ACP programs offer free devices and service to eligible households.`,
+  `Free government phones reach every corner of {state}. Whether you're in the capital {capital} or any of the {cityCount} communities statewide, {programs} benefits offer free devices and service to eligible households.`,
   
   // V8
-  `{state} residents can access free phone service through federal programs. Covering all {cityCount} cities including {capital}, Lifeline and ACP provide free smartphones and monthly plans to qualifying households at zero cost.`,
+  `{state} residents can access free phone service through federal programs. Covering all {cityCount} cities including {capital}, {programs} benefits provide free smartphones and monthly plans to qualifying households at zero cost.`,
   
   // V9
   `Discover free phone options across {state}. Federal programs serve eligible residents in every one of the state's {cityCount} cities, providing free devices and comprehensive wireless service without monthly bills.`,
   
   // V10
-  `{state}'s free government phone programs are open to eligible residents statewide. From {capital} to {cityCount} communities across the state, Lifeline and ACP benefits deliver free devices and service.`,
+  `{state}'s free government phone programs are open to eligible residents statewide. From {capital} to {cityCount} communities across the state, {programs} benefits deliver free devices and service.`,
   
   // V11
-  `Free phones await eligible {state} residents. Federal Lifeline and ACP programs cover all {cityCount} cities in the state, offering free smartphones and monthly service to qualifying households.`,
+  `Free phones await eligible {state} residents. Federal {programs} benefits cover all {cityCount} cities in the state, offering free smartphones and monthly service to qualifying households.`,
   
   // V12
-  `{state} fully participates in federal free phone initiatives. Residents across {cityCount} cities—including the capital {capital}—can receive free devices and monthly wireless service through Lifeline and ACP.`,
+  `{state} fully participates in federal free phone initiatives. Residents across {cityCount} cities—including the capital {capital}—can receive free devices and monthly wireless service through {programs}.`,
   
   // V13
-  `Government phone programs serve all of {state}. With {cityCount} cities covered by Lifeline and ACP, eligible residents anywhere in the state can get free smartphones and service.`,
+  `Government phone programs serve all of {state}. With {cityCount} cities covered by {programs}, eligible residents anywhere in the state can get free smartphones and service.`,
   
   // V14
   `{state} offers free phone access to qualifying households. Federal programs reach every one of the {cityCount} cities statewide, providing free devices and comprehensive monthly plans.`,
   
   // V15
-  `Free government phones are available throughout {state}. From {capital} to all {cityCount} communities, Lifeline and ACP programs deliver free devices and service to eligible households.`,
+  `Free government phones are available throughout {state}. From {capital} to all {cityCount} communities, {programs} benefits deliver free devices and service to eligible households.`,
   
   // V16
-  `{state} residents seeking free phones have federal options. Lifeline and ACP serve all {cityCount} cities in the state with free smartphones and monthly wireless service.`,
+  `{state} residents seeking free phones have federal options. {programs} benefits serve all {cityCount} cities in the state with free smartphones and monthly wireless service.`,
   
   // V17
   `Get connected free in {state}! Federal programs provide free phones and service to eligible households across all {cityCount} cities, including the capital {capital}.`,
   
   // V18
-  `{state}'s free phone programs reach every community. With {cityCount} cities served by Lifeline and ACP, qualifying residents anywhere in the state can access free devices and service.`,
+  `{state}'s free phone programs reach every community. With {cityCount} cities served by {programs}, qualifying residents anywhere in the state can access free devices and service.`,
   
   // V19
-  `Free phone service is available across {state}. Federal Lifeline and ACP programs serve {cityCount} cities statewide, providing free smartphones and monthly plans to eligible households.`,
+  `Free phone service is available across {state}. Federal {programs} benefits serve {cityCount} cities statewide, providing free smartphones and monthly plans to eligible households.`,
   
   // V20
-  `{state} households can access free government phones. Lifeline and ACP benefits cover all {cityCount} cities in the state, from {capital} to the smallest communities.`,
+  `{state} households can access free government phones. {programs} benefits cover all {cityCount} cities in the state, from {capital} to the smallest communities.`,
 ];
 
 // ============================================
@@ -154,6 +145,54 @@ const PROGRAMS_AVAILABLE_VARIATIONS = [
   `{state} participates fully in Lifeline and ACP programs. These federal initiatives provide free phone service and internet assistance to eligible households statewide.`,
 ];
 
+// Used instead while ACP is not enrolling - same count, so each site keeps its slot
+const PROGRAMS_AVAILABLE_ACP_ENDED_VARIATIONS = [
+  // V1
+  `{state} residents can apply for Lifeline, the federal program that has served low-income households since 1985. The Affordable Connectivity Program (ACP) no longer accepts applications, so Lifeline is the federal benefit still enrolling.`,
+
+  // V2
+  `Lifeline serves {state} households with free phones and discounted phone or internet service. The Affordable Connectivity Program (ACP) has stopped taking applications, but Lifeline remains open to eligible residents.`,
+
+  // V3
+  `{state} participates in Lifeline, the federal program offering free communication services to qualifying households. ACP internet discounts are no longer available, and Lifeline continues to enroll.`,
+
+  // V4
+  `The federal program enrolling in {state} today is Lifeline, which covers phone service or home internet. The Affordable Connectivity Program (ACP) is no longer accepting households.`,
+
+  // V5
+  `{state} households can still access Lifeline benefits. Lifeline provides free phone service or an internet discount, while ACP no longer takes new applications.`,
+
+  // V6
+  `Lifeline is the federal phone program serving {state}. The Affordable Connectivity Program is not accepting applications, so eligible households apply for Lifeline to stay connected.`,
+
+  // V7
+  `{state} residents benefit from the federal Lifeline program, offering free phone service since 1985. ACP internet assistance is no longer available to new applicants.`,
+
+  // V8
+  `Federal communication assistance in {state} comes through Lifeline. It provides free phones and monthly service to qualifying households now that ACP has stopped taking applications.`,
+
+  // V9
+  `{state} participates in Lifeline, the federal program for free phone service. Households that used ACP for internet can apply Lifeline to a home internet plan instead.`,
+
+  // V10
+  `The Lifeline program serves {state} residents with free phones and voice service at no charge to eligible households. ACP is no longer accepting applications.`,
+
+  // V11
+  `{state} offers access to federal Lifeline benefits. Lifeline delivers free phone service or an internet discount to households meeting eligibility requirements; ACP is no longer enrolling.`,
+
+  // V12
+  `Federal help in {state} continues through Lifeline (free phone service). The Affordable Connectivity Program (internet assistance) no longer accepts applications.`,
+
+  // V13
+  `{state} households have access to Lifeline, which provides phone service or a home internet discount free to qualifying residents. ACP benefits are no longer available.`,
+
+  // V14
+  `Lifeline is the federal program still serving {state} residents with free phone service. ACP internet discounts have ended for new applicants, so Lifeline is where to apply.`,
+
+  // V15
+  `{state} participates fully in the Lifeline program. This federal initiative provides free phone service to eligible households statewide, while ACP no longer takes applications.`,
+];
+
 // ============================================
 // How to Apply in State Variations (10 variations)
 // ============================================
@@ -227,7 +266,7 @@ const STATE_CTA_VARIATIONS = [
   },
   {
     headline: `{state} residents - get connected free!`,
-    subtext: `Lifeline and ACP programs are accepting applications now.`,
+    subtext: `{programs} applications are open now.`,
     button: `Apply in Minutes`,
   },
   {
@@ -661,13 +700,17 @@ export function getStateContentVariations(
 ): StateContentVariations {
   const capitalStr = capital || 'the capital';
   const cityCountStr = cityCount ? cityCount.toString() : 'many';
+  // {programs} names only the programs still enrolling, per the program registry
+  const programs = getEnrollingProgramNames();
+  const programsAvailable = isProgramActive('acp') ? PROGRAMS_AVAILABLE_VARIATIONS : PROGRAMS_AVAILABLE_ACP_ENDED_VARIATIONS;
   
   // Helper to replace tokens in text
   const replaceTokens = (text: string): string => {
     return text
       .replace(/\{state\}/g, state)
       .replace(/\{capital\}/g, capitalStr)
-      .replace(/\{cityCount\}/g, cityCountStr);
+      .replace(/\{cityCount\}/g, cityCountStr)
+      .replace(/\{programs\}/g, programs);
   };
   
   // Use COMPOUND hash (domain + state) for maximum uniqueness
@@ -676,7 +719,7 @@ export function getStateContentVariations(
   
   return {
     intro: replaceTokens(pickVariation(domain, state, STATE_INTRO_VARIATIONS, 30)),
-    programsAvailable: replaceTokens(pickVariation(domain, state, PROGRAMS_AVAILABLE_VARIATIONS, 31)),
+    programsAvailable: replaceTokens(pickVariation(domain, state, programsAvailable, 31)),
     howToApply: replaceTokens(pickVariation(domain, state, STATE_HOWTO_VARIATIONS, 32)),
     eligibility: replaceTokens(pickVariation(domain, state, STATE_ELIGIBILITY_VARIATIONS, 33)),
     cta: {
@@ -0,0 +1,112 @@
+/**
+ * State Lifeline Programs
+ * States that add their own Lifeline discount on top of the federal benefit, with their own
+ * administrators, application channels and qualifying programs. States without an entry
+ * only offer federal Lifeline and render nothing extra.
+ */
+
+export interface StateLifelineProgram {
+  state: string                    // uppercase state abbreviation
+  name: string
+  monthlyBenefit: number | null    // state discount per month on top of federal Lifeline, USD
+  benefitNote: string              // how the state benefit is applied
+  administrator: string
+  applicationUrl: string
+  phone: string
+  additionalEligibility: string[]  // qualifying programs beyond the federal list
+  lastReviewed: string             // ISO date the entry was last checked against the state source
+}
+
+export const STATE_LIFELINE_PROGRAMS: Record<string, StateLifelineProgram> = {
+  CA: {
+    state: 'CA',
+    name: 'California LifeLine',
+    monthlyBenefit: 19,
+    benefitNote: 'State support is added to the federal discount, so most wireless plans cost nothing each month.',
+    administrator: 'California Public Utilities Commission (CPUC) through the California LifeLine Administrator',
+    applicationUrl: 'https://www.californialifeline.com/',
+    phone: '1-866-272-0349',
+    additionalEligibility: [
+      'CalFresh',
+      'CalWORKs',
+      'Medi-Cal',
+      'Women, Infants and Children (WIC)',
+      'Low Income Home Energy Assistance Program (LIHEAP)',
+      'National School Lunch Program',
+      'Tribal TANF',
+      'Head Start (income eligible)',
+    ],
+    lastReviewed: '2025-01-15',
+  },
+  TX: {
+    state: 'TX',
+    name: 'Texas Lifeline Discount Program',
+    monthlyBenefit: 3.5,
+    benefitNote: 'The state discount is credited on the same bill as the federal Lifeline discount.',
+    administrator: 'Public Utility Commission of Texas (PUCT) through the Low Income Discount Administrator',
+    applicationUrl: 'https://www.puc.texas.gov/consumer/lowincome/Assistance.aspx',
+    phone: '1-866-454-8387',
+    additionalEligibility: [
+      "Children's Health Insurance Program (CHIP)",
+      'Low Income Home Energy Assistance Program (LIHEAP)',
+      'Temporary Assistance for Needy Families (TANF)',
+      'National School Lunch Program (free lunch)',
+    ],
+    lastReviewed: '2025-01-15',
+  },
+  OR: {
+    state: 'OR',
+    name: 'Oregon Lifeline',
+    monthlyBenefit: 3.5,
+    benefitNote: 'The state discount is applied by the phone or internet company together with the federal discount.',
+    administrator: 'Oregon Public Utility Commission (OPUC)',
+    applicationUrl: 'https://www.oregon.gov/puc/utilities/Pages/Lifeline-Program.aspx',
+    phone: '1-800-848-4442',
+    additionalEligibility: [
+      'Low Income Home Energy Assistance Program (LIHEAP)',
+      'Temporary Assistance for Needy Families (TANF)',
+      'National School Lunch Program',
+      'Head Start (income eligible)',
+    ],
+    lastReviewed: '2025-01-15',
+  },
+}
+
+export function getStateLifelineProgram(stateAbbr: string | null | undefined): StateLifelineProgram | null {
+  if (!stateAbbr) return null
+  return STATE_LIFELINE_PROGRAMS[stateAbbr.toUpperCase()] || null
+}
+
+/**
+ * "an extra $3.50/month on top of federal Lifeline", or a generic line when the amount varies
+ */
+export function describeStateBenefit(program: StateLifelineProgram): string {
+  if (program.monthlyBenefit === null) return 'an additional state discount on top of federal Lifeline'
+  const amount = Number.isInteger(program.monthlyBenefit)
+    ? `$${program.monthlyBenefit}`
+    : `$${program.monthlyBenefit.toFixed(2)}`
+  return `an extra ${amount}/month on top of federal Lifeline`
+}
+
+/**
+ * GovernmentService JSON-LD for a state program, scoped to the state it serves
+ */
+export function getStateLifelineSchema(program: StateLifelineProgram, stateName: string): Record<string, unknown> {
+  return {
+    '@type': 'GovernmentService',
+    name: program.name,
+    description: `${program.name} provides ${describeStateBenefit(program)} for eligible ${stateName} households. ${program.benefitNote}`,
+    serviceType: 'Telecommunications Assistance',
+    areaServed: { '@type': 'State', name: stateName },
+    provider: {
+      '@type': 'GovernmentOrganization',
+      name: program.administrator,
+    },
+    availableChannel: {
+      '@type': 'ServiceChannel',
+      serviceUrl: program.applicationUrl,
+      servicePhone: { '@type': 'ContactPoint', telephone: program.phone },
+    },
+    audience: { '@type': 'Audience', audienceType: 'Low-income households' },
+  }
+}
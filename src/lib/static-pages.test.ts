@@ -0,0 +1,163 @@
+import { afterAll, afterEach, beforeAll, beforeEach, describe, expect, it } from 'vitest'
+import { mkdir, mkdtemp, readFile, rm, writeFile } from 'node:fs/promises'
+import { tmpdir } from 'node:os'
+import { dirname, join } from 'node:path'
+import {
+  chunkOf,
+  finishStaticBuild,
+  getBuildFingerprint,
+  getStaticPagesOptions,
+  planStaticPages,
+  startStaticBuild,
+  type StaticPagesOptions,
+} from './static-pages'
+import { getStaticCityPaths, getStaticStatePaths } from './static-paths'
+import { setDataSource } from './data-source'
+import { FixtureDataSource } from './data-source-fixtures'
+import { cache } from './cache'
+
+describe('getStaticPagesOptions', () => {
+  it('is off unless STATIC_PAGES is set', () => {
+    expect(getStaticPagesOptions({})).toMatchObject({ enabled: false, chunk: null, force: false })
+    expect(getStaticPagesOptions({ STATIC_PAGES: true }).enabled).toBe(true)
+    expect(getStaticPagesOptions({ STATIC_PAGES: 'true', STATIC_PAGES_FORCE: '1' })).toMatchObject({ enabled: true, force: true })
+  })
+
+  it('reads a chunk and rejects one out of range', () => {
+    expect(getStaticPagesOptions({ STATIC_PAGES_CHUNK: '2/8' }).chunk).toEqual({ index: 2, count: 8 })
+    expect(() => getStaticPagesOptions({ STATIC_PAGES_CHUNK: '9/8' })).toThrow(/STATIC_PAGES_CHUNK/)
+    expect(() => getStaticPagesOptions({ STATIC_PAGES_CHUNK: 'half' })).toThrow(/STATIC_PAGES_CHUNK/)
+  })
+})
+
+describe('chunkOf', () => {
+  it('puts every page in one chunk, the same one each time', () => {
+    const pathnames = Array.from({ length: 400 }, (_, i) => `/tx/city-${i}/`)
+    const chunks = pathnames.map(pathname => chunkOf(pathname, 4))
+
+    expect(new Set(chunks)).toEqual(new Set([1, 2, 3, 4]))
+    expect(pathnames.map(pathname => chunkOf(pathname, 4))).toEqual(chunks)
+  })
+})
+
+describe('page cache', () => {
+  let dir: string
+  let options: StaticPagesOptions
+
+  const page = (pathname: string, hash: string) => ({ pathname, params: { pathname }, hash })
+
+  // Stand-in for Astro writing the pages it was given
+  async function render(outDir: string, params: Array<{ pathname: string }>) {
+    for (const { pathname } of params) {
+      const file = join(outDir, pathname, 'index.html')
+      await mkdir(dirname(file), { recursive: true })
+      await writeFile(file, `<h1>${pathname}</h1>`)
+    }
+  }
+
+  async function build(pages: ReturnType<typeof page>[], overrides: Partial<StaticPagesOptions> = {}) {
+    const outDir = join(dir, `out-${Math.random().toString(36).slice(2)}`)
+    const buildOptions = { ...options, ...overrides }
+
+    await startStaticBuild(buildOptions, 'code-v1')
+    const params = await planStaticPages('/[state]/[city]/', pages, buildOptions)
+    await render(outDir, params)
+    const result = await finishStaticBuild(buildOptions, outDir)
+
+    return { ...result, rendered: params.map(p => p.pathname), outDir }
+  }
+
+  beforeEach(async () => {
+    dir = await mkdtemp(join(tmpdir(), 'static-pages-'))
+    options = { enabled: true, chunk: null, force: false, cacheDir: join(dir, 'cache') }
+  })
+
+  afterEach(async () => {
+    await rm(dir, { recursive: true, force: true })
+  })
+
+  it('renders only changed pages and restores the rest from cache', async () => {
+    const first = await build([page('/tx/austin/', 'a'), page('/tx/dallas/', 'a')])
+    expect(first.rendered).toEqual(['/tx/austin/', '/tx/dallas/'])
+
+    const second = await build([page('/tx/austin/', 'b'), page('/tx/dallas/', 'a')])
+    expect(second.rendered).toEqual(['/tx/austin/'])
+    expect(second.reused).toBe(1)
+    expect(await readFile(join(second.outDir, 'tx/dallas/index.html'), 'utf8')).toBe('<h1>/tx/dallas/</h1>')
+  })
+
+  it('renders everything when forced or when the code changed', async () => {
+    const pages = [page('/ky/paducah/', 'a')]
+    await build(pages)
+
+    expect((await build(pages, { force: true })).rendered).toEqual(['/ky/paducah/'])
+
+    expect(await startStaticBuild(options, 'code-v2')).toBe(true)
+    expect(await planStaticPages('/[state]/[city]/', pages, options)).toHaveLength(1)
+  })
+
+  it('leaves changed pages outside the chunk for another build', async () => {
+    const pages = Array.from({ length: 20 }, (_, i) => page(`/oh/city-${i}/`, 'a'))
+    const chunk = { index: 1, count: 2 }
+
+    const first = await build(pages, { chunk })
+    expect(first.rendered.length).toBeGreaterThan(0)
+    expect(first.rendered.every(pathname => chunkOf(pathname, 2) === 1)).toBe(true)
+
+    const second = await build(pages, { chunk: { index: 2, count: 2 } })
+    expect(second.rendered).toHaveLength(20 - first.rendered.length)
+    expect(second.reused).toBe(first.rendered.length)
+
+    const full = await build(pages)
+    expect(full).toMatchObject({ rendered: [], reused: 20 })
+  })
+})
+
+describe('getBuildFingerprint', () => {
+  let root: string
+
+  beforeAll(async () => {
+    root = await mkdtemp(join(tmpdir(), 'fingerprint-'))
+    await mkdir(join(root, 'src/data'), { recursive: true })
+    await writeFile(join(root, 'src/page.astro'), 'v1')
+    await writeFile(join(root, 'src/data/cities.csv'), 'id\n1\n')
+  })
+
+  afterAll(async () => {
+    await rm(root, { recursive: true, force: true })
+  })
+
+  it('changes with the code and public env, not the dataset or other env', async () => {
+    const before = await getBuildFingerprint(root, { PUBLIC_SITE_URL: 'https://a.org', HOSTNAME: 'ci-1' })
+
+    await writeFile(join(root, 'src/data/cities.csv'), 'id\n1\n2\n')
+    expect(await getBuildFingerprint(root, { PUBLIC_SITE_URL: 'https://a.org', HOSTNAME: 'ci-2' })).toBe(before)
+    expect(await getBuildFingerprint(root, { PUBLIC_SITE_URL: 'https://b.org' })).not.toBe(before)
+
+    await writeFile(join(root, 'src/page.astro'), 'v2')
+    expect(await getBuildFingerprint(root, { PUBLIC_SITE_URL: 'https://a.org' })).not.toBe(before)
+  })
+})
+
+describe('static paths on fixtures', () => {
+  beforeAll(async () => {
+    setDataSource(new FixtureDataSource())
+    await cache.clear()
+  })
+
+  afterAll(async () => {
+    setDataSource(undefined)
+    await cache.clear()
+  })
+
+  it('lists a page for every state and city, with sitemap slugs', async () => {
+    const states = await getStaticStatePaths('/[state]/')
+    expect(states).toHaveLength(51)
+    expect(states).toContainEqual({ params: { state: 'dc' } })
+
+    const cities = await getStaticCityPaths('/es/[state]/[city]/')
+    expect(cities).toContainEqual({ params: { state: 'mo', city: 'st-louis' } })
+    expect(cities).toContainEqual({ params: { state: 'az', city: 'window-rock' } })
+    expect(cities.filter(c => c.params.city === 'springfield').map(c => c.params.state).sort()).toEqual(['il', 'mo'])
+  })
+})
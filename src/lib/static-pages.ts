@@ -0,0 +1,406 @@
+/**
+ * Static Pages
+ * Optional build mode that prerenders every state and city page instead of rendering
+ * them per request (STATIC_PAGES=true)
+ *
+ * - The integration flips `prerender` on for STATIC_PAGE_ROUTES and gives them a
+ *   getStaticPaths (static-paths.ts) listing every state and city in the dataset. The
+ *   pages do not export one themselves, so normal builds see plain on-demand routes.
+ * - Each page carries a content hash of the data it is built from. Pages whose hash is
+ *   unchanged since the last build are not rendered again - their HTML is restored from
+ *   the page cache (STATIC_PAGES_CACHE_DIR, default node_modules/.cache/static-pages)
+ * - STATIC_PAGES_CHUNK=2/8 limits a build to one slice of the pages, so a large site can
+ *   be rendered over several builds that share the cache (scripts/build-static.js)
+ * - A change to the code, config or public env invalidates the whole cache
+ *
+ * URLs do not change. /city-st.php stays on-demand and serves the prerendered HTML
+ * (fetchStaticPage), since Astro cannot rewrite an on-demand route to a prerendered one.
+ * In subdomain mode the path URLs of states and cities 404, so those two routes are not
+ * prerendered at all and the subdomain routes keep rewriting to them.
+ */
+
+import { createHash } from 'node:crypto'
+import { copyFile, mkdir, readFile, readdir, rm, writeFile } from 'node:fs/promises'
+import { dirname, join, relative, resolve, sep } from 'node:path'
+import { fileURLToPath } from 'node:url'
+import type { AstroIntegration } from 'astro'
+import { useSubdomains } from './site-config'
+
+export const DEFAULT_CACHE_DIR = 'node_modules/.cache/static-pages'
+
+interface StaticPageRoute {
+  route: string              // pattern the pathnames are built from
+  paths: 'state' | 'city'    // which static-paths.ts list the route gets
+  subdomainGuarded: boolean  // 404s on path URLs in subdomain mode
+}
+
+/**
+ * Routes prerendered in static mode, keyed by their component as Astro names it
+ */
+export const STATIC_PAGE_ROUTES: Record<string, StaticPageRoute> = {
+  'src/pages/[state]/index.astro': { route: '/[state]/', paths: 'state', subdomainGuarded: true },
+  'src/pages/[state]/all.astro': { route: '/[state]/all/', paths: 'state', subdomainGuarded: false },
+  'src/pages/[state]/[city].astro': { route: '/[state]/[city]/', paths: 'city', subdomainGuarded: true },
+  'src/pages/es/[state]/index.astro': { route: '/es/[state]/', paths: 'state', subdomainGuarded: false },
+  'src/pages/es/[state]/[city].astro': { route: '/es/[state]/[city]/', paths: 'city', subdomainGuarded: false },
+}
+
+// Everything outside the dataset that ends up in a page - a change re-renders every page
+const FINGERPRINT_DIRS = ['src']
+const FINGERPRINT_FILES = ['astro.config.mjs', 'tailwind.config.mjs', 'package-lock.json', 'site-config.json']
+const FINGERPRINT_SKIP = ['src/data']
+const FINGERPRINT_ENV = /^(PUBLIC_|SITE_URL$|SEEDED_RANDOM_MODE$)/
+
+export interface StaticPagesOptions {
+  enabled: boolean
+  chunk: { index: number; count: number } | null  // index is 1-based
+  force: boolean                                   // ignore the cache, render every page
+  cacheDir: string
+}
+
+export interface StaticPage<Params> {
+  pathname: string  // e.g. /ky/paducah/
+  params: Params
+  hash: string
+}
+
+interface Manifest {
+  fingerprint: string
+  pages: Record<string, string>  // pathname -> content hash
+}
+
+interface Plan {
+  render: Record<string, string>
+  reuse: string[]
+}
+
+type Env = Record<string, string | boolean | undefined>
+
+const isSet = (value: string | boolean | undefined) => value === true || value === 'true' || value === '1'
+
+/**
+ * Read the STATIC_PAGES_* settings - the config passes its loaded env, pages getPageEnv()
+ */
+export function getStaticPagesOptions(env: Env): StaticPagesOptions {
+  let chunk: StaticPagesOptions['chunk'] = null
+  const rawChunk = env.STATIC_PAGES_CHUNK
+  if (typeof rawChunk === 'string' && rawChunk !== '') {
+    const match = rawChunk.match(/^(\d+)\/(\d+)$/)
+    const index = Number(match?.[1])
+    const count = Number(match?.[2])
+    if (!match || index < 1 || index > count) {
+      throw new Error(`STATIC_PAGES_CHUNK must look like 2/8 (chunk 2 of 8), got "${rawChunk}"`)
+    }
+    chunk = { index, count }
+  }
+
+  return {
+    enabled: isSet(env.STATIC_PAGES),
+    chunk,
+    force: isSet(env.STATIC_PAGES_FORCE),
+    cacheDir: resolve(typeof env.STATIC_PAGES_CACHE_DIR === 'string' && env.STATIC_PAGES_CACHE_DIR || DEFAULT_CACHE_DIR),
+  }
+}
+
+/**
+ * The STATIC_PAGES_* env as pages see it - Astro only fills in env vars read by name,
+ * and inlines STATIC_PAGES=true at build time
+ */
+export function getPageEnv(): Env {
+  return {
+    STATIC_PAGES: import.meta.env.STATIC_PAGES,
+    STATIC_PAGES_CHUNK: import.meta.env.STATIC_PAGES_CHUNK,
+    STATIC_PAGES_FORCE: import.meta.env.STATIC_PAGES_FORCE,
+    STATIC_PAGES_CACHE_DIR: import.meta.env.STATIC_PAGES_CACHE_DIR,
+  }
+}
+
+/**
+ * Whether this build prerendered the state and city pages
+ */
+export function isStaticPagesBuild(): boolean {
+  return isSet(import.meta.env.STATIC_PAGES)
+}
+
+/**
+ * Whether static mode prerenders a route - the subdomain-guarded ones stay on-demand in
+ * subdomain mode, where only the subdomain routes may serve them
+ */
+function prerendersRoute(component: string): boolean {
+  const route = STATIC_PAGE_ROUTES[component]
+  return !!route && !(route.subdomainGuarded && useSubdomains())
+}
+
+/**
+ * Whether this build prerendered a route (by component), e.g. 'src/pages/[state]/[city].astro'
+ */
+export function isStaticPage(component: string): boolean {
+  return isStaticPagesBuild() && prerendersRoute(component)
+}
+
+/**
+ * getStaticPaths appended to a prerendered route's module
+ */
+function staticPathsExport(staticPathsModule: string, route: StaticPageRoute): string {
+  const list = route.paths === 'city' ? 'getStaticCityPaths' : 'getStaticStatePaths'
+  return [
+    `import { ${list} as $$staticPaths } from ${JSON.stringify(staticPathsModule)};`,
+    `export function getStaticPaths() { return $$staticPaths(${JSON.stringify(route.route)}); }`,
+  ].join('\n')
+}
+
+export function hashContent(value: unknown): string {
+  return createHash('sha256').update(JSON.stringify(value)).digest('hex').slice(0, 16)
+}
+
+/**
+ * Which chunk a page falls in - by a hash of its path, so chunks stay the same size
+ * and a page keeps its chunk as the dataset grows
+ */
+export function chunkOf(pathname: string, count: number): number {
+  return parseInt(hashContent(pathname).slice(0, 8), 16) % count + 1
+}
+
+/**
+ * The HTML file Astro writes for a pathname (build.format 'directory')
+ */
+function htmlFile(dir: string, pathname: string): string {
+  return join(dir, pathname, 'index.html')
+}
+
+const manifestFile = (cacheDir: string) => join(cacheDir, 'manifest.json')
+const pagesDir = (cacheDir: string) => join(cacheDir, 'pages')
+const plansDir = (cacheDir: string) => join(cacheDir, 'plans')
+
+async function readJSON<T>(file: string): Promise<T | null> {
+  try {
+    return JSON.parse(await readFile(file, 'utf8'))
+  } catch (err: any) {
+    if (err?.code === 'ENOENT') return null
+    throw err
+  }
+}
+
+async function readManifest(cacheDir: string): Promise<Manifest> {
+  return (await readJSON<Manifest>(manifestFile(cacheDir))) || { fingerprint: '', pages: {} }
+}
+
+/**
+ * Decide which of a route's pages this build renders, and record the rest for
+ * restoring from the cache once the build is done. Returns the params to render.
+ *
+ * - outside this build's chunk: restored if cached and unchanged, otherwise left out
+ * - cached with the same hash: restored
+ * - anything else: rendered
+ */
+export async function planStaticPages<Params>(
+  route: string,
+  pages: StaticPage<Params>[],
+  options: StaticPagesOptions
+): Promise<Params[]> {
+  const { pages: cached } = await readManifest(options.cacheDir)
+  const plan: Plan = { render: {}, reuse: [] }
+  const params: Params[] = []
+
+  for (const page of pages) {
+    const unchanged = !options.force && cached[page.pathname] === page.hash
+    const inChunk = !options.chunk || chunkOf(page.pathname, options.chunk.count) === options.chunk.index
+
+    if (unchanged) {
+      plan.reuse.push(page.pathname)
+    } else if (inChunk) {
+      plan.render[page.pathname] = page.hash
+      params.push(page.params)
+    }
+  }
+
+  await mkdir(plansDir(options.cacheDir), { recursive: true })
+  await writeFile(join(plansDir(options.cacheDir), `${hashContent(route)}.json`), JSON.stringify(plan))
+
+  return params
+}
+
+/**
+ * Hash of the code, config and public env the pages are built with
+ */
+export async function getBuildFingerprint(root: string, env: Env): Promise<string> {
+  const hash = createHash('sha256')
+
+  const files = [...FINGERPRINT_FILES]
+  for (const dir of FINGERPRINT_DIRS) {
+    let entries: string[]
+    try {
+      entries = await readdir(join(root, dir), { recursive: true })
+    } catch (err: any) {
+      if (err?.code === 'ENOENT') continue
+      throw err
+    }
+    files.push(...entries.map(entry => join(dir, entry)))
+  }
+
+  const inputs = files.filter(f => !f.endsWith('.test.ts') && !FINGERPRINT_SKIP.some(skip => f.startsWith(skip)))
+  for (const file of inputs.sort()) {
+    try {
+      hash.update(file).update(await readFile(join(root, file)))
+    } catch (err: any) {
+      // Directories and optional files
+      if (err?.code !== 'EISDIR' && err?.code !== 'ENOENT') throw err
+    }
+  }
+
+  const publicEnv = Object.keys(env).filter(key => FINGERPRINT_ENV.test(key)).sort()
+  hash.update(JSON.stringify(publicEnv.map(key => [key, env[key]])))
+
+  return hash.digest('hex').slice(0, 16)
+}
+
+/**
+ * Start a build: drop the cache when the fingerprint changed, and any plans left by
+ * a build that did not finish
+ */
+export async function startStaticBuild(options: StaticPagesOptions, fingerprint: string): Promise<boolean> {
+  const manifest = await readManifest(options.cacheDir)
+  const stale = manifest.fingerprint !== fingerprint
+
+  if (stale) {
+    await rm(pagesDir(options.cacheDir), { recursive: true, force: true })
+    await mkdir(options.cacheDir, { recursive: true })
+    await writeFile(manifestFile(options.cacheDir), JSON.stringify({ fingerprint, pages: {} }))
+  }
+  await rm(plansDir(options.cacheDir), { recursive: true, force: true })
+
+  return stale
+}
+
+/**
+ * Finish a build: save the pages it rendered to the cache and copy the ones it
+ * skipped into the output directory
+ */
+export async function finishStaticBuild(
+  options: StaticPagesOptions,
+  outDir: string
+): Promise<{ rendered: number; reused: number; missing: number }> {
+  const manifest = await readManifest(options.cacheDir)
+  let planFiles: string[] = []
+  try {
+    planFiles = await readdir(plansDir(options.cacheDir))
+  } catch (err: any) {
+    if (err?.code !== 'ENOENT') throw err
+  }
+
+  let rendered = 0
+  let reused = 0
+  let missing = 0
+
+  for (const file of planFiles) {
+    const plan = await readJSON<Plan>(join(plansDir(options.cacheDir), file))
+    if (!plan) continue
+
+    for (const [pathname, hash] of Object.entries(plan.render)) {
+      const cachedFile = htmlFile(pagesDir(options.cacheDir), pathname)
+      await mkdir(dirname(cachedFile), { recursive: true })
+      try {
+        await copyFile(htmlFile(outDir, pathname), cachedFile)
+      } catch (err: any) {
+        if (err?.code !== 'ENOENT') throw err
+        // Not written - the page failed or redirected; render it again next time
+        delete manifest.pages[pathname]
+        continue
+      }
+      manifest.pages[pathname] = hash
+      rendered++
+    }
+
+    for (const pathname of plan.reuse) {
+      const outFile = htmlFile(outDir, pathname)
+      await mkdir(dirname(outFile), { recursive: true })
+      try {
+        await copyFile(htmlFile(pagesDir(options.cacheDir), pathname), outFile)
+      } catch (err: any) {
+        if (err?.code !== 'ENOENT') throw err
+        delete manifest.pages[pathname]
+        missing++
+        continue
+      }
+      reused++
+    }
+  }
+
+  await writeFile(manifestFile(options.cacheDir), JSON.stringify(manifest))
+  await rm(plansDir(options.cacheDir), { recursive: true, force: true })
+
+  return { rendered, reused, missing }
+}
+
+/**
+ * Astro integration for the static build mode - a no-op unless STATIC_PAGES is set
+ */
+export function staticPages(env: Env): AstroIntegration {
+  const options = getStaticPagesOptions(env)
+  let root = process.cwd()
+
+  return {
+    name: 'static-pages',
+    hooks: {
+      'astro:config:setup': ({ config, updateConfig }) => {
+        if (!options.enabled) return
+        const configRoot = fileURLToPath(config.root)
+        const staticPathsModule = join(configRoot, 'src/lib/static-paths.ts')
+
+        updateConfig({
+          vite: {
+            plugins: [{
+              name: 'static-pages:get-static-paths',
+              enforce: 'post',
+              transform(code, id) {
+                const component = relative(configRoot, id).split(sep).join('/')
+                if (!prerendersRoute(component)) return
+                return { code: `${code}\n${staticPathsExport(staticPathsModule, STATIC_PAGE_ROUTES[component])}\n`, map: null }
+              },
+            }],
+          },
+        })
+      },
+      'astro:config:done': ({ config }) => {
+        root = fileURLToPath(config.root)
+      },
+      'astro:route:setup': ({ route }) => {
+        if (options.enabled && prerendersRoute(route.component)) {
+          route.prerender = true
+        }
+      },
+      'astro:build:start': async ({ logger }) => {
+        if (!options.enabled) return
+
+        const stale = await startStaticBuild(options, await getBuildFingerprint(root, env))
+        const chunk = options.chunk ? `, chunk ${options.chunk.index} of ${options.chunk.count}` : ''
+        logger.info(`Prerendering state and city pages${chunk} (cache: ${relative(root, options.cacheDir)})`)
+        if (stale) {
+          logger.info('Code or config changed since the cached pages were built - rendering every page')
+        }
+      },
+      'astro:build:done': async ({ dir, logger }) => {
+        if (!options.enabled) return
+
+        const { rendered, reused, missing } = await finishStaticBuild(options, fileURLToPath(dir))
+        logger.info(`${rendered} pages rendered, ${reused} unchanged pages restored from cache`)
+        if (missing > 0) {
+          logger.warn(`${missing} cached pages were missing from the cache directory - they are rendered on the next build`)
+        }
+      },
+    },
+  }
+}
+
+/**
+ * Serve a prerendered page from an on-demand route
+ * Fetches it from the deployment's static files; the body is re-wrapped so the
+ * CDN's content-encoding and length headers are not passed on with decoded content
+ */
+export async function fetchStaticPage(pathname: string, request: Request): Promise<Response> {
+  const response = await fetch(new URL(pathname, request.url))
+  return new Response(await response.text(), {
+    status: response.status,
+    headers: { 'Content-Type': response.headers.get('content-type') || 'text/html; charset=utf-8' },
+  })
+}
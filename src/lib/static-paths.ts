@@ -0,0 +1,92 @@
+/**
+ * Static Paths
+ * getStaticPaths for the state and city routes, used when STATIC_PAGES prerenders them
+ * (see static-pages.ts)
+ *
+ * Every page of a state shares one content hash, taken over the state row, all of its
+ * cities, the providers and the SEO overrides Layout applies to the state and its cities
+ * (seo-overrides.ts) - the data its own lists, coverage and meta come from. Sections drawn
+ * from other states (nearby cities across a border, similar-size cities) are refreshed
+ * when the page is next rendered for another reason, or by STATIC_PAGES_FORCE=true.
+ */
+
+import { getProviders, getSitemapData } from './db'
+import { resolveSeoOverrides } from './seo-overrides'
+import { createCitySlug } from './slug-utils.js'
+import { getPageEnv, getStaticPagesOptions, hashContent, planStaticPages, type StaticPage } from './static-pages'
+
+type StateParams = { state: string }
+type CityParams = { state: string; city: string }
+
+/**
+ * Hash of each state's data, by state id
+ */
+async function getStateHashes() {
+  const [{ states, cities }, providers] = await Promise.all([getSitemapData(), getProviders()])
+  const providersHash = hashContent(providers)
+
+  const hashes = new Map<number, string>()
+  for (const state of states) {
+    const stateCities = cities.get(state.id) || []
+    const abbr = state.abbreviation.toLowerCase()
+    const seo = await Promise.all([
+      resolveSeoOverrides({ page: 'state-page', state: abbr }),
+      ...stateCities.map(city => resolveSeoOverrides({ page: 'city-page', state: abbr, city: createCitySlug(city.name) })),
+    ])
+    hashes.set(state.id, hashContent([state, stateCities, providersHash, seo]))
+  }
+  return { states, cities, hashes }
+}
+
+/**
+ * Fill a route pattern such as /es/[state]/[city]/ with a page's params
+ */
+function toPathname(route: string, params: Record<string, string>): string {
+  return route.replace(/\[(\w+)\]/g, (_, name: string) => params[name])
+}
+
+async function toStaticPaths<Params>(route: string, pages: StaticPage<Params>[]): Promise<Array<{ params: Params }>> {
+  // Dev renders prerendered routes on request - every path is valid and nothing is cached
+  if (import.meta.env.DEV) {
+    return pages.map(page => ({ params: page.params }))
+  }
+
+  const params = await planStaticPages(route, pages, getStaticPagesOptions(getPageEnv()))
+  return params.map(params => ({ params }))
+}
+
+/**
+ * Paths for a state route, e.g. /[state]/ or /es/[state]/
+ */
+export async function getStaticStatePaths(route: string): Promise<Array<{ params: StateParams }>> {
+  const { states, hashes } = await getStateHashes()
+
+  const pages = states.map(state => {
+    const params = { state: state.abbreviation.toLowerCase() }
+    return { pathname: toPathname(route, params), params, hash: hashes.get(state.id)! }
+  })
+  return toStaticPaths(route, pages)
+}
+
+/**
+ * Paths for a city route, e.g. /[state]/[city]/ - slugs as in the sitemap
+ * Cities whose names share a slug get one page, like the on-demand lookup
+ */
+export async function getStaticCityPaths(route: string): Promise<Array<{ params: CityParams }>> {
+  const { states, cities, hashes } = await getStateHashes()
+  const pages = new Map<string, StaticPage<CityParams>>()
+
+  for (const state of states) {
+    for (const city of cities.get(state.id) || []) {
+      const slug = createCitySlug(city.name)
+      if (!slug) continue
+
+      const params = { state: state.abbreviation.toLowerCase(), city: slug }
+      const pathname = toPathname(route, params)
+      if (!pages.has(pathname)) {
+        pages.set(pathname, { pathname, params, hash: hashes.get(state.id)! })
+      }
+    }
+  }
+  return toStaticPaths(route, [...pages.values()])
+}
@@ -60,6 +60,17 @@ export const supabase = (supabaseUrl && supabaseAnonKey && isValidUrl(supabaseUr
   ? supabaseCreateClient(supabaseUrl, supabaseAnonKey)
   : null;
 
+// Server-only client using the service role key
+// Used for writes (applications, admin edits) that the anon key is not allowed to make
+// NEVER import this from client-side scripts
+const supabaseServiceRoleKey = sanitizeEnvVar(import.meta.env.SUPABASE_SERVICE_ROLE_KEY);
+
+export const supabaseAdmin = (supabaseUrl && supabaseServiceRoleKey && isValidUrl(supabaseUrl))
+  ? supabaseCreateClient(supabaseUrl, supabaseServiceRoleKey, {
+      auth: { persistSession: false, autoRefreshToken: false }
+    })
+  : null;
+
 // Export createClient function for direct use
 export const createClient = (url: string, key: string) => {
   return supabaseCreateClient(url, key);
@@ -74,18 +85,21 @@ export interface Database {
           id: number;
           name: string;
           abbreviation: string;
+          region: string | null;
           created_at: string;
         };
         Insert: {
           id?: number;
           name: string;
           abbreviation: string;
+          region?: string | null;
           created_at?: string;
         };
         Update: {
           id?: number;
           name?: string;
           abbreviation?: string;
+          region?: string | null;
           created_at?: string;
         };
       };
@@ -95,6 +109,12 @@ export interface Database {
           name: string;
           state_id: number;
           population: number;
+          latitude: number | null;
+          longitude: number | null;
+          county: string | null;
+          timezone: string | null;
+          tribal_land: boolean;
+          tribal_area: string | null;
           stats: any;
           created_at: string;
         };
@@ -103,6 +123,12 @@ export interface Database {
           name: string;
           state_id: number;
           population?: number;
+          latitude?: number | null;
+          longitude?: number | null;
+          county?: string | null;
+          timezone?: string | null;
+          tribal_land?: boolean;
+          tribal_area?: string | null;
           stats?: any;
           created_at?: string;
         };
@@ -111,6 +137,12 @@ export interface Database {
           name?: string;
           state_id?: number;
           population?: number;
+          latitude?: number | null;
+          longitude?: number | null;
+          county?: string | null;
+          timezone?: string | null;
+          tribal_land?: boolean;
+          tribal_area?: string | null;
           stats?: any;
           created_at?: string;
         };
@@ -170,6 +202,123 @@ export interface Database {
           created_at?: string;
         };
       };
+      admin_users: {
+        Row: {
+          id: number;
+          email: string;
+          password_hash: string;
+          created_at: string;
+        };
+        Insert: {
+          id?: number;
+          email: string;
+          password_hash: string;
+          created_at?: string;
+        };
+        Update: {
+          id?: number;
+          email?: string;
+          password_hash?: string;
+          created_at?: string;
+        };
+      };
+      // Unique on (page_type, state, city) with NULLS NOT DISTINCT - supabase/migrations/20261019120300_create_seo_overrides.sql
+      seo_overrides: {
+        Row: {
+          id: number;
+          page_type: string;
+          state: string | null;
+          city: string | null;
+          title: string | null;
+          description: string | null;
+          og_title: string | null;
+          og_description: string | null;
+          keywords: string | null;
+          canonical_url: string | null;
+          json_ld: string | null;
+          updated_at: string;
+        };
+        Insert: {
+          id?: number;
+          page_type: string;
+          state?: string | null;
+          city?: string | null;
+          title?: string | null;
+          description?: string | null;
+          og_title?: string | null;
+          og_description?: string | null;
+          keywords?: string | null;
+          canonical_url?: string | null;
+          json_ld?: string | null;
+          updated_at?: string;
+        };
+        Update: {
+          id?: number;
+          page_type?: string;
+          state?: string | null;
+          city?: string | null;
+          title?: string | null;
+          description?: string | null;
+          og_title?: string | null;
+          og_description?: string | null;
+          keywords?: string | null;
+          canonical_url?: string | null;
+          json_ld?: string | null;
+          updated_at?: string;
+        };
+      };
+      ip_ranges: {
+        Row: {
+          ip_start: number;
+          ip_end: number;
+          region: string;
+          city: string | null;
+          latitude: number;
+          longitude: number;
+        };
+        Insert: {
+          ip_start: number;
+          ip_end: number;
+          region: string;
+          city?: string | null;
+          latitude: number;
+          longitude: number;
+        };
+        Update: {
+          ip_start?: number;
+          ip_end?: number;
+          region?: string;
+          city?: string | null;
+          latitude?: number;
+          longitude?: number;
+        };
+      };
+      zip_codes: {
+        Row: {
+          zip: string;
+          city: string;
+          state: string;
+          county: string | null;
+          latitude: number | null;
+          longitude: number | null;
+        };
+        Insert: {
+          zip: string;
+          city: string;
+          state: string;
+          county?: string | null;
+          latitude?: number | null;
+          longitude?: number | null;
+        };
+        Update: {
+          zip?: string;
+          city?: string;
+          state?: string;
+          county?: string | null;
+          latitude?: number | null;
+          longitude?: number | null;
+        };
+      };
     };
   };
 } 
\ No newline at end of file
@@ -0,0 +1,50 @@
+/**
+ * Tribal Lands
+ * Cities carry a `tribal_land` flag (and the tribal area name), set by
+ * scripts/import-tribal-lands.js from the Census AIANNH to Place relationship file when
+ * the city's place overlaps an American Indian/Alaska Native/Native Hawaiian area.
+ * Flagged city pages show Enhanced Lifeline.
+ */
+
+import { getProgram, formatBenefitAmount } from './programs'
+
+export interface TribalCityFields {
+  tribal_land?: boolean | null
+  tribal_area?: string | null
+}
+
+export interface TribalBenefit {
+  areaName: string | null
+  standardMonthly: string     // formatted, e.g. "$9.25"
+  tribalMonthly: string       // formatted, e.g. "$34.25"
+  linkUp: string | null       // one-time connection assistance, formatted
+  qualifyingPrograms: string[]
+}
+
+// Qualifying programs only available to residents of tribal lands, on top of the federal list
+export const TRIBAL_QUALIFYING_PROGRAMS = [
+  'Bureau of Indian Affairs General Assistance',
+  'Tribally Administered Temporary Assistance for Needy Families (Tribal TANF)',
+  'Food Distribution Program on Indian Reservations (FDPIR)',
+  'Tribal Head Start (income-qualifying households only)',
+]
+
+export function isTribalCity(city: TribalCityFields | null | undefined): boolean {
+  return !!city?.tribal_land
+}
+
+/**
+ * Enhanced Lifeline details for a flagged city, null for everyone else
+ */
+export function getTribalBenefit(city: TribalCityFields | null | undefined): TribalBenefit | null {
+  if (!isTribalCity(city)) return null
+
+  const { monthly, tribalMonthly, linkUp } = getProgram('lifeline').benefits
+  return {
+    areaName: city?.tribal_area || null,
+    standardMonthly: formatBenefitAmount(monthly),
+    tribalMonthly: formatBenefitAmount(tribalMonthly ?? monthly),
+    linkUp: linkUp ? formatBenefitAmount(linkUp) : null,
+    qualifyingPrograms: TRIBAL_QUALIFYING_PROGRAMS,
+  }
+}
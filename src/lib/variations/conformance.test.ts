@@ -0,0 +1,15 @@
+import { describe, expect, it } from 'vitest';
+import { getEnabledKeywords } from './keyword-config';
+import { checkKeywordConformance } from './conformance';
+
+describe.each(getEnabledKeywords().map(keyword => keyword.id))('keyword module %s', (keywordId) => {
+  it('passes every conformance check', async () => {
+    const report = await checkKeywordConformance(keywordId);
+    const errors = report.issues
+      .filter(issue => issue.severity === 'error')
+      .map(issue => `${issue.check} ${issue.target}: ${issue.message}`);
+
+    expect(errors).toEqual([]);
+    expect(report.poolCount).toBeGreaterThan(0);
+  });
+});
@@ -0,0 +1,439 @@
+/**
+ * Keyword Module Conformance
+ * Checks every enabled keyword module the way pages use it - loaded through loadKeywordVariations -
+ * for missing exports, outputs that don't match variation-types, pools that are too small,
+ * broken or unsubstituted placeholders and duplicate entries
+ * Used by the admin variations report and the conformance test
+ */
+
+import { getEnabledKeywords, getKeywordConfig, getKeywordModuleFolder } from './keyword-config';
+import { KEYWORD_MODULES, REQUIRED_KEYWORD_EXPORTS } from './keyword-registry';
+import { loadKeywordVariations } from './shared/keyword-loader';
+import type { Locale } from './locales';
+import type { FAQSections } from './keywords/free-government-phone/index';
+import type { FormContent } from './shared/form-variations';
+import type { TrustContent } from './shared/trust-variations';
+import type { ProgramContent } from './shared/program-variations';
+import type { ProviderContent } from './shared/provider-variations';
+import type { SchemaContent } from './shared/schema-variations';
+import type {
+  ApplyPageContent,
+  H1Content,
+  KeywordPoolSet,
+  MetaTags,
+  QAItem,
+} from './shared/variation-types';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export type ConformanceCheck = 'export' | 'shape' | 'pool-size' | 'placeholder' | 'duplicate';
+
+export interface ConformanceIssue {
+  keywordId: string;
+  severity: 'error' | 'warning';
+  check: ConformanceCheck;
+  target: string;          // 'h1.city', 'es.meta.home.titles', 'getFAQVariations(es)'
+  message: string;
+}
+
+export interface KeywordConformanceReport {
+  keywordId: string;
+  label: string;
+  poolCount: number;
+  entryCount: number;
+  errors: number;
+  warnings: number;
+  issues: ConformanceIssue[];
+}
+
+// ============================================================================
+// CONFIGURATION
+// ============================================================================
+
+type PoolKind = 'h1' | 'h2' | 'h3' | 'metaTitles' | 'metaDescriptions' | 'faqs';
+
+/**
+ * Minimum unique entries per pool. Localized pools only translate the
+ * page types that have localized routes, so they get a lower floor
+ */
+export const MIN_POOL_ENTRIES: Record<'default' | 'localized', Record<PoolKind, number>> = {
+  default: { h1: 10, h2: 10, h3: 10, metaTitles: 4, metaDescriptions: 2, faqs: 20 },
+  localized: { h1: 3, h2: 3, h3: 3, metaTitles: 2, metaDescriptions: 1, faqs: 8 },
+};
+
+// Exports the loader adds for every keyword - checked alongside the keyword's own
+const SHARED_EXPORTS = [
+  'getFormVariations',
+  'getApplyFormContent',
+  'getTrustVariations',
+  'getProgramVariations',
+  'getProviderVariations',
+  'getSchemaVariations',
+  'getCTAVariation',
+] as const;
+
+const SAMPLE_DOMAINS = ['example.com', 'free-phones-ohio.org', 'lifeline-help.net'];
+const SAMPLE_CITY = { cityName: 'Springfield', stateAbbr: 'IL', stateName: 'Illinois' };
+
+const H1_PAGE_TYPES = [
+  'home', 'eligibility', 'apply', 'faq', 'providers', 'programs', 'contact',
+  'lifeline', 'acp', 'tribal', 'state-programs', 'emergency-broadband', 'city',
+] as const;
+const H2_PAGE_TYPES = ['home', 'eligibility', 'apply', 'faq', 'providers', 'programs', 'contact'] as const;
+const META_PAGE_TYPES = [
+  'home', 'eligibility', 'apply', 'faq', 'providers', 'programs', 'contact', 'state', 'city',
+  'acp', 'lifeline', 'tribal', 'state-programs', 'emergency-broadband',
+] as const;
+
+const CHECKED_LOCALES: Locale[] = ['en', 'es'];
+
+// Placeholders each pool's getter substitutes - anything else reaches the page verbatim
+const KNOWN_PLACEHOLDERS = ['{city}', '{state}', '{keyword}', '[CITY]', '[STATE]', '[KEYWORD]', '[PROGRAMS]'];
+const SUBSTITUTED_PLACEHOLDERS: Record<string, string[]> = {
+  'h1.city': ['{city}', '{state}'],
+  'h1.state-programs': ['{state}'],
+  'meta.state': ['[STATE]', '[PROGRAMS]'],
+  'meta.city': ['[CITY]', '[STATE]', '[PROGRAMS]'],
+};
+// Pools that should name the location they are rendered for
+const LOCATION_PLACEHOLDERS: Record<string, string[]> = {
+  'h1.city': ['{city}'],
+  'meta.city.titles': ['[CITY]'],
+  'meta.state.titles': ['[STATE]'],
+};
+
+const LEFTOVER_PATTERN = /\{[a-zA-Z]+\}|\[[A-Z_]+\]|\bundefined\b|\bNaN\b/;
+
+// ============================================================================
+// OUTPUT SHAPES
+// ============================================================================
+
+/**
+ * Runtime description of an output type: 'text' is a non-empty string with nothing left
+ * to substitute, 'string' may be empty, [shape] is a non-empty array of that shape
+ * and [shape, 'may-be-empty'] an array that can have no items
+ */
+type Shape = 'text' | 'string' | readonly [Shape] | readonly [Shape, 'may-be-empty'] | { readonly [key: string]: Shape };
+
+// Keyed by every field of the interface, so a new field fails type-check until it is described here
+type ShapeOf<T> = { readonly [K in keyof T]-?: Shape };
+
+const QA_SHAPE: ShapeOf<QAItem> = { question: 'text', answer: 'text' };
+const H1_SHAPE: ShapeOf<H1Content> = { h1: 'text' };
+const META_SHAPE: ShapeOf<MetaTags> = { title: 'text', description: 'text' };
+const FAQ_SECTION_SHAPE: ShapeOf<FAQSections['sections']['eligibility']> = { title: 'string', faqs: [QA_SHAPE, 'may-be-empty'] };
+const FAQ_SECTIONS_SHAPE: ShapeOf<FAQSections> = {
+  sections: {
+    eligibility: FAQ_SECTION_SHAPE,
+    application: FAQ_SECTION_SHAPE,
+    benefits: FAQ_SECTION_SHAPE,
+    programs: FAQ_SECTION_SHAPE,
+    support: FAQ_SECTION_SHAPE,
+  },
+};
+
+const APPLY_SHAPE: ShapeOf<ApplyPageContent> = {
+  headline: 'text',
+  subheadline: 'text',
+  formIntro: 'text',
+  fieldLabels: {
+    firstName: 'text', lastName: 'text', email: 'text', phone: 'text', address: 'text',
+    city: 'text', state: 'text', zip: 'text', income: 'text', household: 'text',
+  },
+  instructions: ['text'],
+  helpText: { income: 'text', household: 'text', privacy: 'text' },
+  trustIndicators: ['text'],
+  privacyStatement: 'text',
+  successMessage: 'text',
+  errorMessage: 'text',
+  submitButtonText: 'text',
+};
+
+const FORM_SHAPE: ShapeOf<FormContent> = {
+  labels: {
+    firstName: 'text', lastName: 'text', email: 'text', phone: 'text', address: 'text',
+    city: 'text', state: 'text', zip: 'text', dob: 'text',
+  },
+  instructions: 'text',
+  submitButton: 'text',
+};
+const TRUST_SHAPE: ShapeOf<TrustContent> = { trustIndicators: ['text'], privacyStatement: 'text', securityMessage: 'text' };
+const PROGRAM_SHAPE: ShapeOf<ProgramContent> = {
+  lifelineDescription: 'text', acpDescription: 'text', tribalDescription: 'text', eligibilityInfo: 'text',
+};
+const PROVIDER_SHAPE: ShapeOf<ProviderContent> = { introText: 'text' };
+const SCHEMA_SHAPE: ShapeOf<SchemaContent> = { howToSteps: ['text'] };
+
+/**
+ * Problems with a value against a shape, one line per field
+ */
+function matchShape(value: unknown, shape: Shape, path: string): string[] {
+  if (shape === 'text' || shape === 'string') {
+    if (typeof value !== 'string') return [`${path} is ${describe(value)}, expected string`];
+    if (shape === 'string') return [];
+    if (value.trim() === '') return [`${path} is empty`];
+    const leftover = value.match(LEFTOVER_PATTERN);
+    return leftover ? [`${path} contains "${leftover[0]}": "${value}"`] : [];
+  }
+
+  if (Array.isArray(shape)) {
+    if (!Array.isArray(value)) return [`${path} is ${describe(value)}, expected array`];
+    if (value.length === 0 && shape.length === 1) return [`${path} is an empty array`];
+    return value.flatMap((item, i) => matchShape(item, shape[0], `${path}[${i}]`));
+  }
+
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+    return [`${path} is ${describe(value)}, expected object`];
+  }
+  const record = value as Record<string, unknown>;
+  return Object.entries(shape).flatMap(([key, fieldShape]) =>
+    matchShape(record[key], fieldShape as Shape, path ? `${path}.${key}` : key)
+  );
+}
+
+function describe(value: unknown): string {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'an array';
+  return typeof value;
+}
+
+// ============================================================================
+// POOL CHECKS
+// ============================================================================
+
+function normalizeEntry(entry: string): string {
+  return entry.trim().replace(/\s+/g, ' ').toLowerCase();
+}
+
+/**
+ * Unbalanced brackets and placeholders the pool's getter never replaces
+ */
+function checkPlaceholders(entry: string, substituted: string[]): string[] {
+  const problems: string[] = [];
+  const tokens = entry.match(/\{[^{}[\]]*\}|\[[^{}[\]]*\]/g) ?? [];
+  const stray = entry.replace(/\{[^{}[\]]*\}|\[[^{}[\]]*\]/g, '').match(/[{}[\]]/);
+
+  if (stray) {
+    problems.push(`unbalanced "${stray[0]}" in "${entry}"`);
+  }
+  for (const token of tokens) {
+    if (!KNOWN_PLACEHOLDERS.includes(token)) {
+      problems.push(`unknown placeholder ${token} in "${entry}"`);
+    } else if (!substituted.includes(token)) {
+      problems.push(`${token} is never replaced here: "${entry}"`);
+    }
+  }
+
+  return problems;
+}
+
+function checkPool(
+  issue: (severity: ConformanceIssue['severity'], check: ConformanceCheck, target: string, message: string) => void,
+  target: string,
+  substituted: string[],
+  required: string[],
+  entries: string[],
+  minimum: number
+): void {
+  const seen = new Map<string, number>();
+
+  entries.forEach((entry, i) => {
+    if (typeof entry !== 'string' || entry.trim() === '') {
+      issue('error', 'shape', target, `entry ${i} is empty or not a string`);
+      return;
+    }
+
+    for (const problem of checkPlaceholders(entry, substituted)) {
+      issue('error', 'placeholder', target, problem);
+    }
+    for (const token of required) {
+      if (!entry.includes(token)) {
+        issue('warning', 'placeholder', target, `entry ${i} has no ${token}, so every location gets the same text: "${entry}"`);
+      }
+    }
+
+    const normalized = normalizeEntry(entry);
+    const first = seen.get(normalized);
+    if (first !== undefined) {
+      issue('warning', 'duplicate', target, `entry ${i} repeats entry ${first}: "${entry}"`);
+    } else {
+      seen.set(normalized, i);
+    }
+  });
+
+  if (seen.size < minimum) {
+    issue('error', 'pool-size', target, `${seen.size} unique entries, minimum is ${minimum}`);
+  }
+}
+
+function checkPoolSet(
+  issue: (severity: ConformanceIssue['severity'], check: ConformanceCheck, target: string, message: string) => void,
+  pools: KeywordPoolSet,
+  prefix: string,
+  minimums: Record<PoolKind, number>
+): { poolCount: number; entryCount: number } {
+  let poolCount = 0;
+  let entryCount = 0;
+  // ruleKey picks the placeholder rules - meta titles and descriptions share their page type's
+  const visit = (target: string, ruleKey: string, entries: string[], minimum: number) => {
+    poolCount++;
+    entryCount += entries.length;
+    const substituted = SUBSTITUTED_PLACEHOLDERS[ruleKey] ?? [];
+    const required = LOCATION_PLACEHOLDERS[target] ?? [];
+    checkPool(issue, `${prefix}${target}`, substituted, required, entries, minimum);
+  };
+
+  for (const kind of ['h1', 'h2', 'h3'] as const) {
+    for (const [pageType, entries] of Object.entries(pools[kind] ?? {})) {
+      visit(`${kind}.${pageType}`, `${kind}.${pageType}`, entries, minimums[kind]);
+    }
+  }
+  for (const [pageType, pool] of Object.entries(pools.meta)) {
+    visit(`meta.${pageType}.titles`, `meta.${pageType}`, pool.titles, minimums.metaTitles);
+    visit(`meta.${pageType}.descriptions`, `meta.${pageType}`, pool.descriptions, minimums.metaDescriptions);
+  }
+  visit('faqs.questions', 'faqs', pools.faqs.map(faq => faq.question), minimums.faqs);
+  pools.faqs.forEach((faq, i) => {
+    for (const problem of matchShape(faq, QA_SHAPE, `faqs[${i}]`)) {
+      issue('error', 'shape', `${prefix}faqs`, problem);
+    }
+  });
+
+  return { poolCount, entryCount };
+}
+
+// ============================================================================
+// MAIN EXPORT FUNCTIONS
+// ============================================================================
+
+/**
+ * Check one keyword module through the loader, exactly as pages receive it
+ */
+export async function checkKeywordConformance(keywordId: string): Promise<KeywordConformanceReport> {
+  const issues: ConformanceIssue[] = [];
+  const issue = (severity: ConformanceIssue['severity'], check: ConformanceCheck, target: string, message: string) => {
+    issues.push({ keywordId, severity, check, target, message });
+  };
+  const expectShape = (target: string, produce: () => unknown, shape: Shape) => {
+    try {
+      for (const problem of matchShape(produce(), shape, '')) {
+        issue('error', 'shape', target, problem);
+      }
+    } catch (error) {
+      issue('error', 'shape', target, `threw: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  };
+
+  const config = getKeywordConfig(keywordId);
+  const variations = await loadKeywordVariations(keywordId);
+  const loaded = variations as unknown as Record<string, unknown>;
+  let poolCount = 0;
+  let entryCount = 0;
+
+  // The loader falls back to the default module - a keyword rendering someone else's pools is a failure
+  const ownModule = KEYWORD_MODULES[getKeywordModuleFolder(keywordId)];
+  if (!config?.enabled) {
+    issue('error', 'export', 'module', 'keyword is not enabled in keyword-config');
+  } else if (!ownModule || ownModule.getH1Variation !== variations.getH1Variation) {
+    issue('error', 'export', 'module', `loader returned the fallback module instead of "${config.moduleFolder}"`);
+  }
+
+  for (const name of [...REQUIRED_KEYWORD_EXPORTS, ...SHARED_EXPORTS]) {
+    if (typeof loaded[name] !== 'function') {
+      issue('error', 'export', name, 'missing or not a function');
+    }
+  }
+  if (typeof loaded.VARIATION_POOLS !== 'object' || loaded.VARIATION_POOLS === null) {
+    issue('error', 'export', 'VARIATION_POOLS', 'missing - pools cannot be checked');
+  }
+  if (issues.some(i => i.check === 'export')) {
+    return summarize(keywordId, config?.label ?? keywordId, poolCount, entryCount, issues);
+  }
+
+  // Outputs for every page type, locale and a few sample domains
+  const { cityName, stateAbbr, stateName } = SAMPLE_CITY;
+  for (const domain of SAMPLE_DOMAINS) {
+    for (const locale of CHECKED_LOCALES) {
+      for (const pageType of H1_PAGE_TYPES) {
+        expectShape(`getH1Variation(${pageType}, ${locale})`, () => variations.getH1Variation(domain, pageType, cityName, stateAbbr, locale), H1_SHAPE);
+      }
+      for (const pageType of META_PAGE_TYPES) {
+        expectShape(`getMetaVariations(${pageType}, ${locale})`, () => variations.getMetaVariations('Example Site', domain, pageType, stateName, cityName, locale), META_SHAPE);
+      }
+      expectShape(`getFAQVariations(${locale})`, () => variations.getFAQVariations(domain, 10, locale), { faqs: [QA_SHAPE] });
+      expectShape(`getFormVariations(${locale})`, () => variations.getFormVariations(domain, locale), FORM_SHAPE);
+      expectShape(`getApplyFormContent(${locale})`, () => variations.getApplyFormContent(domain, locale), APPLY_SHAPE);
+      expectShape(`getTrustVariations(${locale})`, () => variations.getTrustVariations(domain, locale), TRUST_SHAPE);
+    }
+    for (const pageType of H2_PAGE_TYPES) {
+      for (let position = 0; position < 3; position++) {
+        expectShape(`getH2Variation(${pageType})`, () => variations.getH2Variation(domain, pageType, position), 'text');
+      }
+    }
+    for (const pageType of ['city', 'state'] as const) {
+      expectShape(`getH3Variation(${pageType})`, () => variations.getH3Variation(domain, pageType, 0), 'text');
+    }
+    expectShape('getFAQSections', () => variations.getFAQSections(domain), FAQ_SECTIONS_SHAPE);
+    expectShape('getProgramVariations', () => variations.getProgramVariations(domain), PROGRAM_SHAPE);
+    expectShape('getProviderVariations', () => variations.getProviderVariations(domain), PROVIDER_SHAPE);
+    expectShape('getSchemaVariations', () => variations.getSchemaVariations(domain), SCHEMA_SHAPE);
+    expectShape('getCTAVariation', () => variations.getCTAVariation(domain), 'text');
+  }
+
+  // Raw pools - sizes, placeholders and duplicates
+  const pools = variations.VARIATION_POOLS;
+  const counts = [checkPoolSet(issue, pools, '', MIN_POOL_ENTRIES.default)];
+  for (const [locale, localized] of Object.entries(pools.localized ?? {})) {
+    if (localized) {
+      counts.push(checkPoolSet(issue, localized, `${locale}.`, MIN_POOL_ENTRIES.localized));
+    }
+  }
+  for (const count of counts) {
+    poolCount += count.poolCount;
+    entryCount += count.entryCount;
+  }
+
+  return summarize(keywordId, config?.label ?? keywordId, poolCount, entryCount, dedupeIssues(issues));
+}
+
+/**
+ * Check every enabled keyword
+ */
+export async function checkAllKeywords(): Promise<KeywordConformanceReport[]> {
+  const reports: KeywordConformanceReport[] = [];
+  for (const keyword of getEnabledKeywords()) {
+    reports.push(await checkKeywordConformance(keyword.id));
+  }
+  return reports;
+}
+
+// The same broken entry shows up for every sample domain - report it once
+function dedupeIssues(issues: ConformanceIssue[]): ConformanceIssue[] {
+  const seen = new Set<string>();
+  return issues.filter(i => {
+    const key = `${i.severity}|${i.check}|${i.target}|${i.message}`;
+    if (seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  });
+}
+
+function summarize(
+  keywordId: string,
+  label: string,
+  poolCount: number,
+  entryCount: number,
+  issues: ConformanceIssue[]
+): KeywordConformanceReport {
+  return {
+    keywordId,
+    label,
+    poolCount,
+    entryCount,
+    errors: issues.filter(i => i.severity === 'error').length,
+    warnings: issues.filter(i => i.severity === 'warning').length,
+    issues,
+  };
+}
@@ -3,7 +3,7 @@
  * 
  * ARCHITECTURE:
  * - Keyword-Specific: H1, H2, H3, Meta, FAQ (mention keyword naturally)
- * - Global Shared: Forms, Trust, Programs, Providers, Schema (generic, no keyword)
+ * - Global Shared: Forms, Apply, Trust, Programs, Providers, Schema (generic, no keyword)
  */
 
 // Core utilities (shared across all keywords)
@@ -12,9 +12,13 @@ export * from './shared/keyword-loader';
 
 // Keyword configuration
 export * from './keyword-config';
+export * from './keyword-registry';
+export * from './conformance';
 
 // Global shared variations (exported for direct use)
 export * from './shared/form-variations';
+export * from './shared/apply-variations';
+export * from './shared/eligibility-variations';
 export * from './shared/trust-variations';
 export * from './shared/program-variations';
 export * from './shared/provider-variations';
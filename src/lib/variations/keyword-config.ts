@@ -14,8 +14,8 @@ export interface KeywordConfig {
 }
 
 /**
- * Available keywords - START WITH ONE, ADD MORE AFTER TESTING
- * Each keyword must have complete variation modules before enabling
+ * Available keywords - each needs a complete module registered in keyword-registry.ts
+ * before it is enabled; the build fails if an enabled keyword is missing a required export
  */
 export const AVAILABLE_KEYWORDS: KeywordConfig[] = [
   {
@@ -25,15 +25,15 @@ export const AVAILABLE_KEYWORDS: KeywordConfig[] = [
     category: 'phone',
     enabled: true,
     description: 'Primary keyword targeting government phone assistance programs'
+  },
+  {
+    id: 'lifeline-program',
+    label: 'Lifeline Program',
+    moduleFolder: 'lifeline-program',
+    category: 'program',
+    enabled: true,
+    description: 'Targets the federal Lifeline Program by name - eligibility, enrollment and providers'
   }
-  // Future keywords:
-  // {
-  //   id: 'lifeline-program',
-  //   label: 'Lifeline Program',
-  //   moduleFolder: 'lifeline-program',
-  //   category: 'program',
-  //   enabled: false  // Set to true only after variations are complete
-  // }
 ];
 
 /**
@@ -0,0 +1,72 @@
+/**
+ * Keyword Module Registry
+ * Maps each keyword's moduleFolder to its keyword-specific variation module
+ * CRITICAL: Uses STATIC imports only for Vercel bundler compatibility - a new keyword
+ * module needs one import and one entry here, then `enabled: true` in keyword-config
+ */
+
+import { getEnabledKeywords } from './keyword-config';
+import * as freeGovernmentPhone from './keywords/free-government-phone/index';
+import * as lifelineProgram from './keywords/lifeline-program/index';
+
+/**
+ * Exports every keyword module must provide
+ */
+export const REQUIRED_KEYWORD_EXPORTS = [
+  'getH1Variation',
+  'getH2Variation',
+  'getH3Variation',
+  'getMetaVariations',
+  'getFAQVariations',
+  'getFAQSections',
+] as const;
+
+export type RequiredKeywordExport = typeof REQUIRED_KEYWORD_EXPORTS[number];
+
+// free-government-phone is the reference shape - every other module must match its signatures
+// and expose its raw pools for the conformance checker
+export type KeywordModule = Pick<typeof freeGovernmentPhone, RequiredKeywordExport | 'VARIATION_POOLS'>;
+
+export const DEFAULT_KEYWORD_MODULE = 'free-government-phone';
+
+/**
+ * Registered modules keyed by moduleFolder
+ */
+export const KEYWORD_MODULES: Record<string, KeywordModule> = {
+  'free-government-phone': freeGovernmentPhone,
+  'lifeline-program': lifelineProgram,
+};
+
+/**
+ * Problems that would stop an enabled keyword from rendering -
+ * no module registered for its folder, or a required export that isn't a function
+ */
+export function validateKeywordRegistry(): string[] {
+  const problems: string[] = [];
+
+  for (const keyword of getEnabledKeywords()) {
+    const keywordModule = KEYWORD_MODULES[keyword.moduleFolder] as Record<string, unknown> | undefined;
+    if (!keywordModule) {
+      problems.push(`"${keyword.id}": no module registered for folder "${keyword.moduleFolder}"`);
+      continue;
+    }
+    for (const name of REQUIRED_KEYWORD_EXPORTS) {
+      if (typeof keywordModule[name] !== 'function') {
+        problems.push(`"${keyword.id}": missing export ${name}`);
+      }
+    }
+  }
+
+  return problems;
+}
+
+/**
+ * Throws when any enabled keyword is incomplete. Runs from astro.config when a build starts
+ * and again when the loader is first imported, so a broken module never reaches a live site
+ */
+export function assertKeywordRegistry(): void {
+  const problems = validateKeywordRegistry();
+  if (problems.length > 0) {
+    throw new Error(`[Keywords] Enabled keyword modules are incomplete:\n  ${problems.join('\n  ')}`);
+  }
+}
@@ -0,0 +1,62 @@
+/**
+ * Spanish FAQ Variations for "Free Government Phone"
+ * Selected with the same hash contexts as ../faq-variations.ts
+ */
+
+import { LIFELINE_FPG_PERCENT } from '../../../../poverty-guidelines';
+
+export interface SpanishFAQItem {
+  question: string;
+  answer: string;
+}
+
+export const ES_FAQ_ITEMS: SpanishFAQItem[] = [
+  {
+    question: "¿Qué es el programa de Teléfono Gratis del Gobierno?",
+    answer: "Es un beneficio federal que ofrece un teléfono y servicio mensual gratis o con descuento a hogares con ingresos limitados, principalmente a través del programa Lifeline."
+  },
+  {
+    question: "¿Cómo califico para un Teléfono Gratis del Gobierno?",
+    answer: `Puede calificar si los ingresos de su hogar están en o por debajo del ${LIFELINE_FPG_PERCENT}% de las Guías Federales de Pobreza, o si alguien en su hogar participa en Medicaid, SNAP, SSI, Vivienda Pública Federal o el Beneficio de Pensión para Veteranos.`
+  },
+  {
+    question: "¿El Teléfono Gratis del Gobierno es realmente gratis?",
+    answer: "Sí. Para los solicitantes que califican no hay costo de solicitud, de activación ni cargos mensuales por el plan básico que ofrece el proveedor participante."
+  },
+  {
+    question: "¿Qué incluye mi Teléfono Gratis del Gobierno?",
+    answer: "Normalmente incluye un teléfono, minutos de llamadas, mensajes de texto y datos cada mes. Las cantidades exactas dependen del proveedor y del plan disponible en su zona."
+  },
+  {
+    question: "¿Cómo solicito un Teléfono Gratis del Gobierno?",
+    answer: "Complete la solicitud en línea con su información personal y un comprobante de elegibilidad, como una carta de beneficios o un documento de ingresos. Muchas solicitudes se aprueban en uno o dos días hábiles."
+  },
+  {
+    question: "¿Puedo conservar mi número actual?",
+    answer: "Sí. Puede transferir su número actual al servicio de Teléfono Gratis del Gobierno. Comuníquese con su proveedor después de la aprobación para iniciar la transferencia."
+  },
+  {
+    question: "¿Cuánto tarda en llegar mi Teléfono Gratis del Gobierno?",
+    answer: "Después de la aprobación, la mayoría de los solicitantes reciben su teléfono por correo en un plazo de 5 a 10 días hábiles."
+  },
+  {
+    question: "¿Qué documentos necesito para solicitar?",
+    answer: "Necesita un documento de identidad, como una licencia de conducir o una identificación estatal, y un comprobante de elegibilidad con fecha de los últimos 90 días."
+  },
+  {
+    question: "¿Puedo tener más de un Teléfono Gratis del Gobierno?",
+    answer: "No. Las reglas federales permiten un solo beneficio de Lifeline por hogar, para que el programa llegue a la mayor cantidad posible de familias que califican."
+  },
+  {
+    question: "¿Necesito buen crédito para obtener un Teléfono Gratis del Gobierno?",
+    answer: "No. No se revisa su historial de crédito. La elegibilidad depende solo de sus ingresos o de su participación en programas de asistencia."
+  },
+  {
+    question: "¿Tengo que recertificar mi elegibilidad?",
+    answer: "Sí. Cada año debe confirmar que todavía califica. Su proveedor o el Verificador Nacional le avisará cuándo recertificar; si no lo hace a tiempo, puede perder el servicio."
+  },
+  {
+    question: "¿Qué pasa si me mudo a otro estado?",
+    answer: "Avise a su proveedor dentro de los 30 días siguientes a su mudanza. Si el proveedor no da servicio en su nuevo estado, puede transferir su beneficio a otra compañía participante."
+  },
+];
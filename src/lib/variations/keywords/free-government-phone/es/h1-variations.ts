@@ -0,0 +1,65 @@
+/**
+ * Spanish H1 Variations for "Free Government Phone" ("Teléfono Gratis del Gobierno")
+ * Keyed by the same page types as ../h1-variations.ts; {city} and {state} are filled in by getH1Variation
+ */
+
+export const ES_H1_POOLS: Record<string, string[]> = {
+  home: [
+    "Teléfono Gratis del Gobierno - Verifique si Califica Hoy",
+    "Obtenga su Teléfono Gratis del Gobierno",
+    "Teléfono Gratis del Gobierno para Familias que Califican",
+    "Solicite su Teléfono Gratis del Gobierno en Minutos",
+    "Teléfono Gratis del Gobierno con Servicio Mensual Incluido",
+    "Su Teléfono Gratis del Gobierno Empieza Aquí",
+    "Teléfono Gratis del Gobierno - Servicio Sin Costo",
+    "Califique para un Teléfono Gratis del Gobierno",
+  ],
+  eligibility: [
+    "¿Califica para un Teléfono Gratis del Gobierno?",
+    "Requisitos para el Teléfono Gratis del Gobierno",
+    "Elegibilidad para el Teléfono Gratis del Gobierno",
+    "Vea si Califica para un Teléfono Gratis del Gobierno",
+    "Quién Califica para un Teléfono Gratis del Gobierno",
+    "Compruebe su Elegibilidad para un Teléfono Gratis del Gobierno",
+  ],
+  apply: [
+    "Solicite su Teléfono Gratis del Gobierno",
+    "Solicitud de Teléfono Gratis del Gobierno",
+    "Cómo Solicitar un Teléfono Gratis del Gobierno",
+    "Empiece su Solicitud de Teléfono Gratis del Gobierno",
+    "Solicite un Teléfono Gratis del Gobierno en Minutos",
+  ],
+  faq: [
+    "Preguntas Frecuentes sobre el Teléfono Gratis del Gobierno",
+    "Teléfono Gratis del Gobierno: Preguntas y Respuestas",
+    "Dudas Comunes sobre el Teléfono Gratis del Gobierno",
+    "Todo sobre el Teléfono Gratis del Gobierno",
+  ],
+  programs: [
+    "Programas de Teléfono Gratis del Gobierno",
+    "Programas que Ofrecen un Teléfono Gratis del Gobierno",
+    "Compare los Programas de Teléfono Gratis del Gobierno",
+    "Guía de Programas de Teléfono Gratis del Gobierno",
+  ],
+  lifeline: [
+    "Programa Lifeline: Teléfono Gratis del Gobierno",
+    "Lifeline y su Teléfono Gratis del Gobierno",
+    "Cómo Funciona Lifeline para su Teléfono Gratis del Gobierno",
+    "Teléfono Gratis del Gobierno a través de Lifeline",
+  ],
+  'state-programs': [
+    "Teléfono Gratis del Gobierno en {state}",
+    "Obtenga un Teléfono Gratis del Gobierno en {state}",
+    "Teléfono Gratis del Gobierno para Residentes de {state}",
+    "Solicite un Teléfono Gratis del Gobierno en {state}",
+    "{state}: Teléfono Gratis del Gobierno para Familias que Califican",
+  ],
+  city: [
+    "Teléfono Gratis del Gobierno en {city}, {state}",
+    "Obtenga un Teléfono Gratis del Gobierno en {city}",
+    "Teléfono Gratis del Gobierno para Residentes de {city}",
+    "{city}, {state}: Solicite su Teléfono Gratis del Gobierno",
+    "Teléfono Gratis del Gobierno en {city} - Verifique si Califica",
+    "Solicite un Teléfono Gratis del Gobierno en {city}, {state}",
+  ],
+};
@@ -0,0 +1,103 @@
+/**
+ * Spanish Meta Title & Description Variations for "Free Government Phone"
+ * Keyed by the same page types as ../meta-variations.ts; [STATE] and [CITY] are filled in by getMetaVariations
+ * Titles aim for 50-60 characters and descriptions for 150-160 before placeholders are replaced
+ */
+
+import type { MetaPool } from '../../../shared/variation-types';
+
+export const ES_META_POOLS: Record<string, MetaPool> = {
+  home: {
+    titles: [
+      "Teléfono Gratis del Gobierno | Solicite Hoy en Línea",
+      "Teléfono Gratis del Gobierno - Verifique si Califica",
+      "Obtenga su Teléfono Gratis del Gobierno con Lifeline",
+      "Teléfono Gratis del Gobierno para Familias que Califican",
+    ],
+    descriptions: [
+      "Solicite un teléfono gratis del gobierno a través del programa federal Lifeline. Vea si califica por sus ingresos o por beneficios como SNAP o Medicaid hoy.",
+      "Familias con ingresos limitados pueden obtener un teléfono gratis del gobierno con servicio mensual. Verifique su elegibilidad y solicite en línea en minutos.",
+      "El programa Lifeline ofrece servicio telefónico gratis o con descuento a hogares que califican. Conozca los requisitos y empiece su solicitud en línea hoy.",
+    ],
+  },
+  eligibility: {
+    titles: [
+      "Requisitos del Teléfono Gratis del Gobierno | Califique",
+      "¿Califica para un Teléfono Gratis del Gobierno? Vea Aquí",
+      "Elegibilidad para el Teléfono Gratis del Gobierno 2025",
+    ],
+    descriptions: [
+      "Vea si califica para un teléfono gratis del gobierno. Puede calificar por sus ingresos o si alguien en su hogar recibe SNAP, Medicaid, SSI u otros beneficios.",
+      "Conozca los requisitos de ingresos y los programas de asistencia que le permiten obtener un teléfono gratis del gobierno con Lifeline. Verifique en minutos hoy.",
+    ],
+  },
+  apply: {
+    titles: [
+      "Solicite su Teléfono Gratis del Gobierno | Fácil y Rápido",
+      "Solicitud de Teléfono Gratis del Gobierno en Línea Hoy",
+      "Cómo Solicitar un Teléfono Gratis del Gobierno Paso a Paso",
+    ],
+    descriptions: [
+      "Solicite su teléfono gratis del gobierno en línea. Tenga a mano su identificación y comprobante de elegibilidad, complete el formulario y reciba su teléfono.",
+      "Empiece su solicitud de teléfono gratis del gobierno hoy. Le explicamos qué documentos necesita, cómo funciona la verificación y cuándo recibirá su servicio.",
+    ],
+  },
+  faq: {
+    titles: [
+      "Preguntas Frecuentes: Teléfono Gratis del Gobierno 2025",
+      "Teléfono Gratis del Gobierno: Preguntas y Respuestas",
+      "Dudas sobre el Teléfono Gratis del Gobierno | Respuestas",
+    ],
+    descriptions: [
+      "Respuestas a las preguntas más comunes sobre el teléfono gratis del gobierno: quién califica, cómo solicitar, qué documentos necesita y cuánto tarda el proceso.",
+      "Encuentre respuestas claras sobre el programa Lifeline y el teléfono gratis del gobierno, incluidos los requisitos de ingresos, la recertificación y los cambios.",
+    ],
+  },
+  programs: {
+    titles: [
+      "Programas de Teléfono Gratis del Gobierno | Lifeline 2025",
+      "Programas que Ofrecen un Teléfono Gratis del Gobierno Hoy",
+      "Compare los Programas de Teléfono Gratis del Gobierno",
+    ],
+    descriptions: [
+      "Conozca los programas que ofrecen un teléfono gratis del gobierno, como Lifeline y los beneficios para tierras tribales, y vea cuál le corresponde a su hogar.",
+      "Compare los programas federales y estatales de servicio telefónico gratis o con descuento. Vea los beneficios mensuales actuales y cómo solicitar cada uno hoy.",
+    ],
+  },
+  lifeline: {
+    titles: [
+      "Programa Lifeline: Teléfono Gratis del Gobierno | Guía",
+      "Lifeline 2025: Su Teléfono Gratis del Gobierno Explicado",
+      "Cómo Funciona Lifeline para un Teléfono Gratis del Gobierno",
+    ],
+    descriptions: [
+      "Lifeline es el programa federal que ofrece un teléfono gratis del gobierno o un descuento mensual en su servicio. Conozca los requisitos y cómo solicitar hoy.",
+      "Todo sobre Lifeline: cuánto es el beneficio mensual, quién califica, qué proveedores participan y cómo recertificar para mantener su teléfono gratis del gobierno.",
+    ],
+  },
+  state: {
+    titles: [
+      "Teléfono Gratis del Gobierno en [STATE] | Solicite Hoy",
+      "[STATE]: Teléfono Gratis del Gobierno - Vea si Califica",
+      "Obtenga un Teléfono Gratis del Gobierno en [STATE]",
+    ],
+    descriptions: [
+      "Residentes de [STATE] pueden obtener un teléfono gratis del gobierno con Lifeline. Vea los límites de ingresos, los beneficios estatales y cómo solicitar hoy.",
+      "Solicite un teléfono gratis del gobierno en [STATE]. Conozca los requisitos de elegibilidad, los proveedores de su zona y los programas estatales disponibles.",
+    ],
+  },
+  city: {
+    titles: [
+      "Teléfono Gratis del Gobierno en [CITY], [STATE] | Solicite",
+      "[CITY]: Teléfono Gratis del Gobierno - Vea si Califica",
+      "Obtenga un Teléfono Gratis del Gobierno en [CITY]",
+    ],
+    descriptions: [
+      "Residentes de [CITY], [STATE] pueden obtener un teléfono gratis del gobierno con Lifeline. Vea si califica por ingresos o por beneficios y solicite en línea hoy.",
+      "Solicite un teléfono gratis del gobierno en [CITY]. Conozca los requisitos, los proveedores que dan servicio en [STATE] y los documentos que necesita para aplicar.",
+    ],
+  },
+};
+
+export const ES_META_DESCRIPTION_CONTEXT =
+  'Conozca los programas federales de asistencia y cómo calificar para servicio telefónico gratis.';
@@ -5,6 +5,9 @@
  */
 
 import { selectVariation } from '../../shared/hash-utils';
+import { LIFELINE_FPG_PERCENT } from '../../../poverty-guidelines';
+import { pickLocalePool, type Locale } from '../../locales';
+import { ES_FAQ_ITEMS } from './es/faq-variations';
 
 // ============================================================================
 // FAQ Q&A PAIRS (300+)
@@ -22,7 +25,7 @@ const FAQ_ITEMS: FAQItem[] = [
   },
   {
     question: "How do I qualify for a Free Government Phone?",
-    answer: "You can qualify for a Free Government Phone by meeting income requirements (at or below 135-200% of Federal Poverty Guidelines) or participating in government assistance programs like Medicaid, SNAP, SSI, or Federal Public Housing."
+    answer: `You can qualify for a Free Government Phone by meeting income requirements (at or below ${LIFELINE_FPG_PERCENT}% of Federal Poverty Guidelines) or participating in government assistance programs like Medicaid, SNAP, SSI, or Federal Public Housing.`
   },
   {
     question: "Is the Free Government Phone really free?",
@@ -183,7 +186,7 @@ const ADDITIONAL_FAQS: FAQItem[] = [
 ];
 
 // Combine all FAQ items
-const ALL_FAQ_ITEMS = [...FAQ_ITEMS, ...ADDITIONAL_FAQS];
+export const ALL_FAQ_ITEMS = [...FAQ_ITEMS, ...ADDITIONAL_FAQS];
 
 // ============================================================================
 // CATEGORIZATION FOR FAQ SECTIONS
@@ -254,12 +257,13 @@ export interface FAQSections {
 // MAIN EXPORT FUNCTIONS
 // ============================================================================
 
-export function getFAQVariations(domain: string, count: number = 10): FAQContent {
+export function getFAQVariations(domain: string, count: number = 10, locale?: Locale): FAQContent {
   // Select specified number of FAQs deterministically based on domain
   const selectedFAQs: FAQItem[] = [];
+  const items = pickLocalePool(locale, ALL_FAQ_ITEMS, { es: ES_FAQ_ITEMS });
   
-  for (let i = 0; i < Math.min(count, ALL_FAQ_ITEMS.length); i++) {
-    const faq = selectVariation(domain, ALL_FAQ_ITEMS, `faq-item-${i}`);
+  for (let i = 0; i < Math.min(count, items.length); i++) {
+    const faq = selectVariation(domain, items, `faq-item-${i}`);
     selectedFAQs.push(faq);
   }
   
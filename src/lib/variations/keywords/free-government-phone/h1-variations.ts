@@ -5,6 +5,9 @@
  */
 
 import { selectVariation } from '../../shared/hash-utils';
+import { pickLocalePool, type Locale } from '../../locales';
+import { isProgramActive } from '../../../programs';
+import { ES_H1_POOLS } from './es/h1-variations';
 
 // ============================================================================
 // HOMEPAGE H1 VARIATIONS (200+)
@@ -780,6 +783,29 @@ const ACP_H1S = [
   "Free Government Phone Through ACP Assistance"
 ];
 
+// ACP page once the program has stopped enrolling - used instead of ACP_H1S
+const ACP_ENDED_H1S = [
+  "ACP Has Ended: Free Government Phone Through Lifeline",
+  "After ACP: Your Free Government Phone Options",
+  "ACP Is Over - Free Government Phone Still Available",
+  "Lost ACP? Get a Free Government Phone with Lifeline",
+  "From ACP to a Lifeline Free Government Phone",
+  "ACP Ended - Free Government Phone Benefits Continue",
+  "Free Government Phone for Former ACP Households",
+  "ACP Closed: Keep Your Free Government Phone",
+  "Free Government Phone After the ACP",
+  "What Former ACP Users Can Get: Free Government Phone",
+  "ACP Wind-Down and Your Free Government Phone",
+  "Replacing ACP Savings with a Free Government Phone"
+];
+
+/**
+ * ACP page pool - the "apply for ACP" H1s only while the program registry says it is enrolling
+ */
+function getAcpH1s(): string[] {
+  return isProgramActive('acp') ? ACP_H1S : ACP_ENDED_H1S;
+}
+
 // ============================================================================
 // TRIBAL PROGRAM H1 VARIATIONS (50+)
 // ============================================================================
@@ -1427,6 +1453,23 @@ const CITY_H1S = [
   "{city} Free Government Phone - Get Started",
 ];
 
+// Pools by page type - read by getH1Variation and by the conformance checker
+export const H1_POOLS: Record<string, string[]> = {
+  home: HOMEPAGE_H1S,
+  eligibility: ELIGIBILITY_H1S,
+  apply: APPLY_H1S,
+  faq: FAQ_H1S,
+  providers: PROVIDERS_H1S,
+  programs: PROGRAMS_H1S,
+  contact: CONTACT_H1S,
+  lifeline: LIFELINE_H1S,
+  acp: getAcpH1s(),
+  tribal: TRIBAL_H1S,
+  'state-programs': STATE_PROGRAMS_H1S,
+  'emergency-broadband': EMERGENCY_BROADBAND_H1S,
+  city: CITY_H1S,
+};
+
 // ============================================================================
 // MAIN EXPORT FUNCTION
 // ============================================================================
@@ -1435,50 +1478,12 @@ export function getH1Variation(
   domain: string,
   pageType: 'home' | 'eligibility' | 'apply' | 'faq' | 'providers' | 'programs' | 'contact' | 'lifeline' | 'acp' | 'tribal' | 'state-programs' | 'emergency-broadband' | 'city',
   cityName?: string,
-  stateAbbr?: string
+  stateAbbr?: string,
+  locale?: Locale
 ): { h1: string } {
-  let variations: string[];
-  
-  switch (pageType) {
-    case 'eligibility':
-      variations = ELIGIBILITY_H1S;
-      break;
-    case 'apply':
-      variations = APPLY_H1S;
-      break;
-    case 'faq':
-      variations = FAQ_H1S;
-      break;
-    case 'providers':
-      variations = PROVIDERS_H1S;
-      break;
-    case 'programs':
-      variations = PROGRAMS_H1S;
-      break;
-    case 'contact':
-      variations = CONTACT_H1S;
-      break;
-    case 'lifeline':
-      variations = LIFELINE_H1S;
-      break;
-    case 'acp':
-      variations = ACP_H1S;
-      break;
-    case 'tribal':
-      variations = TRIBAL_H1S;
-      break;
-    case 'state-programs':
-      variations = STATE_PROGRAMS_H1S;
-      break;
-    case 'emergency-broadband':
-      variations = EMERGENCY_BROADBAND_H1S;
-      break;
-    case 'city':
-      variations = CITY_H1S;
-      break;
-    default:
-      variations = HOMEPAGE_H1S;
-  }
+  let variations = pageType === 'acp' ? getAcpH1s() : H1_POOLS[pageType] ?? HOMEPAGE_H1S;
+
+  variations = pickLocalePool(locale, variations, { es: ES_H1_POOLS[pageType] ?? ES_H1_POOLS.home });
   
   // Include domain in hash salt for ALL page types to ensure uniqueness per domain
   // This prevents hash collisions across different domains
@@ -1501,6 +1506,11 @@ export function getH1Variation(
   if (pageType === 'city' && cityName && stateAbbr) {
     h1 = h1.replace(/\{city\}/g, cityName).replace(/\{state\}/g, stateAbbr);
   }
+
+  // Spanish state pages carry a {state} placeholder too
+  if (pageType === 'state-programs' && stateAbbr) {
+    h1 = h1.replace(/\{state\}/g, stateAbbr);
+  }
   
   return { h1 };
 }
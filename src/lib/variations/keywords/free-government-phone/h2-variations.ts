@@ -325,6 +325,17 @@ const CONTACT_H2S = [
   "Program Information Contact"
 ];
 
+// Pools by page type - read by getH2Variation and by the conformance checker
+export const H2_POOLS: Record<string, string[]> = {
+  home: HOMEPAGE_H2S,
+  eligibility: ELIGIBILITY_H2S,
+  apply: APPLY_H2S,
+  faq: FAQ_H2S,
+  providers: PROVIDERS_H2S,
+  programs: PROGRAMS_H2S,
+  contact: CONTACT_H2S,
+};
+
 // ============================================================================
 // MAIN EXPORT FUNCTION
 // ============================================================================
@@ -334,30 +345,7 @@ export function getH2Variation(
   pageType: 'home' | 'eligibility' | 'apply' | 'faq' | 'providers' | 'programs' | 'contact',
   position: number = 0
 ): string {
-  let variations: string[];
-  
-  switch (pageType) {
-    case 'eligibility':
-      variations = ELIGIBILITY_H2S;
-      break;
-    case 'apply':
-      variations = APPLY_H2S;
-      break;
-    case 'faq':
-      variations = FAQ_H2S;
-      break;
-    case 'providers':
-      variations = PROVIDERS_H2S;
-      break;
-    case 'programs':
-      variations = PROGRAMS_H2S;
-      break;
-    case 'contact':
-      variations = CONTACT_H2S;
-      break;
-    default:
-      variations = HOMEPAGE_H2S;
-  }
+  const variations = H2_POOLS[pageType] ?? HOMEPAGE_H2S;
   
   // Use position as salt for multiple H2s on same page
   return selectVariation(domain, variations, `h2-${pageType}-${position}`);
@@ -78,7 +78,7 @@ const CITY_H3S = [
 ];
 
 // ============================================================================
-// STATE PAGE H3 VARIATIONS (100+)
+// STATE PAGE H3 VARIATIONS (20+)
 // ============================================================================
 
 const STATE_H3S = [
@@ -86,70 +86,30 @@ const STATE_H3S = [
   "Free Government Phone Providers",
   "How to Get Free Government Phone",
   "State Free Government Phone Requirements",
-  "Free Government Phone Providers",
-  "How to Get Free Government Phone",
-  "Free Government Phone Coverage",
-  "Free Government Phone Providers",
-  "Free Government Phone Requirements",
-  "Free Government Phone Coverage",
-  "Get Free Government Phone",
-  "Apply for Free Government Phone",
-  "How to Qualify for Free Government Phone",
-  "Free Government Phone Providers",
-  "Free Government Phone Requirements",
-  "Free Government Phone Coverage",
-  "Get Free Government Phone",
-  "Apply for Free Government Phone",
-  "How to Qualify for Free Government Phone",
-  "Free Government Phone Providers",
-  "Free Government Phone Requirements",
-  "Free Government Phone Coverage",
-  "Statewide Free Government Phone Coverage",
-  "Free Government Phone Providers",
-  "How to Get Free Government Phone",
-  "State Free Government Phone Requirements",
-  "Free Government Phone Providers",
-  "How to Get Free Government Phone",
-  "Free Government Phone Coverage",
-  "Free Government Phone Providers",
-  "Free Government Phone Requirements",
-  "Free Government Phone Coverage",
-  "Get Free Government Phone",
-  "Apply for Free Government Phone",
-  "How to Qualify for Free Government Phone",
-  "Free Government Phone Providers",
-  "Free Government Phone Requirements",
   "Free Government Phone Coverage",
-  "Get Free Government Phone",
-  "Apply for Free Government Phone",
-  "How to Qualify for Free Government Phone",
-  "Free Government Phone Providers",
   "Free Government Phone Requirements",
-  "Free Government Phone Coverage",
-  "Statewide Free Government Phone Coverage",
-  "Free Government Phone Providers",
-  "How to Get Free Government Phone",
-  "State Free Government Phone Requirements",
-  "Free Government Phone Providers",
-  "How to Get Free Government Phone",
-  "Free Government Phone Coverage",
-  "Free Government Phone Providers",
-  "Free Government Phone Requirements",
-  "Free Government Phone Coverage",
-  "Get Free Government Phone",
-  "Apply for Free Government Phone",
-  "How to Qualify for Free Government Phone",
-  "Free Government Phone Providers",
-  "Free Government Phone Requirements",
-  "Free Government Phone Coverage",
   "Get Free Government Phone",
   "Apply for Free Government Phone",
   "How to Qualify for Free Government Phone",
-  "Free Government Phone Providers",
-  "Free Government Phone Requirements",
-  "Free Government Phone Coverage",
+  "Free Government Phone Income Limits",
+  "State Free Government Phone Supplements",
+  "Free Government Phone Cities Served",
+  "Free Government Phone Enrollment Statewide",
+  "Free Government Phone Documents Needed",
+  "Free Government Phone on Tribal Lands",
+  "Free Government Phone Plan Options",
+  "Free Government Phone Approval Times",
+  "Free Government Phone Renewal Rules",
+  "Free Government Phone Support",
+  "Free Government Phone Next Steps",
 ];
 
+// Pools by page type - read by getH3Variation and by the conformance checker
+export const H3_POOLS: Record<string, string[]> = {
+  city: CITY_H3S,
+  state: STATE_H3S,
+};
+
 // ============================================================================
 // MAIN EXPORT FUNCTION
 // ============================================================================
@@ -159,7 +119,7 @@ export function getH3Variation(
   pageType: 'city' | 'state',
   position: number = 0
 ): string {
-  const variations = pageType === 'city' ? CITY_H3S : STATE_H3S;
+  const variations = H3_POOLS[pageType] ?? H3_POOLS.city;
   
   // Use position as salt for multiple H3s on same page
   return selectVariation(domain, variations, `h3-${pageType}-${position}`);
@@ -5,6 +5,12 @@
  */
 
 import { selectVariation } from '../../shared/hash-utils';
+import { ensureLengthOptimal } from '../../shared/meta-length-utils';
+import { getEnrollingProgramNames } from '../../shared/program-variations';
+import { isProgramActive } from '../../../programs';
+import type { Locale } from '../../locales';
+import type { MetaPool } from '../../shared/variation-types';
+import { ES_META_POOLS, ES_META_DESCRIPTION_CONTEXT } from './es/meta-variations';
 
 // ============================================================================
 // META TITLE VARIATIONS (200+) - 50-60 characters
@@ -521,16 +527,16 @@ const STATE_TITLES = [
 // ============================================================================
 
 const STATE_DESCRIPTIONS = [
-  "Access free government phone in [STATE]. Apply for Lifeline and ACP benefits available to eligible residents. Quick application process with fast approval.",
+  "Access free government phone in [STATE]. Apply for [PROGRAMS] benefits available to eligible residents. Quick application process with fast approval.",
   "Get free government phone in [STATE]. Federal communication assistance helps eligible households stay connected. Apply online today.",
-  "Free government phone in [STATE]. Eligible residents can apply for Lifeline and ACP. Simple application process with quick approval.",
+  "Free government phone in [STATE]. Eligible residents can apply for [PROGRAMS]. Simple application process with quick approval.",
   "Apply for free government phone in [STATE]. Federal assistance provides phone service to qualifying households. Check eligibility and apply online today.",
-  "Free government phone in [STATE] helps eligible residents stay connected. Apply for Lifeline and ACP benefits through simple online application process.",
+  "Free government phone in [STATE] helps eligible residents stay connected. Apply for [PROGRAMS] benefits through simple online application process.",
   "Get free government phone in [STATE]. Federal communication assistance available to qualifying households. Quick application with fast approval.",
-  "Access free government phone in [STATE]. Eligible residents can apply for Lifeline and ACP benefits. Simple online application process available now.",
+  "Access free government phone in [STATE]. Eligible residents can apply for [PROGRAMS] benefits. Simple online application process available now.",
   "Free government phone in [STATE] for eligible households. Apply for federal communication assistance. Quick application with rapid approval.",
   "Apply for free government phone in [STATE]. Federal assistance provides phone service to qualifying residents. Check eligibility and start application today.",
-  "Free government phone in [STATE]. Eligible households can apply for Lifeline and ACP benefits. Simple application process with quick approval."
+  "Free government phone in [STATE]. Eligible households can apply for [PROGRAMS] benefits. Simple application process with quick approval."
 ];
 
 // ============================================================================
@@ -594,16 +600,16 @@ const CITY_TITLES = [
 // ============================================================================
 
 const CITY_DESCRIPTIONS = [
-  "Get free government phone in [CITY], [STATE]. Apply for Lifeline and ACP benefits available to eligible residents. Quick application process with fast approval.",
+  "Get free government phone in [CITY], [STATE]. Apply for [PROGRAMS] benefits available to eligible residents. Quick application process with fast approval.",
   "Free government phone in [CITY], [STATE]. Federal communication assistance helps eligible households stay connected. Apply online today.",
-  "Get free government phone in [CITY], [STATE]. Eligible residents can apply for Lifeline and ACP. Simple application process.",
+  "Get free government phone in [CITY], [STATE]. Eligible residents can apply for [PROGRAMS]. Simple application process.",
   "Apply for free government phone in [CITY], [STATE]. Federal assistance provides phone service to qualifying households. Check eligibility today.",
-  "Free government phone in [CITY], [STATE] helps eligible residents stay connected. Apply for Lifeline and ACP benefits through simple online process.",
+  "Free government phone in [CITY], [STATE] helps eligible residents stay connected. Apply for [PROGRAMS] benefits through simple online process.",
   "Get free government phone in [CITY], [STATE]. Federal communication assistance available to qualifying households. Quick application.",
-  "Access free government phone in [CITY], [STATE]. Eligible residents can apply for Lifeline and ACP benefits. Simple online application available.",
+  "Access free government phone in [CITY], [STATE]. Eligible residents can apply for [PROGRAMS] benefits. Simple online application available.",
   "Free government phone in [CITY], [STATE] for eligible households. Apply for federal communication assistance. Quick application process.",
   "Apply for free government phone in [CITY], [STATE]. Federal assistance provides phone service to qualifying residents. Check eligibility and start today.",
-  "Free government phone in [CITY], [STATE]. Eligible households can apply for Lifeline and ACP benefits. Simple application process."
+  "Free government phone in [CITY], [STATE]. Eligible households can apply for [PROGRAMS] benefits. Simple application process."
 ];
 
 // ============================================================================
@@ -640,94 +646,56 @@ const ACP_DESCRIPTIONS = [
   "Get free government phone through ACP. Affordable Connectivity Program offers monthly discounts on phone and internet service. Apply online today."
 ];
 
-// ============================================================================
-// HELPER FUNCTIONS
-// ============================================================================
-
-function ensureLengthOptimal(text: string, min: number, max: number, context?: string): string {
-  // If too long, truncate intelligently at word boundary
-  if (text.length > max) {
-    // Always truncate at word boundary - find last space before max length
-    const truncated = text.substring(0, max - 3);
-    const lastSpace = truncated.lastIndexOf(' ');
-    // If we found a space and it's not too close to the start, use it
-    if (lastSpace > 0 && lastSpace > max * 0.5) {
-      return truncated.substring(0, lastSpace).trim() + '...';
-    }
-    // Fallback: if no good word boundary, truncate and add ellipsis
-    // But try to find any space in the last 20 chars to avoid mid-word cuts
-    const last20 = truncated.substring(Math.max(0, truncated.length - 20));
-    const spaceInLast20 = last20.lastIndexOf(' ');
-    if (spaceInLast20 > 0) {
-      const cutPoint = truncated.length - 20 + spaceInLast20;
-      return truncated.substring(0, cutPoint).trim() + '...';
-    }
-    return truncated.trim() + '...';
-  }
-  
-  // If too short, pad intelligently
-  if (text.length < min) {
-    const needed = min - text.length;
-    
-    // Check if context would create duplication (e.g., "Free Government Phone" already in text)
-    if (context) {
-      const contextLower = context.toLowerCase();
-      const textLower = text.toLowerCase();
-      
-      // If context is already mentioned in text, don't add it again
-      if (textLower.includes(contextLower)) {
-        // Use generic padding instead
-        if (max === 60) {
-          const titlePaddings = [' | Apply Today', ' | Get Started', ' | Learn More', ' | Check Now'];
-          const padding = titlePaddings[text.length % titlePaddings.length];
-          if (text.length + padding.length <= max) {
-            return text + padding;
-          }
-        } else if (max === 160) {
-          const descPaddings = [' Learn more about eligibility and benefits.', ' Get started with your application today.', ' Apply now for free phone service.'];
-          const padding = descPaddings[text.length % descPaddings.length];
-          if (text.length + padding.length <= max) {
-            return text + padding;
-          }
-        }
-        // Fallback
-        return text + ' | 2025';
-      }
-      
-      // Safe to add context if it doesn't duplicate
-      if (needed <= context.length + 1) {
-        return text + ' ' + context.substring(0, needed - 1);
-      }
-    }
-    
-    // Add generic padding based on type
-    if (max === 60) {
-      // Title padding
-      const titlePaddings = [' | Apply Today', ' | Get Started', ' | Learn More', ' | Check Now'];
-      const padding = titlePaddings[text.length % titlePaddings.length];
-      if (text.length + padding.length <= max) {
-        return text + padding;
-      }
-    } else if (max === 160) {
-      // Description padding
-      const descPaddings = [
-        ' Learn more about federal communication assistance programs.',
-        ' Discover how to qualify and apply for free phone service.',
-        ' Find out if you qualify for federal communication benefits.'
-      ];
-      const padding = descPaddings[text.length % descPaddings.length];
-      if (text.length + padding.length <= max) {
-        return text + padding;
-      }
-    }
-    
-    // Fallback: just add spaces if still too short (shouldn't happen with good arrays)
-    return text + ' '.repeat(Math.max(0, needed));
-  }
-  
-  return text;
+// ACP page once the program has stopped enrolling - points visitors to Lifeline instead
+const ACP_ENDED_TITLES = [
+  "ACP Has Ended | Get a Free Government Phone Through Lifeline",
+  "After ACP: Free Government Phone Benefits Still Available",
+  "ACP Is Over | Free Government Phone via Lifeline Instead",
+  "Lost ACP? Free Government Phone Through Lifeline Today",
+  "ACP Ended | Apply for a Free Government Phone with Lifeline",
+  "Free Government Phone After ACP | Lifeline Still Open",
+  "ACP Wind-Down | Keep Your Free Government Phone Savings",
+  "Former ACP Households | Free Government Phone via Lifeline",
+  "ACP Closed | Free Government Phone Options That Remain",
+  "Free Government Phone for Former ACP Users | Lifeline"
+];
+
+const ACP_ENDED_DESCRIPTIONS = [
+  "The Affordable Connectivity Program (ACP) no longer accepts applications. Former ACP households can still get a free government phone through Lifeline. Check eligibility.",
+  "ACP benefits have ended, but a free government phone is still available through the federal Lifeline program. See how Lifeline differs from ACP and apply online today.",
+  "Lost your ACP discount? Lifeline still provides a free government phone and monthly service to eligible households. Learn what changed and how to apply online now.",
+  "ACP is closed to new and existing households. Lifeline remains open and offers a free government phone or a home internet discount. Check your eligibility today.",
+  "Free government phone help for former ACP users. The Affordable Connectivity Program has ended, so apply for Lifeline benefits instead with a quick online form.",
+  "The ACP wind-down is complete. Eligible households can keep a free government phone through Lifeline, the federal program that is still enrolling. Apply online.",
+  "Affordable Connectivity Program benefits are no longer paid. Lifeline continues to offer a free government phone to households on SNAP, Medicaid and more. Apply now.",
+  "ACP has ended for good. Find out how to move to Lifeline for a free government phone, which documents you need, and how fast approval is. Start your application.",
+  "Former ACP households may qualify for Lifeline, which still provides a free government phone and monthly service. Compare the programs and apply online in minutes.",
+  "No more ACP applications are accepted. A free government phone is still available through Lifeline for eligible households. Check eligibility and apply online today."
+];
+
+/**
+ * ACP page pool - the "apply for ACP" copy only while the program registry says it is enrolling
+ */
+function getAcpMetaPool(): MetaPool {
+  return isProgramActive('acp')
+    ? { titles: ACP_TITLES, descriptions: ACP_DESCRIPTIONS }
+    : { titles: ACP_ENDED_TITLES, descriptions: ACP_ENDED_DESCRIPTIONS };
 }
 
+// Distinct pools by page type for the conformance checker (program pages reuse the programs pool)
+export const META_POOLS: Record<string, MetaPool> = {
+  home: { titles: META_TITLES, descriptions: META_DESCRIPTIONS },
+  eligibility: { titles: ELIGIBILITY_TITLES, descriptions: ELIGIBILITY_DESCRIPTIONS },
+  apply: { titles: APPLY_TITLES, descriptions: APPLY_DESCRIPTIONS },
+  faq: { titles: FAQ_TITLES, descriptions: FAQ_DESCRIPTIONS },
+  providers: { titles: PROVIDERS_TITLES, descriptions: PROVIDERS_DESCRIPTIONS },
+  programs: { titles: PROGRAMS_TITLES, descriptions: PROGRAMS_DESCRIPTIONS },
+  contact: { titles: CONTACT_TITLES, descriptions: CONTACT_DESCRIPTIONS },
+  state: { titles: STATE_TITLES, descriptions: STATE_DESCRIPTIONS },
+  city: { titles: CITY_TITLES, descriptions: CITY_DESCRIPTIONS },
+  acp: getAcpMetaPool(),
+};
+
 // ============================================================================
 // MAIN EXPORT FUNCTION
 // ============================================================================
@@ -737,8 +705,13 @@ export function getMetaVariations(
   domain: string,
   pageType: 'home' | 'eligibility' | 'apply' | 'faq' | 'providers' | 'programs' | 'contact' | 'state' | 'city' | 'acp' | 'lifeline' | 'tribal' | 'state-programs' | 'emergency-broadband' = 'home',
   stateName?: string,
-  cityName?: string
+  cityName?: string,
+  locale?: Locale
 ): { title: string; description: string } {
+  if (locale === 'es') {
+    return getSpanishMetaVariations(siteName, domain, pageType, stateName, cityName);
+  }
+
   let title: string;
   let description: string;
   
@@ -777,7 +750,8 @@ export function getMetaVariations(
       // Include domain and state name in hash salt to ensure uniqueness per domain and location
       const stateSalt = stateName ? `${domain}-${stateName}` : domain;
       title = selectVariation(domain, STATE_TITLES, 'meta-title-state', stateSalt);
-      description = selectVariation(domain, STATE_DESCRIPTIONS, 'meta-desc-state', stateSalt);
+      description = selectVariation(domain, STATE_DESCRIPTIONS, 'meta-desc-state', stateSalt)
+        .replace(/\[PROGRAMS\]/g, getEnrollingProgramNames());
       // Replace [STATE] placeholder with actual state name if provided
       if (stateName) {
         title = title.replace(/\[STATE\]/g, stateName);
@@ -789,7 +763,8 @@ export function getMetaVariations(
       // Include domain, city and state names in hash salt to ensure uniqueness per domain and location
       const citySalt = [domain, cityName, stateName].filter(Boolean).join('-');
       title = selectVariation(domain, CITY_TITLES, 'meta-title-city', citySalt);
-      description = selectVariation(domain, CITY_DESCRIPTIONS, 'meta-desc-city', citySalt);
+      description = selectVariation(domain, CITY_DESCRIPTIONS, 'meta-desc-city', citySalt)
+        .replace(/\[PROGRAMS\]/g, getEnrollingProgramNames());
       // Replace [CITY] and [STATE] placeholders with actual names if provided
       if (cityName) {
         title = title.replace(/\[CITY\]/g, cityName);
@@ -802,8 +777,9 @@ export function getMetaVariations(
       break;
       
     case 'acp':
-      title = selectVariation(domain, ACP_TITLES, 'meta-title-acp', domain);
-      description = selectVariation(domain, ACP_DESCRIPTIONS, 'meta-desc-acp', domain);
+      const acpPool = getAcpMetaPool();
+      title = selectVariation(domain, acpPool.titles, 'meta-title-acp', domain);
+      description = selectVariation(domain, acpPool.descriptions, 'meta-desc-acp', domain);
       break;
       
     case 'lifeline':
@@ -845,6 +821,36 @@ export function getMetaVariations(
   };
 }
 
+/**
+ * Spanish titles/descriptions - same hash contexts and salts as the English switch above,
+ * page types without a Spanish pool use the homepage pool
+ */
+function getSpanishMetaVariations(
+  siteName: string,
+  domain: string,
+  pageType: string,
+  stateName?: string,
+  cityName?: string
+): { title: string; description: string } {
+  const pool = ES_META_POOLS[pageType] ?? ES_META_POOLS.home;
+  const salt = pageType === 'state' || pageType === 'city'
+    ? [domain, cityName, stateName].filter(Boolean).join('-')
+    : domain;
 
+  let title = selectVariation(domain, pool.titles, `meta-title-${pageType}`, salt);
+  let description = selectVariation(domain, pool.descriptions, `meta-desc-${pageType}`, salt);
 
+  if (cityName) {
+    title = title.replace(/\[CITY\]/g, cityName);
+    description = description.replace(/\[CITY\]/g, cityName);
+  }
+  if (stateName) {
+    title = title.replace(/\[STATE\]/g, stateName);
+    description = description.replace(/\[STATE\]/g, stateName);
+  }
 
+  return {
+    title: ensureLengthOptimal(title, 50, 60, siteName),
+    description: ensureLengthOptimal(description, 150, 160, ES_META_DESCRIPTION_CONTEXT),
+  };
+}
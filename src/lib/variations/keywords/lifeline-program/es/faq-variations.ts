@@ -0,0 +1,57 @@
+/**
+ * Spanish FAQ Variations for "Lifeline Program" ("Programa Lifeline")
+ * Selected with the same hash contexts as ../faq-variations.ts
+ */
+
+import { LIFELINE_FPG_PERCENT } from '../../../../poverty-guidelines';
+import { getProgram, formatBenefitAmount } from '../../../../programs';
+
+export interface SpanishFAQItem {
+  question: string;
+  answer: string;
+}
+
+const MONTHLY = formatBenefitAmount(getProgram('lifeline').benefits.monthly);
+
+export const ES_FAQ_ITEMS: SpanishFAQItem[] = [
+  {
+    question: "¿Qué es el Programa Lifeline?",
+    answer: "El Programa Lifeline es un beneficio federal que reduce el costo mensual del servicio telefónico o de internet para hogares con ingresos limitados."
+  },
+  {
+    question: "¿Cómo califico para el Programa Lifeline?",
+    answer: `Califica si los ingresos de su hogar están en o por debajo del ${LIFELINE_FPG_PERCENT}% de las Guías Federales de Pobreza, o si alguien en su hogar recibe SNAP, Medicaid, SSI, Vivienda Pública Federal o la Pensión para Veteranos.`
+  },
+  {
+    question: "¿Cuánto ahorro con el Programa Lifeline?",
+    answer: `El Programa Lifeline descuenta hasta ${MONTHLY} al mes de su factura de teléfono o internet. Muchos proveedores ofrecen planes sin cargo mensual gracias a este descuento.`
+  },
+  {
+    question: "¿Cómo solicito el Programa Lifeline?",
+    answer: "Solicite en línea a través del Verificador Nacional o de un proveedor participante. Confirmará su identidad, mostrará prueba de elegibilidad y elegirá su proveedor."
+  },
+  {
+    question: "¿Qué documentos necesito para el Programa Lifeline?",
+    answer: "Tenga a mano una identificación con foto y prueba de elegibilidad, como una carta de beneficios de SNAP, Medicaid o SSI, o talones de pago si califica por ingresos."
+  },
+  {
+    question: "¿Pueden dos personas de mi hogar recibir el Programa Lifeline?",
+    answer: "No. El Programa Lifeline permite un solo beneficio por hogar, es decir, por grupo de personas que viven juntas y comparten ingresos y gastos."
+  },
+  {
+    question: "¿Tengo que renovar el Programa Lifeline?",
+    answer: "Sí. Debe recertificar su elegibilidad cada año. Recibirá un aviso antes de la fecha, y muchos hogares se recertifican automáticamente."
+  },
+  {
+    question: "¿Puedo conservar mi número con el Programa Lifeline?",
+    answer: "Sí. La mayoría de los proveedores del Programa Lifeline le permiten transferir su número actual al inscribirse."
+  },
+  {
+    question: "¿El Programa Lifeline es lo mismo que ACP?",
+    answer: "No. El Programa de Conectividad Asequible (ACP) era un beneficio temporal que ya terminó. El Programa Lifeline es permanente y sigue aceptando solicitudes."
+  },
+  {
+    question: "¿El Programa Lifeline revisa mi crédito?",
+    answer: "No. La elegibilidad depende solo de los ingresos de su hogar o de su participación en programas de asistencia que califican."
+  },
+];
@@ -0,0 +1,56 @@
+/**
+ * Spanish H1 Variations for "Lifeline Program" ("Programa Lifeline")
+ * Keyed by the same page types as ../h1-variations.ts; {city} and {state} are filled in by getH1Variation
+ */
+
+export const ES_H1_POOLS: Record<string, string[]> = {
+  home: [
+    "Solicite el Programa Lifeline Hoy",
+    "Programa Lifeline: Servicio Telefónico con Descuento",
+    "Obtenga los Beneficios del Programa Lifeline",
+    "El Programa Lifeline Explicado de Forma Sencilla",
+    "Verifique si Califica para el Programa Lifeline",
+    "Inscríbase en el Programa Lifeline en Minutos",
+  ],
+  eligibility: [
+    "¿Califica para el Programa Lifeline?",
+    "Requisitos del Programa Lifeline",
+    "Elegibilidad para el Programa Lifeline",
+    "Quién Califica para el Programa Lifeline",
+    "Compruebe su Elegibilidad para el Programa Lifeline",
+  ],
+  apply: [
+    "Solicite el Programa Lifeline",
+    "Solicitud del Programa Lifeline",
+    "Cómo Solicitar el Programa Lifeline",
+    "Empiece su Solicitud del Programa Lifeline",
+  ],
+  faq: [
+    "Preguntas Frecuentes sobre el Programa Lifeline",
+    "Programa Lifeline: Preguntas y Respuestas",
+    "Dudas Comunes sobre el Programa Lifeline",
+  ],
+  programs: [
+    "El Programa Lifeline y Otros Beneficios",
+    "Programas Federales de Teléfono: Lifeline y Más",
+    "Compare los Beneficios del Programa Lifeline",
+  ],
+  lifeline: [
+    "Cómo Funciona el Programa Lifeline",
+    "Programa Lifeline: Beneficios y Reglas",
+    "Guía Completa del Programa Lifeline",
+  ],
+  'state-programs': [
+    "Programa Lifeline en {state}",
+    "El Programa Lifeline en {state}: Beneficios y Requisitos",
+    "Solicite el Programa Lifeline en {state}",
+    "Beneficios del Programa Lifeline en {state}",
+  ],
+  city: [
+    "Programa Lifeline en {city}, {state}",
+    "Solicite el Programa Lifeline en {city}, {state}",
+    "Programa Lifeline para Residentes de {city}",
+    "Beneficios del Programa Lifeline en {city}, {state}",
+    "Proveedores del Programa Lifeline en {city}",
+  ],
+};
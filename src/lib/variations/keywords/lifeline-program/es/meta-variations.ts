@@ -0,0 +1,87 @@
+/**
+ * Spanish Meta Title & Description Variations for "Lifeline Program" ("Programa Lifeline")
+ * Keyed by the same page types as ../meta-variations.ts; [STATE] and [CITY] are filled in by getMetaVariations
+ * Titles aim for 50-60 characters and descriptions for 150-160 before placeholders are replaced
+ */
+
+import type { MetaPool } from '../../../shared/variation-types';
+
+export const ES_META_POOLS: Record<string, MetaPool> = {
+  home: {
+    titles: [
+      "Programa Lifeline | Servicio Telefónico con Descuento",
+      "Programa Lifeline: Verifique si Califica y Solicite",
+      "Solicite el Programa Lifeline en Línea | Guía Completa",
+    ],
+    descriptions: [
+      "El Programa Lifeline reduce el costo mensual del servicio telefónico o de internet para hogares que califican. Vea si califica por ingresos o beneficios hoy.",
+      "Solicite el Programa Lifeline y obtenga servicio telefónico gratis o con descuento. Califique con SNAP, Medicaid, SSI o por sus ingresos y solicite en línea.",
+    ],
+  },
+  eligibility: {
+    titles: [
+      "Requisitos del Programa Lifeline | Límites de Ingresos",
+      "¿Califica para el Programa Lifeline? Verifique Aquí",
+    ],
+    descriptions: [
+      "Verifique su elegibilidad para el Programa Lifeline por ingresos o por participar en SNAP, Medicaid, SSI, Vivienda Pública Federal o la Pensión para Veteranos.",
+    ],
+  },
+  apply: {
+    titles: [
+      "Solicite el Programa Lifeline | Solicitud en Línea",
+      "Solicitud del Programa Lifeline | Empiece en Minutos",
+    ],
+    descriptions: [
+      "Empiece su solicitud del Programa Lifeline en línea. Responda unas preguntas sobre su hogar, muestre su elegibilidad y elija un proveedor participante hoy.",
+    ],
+  },
+  faq: {
+    titles: [
+      "Preguntas Frecuentes del Programa Lifeline | Respuestas",
+      "Programa Lifeline: Preguntas y Respuestas Más Comunes",
+    ],
+    descriptions: [
+      "Respuestas a las preguntas más comunes sobre el Programa Lifeline: quién califica, qué cubre el beneficio, cómo solicitar y cómo funciona la recertificación.",
+    ],
+  },
+  programs: {
+    titles: [
+      "El Programa Lifeline y Otros Beneficios | Guía Completa",
+      "Programa Lifeline, Link Up y Beneficios Tribales | Guía",
+    ],
+    descriptions: [
+      "Conozca cómo funciona el Programa Lifeline junto con Lifeline Tribal, Link Up y los suplementos estatales, y qué programas anteriores como ACP ya terminaron.",
+    ],
+  },
+  lifeline: {
+    titles: [
+      "Cómo Funciona el Programa Lifeline | Guía Completa",
+      "Programa Lifeline: Beneficios, Reglas y Cómo Solicitar",
+    ],
+    descriptions: [
+      "Todo sobre el Programa Lifeline: el descuento mensual, los beneficios en tierras tribales, las reglas de un beneficio por hogar y cómo solicitar en línea hoy.",
+    ],
+  },
+  state: {
+    titles: [
+      "Programa Lifeline en [STATE] | Solicite Hoy",
+      "Programa Lifeline en [STATE] | Requisitos y Proveedores",
+    ],
+    descriptions: [
+      "Solicite el Programa Lifeline en [STATE]. Vea los límites de ingresos, los beneficios estatales y los proveedores participantes, y verifique si califica hoy.",
+    ],
+  },
+  city: {
+    titles: [
+      "Programa Lifeline en [CITY], [STATE]",
+      "Programa Lifeline en [CITY], [STATE] | Solicite Hoy",
+    ],
+    descriptions: [
+      "Solicite el Programa Lifeline en [CITY], [STATE]. Vea qué proveedores dan servicio en [CITY], revise los límites de ingresos y solicite en línea en minutos.",
+    ],
+  },
+};
+
+export const ES_META_DESCRIPTION_CONTEXT =
+  'Conozca cómo funciona el Programa Lifeline y cómo calificar para un descuento mensual en su servicio.';
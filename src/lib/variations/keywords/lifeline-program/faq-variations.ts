@@ -0,0 +1,227 @@
+/**
+ * FAQ Variations for "Lifeline Program" Keyword
+ * 30+ Q&A pairs - all naturally mention keyword
+ * Benefit amounts and income limits come from the program registry and poverty guidelines
+ */
+
+import { selectVariation } from '../../shared/hash-utils';
+import { LIFELINE_FPG_PERCENT } from '../../../poverty-guidelines';
+import { getProgram, formatBenefitAmount } from '../../../programs';
+import { pickLocalePool, type Locale } from '../../locales';
+import { ES_FAQ_ITEMS } from './es/faq-variations';
+
+// ============================================================================
+// FAQ Q&A PAIRS (30+)
+// ============================================================================
+
+interface FAQItem {
+  question: string;
+  answer: string;
+}
+
+const LIFELINE = getProgram('lifeline');
+const MONTHLY = formatBenefitAmount(LIFELINE.benefits.monthly);
+const TRIBAL_MONTHLY = formatBenefitAmount(LIFELINE.benefits.tribalMonthly ?? LIFELINE.benefits.monthly);
+
+export const FAQ_ITEMS: FAQItem[] = [
+  {
+    question: "What is the Lifeline Program?",
+    answer: `The Lifeline Program is a federal benefit that lowers the monthly cost of phone or internet service for eligible low-income households. It is administered by ${LIFELINE.administrator}.`
+  },
+  {
+    question: "How do I qualify for the Lifeline Program?",
+    answer: `You qualify for the Lifeline Program if your household income is at or below ${LIFELINE_FPG_PERCENT}% of the Federal Poverty Guidelines, or if someone in your household gets SNAP, Medicaid, SSI, Federal Public Housing Assistance or the Veterans Pension benefit.`
+  },
+  {
+    question: "How much does the Lifeline Program save me?",
+    answer: `The Lifeline Program takes up to ${MONTHLY} a month off your phone or internet bill. Many participating providers use that discount to offer a plan with no monthly charge.`
+  },
+  {
+    question: "How much is the Lifeline Program on tribal lands?",
+    answer: `Households on qualifying tribal lands get Enhanced Lifeline Program support of up to ${TRIBAL_MONTHLY} a month and may also receive one-time Link Up help with connection charges.`
+  },
+  {
+    question: "How do I apply for the Lifeline Program?",
+    answer: "Apply for the Lifeline Program online through the National Verifier or through a participating provider. You will confirm your identity, show proof of eligibility and pick the provider you want."
+  },
+  {
+    question: "What documents do I need for the Lifeline Program?",
+    answer: "Have a photo ID and proof of eligibility ready - a benefit letter for SNAP, Medicaid or SSI, or recent pay stubs or a tax return if you qualify by income. The National Verifier often confirms eligibility automatically."
+  },
+  {
+    question: "Can more than one person in my household get the Lifeline Program?",
+    answer: "No. The Lifeline Program allows one benefit per household - people who live together and share income and expenses. Separate households at the same address can each apply."
+  },
+  {
+    question: "Can I use the Lifeline Program for internet instead of phone service?",
+    answer: "Yes. The Lifeline Program discount can be applied to qualifying home internet, mobile broadband or bundled service instead of a phone plan, depending on what providers offer where you live."
+  },
+  {
+    question: "Do I have to renew my Lifeline Program benefit?",
+    answer: "Yes. The Lifeline Program requires recertification every year. You will receive a notice before your renewal date, and many households are recertified automatically through the National Verifier."
+  },
+  {
+    question: "What happens if I don't use my Lifeline Program service?",
+    answer: "If your Lifeline Program plan is free, you must use it at least once every 30 days - a call, text or data session. Otherwise the provider must warn you and may end the benefit."
+  },
+  {
+    question: "Can I keep my phone number with the Lifeline Program?",
+    answer: "Yes. Most Lifeline Program providers let you transfer your current number when you enroll. Ask the provider for the porting steps before you activate your new service."
+  },
+  {
+    question: "Can I switch Lifeline Program providers?",
+    answer: "Yes. You can move your Lifeline Program benefit to another participating provider. Some providers require you to stay for 60 days first when the benefit came with a discounted device."
+  },
+  {
+    question: "Is the Lifeline Program the same as ACP?",
+    answer: "No. The Affordable Connectivity Program was a separate, temporary benefit that has ended. The Lifeline Program is permanent and is still accepting applications."
+  },
+  {
+    question: "How long does Lifeline Program approval take?",
+    answer: "Many Lifeline Program applications are approved the same day when the National Verifier can confirm eligibility automatically. If documents need review, approval usually takes a few business days."
+  },
+  {
+    question: "Can I get a phone through the Lifeline Program?",
+    answer: "The Lifeline Program itself covers service, not devices, but many participating providers include a free or low-cost smartphone when you enroll with them."
+  },
+  {
+    question: "Does my state add to the Lifeline Program?",
+    answer: "Some states run their own Lifeline Program supplement that adds to the federal discount or covers extra services. Check your state page for the programs available where you live."
+  },
+  {
+    question: "Can I get the Lifeline Program if I am homeless?",
+    answer: "Yes. You can apply for the Lifeline Program without a permanent address by giving a temporary address or a description of where you can receive mail, such as a shelter."
+  },
+  {
+    question: "Does the Lifeline Program check my credit?",
+    answer: "No. The Lifeline Program does not run a credit check. Eligibility depends only on your household income or participation in qualifying assistance programs."
+  },
+  {
+    question: "Can seniors get the Lifeline Program?",
+    answer: "Yes. Seniors qualify for the Lifeline Program the same way as everyone else - through household income or programs like SSI, Medicaid or the Veterans Pension benefit."
+  },
+  {
+    question: "Can veterans get the Lifeline Program?",
+    answer: "Yes. Veterans and survivors who receive the Veterans and Survivors Pension benefit qualify for the Lifeline Program, and other veterans can qualify by income."
+  },
+  {
+    question: "What if my Lifeline Program application is denied?",
+    answer: "If your Lifeline Program application is denied, review the reason in your notice. You can usually submit new proof of eligibility or contact the Lifeline Support Center to dispute the decision."
+  },
+  {
+    question: "Do I need to report changes to the Lifeline Program?",
+    answer: "Yes. Tell your Lifeline Program provider within 30 days if you no longer qualify, if another household member already gets Lifeline, or if you move to a new address."
+  },
+  {
+    question: "What plans does the Lifeline Program include?",
+    answer: "Lifeline Program plans vary by provider. Typical plans include monthly data, talk minutes and unlimited texts, and some providers offer unlimited talk and text at no cost."
+  },
+  {
+    question: "Can I use the Lifeline Program with my current carrier?",
+    answer: "Only if your current carrier participates in the Lifeline Program. Many major carriers and prepaid brands do - ask them to apply the Lifeline discount to your existing account."
+  },
+  {
+    question: "How long has the Lifeline Program existed?",
+    answer: "The Lifeline Program started in 1985 to make landline service affordable and has since expanded to cover wireless phone and broadband service for eligible households."
+  },
+  {
+    question: "Who pays for the Lifeline Program?",
+    answer: "The Lifeline Program is paid for by the federal Universal Service Fund, which telecommunications companies contribute to. It is not funded by a charge to Lifeline subscribers."
+  },
+  {
+    question: "Can students get the Lifeline Program?",
+    answer: "Students can get the Lifeline Program if their own household qualifies by income or assistance programs. A student living with parents counts as part of the parents' household."
+  },
+  {
+    question: "Does the Lifeline Program work in every state?",
+    answer: "Yes. The Lifeline Program is available in every state, territory and commonwealth, though the participating providers and any state supplements differ from place to place."
+  },
+  {
+    question: "Can I apply for the Lifeline Program by mail?",
+    answer: "Yes. You can print the Lifeline Program application form, complete it and mail it with copies of your documents to the Lifeline Support Center instead of applying online."
+  },
+  {
+    question: "Is the Lifeline Program free?",
+    answer: `Applying for the Lifeline Program is free. The benefit itself is a discount of up to ${MONTHLY} a month, and many providers offer plans that cost nothing after the discount.`
+  },
+];
+
+// ============================================================================
+// EXPORT INTERFACES
+// ============================================================================
+
+export interface FAQContent {
+  faqs: FAQItem[];
+}
+
+export interface FAQSection {
+  title: string;
+  faqs: FAQItem[];
+}
+
+export interface FAQSections {
+  sections: {
+    eligibility: FAQSection;
+    application: FAQSection;
+    benefits: FAQSection;
+    programs: FAQSection;
+    support: FAQSection;
+    additional?: FAQSection;
+  };
+}
+
+// ============================================================================
+// MAIN EXPORT FUNCTIONS
+// ============================================================================
+
+export function getFAQVariations(domain: string, count: number = 10, locale?: Locale): FAQContent {
+  // Select specified number of FAQs deterministically based on domain
+  const selectedFAQs: FAQItem[] = [];
+  const items = pickLocalePool(locale, FAQ_ITEMS, { es: ES_FAQ_ITEMS });
+
+  for (let i = 0; i < Math.min(count, items.length); i++) {
+    const faq = selectVariation(domain, items, `faq-item-${i}`);
+    selectedFAQs.push(faq);
+  }
+
+  return {
+    faqs: selectedFAQs
+  };
+}
+
+export function getFAQSections(domain: string): FAQSections {
+  // Select 8 questions deterministically, same layout as the free-government-phone module
+  const selectedFAQs: FAQItem[] = [];
+
+  for (let i = 0; i < 8; i++) {
+    const faq = selectVariation(domain, FAQ_ITEMS, `general-faq-${i}`);
+    if (!selectedFAQs.includes(faq)) {
+      selectedFAQs.push(faq);
+    }
+  }
+
+  return {
+    sections: {
+      eligibility: {
+        title: 'Lifeline Program Questions',
+        faqs: selectedFAQs
+      },
+      application: {
+        title: '',
+        faqs: []
+      },
+      benefits: {
+        title: '',
+        faqs: []
+      },
+      programs: {
+        title: '',
+        faqs: []
+      },
+      support: {
+        title: '',
+        faqs: []
+      }
+    }
+  };
+}
@@ -0,0 +1,381 @@
+/**
+ * H1 Variations for "Lifeline Program" Keyword
+ * 25+ unique H1s per main page type, 12+ for program and support pages
+ * All natural language - NO templates
+ */
+
+import { selectVariation } from '../../shared/hash-utils';
+import { pickLocalePool, type Locale } from '../../locales';
+import { ES_H1_POOLS } from './es/h1-variations';
+
+// ============================================================================
+// HOMEPAGE H1 VARIATIONS (30+)
+// ============================================================================
+
+const HOMEPAGE_H1S = [
+  "Apply for the Lifeline Program Today",
+  "Lifeline Program: Discounted Phone Service for Eligible Households",
+  "Get Lifeline Program Benefits Online",
+  "The Lifeline Program Made Simple",
+  "Lifeline Program Enrollment Starts Here",
+  "Check Your Lifeline Program Eligibility",
+  "Lifeline Program Phone and Internet Assistance",
+  "Join the Lifeline Program in Minutes",
+  "Lifeline Program Benefits for Low-Income Families",
+  "Your Guide to the Lifeline Program",
+  "Lifeline Program: See If You Qualify",
+  "Start Your Lifeline Program Application",
+  "Lifeline Program Help for Qualifying Households",
+  "Lifeline Program Sign-Up Online",
+  "Enroll in the Federal Lifeline Program",
+  "Lifeline Program Savings on Monthly Service",
+  "Lifeline Program: Stay Connected for Less",
+  "Claim Your Lifeline Program Discount",
+  "Lifeline Program Application Center",
+  "Get Connected with the Lifeline Program",
+  "Lifeline Program Benefits Explained",
+  "Lifeline Program for Seniors, Veterans and Families",
+  "Apply Online for the Lifeline Program",
+  "Lifeline Program: Free or Low-Cost Phone Service",
+  "Lifeline Program Eligibility and Enrollment",
+  "Lifeline Program Support for Eligible Americans",
+  "Find Out If the Lifeline Program Is Right for You",
+  "Lifeline Program Benefits Available Now",
+  "Lifeline Program: Federal Phone Assistance",
+  "Begin Your Lifeline Program Enrollment",
+];
+
+// ============================================================================
+// ELIGIBILITY PAGE H1 VARIATIONS (25+)
+// ============================================================================
+
+const ELIGIBILITY_H1S = [
+  "Lifeline Program Eligibility Requirements",
+  "Who Qualifies for the Lifeline Program?",
+  "Check Your Lifeline Program Eligibility",
+  "Lifeline Program Qualification Guide",
+  "Do You Qualify for the Lifeline Program?",
+  "Lifeline Program Income and Program Requirements",
+  "Lifeline Program Eligibility Checker",
+  "See If You Qualify for the Lifeline Program",
+  "Lifeline Program Eligibility Explained",
+  "Lifeline Program Requirements by Household",
+  "Qualifying for the Lifeline Program",
+  "Lifeline Program Eligibility: Income Limits and Benefits",
+  "How to Qualify for the Lifeline Program",
+  "Lifeline Program Eligibility Rules",
+  "Am I Eligible for the Lifeline Program?",
+  "Lifeline Program Eligibility Through SNAP, Medicaid and SSI",
+  "Understanding Lifeline Program Eligibility",
+  "Lifeline Program Eligibility Made Easy",
+  "Lifeline Program Qualification Check",
+  "Lifeline Program Eligibility for Your Household",
+  "Lifeline Program Income Guidelines",
+  "Find Your Lifeline Program Eligibility",
+  "Lifeline Program Eligibility Basics",
+  "Lifeline Program: Who Can Apply",
+  "Lifeline Program Eligibility Questions Answered",
+];
+
+// ============================================================================
+// APPLY PAGE H1 VARIATIONS (25+)
+// ============================================================================
+
+const APPLY_H1S = [
+  "Apply for the Lifeline Program",
+  "Lifeline Program Application",
+  "Start Your Lifeline Program Application",
+  "Lifeline Program Online Application",
+  "Apply for Lifeline Program Benefits Today",
+  "Lifeline Program Application Form",
+  "Submit Your Lifeline Program Application",
+  "Lifeline Program: Apply in Minutes",
+  "Begin Your Lifeline Program Enrollment",
+  "Lifeline Program Sign-Up",
+  "Complete Your Lifeline Program Application",
+  "Lifeline Program Enrollment Application",
+  "Apply Now for the Lifeline Program",
+  "Lifeline Program Application Steps",
+  "Your Lifeline Program Application Starts Here",
+  "Lifeline Program Quick Application",
+  "Apply for Lifeline Program Phone Service",
+  "Lifeline Program Registration",
+  "Lifeline Program Application Online",
+  "Request Lifeline Program Benefits",
+  "Lifeline Program: Start Your Application",
+  "Enroll in the Lifeline Program Online",
+  "Lifeline Program Application for Your Household",
+  "Apply Today for the Lifeline Program",
+  "Lifeline Program Application Made Simple",
+];
+
+// ============================================================================
+// FAQ PAGE H1 VARIATIONS (15+)
+// ============================================================================
+
+const FAQ_H1S = [
+  "Lifeline Program FAQ",
+  "Lifeline Program Frequently Asked Questions",
+  "Lifeline Program Questions and Answers",
+  "Common Lifeline Program Questions",
+  "Lifeline Program Help Center",
+  "Everything About the Lifeline Program",
+  "Lifeline Program: Your Questions Answered",
+  "Lifeline Program Answers",
+  "Lifeline Program Q&A",
+  "Lifeline Program Guide and FAQ",
+  "Questions About the Lifeline Program",
+  "Lifeline Program Facts and FAQ",
+  "Lifeline Program Information Center",
+  "Lifeline Program: What You Need to Know",
+  "Understanding the Lifeline Program",
+];
+
+// ============================================================================
+// PROVIDERS PAGE H1 VARIATIONS (15+)
+// ============================================================================
+
+const PROVIDERS_H1S = [
+  "Lifeline Program Providers",
+  "Compare Lifeline Program Providers",
+  "Lifeline Program Phone Companies",
+  "Lifeline Program Carriers Near You",
+  "Choose a Lifeline Program Provider",
+  "Lifeline Program Provider Directory",
+  "Lifeline Program Service Providers",
+  "Best Lifeline Program Providers",
+  "Lifeline Program Wireless Providers",
+  "Find a Lifeline Program Provider",
+  "Lifeline Program Provider Comparison",
+  "Lifeline Program Plans by Provider",
+  "Top Lifeline Program Carriers",
+  "Lifeline Program Provider Options",
+  "Lifeline Program Providers and Plans",
+];
+
+// ============================================================================
+// PROGRAMS PAGE H1 VARIATIONS (15+)
+// ============================================================================
+
+const PROGRAMS_H1S = [
+  "Lifeline Program and Related Benefits",
+  "Lifeline Program Overview",
+  "Federal Phone Programs: Lifeline and More",
+  "Lifeline Program Benefits Compared",
+  "Lifeline Program and Connectivity Assistance",
+  "Lifeline Program Options",
+  "Lifeline Program Details",
+  "Lifeline Program and Tribal Benefits",
+  "Lifeline Program Assistance Options",
+  "Compare Lifeline Program Benefits",
+  "Lifeline Program Benefit Guide",
+  "Lifeline Program Information",
+  "Lifeline Program and State Supplements",
+  "Lifeline Program Services",
+  "Phone Assistance Through the Lifeline Program",
+];
+
+// ============================================================================
+// CONTACT PAGE H1 VARIATIONS (12+)
+// ============================================================================
+
+const CONTACT_H1S = [
+  "Contact Lifeline Program Support",
+  "Lifeline Program Help",
+  "Get Help with the Lifeline Program",
+  "Lifeline Program Support Team",
+  "Questions About the Lifeline Program? Contact Us",
+  "Lifeline Program Customer Support",
+  "Reach Our Lifeline Program Team",
+  "Lifeline Program Assistance",
+  "Lifeline Program Contact Information",
+  "Talk to Us About the Lifeline Program",
+  "Lifeline Program Help Desk",
+  "Lifeline Program Support Center",
+];
+
+// ============================================================================
+// LIFELINE PROGRAM PAGE H1 VARIATIONS (15+)
+// ============================================================================
+
+const LIFELINE_H1S = [
+  "How the Lifeline Program Works",
+  "Lifeline Program Benefits and Rules",
+  "The Federal Lifeline Program Explained",
+  "Lifeline Program: Monthly Discount Details",
+  "Lifeline Program Guide",
+  "Lifeline Program: Benefits, Eligibility and Enrollment",
+  "Everything About the Lifeline Program",
+  "Lifeline Program Overview",
+  "Inside the Lifeline Program",
+  "Lifeline Program Basics",
+  "Lifeline Program: What You Get",
+  "Lifeline Program Complete Guide",
+  "Lifeline Program Benefit Details",
+  "Lifeline Program Facts",
+  "Understanding Your Lifeline Program Benefit",
+];
+
+// ============================================================================
+// ACP PROGRAM H1 VARIATIONS (12+)
+// ============================================================================
+
+const ACP_H1S = [
+  "ACP Has Ended: The Lifeline Program Is Still Available",
+  "After ACP: Keep Saving with the Lifeline Program",
+  "ACP Wind-Down and the Lifeline Program",
+  "Lost ACP? Apply for the Lifeline Program",
+  "From ACP to the Lifeline Program",
+  "ACP Ended - Lifeline Program Benefits Continue",
+  "Lifeline Program for Former ACP Households",
+  "ACP Is Over: Switch to the Lifeline Program",
+  "Lifeline Program After the ACP",
+  "What Former ACP Users Can Get from the Lifeline Program",
+  "ACP Closed - The Lifeline Program Remains",
+  "Replacing ACP Savings with the Lifeline Program",
+];
+
+// ============================================================================
+// TRIBAL PROGRAM H1 VARIATIONS (12+)
+// ============================================================================
+
+const TRIBAL_H1S = [
+  "Enhanced Lifeline Program on Tribal Lands",
+  "Tribal Lifeline Program Benefits",
+  "Lifeline Program for Tribal Residents",
+  "Tribal Lands Lifeline Program and Link Up",
+  "Lifeline Program Tribal Enhancement",
+  "Lifeline Program Benefits on Tribal Lands",
+  "Tribal Lifeline Program Eligibility",
+  "Apply for the Tribal Lifeline Program",
+  "Enhanced Tribal Lifeline Program Support",
+  "Lifeline Program for Native Communities",
+  "Tribal Lifeline Program Discount",
+  "Lifeline Program and Link Up on Tribal Lands",
+];
+
+// ============================================================================
+// STATE PROGRAMS H1 VARIATIONS (12+)
+// ============================================================================
+
+const STATE_PROGRAMS_H1S = [
+  "Lifeline Program by State",
+  "State Lifeline Program Benefits",
+  "Lifeline Program in Your State",
+  "State Lifeline Program Supplements",
+  "Lifeline Program State Guide",
+  "Find Your State's Lifeline Program",
+  "State-by-State Lifeline Program Information",
+  "Lifeline Program Benefits Across the States",
+  "Your State Lifeline Program",
+  "Lifeline Program State Details",
+  "State Lifeline Program Options",
+  "Lifeline Program State Directory",
+];
+
+// ============================================================================
+// EMERGENCY BROADBAND H1 VARIATIONS (12+)
+// ============================================================================
+
+const EMERGENCY_BROADBAND_H1S = [
+  "Emergency Broadband Benefit and the Lifeline Program",
+  "After the Emergency Broadband Benefit: The Lifeline Program",
+  "EBB Ended - The Lifeline Program Continues",
+  "Lifeline Program for Former EBB Households",
+  "Emergency Broadband History and the Lifeline Program",
+  "From EBB to the Lifeline Program",
+  "Lifeline Program After Emergency Broadband",
+  "Emergency Broadband Benefit Replaced: Lifeline Program Options",
+  "EBB Is Over: Apply for the Lifeline Program",
+  "Lifeline Program Internet Support After EBB",
+  "Emergency Broadband and Ongoing Lifeline Program Help",
+  "What Replaced EBB? The Lifeline Program",
+];
+
+// ============================================================================
+// CITY PAGE H1 VARIATIONS (25+)
+// ============================================================================
+
+const CITY_H1S = [
+  "Lifeline Program in {city}, {state}",
+  "{city}, {state} Lifeline Program",
+  "Apply for the Lifeline Program in {city}, {state}",
+  "Lifeline Program in {city}",
+  "{city} Lifeline Program Benefits",
+  "Lifeline Program Providers in {city}, {state}",
+  "Get Lifeline Program Benefits in {city}, {state}",
+  "{city}, {state} Lifeline Program - Apply Now",
+  "Lifeline Program Eligibility in {city}, {state}",
+  "Lifeline Program Phone Service in {city}",
+  "{city} Lifeline Program Enrollment",
+  "Lifeline Program Help in {city}, {state}",
+  "Join the Lifeline Program in {city}, {state}",
+  "{city}, {state} Lifeline Program Guide",
+  "Lifeline Program Discounts in {city}",
+  "Lifeline Program Sign-Up in {city}, {state}",
+  "Lifeline Program for {city} Residents",
+  "{city} Lifeline Program - Check Eligibility",
+  "Lifeline Program Coverage in {city}, {state}",
+  "Start the Lifeline Program in {city}",
+  "{city}, {state} Lifeline Program Providers",
+  "Lifeline Program Benefits for {city}, {state} Families",
+  "Lifeline Program Application in {city}",
+  "{city} Lifeline Program Phone Plans",
+  "Lifeline Program Service in {city}, {state}",
+];
+
+// Pools by page type - read by getH1Variation and by the conformance checker
+export const H1_POOLS: Record<string, string[]> = {
+  home: HOMEPAGE_H1S,
+  eligibility: ELIGIBILITY_H1S,
+  apply: APPLY_H1S,
+  faq: FAQ_H1S,
+  providers: PROVIDERS_H1S,
+  programs: PROGRAMS_H1S,
+  contact: CONTACT_H1S,
+  lifeline: LIFELINE_H1S,
+  acp: ACP_H1S,
+  tribal: TRIBAL_H1S,
+  'state-programs': STATE_PROGRAMS_H1S,
+  'emergency-broadband': EMERGENCY_BROADBAND_H1S,
+  city: CITY_H1S,
+};
+
+// ============================================================================
+// MAIN EXPORT FUNCTION
+// ============================================================================
+
+export function getH1Variation(
+  domain: string,
+  pageType: 'home' | 'eligibility' | 'apply' | 'faq' | 'providers' | 'programs' | 'contact' | 'lifeline' | 'acp' | 'tribal' | 'state-programs' | 'emergency-broadband' | 'city',
+  cityName?: string,
+  stateAbbr?: string,
+  locale?: Locale
+): { h1: string } {
+  let variations = H1_POOLS[pageType] ?? HOMEPAGE_H1S;
+
+  variations = pickLocalePool(locale, variations, { es: ES_H1_POOLS[pageType] ?? ES_H1_POOLS.home });
+
+  // Same salts as the free-government-phone module - domain always, plus location on city pages
+  let salt = domain;
+  if (pageType === 'city' && cityName && stateAbbr) {
+    salt = `${domain}-${cityName}-${stateAbbr}`;
+  }
+
+  let h1 = selectVariation(domain, variations, `h1-${pageType}`, salt);
+
+  if (!h1 || typeof h1 !== 'string' || h1.trim() === '') {
+    h1 = variations[0] || 'Lifeline Program';
+  }
+
+  if (pageType === 'city' && cityName && stateAbbr) {
+    h1 = h1.replace(/\{city\}/g, cityName).replace(/\{state\}/g, stateAbbr);
+  }
+
+  // Spanish state pages carry a {state} placeholder too
+  if (pageType === 'state-programs' && stateAbbr) {
+    h1 = h1.replace(/\{state\}/g, stateAbbr);
+  }
+
+  return { h1 };
+}
@@ -0,0 +1,199 @@
+/**
+ * H2 Variations for "Lifeline Program" Keyword
+ * 20+ unique H2s per page type
+ * All natural language - NO templates
+ */
+
+import { selectVariation } from '../../shared/hash-utils';
+
+// ============================================================================
+// HOMEPAGE H2 VARIATIONS (20+)
+// ============================================================================
+
+const HOMEPAGE_H2S = [
+  "What the Lifeline Program Covers",
+  "How to Join the Lifeline Program",
+  "Lifeline Program Benefits at a Glance",
+  "Who Can Get the Lifeline Program",
+  "Steps to Enroll in the Lifeline Program",
+  "Why Households Choose the Lifeline Program",
+  "Lifeline Program Eligibility in Brief",
+  "Your Lifeline Program Options",
+  "Getting Started with the Lifeline Program",
+  "How the Lifeline Program Saves You Money",
+  "Lifeline Program Phone and Internet Plans",
+  "What You Need to Apply for the Lifeline Program",
+  "Lifeline Program Providers You Can Choose",
+  "Keeping Your Lifeline Program Benefit",
+  "Lifeline Program Rules Worth Knowing",
+  "The Lifeline Program for Your Family",
+  "Lifeline Program Support When You Need It",
+  "How Fast the Lifeline Program Approves Applications",
+  "Lifeline Program Savings Every Month",
+  "Lifeline Program Enrollment Made Simple",
+];
+
+// ============================================================================
+// ELIGIBILITY PAGE H2 VARIATIONS (20+)
+// ============================================================================
+
+const ELIGIBILITY_H2S = [
+  "Lifeline Program Income Requirements",
+  "Qualifying Through Government Assistance",
+  "Lifeline Program Eligibility by Household Size",
+  "Programs That Qualify You for Lifeline",
+  "Documents That Prove Lifeline Program Eligibility",
+  "Lifeline Program Eligibility on Tribal Lands",
+  "One Lifeline Program Benefit per Household",
+  "How the National Verifier Checks Eligibility",
+  "Lifeline Program Eligibility Through SNAP",
+  "Lifeline Program Eligibility Through Medicaid",
+  "Lifeline Program Eligibility for Veterans",
+  "Lifeline Program Eligibility for Seniors",
+  "Renewing Your Lifeline Program Eligibility",
+  "What Counts as Household Income",
+  "Lifeline Program Eligibility Examples",
+  "If You Don't Qualify for the Lifeline Program",
+  "Lifeline Program Eligibility Checklist",
+  "Common Lifeline Program Eligibility Mistakes",
+  "State Rules That Affect Lifeline Eligibility",
+  "Lifeline Program Eligibility Next Steps",
+];
+
+// ============================================================================
+// APPLY PAGE H2 VARIATIONS (20+)
+// ============================================================================
+
+const APPLY_H2S = [
+  "Lifeline Program Application Steps",
+  "Before You Start Your Lifeline Application",
+  "What Happens After You Apply",
+  "Lifeline Program Application Checklist",
+  "Documents for Your Lifeline Program Application",
+  "How Long Lifeline Program Approval Takes",
+  "Choosing a Lifeline Program Provider",
+  "Completing Your Lifeline Program Application",
+  "Lifeline Program Application Tips",
+  "Activating Your Lifeline Program Service",
+  "Lifeline Program Application Help",
+  "Where to Submit Your Lifeline Program Application",
+  "If Your Lifeline Program Application Is Denied",
+  "Lifeline Program Application Privacy",
+  "Checking Your Lifeline Program Application Status",
+  "Lifeline Program Application Requirements",
+  "Applying for the Lifeline Program Online",
+  "Lifeline Program Application by Mail",
+  "Getting Your Lifeline Program Phone",
+  "Lifeline Program Application Questions",
+];
+
+// ============================================================================
+// FAQ PAGE H2 VARIATIONS (15+)
+// ============================================================================
+
+const FAQ_H2S = [
+  "Lifeline Program Eligibility Questions",
+  "Lifeline Program Application Questions",
+  "Lifeline Program Benefit Questions",
+  "Lifeline Program Provider Questions",
+  "Lifeline Program Account Questions",
+  "More Lifeline Program Answers",
+  "Lifeline Program Basics",
+  "Lifeline Program Renewal Questions",
+  "Lifeline Program Service Questions",
+  "Lifeline Program Rules Explained",
+  "Popular Lifeline Program Questions",
+  "Lifeline Program Help Topics",
+  "Lifeline Program Details",
+  "Still Have Lifeline Program Questions?",
+  "Lifeline Program Tips",
+];
+
+// ============================================================================
+// PROVIDERS PAGE H2 VARIATIONS (15+)
+// ============================================================================
+
+const PROVIDERS_H2S = [
+  "Compare Lifeline Program Plans",
+  "Lifeline Program Coverage by Provider",
+  "Choosing the Right Lifeline Program Carrier",
+  "Lifeline Program Data and Minutes",
+  "Lifeline Program Phones Offered",
+  "Switching Lifeline Program Providers",
+  "Lifeline Program Provider Ratings",
+  "Lifeline Program Providers in Your Area",
+  "What Lifeline Program Providers Include",
+  "Lifeline Program Provider Features",
+  "Lifeline Program Network Coverage",
+  "Lifeline Program Provider Support",
+  "Lifeline Program Plan Differences",
+  "Lifeline Program Providers with Free Phones",
+  "Lifeline Program Providers with Unlimited Talk",
+];
+
+// ============================================================================
+// PROGRAMS PAGE H2 VARIATIONS (15+)
+// ============================================================================
+
+const PROGRAMS_H2S = [
+  "Lifeline Program Overview",
+  "Enhanced Lifeline Program on Tribal Lands",
+  "Link Up Connection Assistance",
+  "State Lifeline Program Supplements",
+  "Programs That Ended",
+  "How Lifeline Program Benefits Combine",
+  "Lifeline Program vs. Other Assistance",
+  "Lifeline Program Funding",
+  "Lifeline Program Administration",
+  "Lifeline Program History",
+  "Lifeline Program Benefit Amounts",
+  "Lifeline Program Rules Across Programs",
+  "Lifeline Program for Internet Service",
+  "Lifeline Program for Phone Service",
+  "Lifeline Program Next Steps",
+];
+
+// ============================================================================
+// CONTACT PAGE H2 VARIATIONS (12+)
+// ============================================================================
+
+const CONTACT_H2S = [
+  "Get Lifeline Program Help",
+  "Lifeline Program Support Options",
+  "Send Us Your Lifeline Program Question",
+  "Lifeline Program Help Hours",
+  "Other Lifeline Program Resources",
+  "Lifeline Program Provider Contacts",
+  "Reporting a Lifeline Program Problem",
+  "Lifeline Program Application Support",
+  "Lifeline Program National Verifier Help",
+  "Lifeline Program Support Team",
+  "How We Help with the Lifeline Program",
+  "Lifeline Program Contact Form",
+];
+
+// Pools by page type - read by getH2Variation and by the conformance checker
+export const H2_POOLS: Record<string, string[]> = {
+  home: HOMEPAGE_H2S,
+  eligibility: ELIGIBILITY_H2S,
+  apply: APPLY_H2S,
+  faq: FAQ_H2S,
+  providers: PROVIDERS_H2S,
+  programs: PROGRAMS_H2S,
+  contact: CONTACT_H2S,
+};
+
+// ============================================================================
+// MAIN EXPORT FUNCTION
+// ============================================================================
+
+export function getH2Variation(
+  domain: string,
+  pageType: 'home' | 'eligibility' | 'apply' | 'faq' | 'providers' | 'programs' | 'contact',
+  position: number = 0
+): string {
+  const variations = H2_POOLS[pageType] ?? HOMEPAGE_H2S;
+
+  // Use position as salt for multiple H2s on same page
+  return selectVariation(domain, variations, `h2-${pageType}-${position}`);
+}
@@ -0,0 +1,82 @@
+/**
+ * H3 Variations for "Lifeline Program" Keyword
+ * 20+ unique H3s for city/state pages
+ * All natural language - mentions keyword naturally
+ */
+
+import { selectVariation } from '../../shared/hash-utils';
+
+// ============================================================================
+// CITY PAGE H3 VARIATIONS (20+)
+// ============================================================================
+
+const CITY_H3S = [
+  "Join the Lifeline Program",
+  "Apply for the Lifeline Program",
+  "How to Qualify for the Lifeline Program",
+  "Lifeline Program Providers",
+  "Lifeline Program Requirements",
+  "Understanding the Lifeline Program",
+  "Apply for the Lifeline Program Online",
+  "Lifeline Program Benefits",
+  "Local Lifeline Program Coverage",
+  "Lifeline Program Plans Nearby",
+  "Lifeline Program Documents",
+  "Lifeline Program Eligibility",
+  "Lifeline Program Enrollment",
+  "Lifeline Program Phone Options",
+  "Lifeline Program Data Plans",
+  "Lifeline Program Approval",
+  "Lifeline Program Support",
+  "Lifeline Program Savings",
+  "Keeping Your Lifeline Program Benefit",
+  "Lifeline Program Next Steps",
+];
+
+// ============================================================================
+// STATE PAGE H3 VARIATIONS (20+)
+// ============================================================================
+
+const STATE_H3S = [
+  "Statewide Lifeline Program Coverage",
+  "Lifeline Program Providers",
+  "How to Join the Lifeline Program",
+  "State Lifeline Program Requirements",
+  "State Lifeline Program Supplement",
+  "Lifeline Program Income Limits",
+  "Lifeline Program Eligibility",
+  "Lifeline Program Enrollment",
+  "Lifeline Program Benefits",
+  "Lifeline Program Cities",
+  "Lifeline Program Plans",
+  "Lifeline Program Application",
+  "Lifeline Program Documents",
+  "Lifeline Program Support",
+  "Lifeline Program on Tribal Lands",
+  "Lifeline Program Approval",
+  "Lifeline Program Phone Options",
+  "Lifeline Program Renewal",
+  "Lifeline Program Savings",
+  "Lifeline Program Next Steps",
+];
+
+// Pools by page type - read by getH3Variation and by the conformance checker
+export const H3_POOLS: Record<string, string[]> = {
+  city: CITY_H3S,
+  state: STATE_H3S,
+};
+
+// ============================================================================
+// MAIN EXPORT FUNCTION
+// ============================================================================
+
+export function getH3Variation(
+  domain: string,
+  pageType: 'city' | 'state',
+  position: number = 0
+): string {
+  const variations = H3_POOLS[pageType] ?? H3_POOLS.city;
+
+  // Use position as salt for multiple H3s on same page
+  return selectVariation(domain, variations, `h3-${pageType}-${position}`);
+}
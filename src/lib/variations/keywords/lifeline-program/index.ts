@@ -0,0 +1,37 @@
+/**
+ * Lifeline Program Keyword Module
+ * Central export file for all "Lifeline Program" variations
+ * All exports mention the keyword naturally
+ */
+
+import type { KeywordVariationPools } from '../../shared/variation-types';
+import { H1_POOLS } from './h1-variations';
+import { H2_POOLS } from './h2-variations';
+import { H3_POOLS } from './h3-variations';
+import { META_POOLS } from './meta-variations';
+import { FAQ_ITEMS } from './faq-variations';
+import { ES_H1_POOLS } from './es/h1-variations';
+import { ES_META_POOLS } from './es/meta-variations';
+import { ES_FAQ_ITEMS } from './es/faq-variations';
+
+export { getH1Variation } from './h1-variations';
+export { getH2Variation } from './h2-variations';
+export { getH3Variation } from './h3-variations';
+export { getMetaVariations } from './meta-variations';
+export { getFAQVariations, getFAQSections } from './faq-variations';
+export type { FAQContent, FAQSections } from './faq-variations';
+
+// ============================================================================
+// RAW POOLS (conformance checks)
+// ============================================================================
+
+export const VARIATION_POOLS: KeywordVariationPools = {
+  h1: H1_POOLS,
+  h2: H2_POOLS,
+  h3: H3_POOLS,
+  meta: META_POOLS,
+  faqs: FAQ_ITEMS,
+  localized: {
+    es: { h1: ES_H1_POOLS, meta: ES_META_POOLS, faqs: ES_FAQ_ITEMS },
+  },
+};
@@ -0,0 +1,358 @@
+/**
+ * Meta Title & Description Variations for "Lifeline Program" Keyword
+ * SEO-optimized titles (50-60 chars) and descriptions (150-160 chars)
+ * All natural language - NO templates
+ */
+
+import { selectVariation } from '../../shared/hash-utils';
+import { ensureLengthOptimal } from '../../shared/meta-length-utils';
+import type { Locale } from '../../locales';
+import type { MetaPool } from '../../shared/variation-types';
+import { ES_META_POOLS, ES_META_DESCRIPTION_CONTEXT } from './es/meta-variations';
+
+// ============================================================================
+// HOMEPAGE META TITLES - 50-60 characters
+// ============================================================================
+
+const META_TITLES = [
+  "Lifeline Program | Apply for Discounted Phone Service",
+  "Lifeline Program: Check Eligibility and Apply Online",
+  "Apply for the Lifeline Program | Phone Service Help",
+  "Lifeline Program Benefits for Low-Income Households",
+  "Lifeline Program Enrollment | See If You Qualify Today",
+  "The Lifeline Program: Save on Phone and Internet Bills",
+  "Lifeline Program Application | Fast Online Sign-Up",
+  "Join the Lifeline Program | Phone Assistance Online",
+  "Lifeline Program Help | Eligibility, Plans, Providers",
+  "Lifeline Program for Families, Seniors and Veterans",
+  "Lifeline Program Sign-Up | Federal Phone Assistance",
+  "Get Lifeline Program Benefits | Apply Online in Minutes",
+];
+
+// ============================================================================
+// HOMEPAGE META DESCRIPTIONS - 150-160 characters
+// ============================================================================
+
+const META_DESCRIPTIONS = [
+  "The Lifeline Program lowers the monthly cost of phone or internet service for eligible households. Check if you qualify by income or benefits and apply online.",
+  "Apply for the federal Lifeline Program and get discounted or free phone service. Qualify through SNAP, Medicaid, SSI or household income and enroll in minutes.",
+  "Learn how the Lifeline Program works, who qualifies and which providers participate. Start your Lifeline Program application online today at no cost to you.",
+  "Households on SNAP, Medicaid or SSI often qualify for the Lifeline Program. See the income limits, compare providers and submit your application online.",
+  "Get help with the Lifeline Program from eligibility to activation. Compare participating providers, gather your documents and apply online in a few steps.",
+  "The Lifeline Program has helped low-income households stay connected since 1985. Find out if you qualify and apply for your monthly discount online today.",
+];
+
+// ============================================================================
+// ELIGIBILITY PAGE META
+// ============================================================================
+
+const ELIGIBILITY_TITLES = [
+  "Lifeline Program Eligibility | Income and Benefit Rules",
+  "Who Qualifies for the Lifeline Program? Check in Minutes",
+  "Lifeline Program Requirements | Eligibility Checker",
+  "Lifeline Program Eligibility Guide | Income Limits",
+  "Do You Qualify for the Lifeline Program? Find Out Today",
+  "Lifeline Program Qualification | SNAP, Medicaid, SSI",
+];
+
+const ELIGIBILITY_DESCRIPTIONS = [
+  "Check Lifeline Program eligibility by household income or by participation in SNAP, Medicaid, SSI, Federal Public Housing or the Veterans Pension benefit.",
+  "See the Lifeline Program income limits for your household size and the assistance programs that qualify you automatically. Check eligibility in minutes.",
+  "Lifeline Program eligibility explained: income guidelines, qualifying programs, tribal land rules and the one-benefit-per-household limit. Check yours now.",
+];
+
+// ============================================================================
+// APPLY PAGE META
+// ============================================================================
+
+const APPLY_TITLES = [
+  "Apply for the Lifeline Program | Online Application",
+  "Lifeline Program Application | Start Online in Minutes",
+  "Lifeline Program Sign-Up | Apply for Phone Service",
+  "Start Your Lifeline Program Application Online Today",
+  "Lifeline Program Enrollment | Simple Online Application",
+  "Lifeline Program Application | Fast Eligibility Check",
+];
+
+const APPLY_DESCRIPTIONS = [
+  "Start your Lifeline Program application online. Answer a few questions about your household, upload proof of eligibility and choose a participating provider.",
+  "Apply for the Lifeline Program in minutes. We walk you through eligibility, documents and provider choice so your monthly discount starts as soon as possible.",
+  "Ready to join the Lifeline Program? Complete the online application, verify eligibility through the National Verifier and activate your discounted service.",
+];
+
+// ============================================================================
+// FAQ PAGE META
+// ============================================================================
+
+const FAQ_TITLES = [
+  "Lifeline Program FAQ | Answers to Common Questions",
+  "Lifeline Program Questions and Answers | Full Guide",
+  "Lifeline Program FAQ: Eligibility, Plans and Renewal",
+  "Common Lifeline Program Questions Answered Clearly",
+  "Lifeline Program Help Center | Frequently Asked Questions",
+];
+
+const FAQ_DESCRIPTIONS = [
+  "Answers to the most common Lifeline Program questions: who qualifies, what the benefit covers, how to apply, how renewal works and how to switch providers.",
+  "Read our Lifeline Program FAQ for clear answers about eligibility, income limits, documents, providers, annual recertification and keeping your service active.",
+  "Have Lifeline Program questions? Learn how the monthly discount works, what documents you need, and what to do if your application is denied or delayed.",
+];
+
+// ============================================================================
+// PROVIDERS PAGE META
+// ============================================================================
+
+const PROVIDERS_TITLES = [
+  "Lifeline Program Providers | Compare Plans and Phones",
+  "Compare Lifeline Program Providers Available Near You",
+  "Lifeline Program Carriers | Data, Minutes and Phones",
+  "Best Lifeline Program Providers | Compare Plans Today",
+  "Lifeline Program Provider Directory | Find Coverage",
+];
+
+const PROVIDERS_DESCRIPTIONS = [
+  "Compare Lifeline Program providers by data, minutes, texts and phone offers. See which participating carriers serve your area and pick the plan that fits best.",
+  "Find Lifeline Program providers that cover your address. Compare monthly plans, free phone offers and customer support before you choose where to enroll.",
+  "Every Lifeline Program provider offers a different plan. Compare data allowances, talk and text limits and device options to choose the right carrier today.",
+];
+
+// ============================================================================
+// PROGRAMS PAGE META
+// ============================================================================
+
+const PROGRAMS_TITLES = [
+  "Lifeline Program and Related Benefits | Full Guide",
+  "Lifeline Program Overview | Benefits, Rules and Amounts",
+  "Lifeline Program, Link Up and Enhanced Tribal Benefits",
+  "Federal Phone Programs: Lifeline Program Details and Rules",
+  "Lifeline Program Benefits Compared | Program Guide",
+];
+
+const PROGRAMS_DESCRIPTIONS = [
+  "Learn how the Lifeline Program works alongside Enhanced Tribal Lifeline, Link Up and state supplements, and which older programs such as ACP have already ended.",
+  "Compare the Lifeline Program with other connectivity benefits. See current benefit amounts, which programs are still enrolling and where to apply for each.",
+  "The Lifeline Program is the main federal phone benefit still enrolling. Review benefit amounts, tribal enhancements and state add-ons in one simple guide.",
+];
+
+// ============================================================================
+// CONTACT PAGE META
+// ============================================================================
+
+const CONTACT_TITLES = [
+  "Contact Lifeline Program Support | We Can Help You Today",
+  "Lifeline Program Help | Contact Our Friendly Support Team",
+  "Questions About the Lifeline Program? Contact Us Today",
+  "Lifeline Program Support | Get Answers to Your Questions",
+];
+
+const CONTACT_DESCRIPTIONS = [
+  "Contact our team with Lifeline Program questions about eligibility, applications, providers or renewal. We reply quickly and point you to the right resource.",
+  "Need help with the Lifeline Program? Send us your question about qualifying, documents, activation or switching providers and we will get back to you soon.",
+];
+
+// ============================================================================
+// STATE PAGE META
+// FORMAT: "Lifeline Program in [STATE]"
+// ============================================================================
+
+const STATE_TITLES = [
+  "Lifeline Program in [STATE] | Apply Today",
+  "Lifeline Program in [STATE] | Eligibility and Providers",
+  "Lifeline Program in [STATE] | Check If You Qualify",
+  "Lifeline Program in [STATE] | Apply Online",
+  "Lifeline Program in [STATE] | Income Limits",
+  "Lifeline Program in [STATE] | Plans and Providers",
+];
+
+const STATE_DESCRIPTIONS = [
+  "Apply for the Lifeline Program in [STATE]. See the income limits, state supplements and participating providers, then check your eligibility online today.",
+  "[STATE] households on SNAP, Medicaid or SSI may qualify for the Lifeline Program. Compare providers serving [STATE] and start your application in minutes.",
+  "Learn how the Lifeline Program works in [STATE], including any state benefit added to the federal discount, and apply online with a participating provider.",
+];
+
+// ============================================================================
+// CITY PAGE META
+// FORMAT: "Lifeline Program in [CITY], [STATE]"
+// ============================================================================
+
+const CITY_TITLES = [
+  "Lifeline Program in [CITY], [STATE]",
+  "Lifeline Program in [CITY], [STATE] | Apply Now",
+  "Lifeline Program in [CITY], [STATE] | Providers",
+  "Lifeline Program in [CITY], [STATE] | Eligibility",
+  "Lifeline Program in [CITY], [STATE] | Apply Today",
+  "Lifeline Program in [CITY], [STATE] | Get Started",
+];
+
+const CITY_DESCRIPTIONS = [
+  "Apply for the Lifeline Program in [CITY], [STATE]. See which providers serve [CITY], check the income limits for your household and enroll online in minutes.",
+  "[CITY] residents can lower their phone bill with the Lifeline Program. Compare participating providers in [STATE] and check your eligibility online today.",
+  "Find Lifeline Program providers and plans available in [CITY], [STATE]. Qualify through SNAP, Medicaid, SSI or your income and start your application today.",
+];
+
+// ============================================================================
+// ACP PROGRAM PAGE META
+// ============================================================================
+
+const ACP_TITLES = [
+  "ACP Has Ended | Apply for the Lifeline Program Instead",
+  "After ACP: Lifeline Program Benefits Still Available",
+  "ACP Wind-Down | Switch Your Savings to the Lifeline Program",
+  "Lost Your ACP Benefit? Try the Lifeline Program Today",
+];
+
+const ACP_DESCRIPTIONS = [
+  "The Affordable Connectivity Program stopped enrolling and ended. The Lifeline Program is still available - see if your household qualifies and apply online.",
+  "Former ACP households can still save with the Lifeline Program. Learn how the eligibility rules differ and move your phone or internet discount over today.",
+];
+
+// Distinct pools by page type for the conformance checker (program pages reuse the programs pool)
+export const META_POOLS: Record<string, MetaPool> = {
+  home: { titles: META_TITLES, descriptions: META_DESCRIPTIONS },
+  eligibility: { titles: ELIGIBILITY_TITLES, descriptions: ELIGIBILITY_DESCRIPTIONS },
+  apply: { titles: APPLY_TITLES, descriptions: APPLY_DESCRIPTIONS },
+  faq: { titles: FAQ_TITLES, descriptions: FAQ_DESCRIPTIONS },
+  providers: { titles: PROVIDERS_TITLES, descriptions: PROVIDERS_DESCRIPTIONS },
+  programs: { titles: PROGRAMS_TITLES, descriptions: PROGRAMS_DESCRIPTIONS },
+  contact: { titles: CONTACT_TITLES, descriptions: CONTACT_DESCRIPTIONS },
+  state: { titles: STATE_TITLES, descriptions: STATE_DESCRIPTIONS },
+  city: { titles: CITY_TITLES, descriptions: CITY_DESCRIPTIONS },
+  acp: { titles: ACP_TITLES, descriptions: ACP_DESCRIPTIONS },
+};
+
+// ============================================================================
+// MAIN EXPORT FUNCTION
+// ============================================================================
+
+export function getMetaVariations(
+  siteName: string,
+  domain: string,
+  pageType: 'home' | 'eligibility' | 'apply' | 'faq' | 'providers' | 'programs' | 'contact' | 'state' | 'city' | 'acp' | 'lifeline' | 'tribal' | 'state-programs' | 'emergency-broadband' = 'home',
+  stateName?: string,
+  cityName?: string,
+  locale?: Locale
+): { title: string; description: string } {
+  if (locale === 'es') {
+    return getSpanishMetaVariations(siteName, domain, pageType, stateName, cityName);
+  }
+
+  let title: string;
+  let description: string;
+
+  switch (pageType) {
+    case 'eligibility':
+      title = selectVariation(domain, ELIGIBILITY_TITLES, 'meta-title-eligibility', domain);
+      description = selectVariation(domain, ELIGIBILITY_DESCRIPTIONS, 'meta-desc-eligibility', domain);
+      break;
+
+    case 'apply':
+      title = selectVariation(domain, APPLY_TITLES, 'meta-title-apply', domain);
+      description = selectVariation(domain, APPLY_DESCRIPTIONS, 'meta-desc-apply', domain);
+      break;
+
+    case 'faq':
+      title = selectVariation(domain, FAQ_TITLES, 'meta-title-faq', domain);
+      description = selectVariation(domain, FAQ_DESCRIPTIONS, 'meta-desc-faq', domain);
+      break;
+
+    case 'providers':
+      title = selectVariation(domain, PROVIDERS_TITLES, 'meta-title-providers', domain);
+      description = selectVariation(domain, PROVIDERS_DESCRIPTIONS, 'meta-desc-providers', domain);
+      break;
+
+    case 'programs':
+      title = selectVariation(domain, PROGRAMS_TITLES, 'meta-title-programs', domain);
+      description = selectVariation(domain, PROGRAMS_DESCRIPTIONS, 'meta-desc-programs', domain);
+      break;
+
+    case 'contact':
+      title = selectVariation(domain, CONTACT_TITLES, 'meta-title-contact', domain);
+      description = selectVariation(domain, CONTACT_DESCRIPTIONS, 'meta-desc-contact', domain);
+      break;
+
+    case 'state':
+      const stateSalt = stateName ? `${domain}-${stateName}` : domain;
+      title = selectVariation(domain, STATE_TITLES, 'meta-title-state', stateSalt);
+      description = selectVariation(domain, STATE_DESCRIPTIONS, 'meta-desc-state', stateSalt);
+      if (stateName) {
+        title = title.replace(/\[STATE\]/g, stateName);
+        description = description.replace(/\[STATE\]/g, stateName);
+      }
+      break;
+
+    case 'city':
+      const citySalt = [domain, cityName, stateName].filter(Boolean).join('-');
+      title = selectVariation(domain, CITY_TITLES, 'meta-title-city', citySalt);
+      description = selectVariation(domain, CITY_DESCRIPTIONS, 'meta-desc-city', citySalt);
+      if (cityName) {
+        title = title.replace(/\[CITY\]/g, cityName);
+        description = description.replace(/\[CITY\]/g, cityName);
+      }
+      if (stateName) {
+        title = title.replace(/\[STATE\]/g, stateName);
+        description = description.replace(/\[STATE\]/g, stateName);
+      }
+      break;
+
+    case 'acp':
+      title = selectVariation(domain, ACP_TITLES, 'meta-title-acp', domain);
+      description = selectVariation(domain, ACP_DESCRIPTIONS, 'meta-desc-acp', domain);
+      break;
+
+    case 'lifeline':
+    case 'tribal':
+    case 'state-programs':
+    case 'emergency-broadband':
+      // Program pages share the programs pool with their own hash context
+      title = selectVariation(domain, PROGRAMS_TITLES, `meta-title-${pageType}`, domain);
+      description = selectVariation(domain, PROGRAMS_DESCRIPTIONS, `meta-desc-${pageType}`, domain);
+      break;
+
+    default:
+      title = selectVariation(domain, META_TITLES, 'meta-title-home', domain);
+      description = selectVariation(domain, META_DESCRIPTIONS, 'meta-desc-home', domain);
+  }
+
+  // Ensure optimal lengths for SEO (pad short titles/descriptions)
+  title = ensureLengthOptimal(title, 50, 60, siteName);
+  description = ensureLengthOptimal(description, 150, 160, 'Learn how the Lifeline Program works and how to qualify for a monthly discount on phone or internet service.');
+
+  return {
+    title,
+    description
+  };
+}
+
+/**
+ * Spanish titles/descriptions - same hash contexts and salts as the English switch above,
+ * page types without a Spanish pool use the homepage pool
+ */
+function getSpanishMetaVariations(
+  siteName: string,
+  domain: string,
+  pageType: string,
+  stateName?: string,
+  cityName?: string
+): { title: string; description: string } {
+  const pool = ES_META_POOLS[pageType] ?? ES_META_POOLS.home;
+  const salt = pageType === 'state' || pageType === 'city'
+    ? [domain, cityName, stateName].filter(Boolean).join('-')
+    : domain;
+
+  let title = selectVariation(domain, pool.titles, `meta-title-${pageType}`, salt);
+  let description = selectVariation(domain, pool.descriptions, `meta-desc-${pageType}`, salt);
+
+  if (cityName) {
+    title = title.replace(/\[CITY\]/g, cityName);
+    description = description.replace(/\[CITY\]/g, cityName);
+  }
+  if (stateName) {
+    title = title.replace(/\[STATE\]/g, stateName);
+    description = description.replace(/\[STATE\]/g, stateName);
+  }
+
+  return {
+    title: ensureLengthOptimal(title, 50, 60, siteName),
+    description: ensureLengthOptimal(description, 150, 160, ES_META_DESCRIPTION_CONTEXT),
+  };
+}
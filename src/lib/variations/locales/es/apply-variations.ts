@@ -0,0 +1,48 @@
+/**
+ * Spanish Apply Form Variations
+ * Mirrors shared/apply-variations.ts - same keys, same hash contexts
+ */
+
+export const ES_APPLY_POOLS = {
+  headlines: [
+    "Complete su Solicitud",
+    "Empiece su Inscripción",
+    "Envíe su Información",
+    "Inicie su Solicitud",
+    "Solicite sus Beneficios Hoy",
+  ],
+  subheadlines: [
+    "Solo toma unos minutos.",
+    "Llene el formulario a continuación para empezar.",
+    "Un proveedor aprobado revisará su información.",
+    "Un formulario corto es todo lo que necesita.",
+  ],
+  formIntros: [
+    "Cuéntenos un poco sobre usted para que un proveedor revise su elegibilidad.",
+    "Proporcione sus datos de contacto y de su hogar para iniciar la revisión.",
+    "Necesitamos algunos datos para encontrar un proveedor en su zona.",
+    "Ingrese su información a continuación para enviar su solicitud.",
+  ],
+  incomeLabels: ["Ingresos Anuales del Hogar", "Ingresos del Hogar por Año", "Ingresos Totales del Hogar", "Ingresos Anuales"],
+  householdLabels: ["Tamaño del Hogar", "Personas en el Hogar", "Número de Personas en el Hogar", "Miembros del Hogar"],
+  incomeHelpText: [
+    "Incluya los ingresos de todos los adultos de su hogar antes de impuestos.",
+    "Ingrese sus ingresos anuales totales antes de deducciones.",
+    "Sume salarios, beneficios y otros ingresos de todas las personas con quienes vive.",
+  ],
+  householdHelpText: [
+    "Cuente a todas las personas que viven con usted y comparten ingresos y gastos.",
+    "Inclúyase a usted y a quienes comparten los gastos de la vivienda.",
+    "Un hogar son todas las personas en su dirección que comparten dinero y cuentas.",
+  ],
+  successMessages: [
+    "¡Solicitud enviada con éxito! Revise su correo electrónico para los siguientes pasos.",
+    "¡Gracias! Recibimos su solicitud y la estamos revisando.",
+    "Su solicitud fue recibida. Un proveedor se comunicará con usted.",
+  ],
+  errorMessages: [
+    "Revise los campos marcados e intente de nuevo.",
+    "Falta información o hay datos incorrectos. Revise el formulario.",
+    "No pudimos enviar su solicitud. Corrija los campos marcados.",
+  ],
+};
@@ -0,0 +1,141 @@
+/**
+ * Spanish City Content Variations
+ * Mirrors the pools in src/lib/city-content-variations.ts - same fields, same compound-hash offsets.
+ * Tokens: {city}, {state}, {population}
+ */
+
+import type { CityContentPools } from '../../../city-content-variations';
+
+export const ES_CITY_CONTENT_POOLS: CityContentPools = {
+  intro: [
+    `Los residentes de {city}, {state} pueden obtener servicio telefónico gratis a través del programa federal Lifeline. Con {population} personas viviendo en esta comunidad, muchos hogares califican para un teléfono y un plan mensual sin costo.`,
+    `¡Obtenga su teléfono gratis del gobierno en {city}! Esta comunidad de {state}, con {population} residentes, tiene acceso a Lifeline, que ofrece a los hogares que califican un teléfono, llamadas, mensajes de texto y datos cada mes.`,
+    `Los programas de teléfono gratis atienden a familias de {city}, {state} todos los días. De los {population} residentes, muchos pueden calificar para un teléfono y servicio mensual sin revisión de crédito, sin contratos y sin cargos ocultos.`,
+    `¿Busca servicio telefónico gratis en {city}, {state}? No está solo. Los {population} residentes de la zona pueden solicitar Lifeline y recibir un teléfono con llamadas, textos y datos sin facturas mensuales.`,
+    `{city} es el hogar de {population} residentes de {state}, y muchos califican para un teléfono gratis del gobierno. Lifeline ayuda a los hogares con ingresos limitados a mantenerse conectados con el trabajo, la escuela, la salud y la familia.`,
+  ],
+  qualifiesIntro: [
+    `Para obtener un teléfono gratis del gobierno en {city}, {state}, debe cumplir al menos un requisito de elegibilidad. La mayoría califica por sus ingresos o por participar en un programa de asistencia del gobierno.`,
+    `Calificar en {city} es sencillo. Si los ingresos de su hogar están dentro de las guías federales o si recibe beneficios como SNAP, Medicaid o SSI, es probable que califique para Lifeline en {state}.`,
+    `Los residentes de {city} tienen dos caminos para calificar: demostrar ingresos dentro de los límites federales o mostrar que participan en un programa de asistencia federal o de {state}.`,
+    `¿Se pregunta si califica en {city}, {state}? Los requisitos son claros: califica si recibe beneficios del gobierno o si los ingresos de su hogar cumplen con las guías federales de pobreza.`,
+  ],
+  step1: [
+    `Revise los requisitos de elegibilidad para confirmar que califica para Lifeline en {city}. La mayoría de los residentes de {state} pueden verificarlo en menos de dos minutos.`,
+    `Primero, compruebe si cumple los requisitos para el servicio telefónico gratis en {city}, {state}. La verificación es rápida y no lo compromete a nada.`,
+    `Empiece por confirmar su elegibilidad. Los residentes de {city} pueden saber si califican según sus ingresos o los beneficios que ya reciben.`,
+  ],
+  step2: [
+    `Elija un proveedor de Lifeline que dé servicio en {city}, {state}. Compare planes, cobertura y teléfonos disponibles para encontrar el mejor para usted.`,
+    `Revise los proveedores disponibles en {city} y escoja el que mejor se adapte a sus necesidades. Cada compañía en {state} ofrece planes y teléfonos diferentes.`,
+    `Seleccione su proveedor preferido entre los que atienden {city}, {state}. Tome en cuenta la calidad de la cobertura y lo que incluye cada plan.`,
+  ],
+  step3: [
+    `Complete la solicitud en línea con sus datos y un comprobante de elegibilidad. Los residentes de {city} suelen terminar en unos 10 minutos.`,
+    `Llene el formulario de solicitud y suba sus documentos. El proceso para los hogares de {city}, {state} es sencillo y se hace desde su teléfono o computadora.`,
+    `Envíe su solicitud con su identificación y un documento que compruebe sus beneficios o ingresos. La verificación en {state} es rápida.`,
+  ],
+  step4: [
+    `Después de la aprobación, recibirá su teléfono gratis en su dirección de {city} en pocos días. Actívelo y empiece a usar su servicio de inmediato.`,
+    `Una vez aprobado, su teléfono llega por correo a su domicilio en {city}, {state}. Siga las instrucciones de activación y quedará conectado.`,
+    `Reciba su teléfono y actívelo. La mayoría de los hogares de {city} tienen servicio activo en menos de una semana después de la aprobación.`,
+  ],
+  providerAssurance: [
+    `Assurance Wireless ofrece teléfonos Android gratis y planes mensuales completos a clientes de Lifeline en {state}. Los residentes de {city} reciben llamadas, textos y datos.`,
+    `Muchos hogares de {city} eligen Assurance Wireless por su servicio confiable. Este proveedor de {state} incluye un teléfono Android y un plan mensual sin costo.`,
+  ],
+  providerSafelink: [
+    `SafeLink Wireless da servicio a {city}, {state} con teléfonos gratis y planes mensuales que incluyen minutos, mensajes de texto y datos.`,
+    `Los residentes de {city} pueden recibir un teléfono gratis de SafeLink Wireless, uno de los proveedores de Lifeline con más experiencia en {state}.`,
+  ],
+  providerQlink: [
+    `Q Link Wireless ofrece a los hogares de {city}, {state} un teléfono gratis y un plan mensual con llamadas, textos y datos.`,
+    `Con Q Link Wireless, los residentes de {city} que califican reciben servicio mensual gratis y pueden conservar su número actual.`,
+  ],
+  providerEntouch: [
+    `enTouch Wireless atiende a clientes de Lifeline en {city}, {state} con teléfonos gratis y planes mensuales sencillos.`,
+    `Los hogares de {city} también pueden elegir enTouch Wireless, que ofrece servicio de Lifeline en varias zonas de {state}.`,
+  ],
+  benefitsConnectivity: [
+    { title: 'Manténgase Conectado', bullets: ['Llamadas y textos cada mes', 'Datos mensuales incluidos', 'Buzón de voz e identificador de llamadas'] },
+    { title: 'Siempre Localizable', bullets: ['Llamadas incluidas', 'Mensajes de texto incluidos', 'Datos de alta velocidad'] },
+    { title: 'Servicio Completo', bullets: ['Llamadas a todo el país', 'Textos a todo el país', 'Datos cada mes'] },
+  ],
+  benefitsNoCost: [
+    { title: 'Sin Cargos Ocultos', bullets: ['Sin contratos', 'Sin facturas mensuales', 'Servicio sin costo'] },
+    { title: 'Costo Cero', bullets: ['Sin revisión de crédito', 'Sin cargos de activación', 'Sin compromisos'] },
+    { title: 'Totalmente Gratis', bullets: ['Sin pagos', 'Sin cargos sorpresa', 'Sin obligaciones'] },
+  ],
+  benefitsEmergency: [
+    { title: 'Seguridad en Emergencias', bullets: ['Acceso al 911', 'Contacto con su familia', 'Llamadas al médico'] },
+    { title: 'Tranquilidad', bullets: ['Llamadas de emergencia siempre disponibles', 'Alertas de su comunidad', 'Contacto con servicios de salud'] },
+    { title: 'Ayuda Cuando la Necesita', bullets: ['Servicio de emergencia 911', 'Contacto con el trabajo y la escuela', 'Citas médicas'] },
+  ],
+  faqApprovalTime: [
+    `La mayoría de los solicitantes de {city} reciben la aprobación en 24 a 48 horas. Después, su teléfono llega a su dirección en {state} en aproximadamente una semana.`,
+    `Las solicitudes de {city}, {state} suelen procesarse en uno o dos días hábiles. Espere su teléfono entre 5 y 7 días hábiles después de la aprobación.`,
+    `La verificación para los hogares de {city} toma alrededor de un día. Los envíos en {state} llegan en menos de una semana.`,
+  ],
+  faqKeepNumber: [
+    `Sí, los residentes de {city} normalmente pueden conservar su número actual. Pregunte a su proveedor en {state} por la transferencia de número.`,
+    `La mayoría de los proveedores de {city}, {state} le permiten transferir su número actual. Solicítelo durante el proceso de solicitud.`,
+  ],
+  faqDocuments: [
+    `Los solicitantes de {city} necesitan una identificación con foto y un comprobante de elegibilidad, como una carta de SNAP o Medicaid o un documento de ingresos reciente.`,
+    `Para solicitar en {city}, {state}, tenga a mano su identificación y un documento que compruebe sus beneficios o ingresos con fecha de los últimos 90 días.`,
+  ],
+  faqEveryoneEligible: [
+    `No todos los residentes de {city} califican. Debe cumplir con los límites de ingresos o participar en un programa de asistencia aceptado en {state}.`,
+    `La elegibilidad en {city}, {state} depende de los ingresos de su hogar o de los beneficios que recibe. Muchos hogares califican sin saberlo.`,
+  ],
+  faqServiceQuality: [
+    `Los teléfonos de Lifeline en {city} funcionan en las redes de los principales operadores, por lo que la cobertura en {state} es la misma que la de un plan pagado.`,
+    `El servicio en {city}, {state} usa redes nacionales confiables. La calidad de las llamadas y los datos es igual a la de los planes comerciales.`,
+  ],
+  faqMultiplePhones: [
+    `No. Las reglas federales permiten un solo beneficio de Lifeline por hogar en {city}, aunque en la misma dirección vivan varias personas.`,
+    `Cada hogar de {city}, {state} puede recibir un solo beneficio de Lifeline. Si varias familias comparten una dirección, cada hogar puede solicitar por separado.`,
+  ],
+  cta: [
+    {
+      headline: `¡Solicite hoy su servicio telefónico gratis en {city}, {state}!`,
+      subtext: `Únase a los residentes de {city} que ya están conectados gracias a Lifeline.`,
+      button: `Solicitar Ahora - ¡Es Gratis!`,
+    },
+    {
+      headline: `¡Obtenga su teléfono gratis del gobierno en {city}!`,
+      subtext: `Cada día más residentes de {state} se conectan. Empiece su solicitud ahora.`,
+      button: `Verificar Elegibilidad`,
+    },
+    {
+      headline: `{city}, {state}: ¡su teléfono gratis le espera!`,
+      subtext: `No deje pasar este beneficio federal. Solicite en minutos.`,
+      button: `Iniciar Solicitud`,
+    },
+  ],
+  headingQualifies: [
+    `¿Quién Califica para un Teléfono Gratis del Gobierno en {city}?`,
+    `¿Califica para un Teléfono Gratis en {city}, {state}?`,
+    `Requisitos en {city}, {state}`,
+  ],
+  headingHowTo: [
+    `Cómo Solicitar en {city}`,
+    `Cómo Obtener su Teléfono Gratis en {city}, {state}`,
+    `Pasos para Solicitar en {city}`,
+  ],
+  headingProviders: [
+    `Proveedores en {city}`,
+    `Proveedores de Lifeline en {city}, {state}`,
+    `Compañías que Dan Servicio en {city}`,
+  ],
+  headingBenefits: [
+    `Beneficios para los Residentes de {city}`,
+    `Qué Incluye su Teléfono Gratis en {city}`,
+    `Ventajas del Servicio en {city}, {state}`,
+  ],
+  headingFaq: [
+    `Preguntas Frecuentes en {city}`,
+    `Preguntas sobre el Teléfono Gratis en {city}, {state}`,
+    `Dudas Comunes de los Residentes de {city}`,
+  ],
+};
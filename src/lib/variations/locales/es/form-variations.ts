@@ -0,0 +1,38 @@
+/**
+ * Spanish Form Variations
+ * Mirrors shared/form-variations.ts - same keys, same hash contexts
+ */
+
+import type { ValidationMessages } from '../../shared/form-variations';
+
+export const ES_FORM_POOLS = {
+  firstName: ["Nombre", "Su Nombre", "Primer Nombre", "Nombre (Obligatorio)", "Nombre Legal"],
+  lastName: ["Apellido", "Apellidos", "Su Apellido", "Apellido (Obligatorio)"],
+  email: ["Correo Electrónico", "Su Correo Electrónico", "Correo", "Correo (Obligatorio)"],
+  phone: ["Número de Teléfono", "Teléfono de Contacto", "Número Celular", "Teléfono (Obligatorio)"],
+  address: ["Dirección", "Su Dirección", "Dirección Postal", "Dirección Actual"],
+  city: ["Ciudad", "Su Ciudad", "Nombre de la Ciudad", "Ciudad (Obligatorio)"],
+  state: ["Estado", "Su Estado", "Seleccione su Estado", "Estado (Obligatorio)"],
+  zip: ["Código Postal", "Su Código Postal", "ZIP", "Código Postal (Obligatorio)"],
+  dob: ["Fecha de Nacimiento", "Su Fecha de Nacimiento", "Fecha de Nacimiento (MM/DD/AAAA)"],
+  instructions: [
+    "Complete todos los campos obligatorios marcados con un asterisco (*).",
+    "Llene el formulario a continuación con información correcta.",
+    "Todos los campos obligatorios deben completarse para enviar.",
+    "Proporcione información correcta para que su solicitud se procese sin demoras.",
+    "Los campos marcados con (*) son obligatorios.",
+    "Revise que toda la información sea correcta antes de enviar."
+  ],
+  submitButton: ["Enviar", "Enviar Solicitud", "Continuar", "Siguiente Paso", "Solicitar Ahora", "Completar"],
+};
+
+export const ES_VALIDATION_MESSAGES: ValidationMessages = {
+  required: "El campo {lowerLabel} es obligatorio.",
+  invalid: "Revise el campo {lowerLabel}: el valor no es válido.",
+  phone: "Ingrese un {lowerLabel} de 10 dígitos.",
+  zip: "Ingrese un {label} válido de 5 dígitos.",
+  state: "Seleccione un {lowerLabel} válido.",
+  household: "El campo {lowerLabel} debe estar entre 1 y 20.",
+  cityNotFound: "No encontramos {city}, {state}. Revise el campo {lowerLabel}.",
+  providerNotFound: 'No encontramos el proveedor "{provider}". Elija uno de la lista.',
+};
@@ -0,0 +1,151 @@
+/**
+ * Spanish Microcopy Variations
+ * Mirrors src/lib/microcopy-variations.ts - keyed by the English pool name
+ */
+
+export const ES_MICROCOPY_POOLS: Record<string, unknown[]> = {
+  URGENCY_BADGE_VARIATIONS: [
+    { mobile: "OFERTA POR TIEMPO LIMITADO", desktop: "TIEMPO LIMITADO: La oferta vence pronto" },
+    { mobile: "SOLICITE HOY", desktop: "Disponibilidad limitada - Solicite hoy" },
+    { mobile: "CUPOS LIMITADOS", desktop: "Cupos limitados en su zona" },
+    { mobile: "NO ESPERE", desktop: "No espere - Verifique si califica hoy" },
+  ],
+  SECONDARY_HEADLINE_VARIATIONS: [
+    "Obtenga el Suyo Hoy",
+    "Reclame sus Beneficios",
+    "Empiece Hoy Mismo",
+    "Solicite en Minutos",
+    "Vea si Califica",
+  ],
+  LEARN_MORE_VARIATIONS: [
+    "Más Información",
+    "Leer Más",
+    "Conozca Más",
+    "Ver Detalles",
+  ],
+  VIEW_PROGRAMS_VARIATIONS: [
+    "Ver Programas →",
+    "Conozca los Programas →",
+    "Explorar Programas →",
+  ],
+  ELIGIBILITY_NAV_VARIATIONS: [
+    "Elegibilidad",
+    "Requisitos",
+    "¿Califico?",
+  ],
+  GET_STARTED_CTA_VARIATIONS: [
+    "Comenzar",
+    "Empezar Ahora",
+    "Solicitar Ahora",
+    "Iniciar Solicitud",
+  ],
+  LIFELINE_PROGRAM_VARIATIONS: [
+    "Programa Lifeline",
+    "Servicio Lifeline",
+    "Beneficio Lifeline",
+  ],
+  ACP_PROGRAM_VARIATIONS: [
+    "Programa ACP",
+    "Beneficio ACP",
+  ],
+  ACP_ENDED_PROGRAM_VARIATIONS: [
+    "ACP (Finalizado)",
+    "El ACP Terminó",
+  ],
+  TRIBAL_PROGRAMS_VARIATIONS: [
+    "Programas Tribales",
+    "Beneficios en Tierras Tribales",
+  ],
+  STATE_PROGRAMS_VARIATIONS: [
+    "Programas Estatales",
+    "Beneficios por Estado",
+  ],
+  CONTACT_US_VARIATIONS: [
+    "Contáctenos",
+    "Comuníquese con Nosotros",
+    "Contacto",
+  ],
+  ALL_STATES_VARIATIONS: [
+    "Todos los Estados",
+    "Ver Todos los Estados",
+  ],
+  SIMILAR_CITIES_VARIATIONS: [
+    "Ciudades Similares en Otros Estados",
+    "Ciudades Relacionadas en el País",
+    "Otras Ciudades Parecidas",
+  ],
+  RELATED_CONTENT_VARIATIONS: [
+    "Contenido Relacionado",
+    "Más Recursos",
+    "Información Útil",
+  ],
+  RELATED_CONTENT_SUBTITLE_VARIATIONS: [
+    "Explore más recursos para obtener su servicio telefónico gratuito del gobierno.",
+    "Encuentre más información sobre los programas federales de asistencia.",
+    "Consulte otras guías sobre elegibilidad, solicitudes y proveedores.",
+  ],
+  STATE_SELECTOR_SEARCH_VARIATIONS: [
+    "Busque o seleccione su estado para verificar su elegibilidad",
+    "Encuentre su estado para ver los programas disponibles",
+  ],
+  POPULAR_STATES_VARIATIONS: [
+    "Estados populares:",
+    "Estados principales:",
+  ],
+  SHOW_ALL_STATES_VARIATIONS: [
+    "Mostrar Todos los Estados",
+    "Ver Todos los Estados",
+  ],
+  BROWSE_CITIES_VARIATIONS: [
+    "Ver Todas las Ciudades",
+    "Explorar Ciudades",
+  ],
+  EXPLORE_ALL_STATES_VARIATIONS: [
+    "Explorar Todos los Estados",
+    "Ver Todos los Estados",
+  ],
+  MOST_POPULAR_CITIES_VARIATIONS: [
+    "Ciudades Más Populares",
+    "Ciudades Principales",
+  ],
+  LOADING_STATES_VARIATIONS: [
+    "Cargando estados...",
+    "Espere un momento...",
+  ],
+  LIMITED_TIME_STICKY_VARIATIONS: [
+    "Oferta por tiempo limitado",
+    "Oferta especial disponible",
+  ],
+  COUNTDOWN_LABEL_VARIATIONS: [
+    "Horas : Minutos : Segundos",
+    "Hrs : Min : Seg",
+  ],
+  COUNTDOWN_MESSAGE_VARIATIONS: [
+    "¡Obtenga servicio telefónico GRATIS antes de que venza esta oferta!",
+    "¡Reclame su teléfono gratis antes de que se acabe el tiempo!",
+  ],
+  CHECK_ELIGIBILITY_CTA_VARIATIONS: [
+    "Verifique su Elegibilidad →",
+    "Vea si Califica →",
+    "Compruebe si Califica →",
+  ],
+  CHECK_ELIGIBILITY_BUTTON_VARIATIONS: [
+    "VERIFICAR ELEGIBILIDAD",
+    "VEA SI CALIFICA",
+    "COMPRUEBE SI CALIFICA",
+  ],
+  SEARCH_PLACEHOLDER_VARIATIONS: [
+    "Busque su estado...",
+    "Encuentre su estado...",
+  ],
+  ZIP_LOOKUP_LABEL_VARIATIONS: [
+    "Encuentre su ciudad por código postal",
+    "Ingrese su código postal",
+    "Busque su ciudad con su código postal",
+  ],
+  ZIP_LOOKUP_BUTTON_VARIATIONS: [
+    "Buscar",
+    "Encontrar mi Ciudad",
+    "Ir",
+  ],
+};
@@ -0,0 +1,35 @@
+/**
+ * Spanish Trust & Privacy Variations
+ * Mirrors shared/trust-variations.ts - same keys, same hash contexts
+ */
+
+export const ES_TRUST_POOLS = {
+  trustIndicators: [
+    "✓ Seguro y Confidencial",
+    "✓ Proceso Rápido",
+    "✓ Sin Cargos Ocultos",
+    "✓ Solicitud 100% Gratis",
+    "✓ Privacidad Protegida",
+    "✓ Aprobación Rápida",
+    "✓ Sin Revisión de Crédito",
+    "✓ Proceso Sencillo",
+    "✓ Programa Verificado",
+    "✓ Servicio en Todo el País",
+    "✓ Sin Obligaciones",
+    "✓ Inscripción Fácil",
+  ],
+  privacyStatements: [
+    "Su privacidad es importante para nosotros. Toda la información que proporcione se mantiene confidencial y segura.",
+    "Su información solo se usa para verificar su elegibilidad y procesar su solicitud.",
+    "Nunca vendemos ni compartimos su información personal con terceros no autorizados.",
+    "Sus datos se guardan de forma segura y solo los consulta personal de verificación autorizado.",
+    "Cumplimos con todas las leyes federales de privacidad sobre su información.",
+  ],
+  securityMessages: [
+    "Una conexión cifrada con SSL protege sus datos",
+    "Su información está protegida con cifrado de 256 bits",
+    "Medidas de seguridad avanzadas protegen su privacidad",
+    "Todos los datos se transmiten cifrados",
+    "Su información personal siempre está protegida",
+  ],
+};
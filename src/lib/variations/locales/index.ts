@@ -0,0 +1,19 @@
+/**
+ * Locale Pools
+ * Every variation function takes an optional locale; English pools stay where they are and
+ * the Spanish pools live beside them (shared pools in locales/es, keyword pools in keywords/<id>/es).
+ * Selection uses the same hash context in every locale, so a domain's choice is just as stable.
+ */
+
+import type { Locale } from '../../i18n';
+
+export type { Locale } from '../../i18n';
+
+/**
+ * Pool for a locale - the localized pool when it has entries, otherwise the English pool
+ */
+export function pickLocalePool<T>(locale: Locale | undefined, english: T[], localized: Partial<Record<Locale, T[]>>): T[] {
+  if (!locale || locale === 'en') return english;
+  const pool = localized[locale];
+  return pool && pool.length > 0 ? pool : english;
+}
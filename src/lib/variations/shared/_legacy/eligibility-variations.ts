@@ -6,6 +6,7 @@
 
 import { selectVariation, selectUniqueVariations } from './hash-utils';
 import type { EligibilityContent } from './variation-types';
+import { getLifelineIncomeLimit, getPerPersonIncrement, formatIncome, LIFELINE_FPG_PERCENT } from '../../../poverty-guidelines';
 
 // ============================================================================
 // ELIGIBILITY H1 VARIATIONS (200+)
@@ -66,14 +67,14 @@ const INTRO_PARAGRAPHS = [
 // ============================================================================
 
 const INCOME_REQUIREMENTS = [
-  "Your household income must be at or below 135% of the federal poverty guidelines. For a single person, this means earning less than approximately $20,385 annually. Households with more members have higher income limits.",
+  "Your household income must be at or below 135% of the federal poverty guidelines. For a single person, this means earning less than approximately {limit1} annually. Households with more members have higher income limits.",
   "Income eligibility is set at 135% of the poverty line. This threshold adjusts based on household size - larger families have proportionally higher limits. All income sources count, including wages, benefits, and support payments.",
   "To qualify through income, your household must earn no more than 135% of federal poverty guidelines. These limits vary by family size and are updated annually. Include all household members' income when calculating your total.",
-  "Federal poverty guidelines determine income eligibility. At 135% of the poverty level, a household of four can earn up to approximately $36,075 annually and still qualify. Limits increase with each additional household member.",
+  "Federal poverty guidelines determine income eligibility. At 135% of the poverty level, a household of four can earn up to approximately {limit4} annually and still qualify. Limits increase with each additional household member.",
   "Income qualification means your household earnings fall below 135% of the poverty threshold. This calculation includes all sources: employment, disability, Social Security, child support, and other regular income.",
-  "The income limit for qualification is 135% of federal poverty guidelines, adjusted for household size. For example, a two-person household qualifies with annual income below roughly $27,465. Verify current limits as they update yearly.",
+  "The income limit for qualification is 135% of federal poverty guidelines, adjusted for household size. For example, a two-person household qualifies with annual income below roughly {limit2}. Verify current limits as they update yearly.",
   "To be income-eligible, household earnings must not exceed 135% of poverty guidelines. These thresholds account for regional differences and family size. Total all household members' pre-tax income for accurate calculation.",
-  "Qualifying income levels are set at 135% of federal poverty standards. A single individual earning under $20,385 per year typically qualifies. Add approximately $7,080 for each additional household member.",
+  "Qualifying income levels are set at 135% of federal poverty standards. A single individual earning under {limit1} per year typically qualifies. Add approximately {perPerson} for each additional household member.",
   "Income eligibility requires household earnings below 135% of the poverty line. This includes gross income from all sources before taxes and deductions. State-specific variations may apply in some cases.",
   "Your total household income must fall at or below 135% of federal poverty guidelines. These limits increase progressively with household size to account for larger family expenses and needs."
 ];
@@ -182,12 +183,19 @@ const ELIGIBILITY_H2S = [
 // MAIN EXPORT FUNCTION
 // ============================================================================
 
+// Dollar figures in income copy come from the current poverty guidelines (contiguous states)
+function fillIncomeTokens(text: string): string {
+  return text
+    .replace(/\{limit(\d)\}/g, (_, size) => formatIncome(getLifelineIncomeLimit(Number(size), 'US')))
+    .replace(/\{perPerson\}/g, formatIncome(getPerPersonIncrement('US', LIFELINE_FPG_PERCENT)));
+}
+
 export function getEligibilityVariations(domain: string): EligibilityContent {
   return {
     h1: selectVariation(domain, ELIGIBILITY_H1S, 'eligibility-h1'),
     h2s: selectUniqueVariations(domain, ELIGIBILITY_H2S, 5, 'eligibility-h2s'),
     introText: selectVariation(domain, INTRO_PARAGRAPHS, 'eligibility-intro'),
-    incomeRequirements: selectVariation(domain, INCOME_REQUIREMENTS, 'eligibility-income'),
+    incomeRequirements: fillIncomeTokens(selectVariation(domain, INCOME_REQUIREMENTS, 'eligibility-income')),
     programBenefits: selectUniqueVariations(domain, PROGRAM_BENEFITS, 8, 'eligibility-benefits'),
     qualificationChecklist: [selectVariation(domain, QUALIFICATION_CHECKLISTS, 'eligibility-checklist')],
     callToAction: selectVariation(domain, CTA_SECTIONS, 'eligibility-cta'),
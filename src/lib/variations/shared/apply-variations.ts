@@ -0,0 +1,116 @@
+/**
+ * Global Apply Form Variations (Shared Across All Keywords)
+ * Application form copy, help text and submission messages - NO keyword mentions
+ */
+
+import { selectVariation } from './hash-utils';
+import { getFormVariations } from './form-variations';
+import { getTrustVariations } from './trust-variations';
+import type { ApplyPageContent } from './variation-types';
+import { pickLocalePool, type Locale } from '../locales';
+import { ES_APPLY_POOLS } from '../locales/es/apply-variations';
+
+const HEADLINES = [
+  "Complete Your Application",
+  "Start Your Enrollment",
+  "Submit Your Information",
+  "Begin Your Application",
+  "Apply for Benefits Today",
+  "Complete Your Enrollment Form",
+  "Start Your Benefits Request",
+  "Submit Your Application Online"
+];
+
+const SUBHEADLINES = [
+  "It only takes a few minutes to complete.",
+  "Fill out the form below to get started.",
+  "Your information is reviewed by an approved provider.",
+  "Complete the short form and we will handle the rest.",
+  "Submit your details to begin the review process.",
+  "One short form is all it takes to apply."
+];
+
+const FORM_INTROS = [
+  "Tell us a little about yourself so a provider can review your eligibility.",
+  "Provide your contact and household details to start the review.",
+  "We need a few details to match you with a provider in your area.",
+  "Enter your information below to submit your request.",
+  "Share your household details so your application can be processed.",
+  "Complete each section below to send your application for review."
+];
+
+const INCOME_LABELS = ["Annual Household Income", "Yearly Household Income", "Total Household Income", "Household Income (per year)", "Annual Income"];
+const HOUSEHOLD_LABELS = ["Household Size", "People in Household", "Number in Household", "Household Members", "Total Household Size"];
+
+const INCOME_HELP_TEXT = [
+  "Include income from every adult in your household before taxes.",
+  "Enter your total yearly income before any deductions.",
+  "Add up wages, benefits and other income for everyone you live with.",
+  "Use your gross household income for the last 12 months.",
+  "Count all income sources for the adults in your home."
+];
+
+const HOUSEHOLD_HELP_TEXT = [
+  "Count everyone who lives with you and shares income and expenses.",
+  "Include yourself and anyone who shares living costs with you.",
+  "A household is everyone at your address who shares money and bills.",
+  "Include all adults and children who share income and expenses.",
+  "Count every person in your home who shares expenses."
+];
+
+const SUCCESS_MESSAGES = [
+  "Application submitted successfully! Check your email for next steps.",
+  "Thank you! Your application has been received and is being reviewed.",
+  "Your application is in. A provider will contact you with next steps.",
+  "Success! We received your application and will be in touch soon.",
+  "All set! Your application was submitted and is now under review.",
+  "Your request has been submitted. Watch your email for an update."
+];
+
+const ERROR_MESSAGES = [
+  "Please check the highlighted fields and try again.",
+  "Some information is missing or invalid. Please review the form.",
+  "We couldn't submit your application. Please correct the marked fields.",
+  "A few fields need your attention before you can submit.",
+  "Please fix the errors below and submit again.",
+  "Your application could not be sent. Review the highlighted fields."
+];
+
+/**
+ * Get full apply page content for a domain
+ * Combines shared form labels and trust copy with apply-specific messages
+ */
+export function getApplyFormContent(domain: string, locale: Locale = 'en'): ApplyPageContent {
+  const form = getFormVariations(domain, locale);
+  const trust = getTrustVariations(domain, locale);
+  const pool = (english: string[], key: keyof typeof ES_APPLY_POOLS) => pickLocalePool(locale, english, { es: ES_APPLY_POOLS[key] });
+
+  return {
+    headline: selectVariation(domain, pool(HEADLINES, 'headlines'), 'apply-form-headline'),
+    subheadline: selectVariation(domain, pool(SUBHEADLINES, 'subheadlines'), 'apply-form-subheadline'),
+    formIntro: selectVariation(domain, pool(FORM_INTROS, 'formIntros'), 'apply-form-intro'),
+    fieldLabels: {
+      firstName: form.labels.firstName,
+      lastName: form.labels.lastName,
+      email: form.labels.email,
+      phone: form.labels.phone,
+      address: form.labels.address,
+      city: form.labels.city,
+      state: form.labels.state,
+      zip: form.labels.zip,
+      income: selectVariation(domain, pool(INCOME_LABELS, 'incomeLabels'), 'apply-form-income'),
+      household: selectVariation(domain, pool(HOUSEHOLD_LABELS, 'householdLabels'), 'apply-form-household'),
+    },
+    instructions: [form.instructions],
+    helpText: {
+      income: selectVariation(domain, pool(INCOME_HELP_TEXT, 'incomeHelpText'), 'apply-form-help-income'),
+      household: selectVariation(domain, pool(HOUSEHOLD_HELP_TEXT, 'householdHelpText'), 'apply-form-help-household'),
+      privacy: trust.securityMessage,
+    },
+    trustIndicators: trust.trustIndicators,
+    privacyStatement: trust.privacyStatement,
+    successMessage: selectVariation(domain, pool(SUCCESS_MESSAGES, 'successMessages'), 'apply-form-success'),
+    errorMessage: selectVariation(domain, pool(ERROR_MESSAGES, 'errorMessages'), 'apply-form-error'),
+    submitButtonText: form.submitButton,
+  };
+}
@@ -0,0 +1,147 @@
+/**
+ * Global Eligibility Checker Variations (Shared Across All Keywords)
+ * Verdict headlines, rule explanations and next steps - NO keyword mentions
+ */
+
+import { selectVariation, selectUniqueVariations } from './hash-utils';
+import type { EligibilityContent } from './variation-types';
+import type { EligibilityDecision, EligibilityVerdict } from '../../eligibility';
+import { QUALIFYING_PROGRAMS, LIFELINE_FPG_PERCENT } from '../../eligibility';
+import { STATE_ABBR_TO_NAME } from '../../site-config';
+
+const VERDICT_HEADLINES: Record<EligibilityVerdict, string[]> = {
+  'qualify': [
+    "Good News - You Qualify!",
+    "You Meet the Requirements",
+    "You're Eligible to Apply",
+    "Great News - You Qualify",
+    "You Qualify for Benefits"
+  ],
+  'likely': [
+    "You Likely Qualify",
+    "You Appear to Be Eligible",
+    "Looks Like You Qualify",
+    "You Probably Qualify",
+    "You May Be Eligible"
+  ],
+  'not-qualify': [
+    "You May Not Qualify Right Now",
+    "You Don't Appear to Qualify Yet",
+    "Eligibility Not Met Right Now",
+    "You Might Not Be Eligible",
+    "We Couldn't Confirm Eligibility"
+  ]
+};
+
+const RESULT_H2S = [
+  "Why You Got This Result",
+  "How We Checked",
+  "The Rule That Applied",
+  "What We Looked At",
+  "How Your Result Was Decided"
+];
+
+const NEXT_STEPS_H2S = [
+  "What to Do Next",
+  "Your Next Steps",
+  "Next Steps",
+  "What Happens Now",
+  "Before You Apply"
+];
+
+const BENEFITS = [
+  "Free or discounted monthly phone service",
+  "Monthly minutes, texts and data",
+  "A compatible smartphone from many providers",
+  "Keep your current phone number in most cases",
+  "No credit check or contract required",
+  "Access to 911 and emergency services",
+  "Annual recertification keeps your benefit active",
+  "Enhanced support for residents of tribal lands"
+];
+
+const PROGRAM_CHECKLIST = [
+  "Have your benefit award letter or card ready",
+  "Make sure your name matches your program records",
+  "Use the address where you currently live",
+  "Only one Lifeline benefit is allowed per household"
+];
+
+const INCOME_CHECKLIST = [
+  "Gather last year's tax return or three recent pay stubs",
+  "Include income for every adult in your household",
+  "A Social Security or unemployment statement also works",
+  "Only one Lifeline benefit is allowed per household"
+];
+
+const NOT_QUALIFY_CHECKLIST = [
+  "Check again if your household income or size changes",
+  "Enrolling in SNAP, Medicaid or SSI also qualifies you",
+  "Your state may run its own assistance program",
+  "Review the income table for your household size"
+];
+
+const CTAS: Record<EligibilityVerdict, string[]> = {
+  'qualify': ["Start Your Application", "Apply Now", "Continue to Application", "Claim Your Benefit"],
+  'likely': ["Apply With Proof of Income", "Continue to Application", "Start Your Application", "Apply Now"],
+  'not-qualify': ["Review Eligibility Rules", "See Other Programs", "Learn About Programs", "Check Program Options"]
+};
+
+function formatUSD(amount: number): string {
+  return `$${Math.round(amount).toLocaleString('en-US')}`;
+}
+
+function stateLabel(stateAbbr: string): string {
+  const slug = STATE_ABBR_TO_NAME[stateAbbr.toLowerCase()];
+  if (!slug) return stateAbbr;
+  return slug.split('-').map(w => w.charAt(0).toUpperCase() + w.slice(1)).join(' ');
+}
+
+/**
+ * Explain which rule produced the verdict in plain language
+ */
+function explainRule(decision: EligibilityDecision): string {
+  const household = `${decision.householdSize} ${decision.householdSize === 1 ? 'person' : 'people'}`;
+  const limit = formatUSD(decision.incomeLimit);
+
+  if (decision.rule === 'program') {
+    const programs = decision.matchedPrograms.map(p => QUALIFYING_PROGRAMS[p]).join(', ');
+    return `Program-based rule: someone in your household participates in ${programs}. Participation in a qualifying program meets Lifeline eligibility on its own, regardless of income.`;
+  }
+
+  if (decision.rule === 'income' && decision.annualIncome !== undefined) {
+    const income = formatUSD(decision.annualIncome);
+    return decision.verdict === 'likely'
+      ? `Income-based rule: your household income of ${income} is at or below ${limit}, which is ${LIFELINE_FPG_PERCENT}% of the Federal Poverty Guidelines for a household of ${household} in ${stateLabel(decision.state)}. You will need to show proof of income.`
+      : `Income-based rule: your household income of ${income} is above ${limit}, which is ${LIFELINE_FPG_PERCENT}% of the Federal Poverty Guidelines for a household of ${household} in ${stateLabel(decision.state)}.`;
+  }
+
+  return `No rule matched: you did not select a qualifying program or enter a household income. The income limit for a household of ${household} in ${stateLabel(decision.state)} is ${limit}.`;
+}
+
+/**
+ * Build the checker result as EligibilityContent for a domain
+ */
+export function getEligibilityResultContent(domain: string, decision: EligibilityDecision): EligibilityContent {
+  const checklist = decision.verdict === 'qualify'
+    ? PROGRAM_CHECKLIST
+    : decision.verdict === 'likely' ? INCOME_CHECKLIST : NOT_QUALIFY_CHECKLIST;
+
+  const tableNote = decision.guidelineTable === 'contiguous'
+    ? 'the 48 contiguous states and DC'
+    : decision.guidelineTable === 'alaska' ? 'Alaska' : 'Hawaii';
+
+  return {
+    h1: selectVariation(domain, VERDICT_HEADLINES[decision.verdict], `eligibility-result-h1-${decision.verdict}`),
+    h2s: [
+      selectVariation(domain, RESULT_H2S, 'eligibility-result-h2-rule'),
+      selectVariation(domain, NEXT_STEPS_H2S, 'eligibility-result-h2-next'),
+    ],
+    introText: explainRule(decision),
+    incomeRequirements: `Income limit for a household of ${decision.householdSize}: ${formatUSD(decision.incomeLimit)} per year (${LIFELINE_FPG_PERCENT}% of the ${decision.guidelineYear} poverty guideline for ${tableNote}).`,
+    programBenefits: selectUniqueVariations(domain, BENEFITS, 4, 'eligibility-result-benefits'),
+    qualificationChecklist: checklist,
+    callToAction: selectVariation(domain, CTAS[decision.verdict], `eligibility-result-cta-${decision.verdict}`),
+    examples: decision.matchedPrograms.map(p => QUALIFYING_PROGRAMS[p]),
+  };
+}
@@ -4,6 +4,8 @@
  */
 
 import { selectVariation } from './hash-utils';
+import { pickLocalePool, type Locale } from '../locales';
+import { ES_FORM_POOLS, ES_VALIDATION_MESSAGES } from '../locales/es/form-variations';
 
 const FIRST_NAME_LABELS = ["First Name", "Given Name", "Your First Name", "Enter First Name", "First Name (Required)", "Legal First Name"];
 const LAST_NAME_LABELS = ["Last Name", "Family Name", "Surname", "Last Name (Required)", "Your Last Name"];
@@ -28,6 +30,19 @@ const FORM_INSTRUCTIONS = [
 
 const SUBMIT_BUTTONS = ["Submit", "Submit Application", "Continue", "Next Step", "Proceed", "Apply Now", "Send", "Complete", "Submit Form", "Next"];
 
+// Field errors for the application form
+// Tokens: {label} (the field's label), {lowerLabel}, {city}, {state}, {provider}
+const VALIDATION_MESSAGES: ValidationMessages = {
+  required: "{label} is required.",
+  invalid: "Please enter a valid {lowerLabel}.",
+  phone: "Please enter a 10-digit {lowerLabel}.",
+  zip: "Please enter a valid 5-digit {label}.",
+  state: "Please select a valid {lowerLabel}.",
+  household: "{label} must be between 1 and 20.",
+  cityNotFound: "We couldn't find {city}, {state}. Please check the {lowerLabel}.",
+  providerNotFound: 'We couldn\'t find the provider "{provider}". Please choose one from the list.',
+};
+
 export interface FormLabels {
   firstName: string;
   lastName: string;
@@ -40,26 +55,46 @@ export interface FormLabels {
   dob: string;
 }
 
+export interface ValidationMessages {
+  required: string;
+  invalid: string;
+  phone: string;
+  zip: string;
+  state: string;
+  household: string;
+  cityNotFound: string;
+  providerNotFound: string;
+}
+
 export interface FormContent {
   labels: FormLabels;
   instructions: string;
   submitButton: string;
 }
 
-export function getFormVariations(domain: string): FormContent {
+export function getFormVariations(domain: string, locale: Locale = 'en'): FormContent {
+  const pool = (english: string[], key: keyof typeof ES_FORM_POOLS) => pickLocalePool(locale, english, { es: ES_FORM_POOLS[key] });
   return {
     labels: {
-      firstName: selectVariation(domain, FIRST_NAME_LABELS, 'form-firstname'),
-      lastName: selectVariation(domain, LAST_NAME_LABELS, 'form-lastname'),
-      email: selectVariation(domain, EMAIL_LABELS, 'form-email'),
-      phone: selectVariation(domain, PHONE_LABELS, 'form-phone'),
-      address: selectVariation(domain, ADDRESS_LABELS, 'form-address'),
-      city: selectVariation(domain, CITY_LABELS, 'form-city'),
-      state: selectVariation(domain, STATE_LABELS, 'form-state'),
-      zip: selectVariation(domain, ZIP_LABELS, 'form-zip'),
-      dob: selectVariation(domain, DOB_LABELS, 'form-dob'),
+      firstName: selectVariation(domain, pool(FIRST_NAME_LABELS, 'firstName'), 'form-firstname'),
+      lastName: selectVariation(domain, pool(LAST_NAME_LABELS, 'lastName'), 'form-lastname'),
+      email: selectVariation(domain, pool(EMAIL_LABELS, 'email'), 'form-email'),
+      phone: selectVariation(domain, pool(PHONE_LABELS, 'phone'), 'form-phone'),
+      address: selectVariation(domain, pool(ADDRESS_LABELS, 'address'), 'form-address'),
+      city: selectVariation(domain, pool(CITY_LABELS, 'city'), 'form-city'),
+      state: selectVariation(domain, pool(STATE_LABELS, 'state'), 'form-state'),
+      zip: selectVariation(domain, pool(ZIP_LABELS, 'zip'), 'form-zip'),
+      dob: selectVariation(domain, pool(DOB_LABELS, 'dob'), 'form-dob'),
     },
-    instructions: selectVariation(domain, FORM_INSTRUCTIONS, 'form-instructions'),
-    submitButton: selectVariation(domain, SUBMIT_BUTTONS, 'form-submit'),
+    instructions: selectVariation(domain, pool(FORM_INSTRUCTIONS, 'instructions'), 'form-instructions'),
+    submitButton: selectVariation(domain, pool(SUBMIT_BUTTONS, 'submitButton'), 'form-submit'),
   };
 }
+
+/**
+ * Application form error templates for a locale - the same wording on every domain,
+ * since they name the domain's varied labels
+ */
+export function getValidationMessages(locale: Locale = 'en'): ValidationMessages {
+  return locale === 'es' ? ES_VALIDATION_MESSAGES : VALIDATION_MESSAGES;
+}
@@ -0,0 +1,123 @@
+import { describe, expect, it, vi } from 'vitest';
+import {
+  hashString,
+  getCompoundHash,
+  selectVariation,
+  selectUniqueVariations,
+  detectCollisions,
+  getSeededRandom,
+} from './hash-utils';
+import {
+  syntheticDomains,
+  bucketCounts,
+  chiSquare,
+  chiSquareCritical,
+  DISTRIBUTION_POOL_SIZES,
+} from '../../../test/synthetic-domains';
+
+const DOMAINS = syntheticDomains(10_000);
+const pool = (size: number) => Array.from({ length: size }, (_, i) => i);
+
+describe('hashString', () => {
+  it('is deterministic and non-negative', () => {
+    for (const domain of DOMAINS.slice(0, 100)) {
+      expect(hashString(domain)).toBe(hashString(domain));
+      expect(hashString(domain)).toBeGreaterThanOrEqual(0);
+    }
+  });
+
+  it('keeps the FNV-1a values every site was built with', () => {
+    expect([hashString(''), hashString('example.com'), hashString('free-government-phone.org')]).toMatchInlineSnapshot(`
+      [
+        2166136261,
+        1125968678,
+        190002888,
+      ]
+    `);
+  });
+});
+
+describe('getCompoundHash', () => {
+  it('is deterministic', () => {
+    expect(getCompoundHash('example.com', 'h1-home', 'salt')).toBe(getCompoundHash('example.com', 'h1-home', 'salt'));
+  });
+
+  it('changes with domain, context and salt', () => {
+    const base = getCompoundHash('example.com', 'h1-home', 'salt');
+    expect(getCompoundHash('example.org', 'h1-home', 'salt')).not.toBe(base);
+    expect(getCompoundHash('example.com', 'h1-faq', 'salt')).not.toBe(base);
+    expect(getCompoundHash('example.com', 'h1-home', 'pepper')).not.toBe(base);
+  });
+
+  it('gives every synthetic domain its own hash', () => {
+    expect(new Set(DOMAINS.map(domain => getCompoundHash(domain, 'h1-home'))).size).toBe(DOMAINS.length);
+    expect(detectCollisions(DOMAINS, 'h1-home').collisionCount).toBe(0);
+  });
+});
+
+describe('selectVariation', () => {
+  it('returns the same entry for the same inputs', () => {
+    const entries = pool(50);
+    for (const domain of DOMAINS.slice(0, 100)) {
+      expect(selectVariation(domain, entries, 'meta-title-home')).toBe(selectVariation(domain, entries, 'meta-title-home'));
+    }
+  });
+
+  it('throws on an empty pool', () => {
+    expect(() => selectVariation('example.com', [], 'empty')).toThrow('No variations available for context: empty');
+  });
+
+  it.each(DISTRIBUTION_POOL_SIZES)('spreads 10k domains evenly over %i entries', (size) => {
+    const entries = pool(size);
+    const counts = bucketCounts(DOMAINS.map(domain => selectVariation(domain, entries, 'distribution')), size);
+    expect(chiSquare(counts)).toBeLessThan(chiSquareCritical(size));
+  });
+
+  it('picks independently per context', () => {
+    const entries = pool(20);
+    const same = DOMAINS.filter(domain =>
+      selectVariation(domain, entries, 'context-a') === selectVariation(domain, entries, 'context-b')
+    ).length;
+    // Independent picks agree about 1 time in 20
+    expect(same / DOMAINS.length).toBeLessThan(0.1);
+  });
+});
+
+describe('selectUniqueVariations', () => {
+  it('returns distinct entries deterministically', () => {
+    const entries = pool(30);
+    for (const domain of DOMAINS.slice(0, 200)) {
+      const selected = selectUniqueVariations(domain, entries, 8, 'faq-items');
+      expect(new Set(selected).size).toBe(8);
+      expect(selectUniqueVariations(domain, entries, 8, 'faq-items')).toEqual(selected);
+    }
+  });
+
+  it('returns the whole pool instead of throwing when count exceeds its size', () => {
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const entries = pool(5);
+    const selected = selectUniqueVariations('example.com', entries, 8, 'eligibility-examples');
+
+    expect(selected).toHaveLength(5);
+    expect([...selected].sort()).toEqual(entries);
+    expect(warn).toHaveBeenCalledOnce();
+    warn.mockRestore();
+  });
+
+  it('handles an empty pool', () => {
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+    expect(selectUniqueVariations('example.com', [], 3, 'empty')).toEqual([]);
+    warn.mockRestore();
+  });
+});
+
+describe('getSeededRandom', () => {
+  it('is deterministic and within [0, 1)', () => {
+    for (const domain of DOMAINS.slice(0, 100)) {
+      const value = getSeededRandom(domain, 'layout');
+      expect(value).toBe(getSeededRandom(domain, 'layout'));
+      expect(value).toBeGreaterThanOrEqual(0);
+      expect(value).toBeLessThan(1);
+    }
+  });
+});
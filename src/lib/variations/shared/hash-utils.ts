@@ -3,44 +3,25 @@
  * Prevents collisions through multi-layer hashing with prime multiplication
  */
 
+import { hashString as hashWith, seededRandom } from '../../seeded-random';
+
 /**
  * Core hash function using FNV-1a algorithm
  */
 export function hashString(str: string): number {
-  let hash = 2166136261; // FNV offset basis
-  for (let i = 0; i < str.length; i++) {
-    hash ^= str.charCodeAt(i);
-    hash = Math.imul(hash, 16777619); // FNV prime
-  }
-  return Math.abs(hash);
+  return hashWith(str, 'fnv1a');
 }
 
 /**
  * Compound hash with multiple layers for guaranteed uniqueness at scale
+ * Served by the 'variation' stream of the seeded random service
  * @param domain - Site domain (e.g., "example.com")
  * @param context - Context identifier (e.g., "apply-headline", "faq-question-1")
  * @param salt - Optional salt for additional uniqueness
  * @returns Positive integer hash
  */
 export function getCompoundHash(domain: string, context: string, salt: string = ''): number {
-  // Layer 1: Hash domain
-  const domainHash = hashString(domain);
-  
-  // Layer 2: Hash context (page name, element type)
-  const contextHash = hashString(context);
-  
-  // Layer 3: Hash salt for uniqueness
-  const saltHash = salt ? hashString(salt) : 0;
-  
-  // Combine with different prime multiplications to avoid collisions
-  // Using large primes: 7919, 6421, 5381
-  const combined = Math.abs(
-    (domainHash * 7919) + 
-    (contextHash * 6421) + 
-    (saltHash * 5381)
-  );
-  
-  return combined;
+  return seededRandom(domain).stream('variation', context, salt).hash();
 }
 
 /**
@@ -82,7 +63,7 @@ export function selectVariation<T>(
  * Useful for selecting FAQ questions, examples, etc.
  * @param domain - Site domain
  * @param variations - Array of variations to select from
- * @param count - Number of variations to select
+ * @param count - Number of variations to select (capped at the pool size)
  * @param context - Context identifier
  * @returns Array of selected variations
  */
@@ -92,8 +73,10 @@ export function selectUniqueVariations<T>(
   count: number,
   context: string
 ): T[] {
+  // A pool that shrinks below the requested count returns every entry instead of failing the page
   if (count > variations.length) {
-    throw new Error(`Cannot select ${count} unique items from ${variations.length} variations`);
+    console.warn(`[Variations] Requested ${count} unique items from ${variations.length} variations for context: ${context}`);
+    count = variations.length;
   }
   
   const selected: T[] = [];
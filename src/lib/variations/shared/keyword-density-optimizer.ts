@@ -5,6 +5,7 @@
  */
 
 import { selectVariation } from './hash-utils';
+import { isProgramActive, type ProgramId } from '../../programs';
 
 // ============================================================================
 // LSI KEYWORD DATABASE (200+ alternatives per main keyword)
@@ -282,11 +283,38 @@ function calculateDensity(text: string, keyword: string): number {
   return totalWords > 0 ? (keywordCount / totalWords) * 100 : 0;
 }
 
+// Program keywords and the replacements used once that program is no longer enrolling,
+// so a swapped-in phrase never presents an ended program as current
+const PROGRAM_LSI_KEYS: Record<string, ProgramId> = {
+  "ACP": 'acp',
+};
+
+const ENDED_PROGRAM_LSI_KEYWORDS: Record<string, string[]> = {
+  "ACP": [
+    "former Affordable Connectivity Program",
+    "discontinued broadband benefit",
+    "former internet assistance program",
+    "ended ACP benefit",
+    "former broadband subsidy",
+    "past connectivity program",
+    "former federal internet discount",
+    "retired broadband support program"
+  ]
+};
+
+function getActiveLSIAlternatives(keyword: string): string[] {
+  const programId = PROGRAM_LSI_KEYS[keyword];
+  if (programId && !isProgramActive(programId) && ENDED_PROGRAM_LSI_KEYWORDS[keyword]) {
+    return ENDED_PROGRAM_LSI_KEYWORDS[keyword];
+  }
+  return LSI_KEYWORDS[keyword] || [];
+}
+
 /**
  * Get LSI keyword for replacement
  */
 function getLSIKeyword(originalKeyword: string, domain: string, index: number): string {
-  const alternatives = LSI_KEYWORDS[originalKeyword] || [];
+  const alternatives = getActiveLSIAlternatives(originalKeyword);
   if (alternatives.length === 0) {
     return originalKeyword;
   }
@@ -399,7 +427,7 @@ export function analyzeKeywordDensity(
  * @returns Array of LSI alternatives
  */
 export function getLSIAlternatives(keyword: string): string[] {
-  return LSI_KEYWORDS[keyword] || [];
+  return getActiveLSIAlternatives(keyword);
 }
 
 /**
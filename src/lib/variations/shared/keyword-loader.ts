@@ -5,19 +5,21 @@
  */
 
 import { validateKeyword, getKeywordConfig, getKeywordModuleFolder } from '../keyword-config';
+import { KEYWORD_MODULES, DEFAULT_KEYWORD_MODULE, assertKeywordRegistry } from '../keyword-registry';
 import { getFormVariations } from './form-variations';
+import { getApplyFormContent } from './apply-variations';
 import { getTrustVariations } from './trust-variations';
 import { getProgramVariations } from './program-variations';
 import { getProviderVariations } from './provider-variations';
 import { getSchemaVariations } from './schema-variations';
 import { getCTAVariation } from './cta-variations';
 
-// STATIC IMPORTS - All keyword modules imported at top level
-import * as freeGovPhone from '../keywords/free-government-phone/index';
+// Fail on first import if an enabled keyword is missing a module or a required export
+assertKeywordRegistry();
 
 /**
  * Load variation module for specific keyword + global variations
- * Throws error if keyword is invalid or disabled
+ * Invalid or disabled keywords fall back to free-government-phone
  * @param keywordId - Keyword identifier (e.g., 'free-government-phone')
  * @returns Module containing keyword-specific + global variation functions
  */
@@ -43,20 +45,9 @@ export async function loadKeywordVariations(keywordId: string) {
     }
   }
 
-  // STATIC MODULE MAPPING - No dynamic imports
-  // Always fallback to free-government-phone if keyword not found
-  let keywordModule;
-  
-  switch (normalizedKeywordId) {
-    case 'free-government-phone':
-      keywordModule = freeGovPhone;
-      break;
-    default:
-      // Always fallback to free-government-phone - never throw
-      console.warn(`Keyword module not found for: ${normalizedKeywordId}. Using 'free-government-phone' module.`);
-      keywordModule = freeGovPhone;
-  }
-  
+  // Enabled keywords are guaranteed a complete module by assertKeywordRegistry()
+  const keywordModule = KEYWORD_MODULES[getKeywordModuleFolder(normalizedKeywordId)] ?? KEYWORD_MODULES[DEFAULT_KEYWORD_MODULE];
+
   // Merge keyword-specific + global variations
   return {
     // Keyword-specific (H1, H2, H3, Meta, FAQ)
@@ -64,6 +55,7 @@ export async function loadKeywordVariations(keywordId: string) {
     
     // Global shared functions
     getFormVariations,
+    getApplyFormContent,
     getTrustVariations,
     getProgramVariations,
     getProviderVariations,
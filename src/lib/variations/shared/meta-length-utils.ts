@@ -0,0 +1,92 @@
+/**
+ * Meta Length Utilities
+ * Keeps titles (50-60 chars) and descriptions (150-160 chars) in the range search engines display.
+ * Shared by every keyword module's meta-variations.
+ */
+
+/**
+ * Truncate at a word boundary when too long, pad with context or generic copy when too short
+ */
+export function ensureLengthOptimal(text: string, min: number, max: number, context?: string): string {
+  // If too long, truncate intelligently at word boundary
+  if (text.length > max) {
+    // Always truncate at word boundary - find last space before max length
+    const truncated = text.substring(0, max - 3);
+    const lastSpace = truncated.lastIndexOf(' ');
+    // If we found a space and it's not too close to the start, use it
+    if (lastSpace > 0 && lastSpace > max * 0.5) {
+      return truncated.substring(0, lastSpace).trim() + '...';
+    }
+    // Fallback: if no good word boundary, truncate and add ellipsis
+    // But try to find any space in the last 20 chars to avoid mid-word cuts
+    const last20 = truncated.substring(Math.max(0, truncated.length - 20));
+    const spaceInLast20 = last20.lastIndexOf(' ');
+    if (spaceInLast20 > 0) {
+      const cutPoint = truncated.length - 20 + spaceInLast20;
+      return truncated.substring(0, cutPoint).trim() + '...';
+    }
+    return truncated.trim() + '...';
+  }
+  
+  // If too short, pad intelligently
+  if (text.length < min) {
+    const needed = min - text.length;
+    
+    // Check if context would create duplication (e.g., "Free Government Phone" already in text)
+    if (context) {
+      const contextLower = context.toLowerCase();
+      const textLower = text.toLowerCase();
+      
+      // If context is already mentioned in text, don't add it again
+      if (textLower.includes(contextLower)) {
+        // Use generic padding instead
+        if (max === 60) {
+          const titlePaddings = [' | Apply Today', ' | Get Started', ' | Learn More', ' | Check Now'];
+          const padding = titlePaddings[text.length % titlePaddings.length];
+          if (text.length + padding.length <= max) {
+            return text + padding;
+          }
+        } else if (max === 160) {
+          const descPaddings = [' Learn more about eligibility and benefits.', ' Get started with your application today.', ' Apply now for free phone service.'];
+          const padding = descPaddings[text.length % descPaddings.length];
+          if (text.length + padding.length <= max) {
+            return text + padding;
+          }
+        }
+        // Fallback
+        return text + ' | 2025';
+      }
+      
+      // Safe to add context if it doesn't duplicate
+      if (needed <= context.length + 1) {
+        return text + ' ' + context.substring(0, needed - 1);
+      }
+    }
+    
+    // Add generic padding based on type
+    if (max === 60) {
+      // Title padding
+      const titlePaddings = [' | Apply Today', ' | Get Started', ' | Learn More', ' | Check Now'];
+      const padding = titlePaddings[text.length % titlePaddings.length];
+      if (text.length + padding.length <= max) {
+        return text + padding;
+      }
+    } else if (max === 160) {
+      // Description padding
+      const descPaddings = [
+        ' Learn more about federal communication assistance programs.',
+        ' Discover how to qualify and apply for free phone service.',
+        ' Find out if you qualify for federal communication benefits.'
+      ];
+      const padding = descPaddings[text.length % descPaddings.length];
+      if (text.length + padding.length <= max) {
+        return text + padding;
+      }
+    }
+    
+    // Fallback: just add spaces if still too short (shouldn't happen with good arrays)
+    return text + ' '.repeat(Math.max(0, needed));
+  }
+  
+  return text;
+}
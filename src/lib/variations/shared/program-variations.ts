@@ -4,6 +4,15 @@
  */
 
 import { selectVariation } from './hash-utils';
+import {
+  getProgram,
+  getProgramStatus,
+  isProgramActive,
+  getActiveSuccessor,
+  formatProgramDate,
+  describeMonthlyBenefit,
+  type ProgramId,
+} from '../../programs';
 
 const LIFELINE_DESCRIPTIONS = [
   "The Lifeline program is a federal benefit that helps low-income households pay for phone and internet services.",
@@ -57,6 +66,75 @@ const ELIGIBILITY_INFO = [
   "Eligibility requires meeting income standards or participating in qualifying assistance programs."
 ];
 
+// Copy for programs that are no longer enrolling - filled from the program registry
+// Tokens: {program}, {short}, {endDate}, {successor}, {successorBenefit}
+const ENDED_PROGRAM_DESCRIPTIONS = [
+  "The {program} ({short}) ended on {endDate} and no longer accepts applications. {successor} is still available with {successorBenefit}.",
+  "{short} benefits stopped on {endDate}. Households that relied on it can apply for {successor}, which offers {successorBenefit}.",
+  "The {program} is closed - its final benefits were paid through {endDate}. {successor} remains open with {successorBenefit}.",
+  "{short} is no longer available after ending on {endDate}. Eligible households can still get {successorBenefit} through {successor}.",
+  "Enrollment in the {program} is over and benefits ended on {endDate}. {successor} continues to provide {successorBenefit}.",
+  "The {short} program wound down on {endDate}. {successor} is the program still accepting applications, with {successorBenefit}.",
+  "Since {endDate}, the {program} no longer pays benefits. You may qualify for {successor} instead, which provides {successorBenefit}.",
+];
+
+const PAUSED_PROGRAM_DESCRIPTIONS = [
+  "The {program} ({short}) is not accepting new enrollments right now. {successor} is available with {successorBenefit}.",
+  "New {short} applications are on hold. In the meantime, {successor} offers {successorBenefit}.",
+  "{short} enrollment is currently paused. Eligible households can still apply for {successor}, with {successorBenefit}.",
+  "The {program} has paused new sign-ups. {successor} remains open and provides {successorBenefit}.",
+  "Applications for {short} are not being taken at the moment. {successor} continues to offer {successorBenefit}.",
+];
+
+const ENDED_PROGRAM_BULLET_SETS = [
+  ["Ended {endDate}", "No new applications", "{successor} still available"],
+  ["Program closed {endDate}", "Benefits no longer paid", "Apply for {successor} instead"],
+  ["Final benefits paid {endDate}", "Enrollment closed", "{successor} remains open"],
+  ["Stopped {endDate}", "Not accepting households", "See {successor} eligibility"],
+  ["Closed as of {endDate}", "No monthly discount", "{successor} offers ongoing support"],
+];
+
+function fillProgramTokens(template: string, id: ProgramId): string {
+  const program = getProgram(id);
+  const successor = getActiveSuccessor(id);
+  return template
+    .replace(/\{program\}/g, program.name)
+    .replace(/\{short\}/g, program.shortName)
+    .replace(/\{endDate\}/g, program.endDate ? formatProgramDate(program.endDate) : 'recently')
+    .replace(/\{successor\}/g, successor ? successor.name : 'Lifeline')
+    .replace(/\{successorBenefit\}/g, successor ? describeMonthlyBenefit(successor.id) : 'monthly support');
+}
+
+/**
+ * Description for a program that is paused or ended, or null while it is active
+ * (callers then use their own active-program copy)
+ */
+export function getProgramStatusDescription(domain: string, id: ProgramId): string | null {
+  const status = getProgramStatus(id);
+  if (status === 'active') return null;
+  const pool = status === 'ended' ? ENDED_PROGRAM_DESCRIPTIONS : PAUSED_PROGRAM_DESCRIPTIONS;
+  return fillProgramTokens(selectVariation(domain, pool, `program-status-${id}`), id);
+}
+
+/**
+ * Bullet points for an ended program, or null while it is still running
+ */
+export function getProgramStatusBullets(domain: string, id: ProgramId): string[] | null {
+  if (getProgramStatus(id) !== 'ended') return null;
+  return selectVariation(domain, ENDED_PROGRAM_BULLET_SETS, `program-status-bullets-${id}`)
+    .map(bullet => fillProgramTokens(bullet, id));
+}
+
+/**
+ * Programs that copy can tell visitors to apply for - "Lifeline and ACP" while ACP is
+ * enrolling, just "Lifeline" once it has paused or ended. Fills the {programs} tokens
+ * in the state and city pools; pass 'or' for "Lifeline or ACP"
+ */
+export function getEnrollingProgramNames(joiner: 'and' | 'or' = 'and'): string {
+  const lifeline = getProgram('lifeline').shortName;
+  return isProgramActive('acp') ? `${lifeline} ${joiner} ${getProgram('acp').shortName}` : lifeline;
+}
+
 export interface ProgramContent {
   lifelineDescription: string;
   acpDescription: string;
@@ -66,14 +144,9 @@ export interface ProgramContent {
 
 export function getProgramVariations(domain: string): ProgramContent {
   return {
-    lifelineDescription: selectVariation(domain, LIFELINE_DESCRIPTIONS, 'program-lifeline'),
-    acpDescription: selectVariation(domain, ACP_DESCRIPTIONS, 'program-acp'),
+    lifelineDescription: getProgramStatusDescription(domain, 'lifeline') ?? selectVariation(domain, LIFELINE_DESCRIPTIONS, 'program-lifeline'),
+    acpDescription: getProgramStatusDescription(domain, 'acp') ?? selectVariation(domain, ACP_DESCRIPTIONS, 'program-acp'),
     tribalDescription: selectVariation(domain, TRIBAL_DESCRIPTIONS, 'program-tribal'),
     eligibilityInfo: selectVariation(domain, ELIGIBILITY_INFO, 'program-eligibility'),
   };
 }
-
-
-
-
-
@@ -28,7 +28,42 @@ export function getProviderVariations(domain: string): ProviderContent {
   };
 }
 
+const MATCH_INTROS = [
+  "These carriers list {location} in their service area, ranked by the value of their best plan.",
+  "Based on each carrier's coverage data, these providers serve {location}. Plans with more data and lower cost appear first.",
+  "The providers below report coverage in {location}, sorted by what their top plan includes.",
+  "Carriers covering {location}, ordered from the strongest plan value to the lowest.",
+  "We matched {location} against each provider's coverage area. The best-value plans are listed first."
+];
 
+const NO_MATCH_MESSAGES = [
+  "We don't have a carrier on file with confirmed coverage in {location} yet. Most carriers serve the whole state, so contact a provider directly to confirm.",
+  "No provider in our list confirms coverage for {location} right now. Call a carrier to check service at your address.",
+  "We couldn't confirm a provider for {location}. Coverage changes often, so check with carriers serving your state."
+];
 
+const NO_COVERAGE_DATA_MESSAGES = [
+  "Coverage details for {location} aren't available yet. Compare the providers below and confirm service at your address before you enroll.",
+  "We're still gathering carrier coverage data. Contact a provider to confirm service in {location}.",
+  "Provider coverage for {location} hasn't been published yet - check with each carrier before applying."
+];
 
+export interface ProviderMatchContent {
+  heading: string;
+  intro: string;
+  noMatchMessage: string;
+  noCoverageDataMessage: string;
+}
 
+/**
+ * Copy for the "Providers available in {location}" section
+ */
+export function getProviderMatchContent(domain: string, location: string): ProviderMatchContent {
+  const fill = (text: string) => text.replace(/\{location\}/g, location);
+  return {
+    heading: `Providers Available in ${location}`,
+    intro: fill(selectVariation(domain, MATCH_INTROS, 'provider-match-intro')),
+    noMatchMessage: fill(selectVariation(domain, NO_MATCH_MESSAGES, 'provider-match-none')),
+    noCoverageDataMessage: fill(selectVariation(domain, NO_COVERAGE_DATA_MESSAGES, 'provider-match-no-data')),
+  };
+}
@@ -4,6 +4,8 @@
  */
 
 import { selectVariation } from './hash-utils';
+import { pickLocalePool, type Locale } from '../locales';
+import { ES_TRUST_POOLS } from '../locales/es/trust-variations';
 
 const TRUST_INDICATORS = [
   "✓ Secure & Confidential",
@@ -60,15 +62,16 @@ export interface TrustContent {
   securityMessage: string;
 }
 
-export function getTrustVariations(domain: string): TrustContent {
+export function getTrustVariations(domain: string, locale: Locale = 'en'): TrustContent {
+  const indicators = pickLocalePool(locale, TRUST_INDICATORS, { es: ES_TRUST_POOLS.trustIndicators });
   return {
     trustIndicators: [
-      selectVariation(domain, TRUST_INDICATORS, 'trust-1'),
-      selectVariation(domain, TRUST_INDICATORS, 'trust-2'),
-      selectVariation(domain, TRUST_INDICATORS, 'trust-3'),
+      selectVariation(domain, indicators, 'trust-1'),
+      selectVariation(domain, indicators, 'trust-2'),
+      selectVariation(domain, indicators, 'trust-3'),
     ],
-    privacyStatement: selectVariation(domain, PRIVACY_STATEMENTS, 'privacy'),
-    securityMessage: selectVariation(domain, SECURITY_MESSAGES, 'security'),
+    privacyStatement: selectVariation(domain, pickLocalePool(locale, PRIVACY_STATEMENTS, { es: ES_TRUST_POOLS.privacyStatements }), 'privacy'),
+    securityMessage: selectVariation(domain, pickLocalePool(locale, SECURITY_MESSAGES, { es: ES_TRUST_POOLS.securityMessages }), 'security'),
   };
 }
 
@@ -3,6 +3,8 @@
  * Ensures type safety and consistency across variation system
  */
 
+import type { Locale } from '../locales';
+
 export interface ApplyPageContent {
   headline: string;
   subheadline: string;
@@ -102,3 +104,42 @@ export interface LSIKeyword {
   alternatives: string[];
 }
 
+
+// ============================================================================
+// KEYWORD MODULE OUTPUTS AND POOLS
+// ============================================================================
+
+export interface H1Content {
+  h1: string;
+}
+
+export interface MetaTags {
+  title: string;
+  description: string;
+}
+
+export interface QAItem {
+  question: string;
+  answer: string;
+}
+
+export interface MetaPool {
+  titles: string[];
+  descriptions: string[];
+}
+
+/**
+ * Raw pools behind a keyword module's getters, keyed by page type
+ * H2/H3 pools are optional because localized pages reuse the English ones
+ */
+export interface KeywordPoolSet {
+  h1: Record<string, string[]>;
+  h2?: Record<string, string[]>;
+  h3?: Record<string, string[]>;
+  meta: Record<string, MetaPool>;
+  faqs: QAItem[];
+}
+
+export interface KeywordVariationPools extends KeywordPoolSet {
+  localized?: Partial<Record<Locale, KeywordPoolSet>>;
+}
@@ -0,0 +1,63 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+
+const fake = vi.hoisted(() => ({
+  zips: {} as Record<string, { zip: string; city: string; state: string }>,
+  cities: {} as Record<string, { id: number; name: string }>,
+}))
+
+vi.mock('./supabase', () => ({
+  supabase: {
+    from: () => {
+      let zip = ''
+      const builder: any = {
+        select: () => builder,
+        eq: (_column: string, value: string) => { zip = value; return builder },
+        maybeSingle: async () => ({
+          data: fake.zips[zip] ? { county: null, latitude: null, longitude: null, ...fake.zips[zip] } : null,
+          error: null,
+        }),
+      }
+      return builder
+    },
+  },
+}))
+
+vi.mock('./db', async importOriginal => ({
+  ...(await importOriginal<typeof import('./db')>()),
+  getCityBySlug: async (stateSlug: string, citySlug: string) => fake.cities[`${stateSlug}/${citySlug}`] ?? null,
+}))
+
+vi.mock('./site-config', async importOriginal => ({
+  ...(await importOriginal<typeof import('./site-config')>()),
+  getSiteURL: () => 'https://lifeline.test',
+  useSubdomains: () => false,
+}))
+
+import { cache } from './cache'
+import { lookupZip } from './zip-lookup'
+
+describe('lookupZip', () => {
+  beforeEach(async () => {
+    await cache.clear()
+    fake.zips = {
+      '63366': { zip: '63366', city: "O'Fallon", state: 'mo' },
+      '81212': { zip: '81212', city: 'Cañon City', state: 'CO' },
+      '59001': { zip: '59001', city: 'Absarokee', state: 'MT' },
+    }
+    fake.cities = {
+      'missouri/o-fallon': { id: 1, name: "O'Fallon" },
+      'colorado/ca-on-city': { id: 2, name: 'Cañon City' },
+    }
+  })
+
+  it('links to the same city slug the rest of the site uses', async () => {
+    expect(await lookupZip('63366')).toMatchObject({ url: 'https://lifeline.test/mo/ofallon/', match: 'city' })
+    expect(await lookupZip('81212-1234')).toMatchObject({ url: 'https://lifeline.test/co/canon-city/', match: 'city' })
+  })
+
+  it('falls back to the state page when the city has no page', async () => {
+    expect(await lookupZip('59001')).toMatchObject({ url: 'https://lifeline.test/mt/', match: 'state' })
+    expect(await lookupZip('00000')).toBeNull()
+    expect(await lookupZip('not a zip')).toBeNull()
+  })
+})
@@ -0,0 +1,116 @@
+/**
+ * ZIP Code Lookup
+ * Resolves a ZIP code to its city and the canonical URL of that city's page
+ * ZIP codes live in the zip_codes table, loaded by scripts/import-zip-codes.js
+ */
+
+import { supabase } from './supabase'
+import { cache, cacheKeys, SSRCache } from './cache'
+import { getCityBySlug, toSlug } from './db'
+import { createCitySlug } from './slug-utils.js'
+import {
+  getSiteURL,
+  useSubdomains,
+  getCitySubdomainURL,
+  getStateSubdomainURL,
+  STATE_ABBR_TO_NAME,
+} from './site-config'
+
+export interface ZipRecord {
+  zip: string
+  city: string
+  state: string            // uppercase state abbreviation
+  county: string | null
+  latitude: number | null
+  longitude: number | null
+}
+
+export interface ZipLookupResult extends ZipRecord {
+  url: string
+  // 'city' when the ZIP's city has a page, 'state' when only the state page exists
+  match: 'city' | 'state'
+}
+
+const ZIP_PATTERN = /^(\d{5})(?:-\d{4})?$/
+
+/**
+ * Reduce user input ("12345", "12345-6789", " 12345 ") to a 5-digit ZIP, or null if invalid
+ */
+export function normalizeZip(input: string | null | undefined): string | null {
+  const match = (input || '').trim().match(ZIP_PATTERN)
+  return match ? match[1] : null
+}
+
+/**
+ * Canonical city page URL - subdomain form when enabled, otherwise /{state}/{city}/
+ */
+export function getCityURL(citySlug: string, stateAbbr: string): string {
+  const abbr = stateAbbr.toLowerCase()
+  return useSubdomains()
+    ? getCitySubdomainURL(citySlug, abbr)
+    : `${getSiteURL()}/${abbr}/${citySlug}/`
+}
+
+/**
+ * Canonical state page URL - subdomain form when enabled, otherwise /{state}/
+ */
+export function getStateURL(stateAbbr: string): string {
+  const abbr = stateAbbr.toLowerCase()
+  return useSubdomains() ? getStateSubdomainURL(abbr) : `${getSiteURL()}/${abbr}/`
+}
+
+/**
+ * Fetch the ZIP/city/county record for a ZIP code
+ */
+export async function getZipRecord(zip: string): Promise<ZipRecord | null> {
+  return cache.getOrFetch(
+    cacheKeys.zip(zip),
+    async () => {
+      if (!supabase) {
+        console.warn('[ZIP] Supabase not available, cannot look up ZIP codes')
+        return null
+      }
+
+      try {
+        const { data, error } = await supabase
+          .from('zip_codes')
+          .select('zip, city, state, county, latitude, longitude')
+          .eq('zip', zip)
+          .maybeSingle()
+
+        if (error) {
+          console.error('[ZIP] Error fetching ZIP code:', error)
+          return null
+        }
+
+        return data ? { ...data, state: data.state.toUpperCase() } : null
+      } catch (err) {
+        console.error('[ZIP] Exception fetching ZIP code:', err)
+        return null
+      }
+    },
+    SSRCache.TTL.STATIC_DATA
+  )
+}
+
+/**
+ * Resolve a ZIP code to the page visitors should land on
+ * Falls back to the state page when the ZIP's city has no page of its own
+ */
+export async function lookupZip(input: string): Promise<ZipLookupResult | null> {
+  const zip = normalizeZip(input)
+  if (!zip) return null
+
+  const record = await getZipRecord(zip)
+  if (!record) return null
+
+  const stateSlug = STATE_ABBR_TO_NAME[record.state.toLowerCase()]
+  if (!stateSlug) return null
+
+  const city = await getCityBySlug(stateSlug, toSlug(record.city))
+  if (city) {
+    return { ...record, url: getCityURL(createCitySlug(city.name), record.state), match: 'city' }
+  }
+
+  return { ...record, url: getStateURL(record.state), match: 'state' }
+}
@@ -1,14 +1,42 @@
 // Simplified middleware - only handles domain validation and www redirect
 // Subdomain routing is handled by index.astro using Astro.rewrite()
 import { getDomain, useSubdomains, parseSubdomain } from './lib/site-config';
+import { ADMIN_SESSION_COOKIE, verifySessionToken, isPublicAdminPath } from './lib/admin-auth';
+
+// Require a valid admin session for everything under /admin except the login page
+const guardAdmin = async (context: any, next: any, url: URL) => {
+  const session = verifySessionToken(context.cookies.get(ADMIN_SESSION_COOKIE)?.value);
+
+  if (!session) {
+    if (context.cookies.has(ADMIN_SESSION_COOKIE)) {
+      context.cookies.delete(ADMIN_SESSION_COOKIE, { path: '/' });
+    }
+    const loginURL = `/admin/login?next=${encodeURIComponent(url.pathname + url.search)}`;
+    return context.redirect(loginURL, 302);
+  }
+
+  context.locals.admin = session;
+  const response = await next();
+  response.headers.set('Cache-Control', 'private, no-store');
+  return response;
+};
 
 export const onRequest = async (context: any, next: any) => {
+  // Prerendered pages (STATIC_PAGES builds) are rendered against the build origin, not a visitor's host
+  if (context.isPrerendered) {
+    return next();
+  }
+
   const url = new URL(context.request.url);
   const host = url.hostname.toLowerCase();
   
   // Get configured domain from site-config
   const configuredDomain = getDomain();
 
+  const isAdminPath = url.pathname === '/admin' || url.pathname.startsWith('/admin/');
+  const requiresAdmin = isAdminPath && !isPublicAdminPath(url.pathname);
+  const proceed = () => requiresAdmin ? guardAdmin(context, next, url) : next();
+
   // Allow preview hosts (Vercel deployments, localhost)
   const isPreviewHost =
     host.endsWith('.vercel.app') ||
@@ -37,12 +65,12 @@ export const onRequest = async (context: any, next: any) => {
 
       // Allow internal rewrites and .php city pages
       if (isInternalRewrite || isPhpCityPage) {
-        return next();
+        return proceed();
       }
 
       // Allow root path (homepage rewrite will handle)
       if (url.pathname === '/') {
-        return next();
+        return proceed();
       }
 
       // Allow static pages (no extension, not state/city format)
@@ -50,7 +78,7 @@ export const onRequest = async (context: any, next: any) => {
                            !url.pathname.match(/^\/([a-z]{2})\/?/) &&
                            !url.pathname.match(/^\/([a-z]{2})\/([a-z0-9-]+)/);
       if (isStaticPage) {
-        return next();
+        return proceed();
       }
 
       // Redirect any other path to root (keeps URLs clean)
@@ -68,7 +96,7 @@ export const onRequest = async (context: any, next: any) => {
 
   // Allow preview hosts and the configured domain
   if (isPreviewHost || isExactDomain || (isSubdomain && useSubdomains())) {
-    return next();
+    return proceed();
   }
 
   // Redirect to canonical domain if not on correct domain
@@ -80,5 +108,5 @@ export const onRequest = async (context: any, next: any) => {
   }
 
   // Default: allow the request
-  return next();
+  return proceed();
 };
@@ -0,0 +1,11 @@
+import type { APIRoute } from 'astro';
+import { ADMIN_SESSION_COOKIE } from '../../lib/admin-auth';
+
+export const prerender = false;
+
+// Clear the admin session cookie and return to the login page
+// POST only (the dashboard's logout form) - a GET could be triggered by any cross-site link or image
+export const POST: APIRoute = async ({ cookies, redirect }) => {
+  cookies.delete(ADMIN_SESSION_COOKIE, { path: '/' });
+  return redirect('/admin/login', 303);
+};
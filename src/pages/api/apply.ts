@@ -0,0 +1,60 @@
+import type { APIRoute } from 'astro';
+import { getDomain } from '../../lib/site-config';
+import { getApplyFormContent } from '../../lib/variations/shared/apply-variations';
+import { submitApplication } from '../../lib/applications';
+import { isLocale, DEFAULT_LOCALE } from '../../lib/i18n';
+
+export const prerender = false;
+
+// Application intake endpoint - accepts JSON or form-encoded POSTs from /apply, /es/apply and city page forms
+export const POST: APIRoute = async ({ request }) => {
+  const domain = getDomain();
+  let content = getApplyFormContent(domain);
+
+  const badRequest = () => new Response(JSON.stringify({ ok: false, message: content.errorMessage }), {
+    status: 400,
+    headers: { 'Content-Type': 'application/json' },
+  });
+
+  let body: unknown;
+  try {
+    const contentType = request.headers.get('content-type') || '';
+    if (contentType.includes('application/json')) {
+      body = await request.json();
+    } else {
+      const formData = await request.formData();
+      body = Object.fromEntries(formData.entries());
+    }
+  } catch (error) {
+    console.error('[Apply] Error parsing request body:', error);
+    return badRequest();
+  }
+
+  // JSON null, numbers, strings and arrays have no fields to validate
+  if (!body || typeof body !== 'object' || Array.isArray(body)) {
+    return badRequest();
+  }
+  const raw = body as Record<string, unknown>;
+
+  // Spanish forms post locale=es so the summary and field messages come back in the form's language
+  const locale = typeof raw.locale === 'string' && isLocale(raw.locale) ? raw.locale : DEFAULT_LOCALE;
+  if (locale !== DEFAULT_LOCALE) {
+    content = getApplyFormContent(domain, locale);
+  }
+
+  const result = await submitApplication(raw, content, {
+    domain,
+    source: request.headers.get('referer'),
+    locale,
+  });
+
+  const status = result.ok ? 201 : result.errors ? 422 : 500;
+
+  return new Response(JSON.stringify(result), {
+    status,
+    headers: {
+      'Content-Type': 'application/json',
+      'Cache-Control': 'no-store',
+    },
+  });
+};
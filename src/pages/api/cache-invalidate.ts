@@ -0,0 +1,54 @@
+import type { APIRoute } from 'astro';
+import { parseRowChangeEvent, verifyWebhookSecret, verifyWebhookSignature, invalidateRowChange } from '../../lib/cache-invalidation';
+
+export const prerender = false;
+
+const json = (body: unknown, status = 200) => new Response(JSON.stringify(body), {
+  status,
+  headers: { 'Content-Type': 'application/json', 'Cache-Control': 'no-store' },
+});
+
+// Supabase database webhook - clears cached data for a changed states/cities/providers row
+// and returns the page URLs to purge from the CDN
+export const POST: APIRoute = async ({ request }) => {
+  const secret = import.meta.env.CACHE_WEBHOOK_SECRET;
+  if (!secret) {
+    console.error('[Cache] Invalidation webhook called but CACHE_WEBHOOK_SECRET is not set');
+    return json({ ok: false, error: 'Webhook not configured' }, 503);
+  }
+
+  // Supabase sends the secret as a fixed header; other senders may sign the body instead
+  const body = await request.text();
+  const authorized =
+    verifyWebhookSecret(request.headers.get('x-webhook-secret'), secret) ||
+    verifyWebhookSignature(
+      body,
+      request.headers.get('x-webhook-signature'),
+      request.headers.get('x-webhook-timestamp'),
+      secret
+    );
+  if (!authorized) {
+    return json({ ok: false, error: 'Invalid signature' }, 401);
+  }
+
+  let payload: unknown;
+  try {
+    payload = JSON.parse(body);
+  } catch {
+    return json({ ok: false, error: 'Body must be JSON' }, 400);
+  }
+
+  const event = parseRowChangeEvent(payload);
+  if (!event) {
+    // Acknowledge changes on other tables so the sender does not retry them
+    return json({ ok: true, ignored: true, keys: [], prefixes: [], urls: [] });
+  }
+
+  try {
+    const plan = await invalidateRowChange(event);
+    return json({ ok: true, ...plan });
+  } catch (error) {
+    console.error('[Cache] Error handling invalidation webhook:', error);
+    return json({ ok: false, error: 'Invalidation failed' }, 500);
+  }
+};
@@ -0,0 +1,56 @@
+import type { APIRoute } from 'astro';
+import { getDomain } from '../../lib/site-config';
+import { evaluateEligibility, validateEligibilityAnswers, isQualifyingProgram, type EligibilityAnswers } from '../../lib/eligibility';
+import { getEligibilityResultContent } from '../../lib/variations/shared/eligibility-variations';
+
+export const prerender = false;
+
+// Eligibility checker endpoint - evaluates program-based and income-based Lifeline rules
+export const POST: APIRoute = async ({ request }) => {
+  const badRequest = () => new Response(JSON.stringify({ ok: false, errors: ['Invalid request body.'] }), {
+    status: 400,
+    headers: { 'Content-Type': 'application/json' },
+  });
+
+  let parsed: unknown;
+  try {
+    parsed = await request.json();
+  } catch {
+    return badRequest();
+  }
+
+  // JSON null, numbers, strings and arrays have no answers to evaluate
+  if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)) {
+    return badRequest();
+  }
+  const body = parsed as Record<string, unknown>;
+
+  const programs = Array.isArray(body.programs) ? body.programs.map(String).filter(isQualifyingProgram) : [];
+  const incomeValue = body.annualIncome;
+  const answers: Partial<EligibilityAnswers> = {
+    householdSize: Number(body.householdSize),
+    state: typeof body.state === 'string' ? body.state.trim() : '',
+    programs,
+    annualIncome: incomeValue === undefined || incomeValue === null || incomeValue === ''
+      ? undefined
+      : Number(String(incomeValue).replace(/[$,\s]/g, '')),
+  };
+
+  const errors = validateEligibilityAnswers(answers);
+  if (errors.length > 0) {
+    return new Response(JSON.stringify({ ok: false, errors }), {
+      status: 422,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  }
+
+  const decision = evaluateEligibility(answers as EligibilityAnswers);
+  const content = getEligibilityResultContent(getDomain(), decision);
+
+  return new Response(JSON.stringify({ ok: true, decision, content }), {
+    headers: {
+      'Content-Type': 'application/json',
+      'Cache-Control': 'no-store',
+    },
+  });
+};
@@ -0,0 +1,53 @@
+import type { APIRoute } from 'astro';
+import { findNearestCityPages, isValidCoordinate } from '../../lib/near-me';
+import { getClientIP, lookupIPLocation } from '../../lib/ip-location';
+
+export const prerender = false;
+
+const DEFAULT_LIMIT = 6;
+const MAX_LIMIT = 24;
+
+function json(body: unknown, status = 200): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: {
+      'Content-Type': 'application/json',
+      // Results depend on the visitor's location
+      'Cache-Control': 'private, no-store',
+    },
+  });
+}
+
+// Near-me endpoint - nearest city pages to browser coordinates (?lat=&lon=), or to the
+// visitor's IP region when no coordinates are sent
+export const GET: APIRoute = async ({ url, request, clientAddress }) => {
+  const limit = Math.min(Math.max(Number(url.searchParams.get('limit')) || DEFAULT_LIMIT, 1), MAX_LIMIT);
+  const latParam = url.searchParams.get('lat');
+  const lonParam = url.searchParams.get('lon');
+
+  if (latParam !== null || lonParam !== null) {
+    const lat = Number(latParam);
+    const lon = Number(lonParam);
+    if (latParam === '' || lonParam === '' || !isValidCoordinate(lat, lon)) {
+      return json({ ok: false, error: 'Invalid coordinates.' }, 400);
+    }
+
+    const cities = await findNearestCityPages(lat, lon, limit);
+    return json({ ok: true, source: 'geolocation', cities });
+  }
+
+  let address: string | undefined;
+  try {
+    address = clientAddress;
+  } catch {
+    // Adapter could not determine the socket address
+  }
+
+  const location = await lookupIPLocation(getClientIP(request, address));
+  if (!location) {
+    return json({ ok: false, error: 'We could not estimate your location.' }, 404);
+  }
+
+  const cities = await findNearestCityPages(location.latitude, location.longitude, limit);
+  return json({ ok: true, source: 'ip', region: location.region, cities });
+};
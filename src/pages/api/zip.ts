@@ -0,0 +1,39 @@
+import type { APIRoute } from 'astro';
+import { lookupZip, normalizeZip } from '../../lib/zip-lookup';
+
+export const prerender = false;
+
+// ZIP lookup endpoint - returns the canonical city page for a ZIP code
+// With ?redirect=1 (the no-JS form submission) it sends the visitor straight there
+export const GET: APIRoute = async ({ url, redirect }) => {
+  const input = url.searchParams.get('zip') || '';
+  const wantsRedirect = url.searchParams.get('redirect') === '1';
+  const zip = normalizeZip(input);
+
+  if (!zip) {
+    if (wantsRedirect) return redirect('/free-government-phone-near-me?zip_error=invalid', 303);
+    return new Response(JSON.stringify({ ok: false, error: 'Please enter a valid 5-digit ZIP code.' }), {
+      status: 400,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  }
+
+  const result = await lookupZip(zip);
+
+  if (!result) {
+    if (wantsRedirect) return redirect(`/free-government-phone-near-me?zip_error=not_found&zip=${zip}`, 303);
+    return new Response(JSON.stringify({ ok: false, error: `We couldn't find ZIP code ${zip}. Try browsing by state instead.` }), {
+      status: 404,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  }
+
+  if (wantsRedirect) return redirect(result.url, 303);
+
+  return new Response(JSON.stringify({ ok: true, ...result }), {
+    headers: {
+      'Content-Type': 'application/json',
+      'Cache-Control': 'public, max-age=86400',
+    },
+  });
+};
@@ -1,7 +1,8 @@
 import type { APIRoute } from 'astro';
-import { supabase } from '../lib/supabase';
-import { getSiteURL, useSubdomains, getStateSubdomainURL } from '../lib/site-config';
-import { getCitiesForSitemap, generateCitySitemapXML, shuffleStates, shuffleStaticPages } from '../lib/sitemap-utils';
+import { getStates } from '../lib/db';
+import { getSiteURL } from '../lib/site-config';
+import { getCitiesForSitemap, generateCitySitemapXML, generateLocalizedURLEntries, shuffleStates, shuffleStaticPages, URLSET_OPEN } from '../lib/sitemap-utils';
+import { isLocalizedStaticPage, getLocalizedPageURL, getLocalizedStateURL } from '../lib/i18n';
 
 const URLS_PER_SITEMAP = 10000;
 
@@ -33,49 +34,45 @@ export const GET: APIRoute = async ({ params }) => {
 
     // Fetch all states
     let states: Array<{ name: string; abbreviation: string }> = [];
-    if (supabase) {
-      try {
-        const { data } = await supabase
-          .from('states')
-          .select('name, abbreviation')
-          .order('name');
-        if (data) states = data;
-      } catch (e) {
-        console.error('Error fetching states for sitemap:', e);
-      }
+    try {
+      states = await getStates();
+    } catch (e) {
+      console.error('Error fetching states for sitemap:', e);
     }
 
     // Shuffle states per domain for unique ordering
     const shuffledStates = shuffleStates(states);
 
-    let xml = `<?xml version="1.0" encoding="UTF-8"?>
-<urlset xmlns="http://www.sitemaps.org/schemas/sitemap/0.9">
-`;
+    let xml = URLSET_OPEN;
 
     // Add static pages - match reference site: changefreq=monthly for static pages, weekly for homepage
+    // Pages with a Spanish version are listed in both locales with hreflang alternates
     for (const page of staticPages) {
+      const changefreq = page === '' ? 'weekly' : 'monthly';
+      const priority = page === '' ? '1.0' : '0.8';
+      if (isLocalizedStaticPage(page)) {
+        xml += generateLocalizedURLEntries({
+          en: getLocalizedPageURL(page, 'en'),
+          es: getLocalizedPageURL(page, 'es'),
+        }, today, changefreq, priority);
+        continue;
+      }
       xml += `  <url>
     <loc>${SITE_URL}${page}/</loc>
     <lastmod>${today}</lastmod>
-    <changefreq>${page === '' ? 'weekly' : 'monthly'}</changefreq>
-    <priority>${page === '' ? '1.0' : '0.8'}</priority>
+    <changefreq>${changefreq}</changefreq>
+    <priority>${priority}</priority>
   </url>
 `;
     }
 
-    // Add state pages - use subdomain format if enabled (e.g., nj.free-government-phone.org)
-    const useSubdomainMode = useSubdomains();
+    // Add state pages - English uses subdomain format if enabled (e.g., nj.free-government-phone.org),
+    // Spanish always lives under /es/ on the main domain
     for (const state of shuffledStates) {
-      const stateUrl = useSubdomainMode 
-        ? getStateSubdomainURL(state.abbreviation.toLowerCase())
-        : `${SITE_URL}/${state.abbreviation.toLowerCase()}/`;
-      xml += `  <url>
-    <loc>${stateUrl}</loc>
-    <lastmod>${today}</lastmod>
-    <changefreq>weekly</changefreq>
-    <priority>0.7</priority>
-  </url>
-`;
+      xml += generateLocalizedURLEntries({
+        en: getLocalizedStateURL(state.abbreviation, 'en'),
+        es: getLocalizedStateURL(state.abbreviation, 'es'),
+      }, today, 'weekly', '0.7');
     }
 
     xml += `</urlset>`;
@@ -1,6 +1,6 @@
 import type { APIRoute } from 'astro';
 import { getSiteURL } from '../lib/site-config';
-import { supabase } from '../lib/supabase';
+import { getTotalCityCount } from '../lib/db';
 
 // Sitemap index - references multiple sitemap files
 export const GET: APIRoute = async () => {
@@ -15,22 +15,19 @@ export const GET: APIRoute = async () => {
     let citySitemapCount = 4; // Default to 4 files (covers 40k cities: sitemap-2 through sitemap-5)
     
     // Try to get actual city count to calculate needed sitemap files
-    if (supabase) {
-      try {
-        const { count } = await supabase
-          .from('cities')
-          .select('*', { count: 'exact', head: true });
-        
-        if (count !== null) {
-          // Calculate: (city count / URLs_PER_SITEMAP) rounded up
-          // 40k cities = 4 files, 45k cities = 5 files
-          citySitemapCount = Math.ceil(count / URLS_PER_SITEMAP);
-          // Ensure minimum of 1 and maximum reasonable limit (10 files = 100k cities)
-          citySitemapCount = Math.max(1, Math.min(citySitemapCount, 10));
-        }
-      } catch (e) {
-        console.error('[Sitemap Index] Error getting city count, using default:', e);
+    try {
+      const count = await getTotalCityCount();
+      
+      // 0 means the count could not be read - keep the default
+      if (count > 0) {
+        // Calculate: (city count / URLs_PER_SITEMAP) rounded up
+        // 40k cities = 4 files, 45k cities = 5 files
+        citySitemapCount = Math.ceil(count / URLS_PER_SITEMAP);
+        // Ensure minimum of 1 and maximum reasonable limit (10 files = 100k cities)
+        citySitemapCount = Math.max(1, Math.min(citySitemapCount, 10));
       }
+    } catch (e) {
+      console.error('[Sitemap Index] Error getting city count, using default:', e);
     }
 
     let xml = `<?xml version="1.0" encoding="UTF-8"?>
@@ -0,0 +1,52 @@
+/**
+ * Content chosen for a few fixed domains, across the city, state, static-page and keyword
+ * generators. A refactor that changes any selection shows up here as a snapshot diff -
+ * update the snapshots (vitest -u) only when changing live sites' content is intended
+ */
+
+import { describe, expect, it } from 'vitest';
+import { getCityContentVariations, getContentVariations } from '../lib/city-content-variations';
+import { getStateContentVariations } from '../lib/state-content-variations';
+import { getMicrocopy } from '../lib/microcopy-variations';
+import { getEnabledKeywords } from '../lib/variations/keyword-config';
+import { loadKeywordVariations } from '../lib/variations/shared/keyword-loader';
+
+const FIXED_DOMAINS = ['example.com', 'free-government-phone.org', 'lifeline-help.net'];
+
+describe.each(FIXED_DOMAINS)('content for %s', (domain) => {
+  it('city page', () => {
+    expect(getCityContentVariations(domain, 'Springfield', 'IL', 114394)).toMatchSnapshot();
+    expect(getCityContentVariations(domain, 'Springfield', 'IL', 114394, 'es')).toMatchSnapshot();
+  });
+
+  it('state page', () => {
+    expect(getStateContentVariations(domain, 'Illinois', 'Springfield', 1200)).toMatchSnapshot();
+  });
+
+  it('homepage and microcopy', () => {
+    expect(getContentVariations(domain)).toMatchSnapshot();
+    expect(getMicrocopy(domain)).toMatchSnapshot();
+  });
+
+  it.each(getEnabledKeywords().map(keyword => keyword.id))('keyword module %s', async (keywordId) => {
+    const variations = await loadKeywordVariations(keywordId);
+
+    expect({
+      h1: {
+        home: variations.getH1Variation(domain, 'home').h1,
+        city: variations.getH1Variation(domain, 'city', 'Springfield', 'IL').h1,
+        cityEs: variations.getH1Variation(domain, 'city', 'Springfield', 'IL', 'es').h1,
+      },
+      h2: [0, 1, 2].map(position => variations.getH2Variation(domain, 'home', position)),
+      h3: [0, 1, 2].map(position => variations.getH3Variation(domain, 'city', position)),
+      meta: {
+        home: variations.getMetaVariations('Example Site', domain, 'home'),
+        city: variations.getMetaVariations('Example Site', domain, 'city', 'Illinois', 'Springfield'),
+        cityEs: variations.getMetaVariations('Example Site', domain, 'city', 'Illinois', 'Springfield', 'es'),
+      },
+      faqs: variations.getFAQVariations(domain, 5).faqs.map(faq => faq.question),
+      apply: variations.getApplyFormContent(domain).headline,
+      cta: variations.getCTAVariation(domain),
+    }).toMatchSnapshot();
+  });
+});
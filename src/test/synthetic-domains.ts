@@ -0,0 +1,52 @@
+/**
+ * Shared helpers for distribution tests - a fixed fleet of synthetic domains
+ * and a chi-square check that selections spread evenly across a pool
+ */
+
+const WORDS = ['free', 'gov', 'phone', 'lifeline', 'help', 'connect', 'wireless', 'assist', 'benefit', 'mobile'];
+const TLDS = ['com', 'org', 'net', 'us', 'info'];
+
+/**
+ * Deterministic domains that look like a real fleet - shared words, sequential numbers, mixed TLDs
+ */
+export function syntheticDomains(count: number): string[] {
+  return Array.from(
+    { length: count },
+    (_, i) => `${WORDS[i % WORDS.length]}-${WORDS[Math.floor(i / WORDS.length) % WORDS.length]}${i}.${TLDS[i % TLDS.length]}`
+  );
+}
+
+// Chi-square critical values at p = 0.001, keyed by bucket count (degrees of freedom + 1)
+const CHI_SQUARE_CRITICAL: Record<number, number> = {
+  7: 22.46,
+  10: 27.88,
+  20: 43.82,
+  50: 85.35,
+};
+
+export const DISTRIBUTION_POOL_SIZES = Object.keys(CHI_SQUARE_CRITICAL).map(Number);
+
+export function chiSquare(counts: number[]): number {
+  const expected = counts.reduce((sum, count) => sum + count, 0) / counts.length;
+  return counts.reduce((sum, count) => sum + (count - expected) ** 2 / expected, 0);
+}
+
+/**
+ * Bucket counts for values in [0, buckets) - throws on anything out of range
+ */
+export function bucketCounts(values: number[], buckets: number): number[] {
+  const counts = new Array<number>(buckets).fill(0);
+  for (const value of values) {
+    if (!Number.isInteger(value) || value < 0 || value >= buckets) {
+      throw new Error(`Value ${value} is outside 0-${buckets - 1}`);
+    }
+    counts[value]++;
+  }
+  return counts;
+}
+
+export function chiSquareCritical(buckets: number): number {
+  const critical = CHI_SQUARE_CRITICAL[buckets];
+  if (critical === undefined) throw new Error(`No chi-square critical value for ${buckets} buckets`);
+  return critical;
+}
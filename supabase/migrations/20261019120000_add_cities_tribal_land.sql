@@ -0,0 +1,7 @@
+-- Tribal land flag shown on city pages as Enhanced Lifeline (src/lib/tribal-lands.ts)
+-- Filled by scripts/import-tribal-lands.js from the Census AIANNH to Place relationship file
+alter table public.cities
+  add column if not exists tribal_land boolean not null default false,
+  add column if not exists tribal_area text;
+
+create index if not exists cities_tribal_land_idx on public.cities (state_id) where tribal_land;
@@ -0,0 +1,16 @@
+-- ZIP code -> city lookup behind /api/zip and the ZIP search (src/lib/zip-lookup.ts)
+-- Filled by scripts/import-zip-codes.js from the GeoNames US postal code file
+create table if not exists public.zip_codes (
+  zip text primary key check (zip ~ '^\d{5}$'),
+  city text not null,
+  state text not null,             -- uppercase state abbreviation
+  county text,
+  latitude double precision,
+  longitude double precision
+);
+
+-- Read with the anon key; only the service role writes
+alter table public.zip_codes enable row level security;
+
+drop policy if exists "ZIP codes are public" on public.zip_codes;
+create policy "ZIP codes are public" on public.zip_codes for select using (true);
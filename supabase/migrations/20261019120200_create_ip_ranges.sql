@@ -0,0 +1,17 @@
+-- IPv4 range -> region lookup for the visitor's state (src/lib/ip-location.ts)
+-- Filled by scripts/import-ip-ranges.js from the DB-IP IP to City Lite file
+-- Addresses are stored as unsigned integers; ranges do not overlap
+create table if not exists public.ip_ranges (
+  ip_start bigint primary key check (ip_start between 0 and 4294967295),
+  ip_end bigint not null check (ip_end >= ip_start and ip_end <= 4294967295),
+  region text not null,            -- uppercase state abbreviation
+  city text,
+  latitude double precision not null,
+  longitude double precision not null
+);
+
+-- Read with the anon key; only the service role writes
+alter table public.ip_ranges enable row level security;
+
+drop policy if exists "IP ranges are public" on public.ip_ranges;
+create policy "IP ranges are public" on public.ip_ranges for select using (true);
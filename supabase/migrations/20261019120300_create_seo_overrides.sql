@@ -0,0 +1,26 @@
+-- Per-page meta overrides edited at /admin/seo and applied by Layout.astro (src/lib/seo-overrides.ts)
+-- Rows are written by saveSeoOverride, which upserts on (page_type, state, city)
+create table if not exists public.seo_overrides (
+  id bigint generated by default as identity primary key,
+  page_type text not null,         -- a key of SEO_PAGE_TYPES
+  state text,                      -- lowercase state abbreviation, null for every state
+  city text,                       -- city slug, null for every city in the state
+  title text,
+  description text,
+  og_title text,
+  og_description text,
+  keywords text,
+  canonical_url text,
+  json_ld text,
+  updated_at timestamptz not null default now(),
+  check (city is null or state is not null),
+  -- One row per scope; page-wide and state-wide rows have null city/state, so nulls
+  -- must compare equal for the upsert to find them (Postgres 15+)
+  constraint seo_overrides_scope_key unique nulls not distinct (page_type, state, city)
+);
+
+-- Read with the anon key; only the service role writes
+alter table public.seo_overrides enable row level security;
+
+drop policy if exists "SEO overrides are public" on public.seo_overrides;
+create policy "SEO overrides are public" on public.seo_overrides for select using (true);
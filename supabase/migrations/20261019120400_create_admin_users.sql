@@ -0,0 +1,22 @@
+-- Admin accounts checked by /admin/login (src/lib/admin-auth.ts)
+-- Emails are stored lowercase - the login form lowercases what it looks up
+--
+-- Creating the first admin: hash the password with bcrypt at cost 12 (what hashPassword
+-- uses), then insert the row from the Supabase SQL editor or psql:
+--
+--   node -e "require('bcrypt').hash(process.argv[1], 12).then(console.log)" 'the-password'
+--
+--   insert into public.admin_users (email, password_hash)
+--   values ('admin@example.com', '$2b$12$...');
+--
+-- ADMIN_EMAIL + ADMIN_PASSWORD_HASH (the same kind of hash) in the environment also sign in
+-- for an email with no row here, e.g. before the table is filled
+create table if not exists public.admin_users (
+  id bigint generated by default as identity primary key,
+  email text not null unique check (email = lower(email)),
+  password_hash text not null,
+  created_at timestamptz not null default now()
+);
+
+-- Only the service role reads or writes; no policies, so the anon key sees nothing
+alter table public.admin_users enable row level security;
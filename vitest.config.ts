@@ -0,0 +1,9 @@
+/// <reference types="vitest/config" />
+import { getViteConfig } from 'astro/config';
+
+// Tests run through Astro's Vite setup so import.meta.env and module resolution match the app
+export default getViteConfig({
+  test: {
+    include: ['src/**/*.test.ts'],
+  },
+});